@@ -1,674 +1,443 @@
 "use client";
 
-import * as Papa from "papaparse";
-import {
-  type ChangeEvent,
-  type DragEvent,
-  useCallback,
-  useEffect,
-  useMemo,
-  useRef,
-  useState,
-} from "react";
+import { useCallback, useState } from "react";
+import AccountMetadataPanel from "@/components/AccountMetadataPanel";
 import AccountSelector from "@/components/AccountSelector";
+import AnomalyPanel from "@/components/AnomalyPanel";
+import BudgetPanel from "@/components/BudgetPanel";
+import CategoryDrillDownPanel from "@/components/CategoryDrillDownPanel";
+import CategorySelector from "@/components/CategorySelector";
+import ComparisonView from "@/components/ComparisonView";
+import DataHealthPanel from "@/components/DataHealthPanel";
+import DonutChart from "@/components/DonutChart";
+import DrillDownPanel from "@/components/DrillDownPanel";
+import ExchangeRatePanel from "@/components/ExchangeRatePanel";
+import ExportMenu from "@/components/ExportMenu";
+import ForecastControls from "@/components/ForecastControls";
+import GroupSelector from "@/components/GroupSelector";
+import ImportLogPanel from "@/components/ImportLogPanel";
+import ImportMappingDialog from "@/components/ImportMappingDialog";
+import ImportMappingPanel from "@/components/ImportMappingPanel";
 import MonthSelector from "@/components/MonthSelector";
+import PivotTable from "@/components/PivotTable";
+import PresetPanel from "@/components/PresetPanel";
+import SeriesColorPanel from "@/components/SeriesColorPanel";
+import ServiceCategoryPanel from "@/components/ServiceCategoryPanel";
 import ServiceSelector from "@/components/ServiceSelector";
+import SharePanel from "@/components/SharePanel";
 import StackedBarChart from "@/components/StackedBarChart";
+import TopNControls from "@/components/TopNControls";
+import TreemapChart from "@/components/TreemapChart";
+import TrendChart from "@/components/TrendChart";
 import UploadPanel from "@/components/UploadPanel";
-import {
-  extractAccountFromFileName,
-  extractMonthFromFileName,
-  normalizeCost,
-} from "@/lib/csv";
-
-type MonthlyReport = {
-  month: string;
-  services: Record<string, number>;
-  total: number;
-  fileName: string;
-  accountId?: string;
-};
-
-type ParseSuccess = {
-  report: MonthlyReport;
-  warnings: string[];
-};
-
-type ChartRow = {
-  month: string;
-  services: Record<string, number>;
-};
-
-// カラム欠損時に reject で投げる専用エラー（processFiles 側で warnings に振り分ける）
-class ColumnWarning extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = "ColumnWarning";
-  }
-}
-
-const currencyFormatter = new Intl.NumberFormat("en-US", {
-  style: "currency",
-  currency: "USD",
-  minimumFractionDigits: 2,
-  maximumFractionDigits: 2,
-});
-
-const parseMonthlyReport = (file: File): Promise<ParseSuccess> =>
-  new Promise((resolve, reject) => {
-    const month = extractMonthFromFileName(file.name);
-    const accountId = extractAccountFromFileName(file.name) ?? undefined;
-
-    if (!month) {
-      reject(new Error(`ファイル名から月を特定できませんでした: ${file.name}`));
-      return;
-    }
-
-    Papa.parse<Record<string, string>>(file, {
-      header: true,
-      skipEmptyLines: "greedy",
-      complete: (results: Papa.ParseResult<Record<string, string>>) => {
-        const services: Record<string, number> = {};
-        let total = 0;
-
-        for (const row of results.data) {
-          const service = row.product_name?.trim();
-          if (!service) {
-            continue;
-          }
-
-          const cost = normalizeCost(row.cost);
-          if (cost === 0) {
-            continue;
-          }
-
-          services[service] = (services[service] ?? 0) + cost;
-          total += cost;
-        }
-
-        // check for required columns; reject as ColumnWarning to skip report registration
-        const fields = results.meta.fields ?? [];
-        const missingColumns = (["product_name", "cost"] as const).filter(
-          (col) => !fields.includes(col),
-        );
-        if (missingColumns.length > 0) {
-          reject(
-            new ColumnWarning(
-              `「${file.name}」: 必須カラム（${missingColumns.join(", ")}）が見つかりません。データは取り込まれませんでした。`,
-            ),
-          );
-          return;
-        }
-
-        const warnings =
-          results.errors.length > 0
-            ? results.errors.slice(0, 5).map((error: Papa.ParseError) => {
-                const rowLabel =
-                  typeof error.row === "number"
-                    ? `行 ${error.row}`
-                    : "不明な行";
-                return `「${file.name}」${rowLabel}: ${error.message}`;
-              })
-            : [];
-
-        resolve({
-          report: {
-            month,
-            services,
-            total,
-            fileName: file.name,
-            accountId,
-          },
-          warnings,
-        });
-      },
-      error: (error: Error) => {
-        reject(
-          new Error(
-            `「${file.name}」の読み込みに失敗しました: ${error.message}`,
-          ),
-        );
-      },
-    });
-  });
-
-// chart rendering moved to components/StackedBarChart
+import { useAccounts } from "@/hooks/useAccounts";
+import { useAnomalies } from "@/hooks/useAnomalies";
+import { useBudgets } from "@/hooks/useBudgets";
+import { useChartData } from "@/hooks/useChartData";
+import { useComparison } from "@/hooks/useComparison";
+import { useCurrency } from "@/hooks/useCurrency";
+import { useDataHealth } from "@/hooks/useDataHealth";
+import { useDrillDown } from "@/hooks/useDrillDown";
+import { useExports } from "@/hooks/useExports";
+import { useForecast } from "@/hooks/useForecast";
+import { useImport } from "@/hooks/useImport";
+import { useMonths } from "@/hooks/useMonths";
+import { useReports } from "@/hooks/useReports";
+import { useSeriesColors } from "@/hooks/useSeriesColors";
+import { useServices } from "@/hooks/useServices";
+import { useViewState } from "@/hooks/useViewState";
+import { TIME_UNITS } from "@/lib/aggregate";
+import { CHART_TYPE_LABELS, type ChartType } from "@/lib/chartViews";
+import { BASE_CURRENCY, DISPLAY_CURRENCIES } from "@/lib/currency";
+import { findImportMapping } from "@/lib/importMappings";
+import { PREVIOUS_PERIOD_LABELS, TIME_UNIT_LABELS } from "@/lib/periods";
+import type { ViewState } from "@/lib/viewState";
+
+// each feature keeps its state and effects in a hook under src/hooks; the page wires them together
 
 export default function Home() {
-  const fileInputRef = useRef<HTMLInputElement | null>(null);
-  // allow multiple reports per month (different AWS accounts)
-  const [reportsByMonth, setReportsByMonth] = useState<
-    Record<string, MonthlyReport[]>
-  >({});
+  // messages shown in the upload panel (import results, failed settings imports, ...)
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [warnings, setWarnings] = useState<string[]>([]);
-  const [isParsing, setIsParsing] = useState(false);
-  const [isDragActive, setIsDragActive] = useState(false);
-
-  const processFiles = useCallback(async (files: File[]) => {
-    if (files.length === 0) {
-      return;
-    }
-
-    setIsParsing(true);
-
-    try {
-      const results = await Promise.allSettled(
-        files.map((file) => parseMonthlyReport(file)),
-      );
-
-      const nextReports: MonthlyReport[] = [];
-      const nextWarnings: string[] = [];
-      const failures: string[] = [];
-
-      results.forEach((result, index) => {
-        const fileName = files[index]?.name ?? "不明なファイル";
-
-        if (result.status === "fulfilled") {
-          nextReports.push(result.value.report);
-          nextWarnings.push(...result.value.warnings);
-        } else {
-          const reason = result.reason;
-          if (reason instanceof ColumnWarning) {
-            nextWarnings.push(reason.message);
-          } else {
-            failures.push(
-              reason instanceof Error
-                ? reason.message
-                : `「${fileName}」の取り込み中に不明なエラーが発生しました。`,
-            );
-          }
-        }
-      });
-
-      if (nextReports.length > 0) {
-        setReportsByMonth((prev) => {
-          const updated: Record<string, MonthlyReport[]> = { ...prev };
-
-          nextReports.forEach((report) => {
-            const arr = [...(updated[report.month] ?? [])];
-            const key = report.accountId ?? report.fileName;
-            const existingIndex = arr.findIndex(
-              (r) => (r.accountId ?? r.fileName) === key,
-            );
-            if (existingIndex >= 0) {
-              arr[existingIndex] = report;
-            } else {
-              arr.push(report);
-            }
-            updated[report.month] = arr;
-          });
-
-          return updated;
-        });
-      }
-
-      setWarnings(nextWarnings.slice(0, 5));
-      setErrorMessage(failures.length > 0 ? failures.join("\n") : null);
-    } finally {
-      setIsParsing(false);
-    }
-  }, []);
-
-  const handleFileSelection = useCallback(
-    async (event: ChangeEvent<HTMLInputElement>) => {
-      const fileList = event.target.files;
-      const files = fileList ? Array.from(fileList) : [];
-
-      await processFiles(files);
-
-      // 同じファイルを再度選択できるように値をリセット
-      event.target.value = "";
-    },
-    [processFiles],
-  );
 
-  const handleDragOver = useCallback((event: DragEvent<HTMLElement>) => {
-    event.preventDefault();
-    event.dataTransfer.dropEffect = "copy";
-    setIsDragActive(true);
-  }, []);
-
-  const handleDragLeave = useCallback((event: DragEvent<HTMLElement>) => {
-    event.preventDefault();
-    const relatedTarget = event.relatedTarget as Node | null;
-    if (relatedTarget && event.currentTarget.contains(relatedTarget)) {
-      return;
-    }
-    setIsDragActive(false);
-  }, []);
-
-  const handleDrop = useCallback(
-    async (event: DragEvent<HTMLElement>) => {
-      event.preventDefault();
-      setIsDragActive(false);
-
-      const items = event.dataTransfer?.items;
-      let files: File[] = [];
-
-      if (items) {
-        files = Array.from(items)
-          .filter((item) => item.kind === "file")
-          .map((item) => item.getAsFile())
-          .filter((file): file is File => Boolean(file));
-      } else {
-        files = Array.from(event.dataTransfer?.files ?? []);
-      }
-
-      await processFiles(files);
+  const {
+    reportsByMonth,
+    reportsByMonthRef,
+    sortedMonths,
+    hasRestoredReports,
+    isPersisting,
+    forgetStoredReports,
+    resumePersistence,
+    reportReplacements,
+    clearReportReplacements,
+    addReports,
+    clearReports,
+  } = useReports(setErrorMessage);
+  const clearReportsAndMessages = useCallback(() => {
+    clearReports();
+    setWarnings([]);
+    setErrorMessage(null);
+  }, [clearReports]);
+
+  const {
+    fileInputRef,
+    isParsing,
+    importProgress,
+    isDragActive,
+    cancelImport,
+    importMappings,
+    deleteImportMapping,
+    pendingImports,
+    confirmPendingImport,
+    skipPendingImport,
+    importLog,
+    clearImportLog,
+    exportImportLog,
+    handleFileSelection,
+    handleDragOver,
+    handleDragLeave,
+    handleDrop,
+    handleBrowseClick,
+  } = useImport({
+    reportsByMonthRef,
+    addReports,
+    setErrorMessage,
+    setWarnings,
+  });
+
+  const {
+    accounts,
+    selectedAccounts,
+    setSelectedAccounts,
+    hasInitializedAccounts,
+    accountFilter,
+    setAccountFilter,
+    filteredAccounts,
+    toggleAccount,
+    selectAllAccounts,
+    clearSelectedAccounts,
+    accountMetadata,
+    hasLoadedAccountMetadata,
+    accountLabels,
+    updateAccountMetadata,
+    importAccountMetadata,
+    exportAccountMetadata,
+    groupDimensions,
+    activeGroupDimension,
+    setGroupDimension,
+    groups,
+    groupsByDimension,
+    accountGroups,
+    selectedGroups,
+    toggleGroup,
+    selectAllGroups,
+    clearSelectedGroups,
+    restoreGroupSelection,
+    effectiveAccounts,
+  } = useAccounts(reportsByMonth, setErrorMessage);
+
+  const {
+    services,
+    allServices,
+    selectedServices,
+    setSelectedServices,
+    serviceFilter,
+    setServiceFilter,
+    filteredServices,
+    toggleService,
+    selectAllServices,
+    clearSelectedServices,
+    categoryOverrides,
+    updateCategoryOverride,
+    resetCategoryOverrides,
+    importCategoryOverrides,
+    exportCategoryOverrides,
+    serviceCategories,
+    categories,
+    selectedCategories,
+    setSelectedCategories,
+    toggleCategory,
+    selectAllCategories,
+    clearSelectedCategories,
+    effectiveServices,
+  } = useServices({
+    reportsByMonth,
+    selectedAccounts,
+    hasInitializedAccounts,
+    onError: setErrorMessage,
+  });
+
+  const {
+    timeUnit,
+    setTimeUnit,
+    fiscalStartMonth,
+    setFiscalStartMonth,
+    selectedMonths,
+    setSelectedMonths,
+    monthFilter,
+    setMonthFilter,
+    filteredMonths,
+    toggleMonth,
+    selectAllMonths,
+    clearSelectedMonths,
+    selectMonths,
+    monthShortcuts,
+    monthPeriodLabels,
+  } = useMonths(sortedMonths);
+
+  const {
+    currencySettings,
+    appliedRates,
+    displayCurrency,
+    currencyFormatter,
+    displayReportsByMonth,
+    setDisplayCurrency,
+    updateExchangeRate,
+    importExchangeRates,
+    exportExchangeRates,
+    ratePeriodNotes,
+  } = useCurrency({
+    reportsByMonth,
+    sortedMonths,
+    timeUnit,
+    onError: setErrorMessage,
+  });
+
+  const {
+    aggregationMode,
+    setAggregationMode,
+    chartType,
+    setChartType,
+    topNOptions,
+    setTopNOptions,
+    topNUnavailableReason,
+    aggregateFilters,
+    fullFilters,
+    rows: filteredChartData,
+    series: displayedSeries,
+    others: othersSeries,
+    totalCost,
+    seriesLabels,
+    labeledChart,
+    incompletePeriods,
+    incompletePeriodLabels,
+    treemapBreakdown,
+  } = useChartData({
+    displayReportsByMonth,
+    months: selectedMonths,
+    timeUnit,
+    fiscalStartMonth,
+    accounts: effectiveAccounts,
+    services: effectiveServices,
+    allAccounts: accounts,
+    allServices,
+    groups: selectedGroups,
+    accountGroups,
+    hasGroupDimension: activeGroupDimension !== null,
+    hasLoadedAccountMetadata,
+    categories: selectedCategories,
+    serviceCategories,
+    accountLabels,
+  });
+
+  const {
+    seriesColorSettings,
+    seriesColors,
+    setPalette,
+    setSeriesColor,
+    resetSeriesColors,
+  } = useSeriesColors(displayedSeries);
+
+  // called after the auto-select hooks above so that the shared selection wins over
+  // "select newly added items"
+  const applyViewState = useCallback(
+    (state: ViewState) => {
+      if (state.accounts) setSelectedAccounts(state.accounts);
+      if (state.months) setSelectedMonths(state.months);
+      if (state.services) setSelectedServices(state.services);
+      restoreGroupSelection(state.groupDimension, state.groups);
+      if (state.categories) setSelectedCategories(state.categories);
+      if (state.groupBy) setAggregationMode(state.groupBy);
+      if (state.timeUnit) setTimeUnit(state.timeUnit);
+      if (state.fiscalStartMonth) setFiscalStartMonth(state.fiscalStartMonth);
+      if (state.chartType) setChartType(state.chartType);
+      if (state.topN) setTopNOptions(state.topN);
     },
-    [processFiles],
+    [
+      setSelectedAccounts,
+      setSelectedMonths,
+      setSelectedServices,
+      restoreGroupSelection,
+      setSelectedCategories,
+      setAggregationMode,
+      setTimeUnit,
+      setFiscalStartMonth,
+      setChartType,
+      setTopNOptions,
+    ],
   );
+  const {
+    missingViewItems,
+    dismissMissingViewItems,
+    copyShareLink,
+    presets,
+    savePreset,
+    applyPreset,
+    renamePreset,
+    deletePreset,
+    importPresets,
+    exportPresets,
+  } = useViewState({
+    isReady: hasRestoredReports,
+    available: {
+      accounts,
+      months: sortedMonths,
+      services: allServices,
+      groups,
+      categories,
+    },
+    groupsByDimension,
+    current: {
+      accounts: selectedAccounts,
+      months: selectedMonths,
+      services: selectedServices,
+      groups: selectedGroups,
+      categories: selectedCategories,
+      groupDimension: activeGroupDimension,
+      groupBy: aggregationMode,
+      timeUnit,
+      fiscalStartMonth,
+      chartType,
+      topN: topNOptions,
+    },
+    apply: applyViewState,
+    onError: setErrorMessage,
+  });
 
-  const handleBrowseClick = useCallback(() => {
-    fileInputRef.current?.click();
-  }, []);
+  const { dataHealthFindings, focusAccountMonth } = useDataHealth({
+    reportsByMonth,
+    sortedMonths,
+    reportReplacements,
+    importLog,
+    setSelectedAccounts,
+    setSelectedMonths,
+    setTimeUnit,
+  });
 
-  const clearReports = useCallback(() => {
-    setReportsByMonth({});
-    setWarnings([]);
-    setErrorMessage(null);
-  }, []);
+  const {
+    addBudget,
+    deleteBudget,
+    importBudgets,
+    exportBudgets,
+    budgetStatuses,
+    overBudgetCount,
+    budgetLines,
+  } = useBudgets({
+    displayReportsByMonth,
+    displayCurrency,
+    accountMetadata,
+    fiscalStartMonth,
+    groupBy: aggregationMode,
+    timeUnit,
+    series: displayedSeries,
+    rows: filteredChartData,
+    groupDimension: activeGroupDimension,
+    onError: setErrorMessage,
+  });
 
-  const sortedMonths = useMemo(
-    () => Object.keys(reportsByMonth).sort((a, b) => a.localeCompare(b)),
-    [reportsByMonth],
-  );
+  const { exportCsv, exportPng, exportSvg } = useExports({
+    groupBy: aggregationMode,
+    timeUnit,
+    accounts: effectiveAccounts,
+    months: selectedMonths,
+    services: effectiveServices,
+    currency: displayCurrency,
+    availableAccounts: accounts,
+    availableServices: services,
+    topN: fullFilters ? topNOptions : null,
+    labeledChart,
+    series: displayedSeries,
+    seriesLabels,
+    seriesColors,
+    incompletePeriods: incompletePeriodLabels,
+    budgetLines,
+    onError: setErrorMessage,
+  });
 
-  // removed activeView/year view (内訳 section) per user request
-
-  // derive list of accounts (accountId or fallback to fileName)
-  const accounts = useMemo(() => {
-    const set = new Set<string>();
-    Object.values(reportsByMonth).forEach((arr) => {
-      (arr ?? []).forEach((r) => {
-        set.add(r.accountId ?? r.fileName);
-      });
-    });
-    return Array.from(set).sort();
-  }, [reportsByMonth]);
-
-  const [selectedAccounts, setSelectedAccounts] = useState<string[]>([]);
-  const [accountFilter, setAccountFilter] = useState("");
-  const hasInitializedAccounts = useRef(false);
-  const prevAccountsRef = useRef<Set<string>>(new Set());
-  useEffect(() => {
-    const newAccounts = accounts.filter((a) => !prevAccountsRef.current.has(a));
-    if (newAccounts.length > 0) {
-      setSelectedAccounts((prev) => {
-        const prevSet = new Set(prev);
-        const toAdd = newAccounts.filter((a) => !prevSet.has(a));
-        return toAdd.length > 0 ? [...prev, ...toAdd] : prev;
-      });
-      if (!hasInitializedAccounts.current) {
-        hasInitializedAccounts.current = true;
-      }
-    }
-    prevAccountsRef.current = new Set(accounts);
-  }, [accounts]);
-
-  const toggleAccount = useCallback((acc: string) => {
-    setSelectedAccounts((prev) =>
-      prev.includes(acc) ? prev.filter((a) => a !== acc) : [...prev, acc],
-    );
-  }, []);
-  const selectAllAccounts = useCallback(
-    () => setSelectedAccounts([...accounts]),
-    [accounts],
-  );
-  const clearSelectedAccounts = useCallback(() => setSelectedAccounts([]), []);
-
-  const filteredAccounts = useMemo(() => {
-    const term = accountFilter.trim().toLowerCase();
-    return accounts.filter((s) =>
-      term === "" ? true : s.toLowerCase().includes(term),
-    );
-  }, [accounts, accountFilter]);
-
-  // chart data: aggregate services across reports for the selected accounts per month
-  const chartData = useMemo<ChartRow[]>(() => {
-    return sortedMonths.map((month) => {
-      const arr = reportsByMonth[month] ?? [];
-      const services: Record<string, number> = {};
-      const allowed = new Set(selectedAccounts);
-      (arr ?? []).forEach((r) => {
-        const key = r.accountId ?? r.fileName;
-        if (hasInitializedAccounts.current && !allowed.has(key)) return;
-        Object.entries(r.services).forEach(([svc, cost]) => {
-          services[svc] = (services[svc] ?? 0) + cost;
-        });
-      });
-      return { month, services };
-    });
-  }, [reportsByMonth, sortedMonths, selectedAccounts]);
-
-  const services = useMemo(() => {
-    const totals = new Map<string, number>();
-    const allowed = new Set(selectedAccounts);
-
-    Object.values(reportsByMonth).forEach((arr) => {
-      (arr ?? []).forEach((report) => {
-        const key = report.accountId ?? report.fileName;
-        if (hasInitializedAccounts.current && !allowed.has(key)) return;
-        Object.entries(report.services).forEach(([service, cost]) => {
-          totals.set(service, (totals.get(service) ?? 0) + (cost as number));
-        });
-      });
-    });
-
-    return Array.from(totals.entries())
-      .sort((a, b) => b[1] - a[1])
-      .map(([service]) => service);
-  }, [reportsByMonth, selectedAccounts]);
-
-  const [selectedServices, setSelectedServices] = useState<string[]>([]);
-  const [serviceFilter, setServiceFilter] = useState("");
-  // default: select all services when services first become available; auto-select newly added services
-  // allKnownServicesRef grows only (never shrinks) to avoid re-selecting services the user intentionally
-  // deselected when they temporarily disappear due to account filter changes.
-  const hasInitializedServices = useRef(false);
-  const allKnownServicesRef = useRef<Set<string>>(new Set());
-  useEffect(() => {
-    const newSvcs = services.filter((s) => !allKnownServicesRef.current.has(s));
-    if (newSvcs.length > 0) {
-      setSelectedServices((prev) => {
-        const prevSet = new Set(prev);
-        const toAdd = newSvcs.filter((s) => !prevSet.has(s));
-        return toAdd.length > 0 ? [...prev, ...toAdd] : prev;
-      });
-      for (const s of newSvcs) allKnownServicesRef.current.add(s);
-      if (!hasInitializedServices.current) {
-        hasInitializedServices.current = true;
-      }
-    }
-  }, [services]);
-
-  const toggleService = useCallback((service: string) => {
-    setSelectedServices((prev) => {
-      if (prev.includes(service)) {
-        return prev.filter((s) => s !== service);
-      }
-      return [...prev, service];
-    });
-  }, []);
-
-  const selectAllServices = useCallback(
-    () => setSelectedServices([...services]),
-    [services],
-  );
-  const clearSelectedServices = useCallback(() => setSelectedServices([]), []);
-  const selectTop10 = useCallback(
-    () => setSelectedServices(services.slice(0, 10)),
-    [services],
-  );
+  const {
+    comparisonMode,
+    setComparisonMode,
+    setComparisonPeriod,
+    comparisonPeriods,
+    comparison,
+  } = useComparison({
+    displayReportsByMonth,
+    aggregateFilters,
+    fullFilters,
+    sortedMonths,
+    groupBy: aggregationMode,
+    timeUnit,
+    fiscalStartMonth,
+    rows: filteredChartData,
+    series: displayedSeries,
+    seriesLabels,
+  });
 
-  const filteredServices = useMemo(() => {
-    const term = serviceFilter.trim().toLowerCase();
-    return services.filter((s) =>
-      term === "" ? true : s.toLowerCase().includes(term),
-    );
-  }, [services, serviceFilter]);
-
-  const displayedServices = useMemo(() => {
-    // Do not fallback to all services when nothing is selected.
-    // If user clears all, displayedServices should be empty.
-    return selectedServices;
-  }, [selectedServices]);
-
-  // aggregation mode: 'service' (default) or 'account'
-  const [aggregationMode, setAggregationMode] = useState<"service" | "account">(
-    "service",
-  );
+  const {
+    anomalyRule,
+    setAnomalyRule,
+    anomalies,
+    isMonthlyServiceChart,
+    anomalyHighlights,
+  } = useAnomalies({
+    displayReportsByMonth,
+    aggregateFilters,
+    months: selectedMonths,
+    groupBy: aggregationMode,
+    timeUnit,
+    appliedRates,
+  });
 
-  // time unit: 'month' or 'year' (controls whether chart groups by month or by year)
-  const [timeUnit, setTimeUnit] = useState<"month" | "year">("month");
-
-  // series names for the chart depending on mode
-  const displayedSeries = useMemo(() => {
-    if (aggregationMode === "service") return displayedServices;
-    // account mode: use selectedAccounts (preserve order)
-    return selectedAccounts;
-  }, [aggregationMode, displayedServices, selectedAccounts]);
-
-  // Months selection (年月) - default: all selected
-  const [selectedMonths, setSelectedMonths] = useState<string[]>([]);
-  const [monthFilter, setMonthFilter] = useState("");
-
-  // default: select all months when months first become available; auto-select newly added months
-  const hasInitializedMonths = useRef(false);
-  const prevMonthsRef = useRef<Set<string>>(new Set());
-  useEffect(() => {
-    const newMonths = sortedMonths.filter((m) => !prevMonthsRef.current.has(m));
-    if (newMonths.length > 0) {
-      setSelectedMonths((prev) => {
-        const prevSet = new Set(prev);
-        const toAdd = newMonths.filter((m) => !prevSet.has(m));
-        return toAdd.length > 0 ? [...prev, ...toAdd] : prev;
-      });
-      if (!hasInitializedMonths.current) {
-        hasInitializedMonths.current = true;
-      }
-    }
-    prevMonthsRef.current = new Set(sortedMonths);
-  }, [sortedMonths]);
-
-  const toggleMonth = useCallback((month: string) => {
-    setSelectedMonths((prev) => {
-      if (prev.includes(month)) return prev.filter((m) => m !== month);
-      return [...prev, month];
-    });
-  }, []);
-
-  const selectAllMonths = useCallback(
-    () => setSelectedMonths([...sortedMonths]),
-    [sortedMonths],
-  );
-  const clearSelectedMonths = useCallback(() => setSelectedMonths([]), []);
-
-  const filteredMonths = useMemo(() => {
-    const term = monthFilter.trim().toLowerCase();
-    return sortedMonths.filter((m) =>
-      term === "" ? true : m.toLowerCase().includes(term),
-    );
-  }, [sortedMonths, monthFilter]);
-
-  const displayedMonths = useMemo(() => {
-    // Do not fallback to all months when nothing is selected.
-    return selectedMonths;
-  }, [selectedMonths]);
-
-  // account-based chart data: per-month totals per account
-  const accountChartData = useMemo<ChartRow[]>(() => {
-    return sortedMonths.map((month) => {
-      const arr = reportsByMonth[month] ?? [];
-      const accountsMap: Record<string, number> = {};
-      const allowedServices = new Set(selectedServices);
-      (arr ?? []).forEach((r) => {
-        const key = r.accountId ?? r.fileName;
-        let sum = 0;
-        // If no services are selected, don't include any service costs (sum stays 0).
-        if (selectedServices.length > 0) {
-          Object.entries(r.services).forEach(([svc, cost]) => {
-            if (!allowedServices.has(svc)) return;
-            sum += cost as number;
-          });
-        }
-        accountsMap[key] = (accountsMap[key] ?? 0) + sum;
-      });
-      return { month, services: accountsMap };
-    });
-  }, [reportsByMonth, sortedMonths, selectedServices]);
-
-  // yearly aggregation for services (group selected months into years)
-  const yearlyServiceChartData = useMemo<ChartRow[]>(() => {
-    // if no months selected, return empty
-    if (!displayedMonths || displayedMonths.length === 0) return [];
-    const years: Record<string, Record<string, number>> = {};
-    const allowedAccounts = new Set(selectedAccounts);
-    const allowedServices = new Set(selectedServices);
-
-    for (const month of displayedMonths) {
-      const year = month.split("-")[0];
-      const arr = reportsByMonth[month] ?? [];
-      if (!years[year]) years[year] = {};
-      for (const report of arr) {
-        const key = report.accountId ?? report.fileName;
-        if (hasInitializedAccounts.current && !allowedAccounts.has(key))
-          continue;
-        // sum services (respect selectedServices: if none selected, sum 0)
-        if (selectedServices.length > 0) {
-          Object.entries(report.services).forEach(([svc, cost]) => {
-            if (!allowedServices.has(svc)) return;
-            years[year][svc] = (years[year][svc] ?? 0) + (cost as number);
-          });
-        }
-      }
-    }
-
-    // convert to ChartRow[] with year labels
-    return Object.keys(years)
-      .sort()
-      .map((yr) => ({ month: yr, services: years[yr] }));
-  }, [reportsByMonth, displayedMonths, selectedAccounts, selectedServices]);
-
-  // yearly aggregation for accounts (per-year totals per account)
-  const yearlyAccountChartData = useMemo<ChartRow[]>(() => {
-    if (!displayedMonths || displayedMonths.length === 0) return [];
-    const years: Record<string, Record<string, number>> = {};
-    const allowedServices = new Set(selectedServices);
-
-    for (const month of displayedMonths) {
-      const year = month.split("-")[0];
-      const arr = reportsByMonth[month] ?? [];
-      if (!years[year]) years[year] = {};
-      for (const report of arr) {
-        const key = report.accountId ?? report.fileName;
-        let sum = 0;
-        if (selectedServices.length > 0) {
-          Object.entries(report.services).forEach(([svc, cost]) => {
-            if (!allowedServices.has(svc)) return;
-            sum += cost as number;
-          });
-        }
-        years[year][key] = (years[year][key] ?? 0) + sum;
-      }
-    }
-
-    return Object.keys(years)
-      .sort()
-      .map((yr) => ({ month: yr, services: years[yr] }));
-  }, [reportsByMonth, displayedMonths, selectedServices]);
-
-  // filter chartData by selected months and aggregation mode
-  const filteredChartData = useMemo(() => {
-    if (displayedMonths.length === 0) return [];
-
-    if (timeUnit === "month") {
-      const setMonths = new Set(displayedMonths);
-      const source =
-        aggregationMode === "service" ? chartData : accountChartData;
-      return source.filter((row) => setMonths.has(row.month));
-    }
-
-    // year mode: build a set of years from displayedMonths and use yearly sources
-    const setYears = new Set(displayedMonths.map((m) => m.split("-")[0]));
-    const source =
-      aggregationMode === "service"
-        ? yearlyServiceChartData
-        : yearlyAccountChartData;
-    return source.filter((row) => setYears.has(row.month));
-  }, [
-    chartData,
-    accountChartData,
-    displayedMonths,
-    aggregationMode,
+  const {
+    isForecastEnabled,
+    setIsForecastEnabled,
+    forecastOptions,
+    setForecastOptions,
+    forecastUnavailableReason,
+    forecast,
+    chartPeriodNotes,
+  } = useForecast({
     timeUnit,
-    yearlyServiceChartData,
-    yearlyAccountChartData,
-  ]);
-
-  /*
-  const yearlyAggregation = useMemo(() => {
-    const years: Record<
-      string,
-      { services: Record<string, number>; total: number; months: string[] }
-    > = {};
-
-    Object.entries(reportsByMonth).forEach(([month, arr]) => {
-      const year = month.split("-")[0];
-      if (!years[year]) {
-        years[year] = { services: {}, total: 0, months: [] };
-      }
-
-      years[year].months.push(month);
-
-      const allowed = new Set(selectedAccounts);
-      (arr ?? []).forEach((report) => {
-        const key = report.accountId ?? report.fileName;
-        if (selectedAccounts.length > 0 && !allowed.has(key)) return;
-        years[year].total += report.total as number;
-        Object.entries(report.services).forEach(([service, cost]) => {
-          years[year].services[service] =
-            (years[year].services[service] ?? 0) + (cost as number);
-        });
-      });
-    });
-
-    const sortedYears = Object.keys(years).sort((a, b) => a.localeCompare(b));
-
-    return sortedYears.map((year) => ({ year, ...years[year] }));
-  }, [reportsByMonth]);
-
-  // yearly aggregation retained for other uses, but year-specific chart/memo removed
-  */
-
-  const totalCost = useMemo(() => {
-    // sum of costs for currently selected months and series depending on mode
-    if (!displayedMonths || displayedMonths.length === 0) return 0;
-    if (!displayedSeries || displayedSeries.length === 0) return 0;
-    if (hasInitializedAccounts.current && selectedAccounts.length === 0)
-      return 0;
-
-    const allowedAccounts = new Set(selectedAccounts);
-    let sum = 0;
-    for (const month of displayedMonths) {
-      const arr = reportsByMonth[month] ?? [];
-      for (const report of arr) {
-        const key = report.accountId ?? report.fileName;
-        if (hasInitializedAccounts.current && !allowedAccounts.has(key))
-          continue;
-
-        if (aggregationMode === "service") {
-          for (const service of displayedSeries) {
-            sum += Number(report.services[service] ?? 0);
-          }
-        } else {
-          // account mode: sum only selected services for this account
-          const allowedServices = new Set(selectedServices);
-          let accSum = 0;
-          if (selectedServices.length > 0) {
-            Object.entries(report.services).forEach(([svc, cost]) => {
-              if (!allowedServices.has(svc)) return;
-              accSum += Number(cost ?? 0);
-            });
-          }
-          if (displayedSeries.includes(key)) {
-            sum += accSum;
-          }
-        }
-      }
-    }
-    return sum;
-  }, [
-    reportsByMonth,
-    displayedMonths,
-    displayedSeries,
-    selectedAccounts,
-    aggregationMode,
-    selectedServices,
-  ]);
-  // include selectedServices so account-mode totals update when services toggled
-  // include selectedServices so account-mode totals update when services toggled
+    chartType,
+    isComparing: comparison !== null,
+    rows: filteredChartData,
+    series: displayedSeries,
+    incompletePeriods,
+    ratePeriodNotes,
+    currencyFormatter,
+  });
+
+  const {
+    drillDown,
+    drillDownBreakdown,
+    openDrillDown,
+    closeDrillDown,
+    categoryDrillDown,
+    categoryDrillDownBreakdown,
+    openCategoryDrillDown,
+    closeCategoryDrillDown,
+  } = useDrillDown({
+    displayReportsByMonth,
+    accounts: effectiveAccounts,
+    months: selectedMonths,
+    groupBy: aggregationMode,
+    timeUnit,
+    fiscalStartMonth,
+    rows: filteredChartData,
+    series: displayedSeries,
+    services: effectiveServices,
+    serviceCategories,
+  });
 
   return (
     <div className="min-h-screen bg-slate-950 pb-16 text-slate-100">
@@ -693,12 +462,47 @@ export default function Home() {
           onDrop={handleDrop}
           isDragActive={isDragActive}
           isParsing={isParsing}
+          importProgress={importProgress}
+          onCancelImport={cancelImport}
           errorMessage={errorMessage}
           warnings={warnings}
           sortedMonths={sortedMonths}
-          onClearReports={clearReports}
+          onClearReports={clearReportsAndMessages}
+          isPersisting={isPersisting}
+          onForgetStoredReports={forgetStoredReports}
+          onResumePersistence={resumePersistence}
         />
 
+        {importLog.length > 0 && (
+          <ImportLogPanel
+            log={importLog}
+            onDownload={exportImportLog}
+            onClear={clearImportLog}
+          />
+        )}
+
+        {importMappings.length > 0 && (
+          <ImportMappingPanel
+            mappings={importMappings}
+            onDelete={deleteImportMapping}
+          />
+        )}
+
+        {pendingImports[0] && (
+          <ImportMappingDialog
+            // ファイルごとに入力欄を初期化する
+            key={`${pendingImports[0].path}-${pendingImports.length}`}
+            pending={pendingImports[0]}
+            remainingCount={pendingImports.length - 1}
+            savedMapping={findImportMapping(
+              importMappings,
+              pendingImports[0].fields,
+            )}
+            onConfirm={confirmPendingImport}
+            onSkip={skipPendingImport}
+          />
+        )}
+
         <section className="rounded-2xl border border-slate-800 bg-slate-900/60 p-6 shadow-inner shadow-slate-950/50">
           <div className="flex flex-col gap-6">
             <div>
@@ -711,6 +515,24 @@ export default function Home() {
                 件です。
               </p>
 
+              <SharePanel
+                missingItems={missingViewItems}
+                onCopyLink={copyShareLink}
+                onDismissMissing={dismissMissingViewItems}
+              />
+
+              <div className="mt-3">
+                <PresetPanel
+                  presets={presets}
+                  onSave={savePreset}
+                  onApply={applyPreset}
+                  onRename={renamePreset}
+                  onDelete={deletePreset}
+                  onImport={importPresets}
+                  onExport={exportPresets}
+                />
+              </div>
+
               {/* aggregation mode radio */}
               <div className="mt-3 flex items-center gap-4">
                 <label className="flex items-center gap-2 text-sm">
@@ -735,49 +557,178 @@ export default function Home() {
                   />
                   <span className="text-slate-300">アカウント別</span>
                 </label>
-              </div>
-
-              {/* time unit radio: month / year */}
-              <div className="mt-3 flex items-center gap-4">
-                <label className="flex items-center gap-2 text-sm">
+                <label
+                  className="flex items-center gap-2 text-sm"
+                  title={
+                    activeGroupDimension
+                      ? undefined
+                      : "アカウント情報でグループを設定すると選択できます"
+                  }
+                >
                   <input
                     type="radio"
-                    name="timeUnit"
-                    value="month"
-                    checked={timeUnit === "month"}
-                    onChange={() => setTimeUnit("month")}
+                    name="aggregation"
+                    value="group"
+                    checked={aggregationMode === "group"}
+                    onChange={() => setAggregationMode("group")}
+                    disabled={!activeGroupDimension}
                     className="h-4 w-4"
                   />
-                  <span className="text-slate-300">月次</span>
+                  <span
+                    className={
+                      activeGroupDimension ? "text-slate-300" : "text-slate-500"
+                    }
+                  >
+                    グループ別
+                  </span>
                 </label>
                 <label className="flex items-center gap-2 text-sm">
                   <input
                     type="radio"
-                    name="timeUnit"
-                    value="year"
-                    checked={timeUnit === "year"}
-                    onChange={() => setTimeUnit("year")}
+                    name="aggregation"
+                    value="category"
+                    checked={aggregationMode === "category"}
+                    onChange={() => setAggregationMode("category")}
                     className="h-4 w-4"
                   />
-                  <span className="text-slate-300">年次</span>
+                  <span className="text-slate-300">カテゴリ別</span>
                 </label>
               </div>
 
+              {/* time unit radio: month / quarter / year / fiscal year */}
+              <div className="mt-3 flex flex-wrap items-center gap-4">
+                {TIME_UNITS.map((unit) => (
+                  <label key={unit} className="flex items-center gap-2 text-sm">
+                    <input
+                      type="radio"
+                      name="timeUnit"
+                      value={unit}
+                      checked={timeUnit === unit}
+                      onChange={() => setTimeUnit(unit)}
+                      className="h-4 w-4"
+                    />
+                    <span className="text-slate-300">
+                      {TIME_UNIT_LABELS[unit]}
+                    </span>
+                  </label>
+                ))}
+                <label className="flex items-center gap-2 text-xs text-slate-300">
+                  年度の開始月
+                  <select
+                    value={fiscalStartMonth}
+                    onChange={(e) =>
+                      setFiscalStartMonth(Number(e.target.value))
+                    }
+                    className="rounded-md border border-slate-800 bg-slate-900/40 px-2 py-1 text-xs text-slate-200"
+                  >
+                    {Array.from({ length: 12 }, (_, i) => i + 1).map(
+                      (month) => (
+                        <option key={month} value={month}>
+                          {month} 月
+                        </option>
+                      ),
+                    )}
+                  </select>
+                </label>
+              </div>
+
+              {/* comparison radio: none / previous period / same period last year */}
+              <div className="mt-3 flex items-center gap-4">
+                {(
+                  [
+                    ["none", "比較なし"],
+                    ["previous", PREVIOUS_PERIOD_LABELS[timeUnit]],
+                    ["yearAgo", "前年同期比"],
+                  ] as const
+                ).map(([value, label]) => (
+                  <label
+                    key={value}
+                    className="flex items-center gap-2 text-sm"
+                  >
+                    <input
+                      type="radio"
+                      name="comparison"
+                      value={value}
+                      checked={comparisonMode === value}
+                      onChange={() => setComparisonMode(value)}
+                      className="h-4 w-4"
+                    />
+                    <span className="text-slate-300">{label}</span>
+                  </label>
+                ))}
+              </div>
+
               {/* Total cost row */}
               <div className="mt-4 flex w-full justify-center">
                 <div className="rounded-xl border border-slate-800 bg-slate-950/60 p-5 w-full max-w-sm">
-                  <div className="text-sm text-slate-300">合計金額</div>
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="text-sm text-slate-300">合計金額</div>
+                    <label className="flex items-center gap-2 text-xs text-slate-300">
+                      表示通貨
+                      <select
+                        value={currencySettings.currency}
+                        onChange={(e) => setDisplayCurrency(e.target.value)}
+                        className="rounded-md border border-slate-800 bg-slate-900/40 px-2 py-1 text-xs text-slate-200"
+                      >
+                        {DISPLAY_CURRENCIES.map((currency) => (
+                          <option key={currency} value={currency}>
+                            {currency}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  </div>
                   <div className="mt-2 text-3xl font-bold text-slate-50">
                     {currencyFormatter.format(totalCost)}
                   </div>
+                  {overBudgetCount > 0 && (
+                    <div className="mt-2 rounded-md border border-red-800 bg-red-950/40 px-2 py-1 text-xs text-red-200">
+                      予算超過 {overBudgetCount} 件（下の「予算と実績」を参照）
+                    </div>
+                  )}
                 </div>
               </div>
 
-              {/* Selectors row: Account, Month, Service */}
-              <div className="mt-6 grid grid-cols-1 gap-4 md:grid-cols-3">
+              <div className="mt-4">
+                <BudgetPanel
+                  statuses={budgetStatuses}
+                  currency={displayCurrency}
+                  accounts={accounts}
+                  accountLabels={accountLabels}
+                  services={services}
+                  groupsByDimension={groupsByDimension}
+                  onAdd={addBudget}
+                  onDelete={deleteBudget}
+                  onImport={importBudgets}
+                  onExport={exportBudgets}
+                />
+              </div>
+
+              {currencySettings.currency !== BASE_CURRENCY && (
+                <div className="mt-4">
+                  <ExchangeRatePanel
+                    currency={currencySettings.currency}
+                    baseCurrency={BASE_CURRENCY}
+                    months={sortedMonths}
+                    rates={
+                      currencySettings.rates[currencySettings.currency] ?? {}
+                    }
+                    appliedRates={appliedRates}
+                    onRateChange={updateExchangeRate}
+                    onImport={importExchangeRates}
+                    onExport={exportExchangeRates}
+                  />
+                </div>
+              )}
+
+              {/* Selectors row: Account, (Group), Month, Category, Service */}
+              <div
+                className={`mt-6 grid grid-cols-1 gap-4 ${activeGroupDimension ? "md:grid-cols-3 xl:grid-cols-5" : "md:grid-cols-2 xl:grid-cols-4"}`}
+              >
                 <div className="px-0">
                   <AccountSelector
                     filteredAccounts={filteredAccounts}
+                    accountLabels={accountLabels}
                     selectedAccounts={selectedAccounts}
                     toggleAccount={toggleAccount}
                     selectAllAccounts={selectAllAccounts}
@@ -787,6 +738,21 @@ export default function Home() {
                   />
                 </div>
 
+                {activeGroupDimension && (
+                  <div className="px-0">
+                    <GroupSelector
+                      dimensions={groupDimensions}
+                      groupDimension={activeGroupDimension}
+                      setGroupDimension={setGroupDimension}
+                      groups={groups}
+                      selectedGroups={selectedGroups}
+                      toggleGroup={toggleGroup}
+                      selectAllGroups={selectAllGroups}
+                      clearSelectedGroups={clearSelectedGroups}
+                    />
+                  </div>
+                )}
+
                 <div className="px-0">
                   <MonthSelector
                     filteredMonths={filteredMonths}
@@ -796,6 +762,19 @@ export default function Home() {
                     clearSelectedMonths={clearSelectedMonths}
                     monthFilter={monthFilter}
                     setMonthFilter={setMonthFilter}
+                    shortcuts={monthShortcuts}
+                    selectMonths={selectMonths}
+                    periodLabels={monthPeriodLabels}
+                  />
+                </div>
+
+                <div className="px-0">
+                  <CategorySelector
+                    categories={categories}
+                    selectedCategories={selectedCategories}
+                    toggleCategory={toggleCategory}
+                    selectAllCategories={selectAllCategories}
+                    clearSelectedCategories={clearSelectedCategories}
                   />
                 </div>
 
@@ -805,36 +784,236 @@ export default function Home() {
                     selectedServices={selectedServices}
                     toggleService={toggleService}
                     selectAllServices={selectAllServices}
-                    selectTop10={selectTop10}
                     clearSelectedServices={clearSelectedServices}
                     serviceFilter={serviceFilter}
                     setServiceFilter={setServiceFilter}
                   />
                 </div>
               </div>
+
+              {accounts.length > 0 && (
+                <AccountMetadataPanel
+                  accounts={accounts}
+                  metadata={accountMetadata}
+                  dimensions={groupDimensions}
+                  onChange={updateAccountMetadata}
+                  onImport={importAccountMetadata}
+                  onExport={exportAccountMetadata}
+                />
+              )}
+
+              {services.length > 0 && (
+                <ServiceCategoryPanel
+                  services={services}
+                  overrides={categoryOverrides}
+                  categories={categories}
+                  onChange={updateCategoryOverride}
+                  onReset={resetCategoryOverrides}
+                  onImport={importCategoryOverrides}
+                  onExport={exportCategoryOverrides}
+                />
+              )}
+            </div>
+
+            <ExportMenu
+              onExportCsv={exportCsv}
+              onExportPng={exportPng}
+              onExportSvg={exportSvg}
+              disabled={
+                filteredChartData.length === 0 || displayedSeries.length === 0
+              }
+            />
+
+            {/* chart type: stacked bars / line / 100% share / donut / treemap */}
+            <div className="flex flex-wrap items-center gap-4">
+              {(Object.keys(CHART_TYPE_LABELS) as ChartType[]).map((type) => (
+                <label key={type} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="radio"
+                    name="chartType"
+                    value={type}
+                    checked={chartType === type}
+                    onChange={() => setChartType(type)}
+                    className="h-4 w-4"
+                  />
+                  <span className="text-slate-300">
+                    {CHART_TYPE_LABELS[type]}
+                  </span>
+                </label>
+              ))}
             </div>
 
+            <TopNControls
+              options={topNOptions}
+              setOptions={setTopNOptions}
+              othersCount={othersSeries.length}
+              unavailableReason={topNUnavailableReason}
+            />
+
+            <ForecastControls
+              enabled={isForecastEnabled}
+              setEnabled={setIsForecastEnabled}
+              options={forecastOptions}
+              setOptions={setForecastOptions}
+              unavailableReason={forecastUnavailableReason}
+            />
+
             <div className="overflow-hidden rounded-xl border border-slate-800 bg-slate-950/40 w-full">
               {filteredChartData.length === 0 ||
               displayedSeries.length === 0 ? (
                 <div className="flex h-80 w-full items-center justify-center text-sm text-slate-400">
                   まずは CSV ファイルをアップロードしてください。
                 </div>
+              ) : comparison ? (
+                <ComparisonView
+                  periods={comparisonPeriods}
+                  currentPeriod={comparison.currentPeriod}
+                  baselinePeriod={comparison.baselinePeriod}
+                  onPeriodChange={setComparisonPeriod}
+                  rows={comparison.rows}
+                  hasBaseline={comparison.hasBaseline}
+                  currency={displayCurrency}
+                />
               ) : (
                 <div className="h-[480px] w-full">
-                  <StackedBarChart
-                    data={filteredChartData}
-                    services={displayedSeries}
-                    onLegendClick={
-                      aggregationMode === "service"
-                        ? toggleService
-                        : toggleAccount
-                    }
-                    showLegend={false}
-                  />
+                  {chartType === "line" || chartType === "share" ? (
+                    <TrendChart
+                      data={filteredChartData}
+                      services={displayedSeries}
+                      seriesLabels={seriesLabels}
+                      seriesColors={seriesColors}
+                      currency={displayCurrency}
+                      mode={chartType}
+                      incompletePeriods={incompletePeriodLabels}
+                    />
+                  ) : chartType === "donut" ? (
+                    <DonutChart
+                      data={filteredChartData}
+                      services={displayedSeries}
+                      seriesLabels={seriesLabels}
+                      seriesColors={seriesColors}
+                      currency={displayCurrency}
+                    />
+                  ) : chartType === "treemap" ? (
+                    <TreemapChart
+                      breakdown={treemapBreakdown}
+                      seriesColors={seriesColors}
+                      accountLabels={accountLabels}
+                      currency={displayCurrency}
+                    />
+                  ) : (
+                    <StackedBarChart
+                      data={filteredChartData}
+                      services={displayedSeries}
+                      seriesLabels={seriesLabels}
+                      seriesColors={seriesColors}
+                      currency={displayCurrency}
+                      periodNotes={chartPeriodNotes}
+                      incompletePeriods={incompletePeriodLabels}
+                      budgetLines={budgetLines}
+                      forecast={forecast}
+                      onLegendClick={
+                        aggregationMode === "service"
+                          ? toggleService
+                          : aggregationMode === "group"
+                            ? toggleGroup
+                            : aggregationMode === "category"
+                              ? toggleCategory
+                              : toggleAccount
+                      }
+                      onSegmentClick={
+                        aggregationMode === "service"
+                          ? openDrillDown
+                          : aggregationMode === "category"
+                            ? openCategoryDrillDown
+                            : undefined
+                      }
+                      highlights={anomalyHighlights}
+                      showLegend={false}
+                    />
+                  )}
                 </div>
               )}
             </div>
+
+            {!comparison && incompletePeriods.length > 0 && (
+              <p className="text-xs text-amber-200">
+                * 一部の月のデータだけを集計した期間:{" "}
+                {incompletePeriods
+                  .map(
+                    ({ period, expected, months }) =>
+                      `${period}（${expected} か月中 ${months.length} か月）`,
+                  )
+                  .join("、")}
+              </p>
+            )}
+
+            {!comparison && displayedSeries.length > 0 && (
+              <SeriesColorPanel
+                series={displayedSeries}
+                seriesLabels={seriesLabels}
+                seriesColors={seriesColors}
+                palette={seriesColorSettings.palette}
+                customColors={seriesColorSettings.customColors}
+                onPaletteChange={setPalette}
+                onColorChange={setSeriesColor}
+                onReset={resetSeriesColors}
+              />
+            )}
+
+            {!comparison && categoryDrillDown && categoryDrillDownBreakdown && (
+              <CategoryDrillDownPanel
+                category={categoryDrillDown.category}
+                period={categoryDrillDown.period}
+                breakdown={categoryDrillDownBreakdown}
+                currency={displayCurrency}
+                onSelectService={(service) =>
+                  openDrillDown(categoryDrillDown.period, service)
+                }
+                onClose={closeCategoryDrillDown}
+              />
+            )}
+
+            {!comparison && drillDown && drillDownBreakdown && (
+              <DrillDownPanel
+                service={drillDown.service}
+                period={drillDown.period}
+                breakdown={drillDownBreakdown}
+                currency={displayCurrency}
+                onClose={closeDrillDown}
+              />
+            )}
+
+            {!comparison &&
+              filteredChartData.length > 0 &&
+              displayedSeries.length > 0 && (
+                <PivotTable
+                  data={filteredChartData}
+                  series={displayedSeries}
+                  seriesLabels={seriesLabels}
+                  currency={displayCurrency}
+                  incompletePeriods={incompletePeriodLabels}
+                />
+              )}
+
+            {sortedMonths.length > 0 && (
+              <DataHealthPanel
+                findings={dataHealthFindings}
+                accountLabels={accountLabels}
+                onFocus={focusAccountMonth}
+                onClearReplacements={clearReportReplacements}
+              />
+            )}
+
+            {displayedSeries.length > 0 && (
+              <AnomalyPanel
+                anomalies={anomalies}
+                rule={anomalyRule}
+                setRule={setAnomalyRule}
+                currency={displayCurrency}
+                onSelect={isMonthlyServiceChart ? openDrillDown : undefined}
+              />
+            )}
           </div>
         </section>
       </div>
@@ -0,0 +1,163 @@
+"use client";
+
+import { type ChangeEvent, useRef, useState } from "react";
+import type {
+  AccountMetadata,
+  AccountMetadataMap,
+} from "@/lib/accountMetadata";
+
+const buttonClassName =
+  "rounded-md px-2 py-1 text-xs font-medium text-slate-200 border border-slate-800 bg-slate-900/30 disabled:opacity-40";
+
+const inputClassName =
+  "w-full rounded-md border border-slate-800 bg-slate-900/40 px-2 py-1 text-sm text-slate-200 placeholder:text-slate-500";
+
+export default function AccountMetadataPanel({
+  accounts,
+  metadata,
+  dimensions,
+  onChange,
+  onImport,
+  onExport,
+}: {
+  accounts: string[];
+  metadata: AccountMetadataMap;
+  dimensions: string[];
+  onChange: (accountId: string, entry: AccountMetadata) => void;
+  onImport: (file: File) => Promise<void> | void;
+  onExport: () => void;
+}) {
+  const importInputRef = useRef<HTMLInputElement | null>(null);
+  const [newDimension, setNewDimension] = useState("");
+  // 値が未入力でも列として表示するため、追加した分類を一時的に保持する
+  const [addedDimensions, setAddedDimensions] = useState<string[]>([]);
+  const columns = Array.from(new Set([...dimensions, ...addedDimensions]));
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) await onImport(file);
+    event.target.value = "";
+  };
+
+  const entryOf = (accountId: string): AccountMetadata =>
+    metadata[accountId] ?? { groups: {} };
+
+  return (
+    <details className="rounded-xl border border-slate-800 bg-slate-950/60 p-4 w-full">
+      <summary className="cursor-pointer text-sm text-slate-300">
+        アカウント情報（表示名・グループ）
+      </summary>
+      <div className="mt-3 flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={() => importInputRef.current?.click()}
+          className={buttonClassName}
+        >
+          CSV / JSON 読み込み
+        </button>
+        <button
+          type="button"
+          onClick={onExport}
+          disabled={Object.keys(metadata).length === 0}
+          className={buttonClassName}
+        >
+          JSON 書き出し
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          onChange={handleImport}
+          className="sr-only"
+        />
+        <form
+          className="flex gap-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            const dimension = newDimension.trim();
+            if (!dimension) return;
+            setAddedDimensions((prev) =>
+              prev.includes(dimension) ? prev : [...prev, dimension],
+            );
+            setNewDimension("");
+          }}
+        >
+          <input
+            value={newDimension}
+            onChange={(e) => setNewDimension(e.target.value)}
+            placeholder="分類を追加（例: team）"
+            className={inputClassName}
+          />
+          <button type="submit" className={buttonClassName}>
+            追加
+          </button>
+        </form>
+      </div>
+      <p className="mt-2 text-xs text-slate-400">
+        CSV は account_id 列が必須です。alias（または
+        name）列を表示名、それ以外の列を分類として読み込みます。
+      </p>
+      {accounts.length === 0 ? (
+        <p className="mt-3 text-sm text-slate-400">
+          レポートを読み込むとアカウントが表示されます。
+        </p>
+      ) : (
+        <div className="mt-3 max-h-72 overflow-auto">
+          <table className="w-full text-sm">
+            <thead className="text-left text-xs text-slate-400">
+              <tr>
+                <th className="py-1 pr-2 font-medium">アカウント</th>
+                <th className="py-1 pr-2 font-medium">表示名</th>
+                {columns.map((dimension) => (
+                  <th key={dimension} className="py-1 pr-2 font-medium">
+                    {dimension}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="text-slate-200">
+              {accounts.map((accountId) => {
+                const entry = entryOf(accountId);
+                return (
+                  <tr key={accountId} className="border-t border-slate-800">
+                    <td className="py-1 pr-2 font-mono text-xs">{accountId}</td>
+                    <td className="py-1 pr-2">
+                      <input
+                        value={entry.alias ?? ""}
+                        onChange={(e) =>
+                          onChange(accountId, {
+                            ...entry,
+                            alias: e.target.value,
+                          })
+                        }
+                        placeholder="例: payments-prod"
+                        className={inputClassName}
+                      />
+                    </td>
+                    {columns.map((dimension) => (
+                      <td key={dimension} className="py-1 pr-2">
+                        <input
+                          value={entry.groups[dimension] ?? ""}
+                          onChange={(e) =>
+                            onChange(accountId, {
+                              ...entry,
+                              groups: {
+                                ...entry.groups,
+                                [dimension]: e.target.value,
+                              },
+                            })
+                          }
+                          className={inputClassName}
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </details>
+  );
+}
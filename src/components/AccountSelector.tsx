@@ -4,6 +4,7 @@ import type { Dispatch, SetStateAction } from "react";
 
 export default function AccountSelector({
   filteredAccounts,
+  accountLabels,
   selectedAccounts,
   toggleAccount,
   selectAllAccounts,
@@ -12,6 +13,7 @@ export default function AccountSelector({
   setAccountFilter,
 }: {
   filteredAccounts: string[];
+  accountLabels: Record<string, string>;
   selectedAccounts: string[];
   toggleAccount: (acc: string) => void;
   selectAllAccounts: () => void;
@@ -61,7 +63,12 @@ export default function AccountSelector({
                     onChange={() => toggleAccount(acc)}
                     className="h-4 w-4 rounded border-slate-700 bg-slate-800 text-indigo-500 focus:ring-indigo-400"
                   />
-                  <span className="truncate max-w-[12rem]">{acc}</span>
+                  <span
+                    className="truncate max-w-[12rem]"
+                    title={accountLabels[acc] ?? acc}
+                  >
+                    {accountLabels[acc] ?? acc}
+                  </span>
                 </label>
               </li>
             );
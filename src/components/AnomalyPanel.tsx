@@ -0,0 +1,175 @@
+"use client";
+
+import type { Dispatch, SetStateAction } from "react";
+import type { Anomaly, AnomalyRule } from "@/lib/anomaly";
+import { BASE_CURRENCY, getCurrencyFormatter } from "@/lib/currency";
+
+const percentFormatter = new Intl.NumberFormat("en-US", {
+  style: "percent",
+  signDisplay: "exceptZero",
+  maximumFractionDigits: 0,
+});
+
+export default function AnomalyPanel({
+  anomalies,
+  rule,
+  setRule,
+  currency,
+  onSelect,
+}: {
+  anomalies: Anomaly[];
+  rule: AnomalyRule;
+  setRule: Dispatch<SetStateAction<AnomalyRule>>;
+  currency: string;
+  onSelect?: (period: string, service: string) => void;
+}) {
+  const currencyFormatter = getCurrencyFormatter(currency);
+  return (
+    <div className="rounded-xl border border-slate-800 bg-slate-950/60 p-4 w-full">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="text-sm text-slate-300">
+          コスト異常の検出（{anomalies.length} 件）
+        </div>
+        <div className="flex flex-wrap items-center gap-3 text-xs text-slate-300">
+          <label className="flex items-center gap-1">
+            基準
+            <select
+              value={rule.baseline}
+              onChange={(e) =>
+                setRule((prev) => ({
+                  ...prev,
+                  baseline: e.target.value === "mean" ? "mean" : "median",
+                }))
+              }
+              className="rounded-md border border-slate-800 bg-slate-900/40 px-2 py-1 text-slate-200"
+            >
+              <option value="median">直前の中央値</option>
+              <option value="mean">直前の平均</option>
+            </select>
+          </label>
+          <label className="flex items-center gap-1">
+            期間
+            <input
+              type="number"
+              min={1}
+              max={12}
+              value={rule.window}
+              onChange={(e) =>
+                setRule((prev) => ({
+                  ...prev,
+                  window: Math.min(
+                    12,
+                    Math.max(1, Number(e.target.value) || 1),
+                  ),
+                }))
+              }
+              className="w-14 rounded-md border border-slate-800 bg-slate-900/40 px-2 py-1 text-slate-200"
+            />
+            ヶ月
+          </label>
+          <label className="flex items-center gap-1">
+            閾値 ±
+            <input
+              type="number"
+              min={1}
+              step={5}
+              value={Math.round(rule.threshold * 100)}
+              onChange={(e) =>
+                setRule((prev) => ({
+                  ...prev,
+                  threshold: Math.max(1, Number(e.target.value) || 1) / 100,
+                }))
+              }
+              className="w-16 rounded-md border border-slate-800 bg-slate-900/40 px-2 py-1 text-slate-200"
+            />
+            %
+          </label>
+          <label className="flex items-center gap-1">
+            最小乖離額（{BASE_CURRENCY} 換算）
+            <input
+              type="number"
+              min={0}
+              value={rule.minAmount}
+              onChange={(e) =>
+                setRule((prev) => ({
+                  ...prev,
+                  minAmount: Math.max(0, Number(e.target.value) || 0),
+                }))
+              }
+              className="w-20 rounded-md border border-slate-800 bg-slate-900/40 px-2 py-1 text-slate-200"
+            />
+          </label>
+          <label className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={rule.includeDecreases}
+              onChange={(e) =>
+                setRule((prev) => ({
+                  ...prev,
+                  includeDecreases: e.target.checked,
+                }))
+              }
+              className="h-4 w-4 rounded border-slate-700 bg-slate-800"
+            />
+            減少も検出
+          </label>
+        </div>
+      </div>
+      {anomalies.length === 0 ? (
+        <p className="mt-3 text-sm text-slate-400">
+          条件に該当する異常はありません。
+        </p>
+      ) : (
+        <div className="mt-3 max-h-60 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead className="text-left text-xs text-slate-400">
+              <tr>
+                <th className="py-1 font-medium">年月</th>
+                <th className="py-1 font-medium">サービス</th>
+                <th className="py-1 text-right font-medium">金額</th>
+                <th className="py-1 text-right font-medium">基準値</th>
+                <th className="py-1 text-right font-medium">乖離</th>
+              </tr>
+            </thead>
+            <tbody className="text-slate-200">
+              {anomalies.map((anomaly) => (
+                <tr
+                  key={`${anomaly.period}-${anomaly.series}`}
+                  className="border-t border-slate-800"
+                >
+                  <td className="py-1 pr-4">{anomaly.period}</td>
+                  <td className="py-1 pr-4">
+                    {onSelect ? (
+                      <button
+                        type="button"
+                        onClick={() => onSelect(anomaly.period, anomaly.series)}
+                        className="text-left text-indigo-300 hover:underline"
+                      >
+                        {anomaly.series}
+                      </button>
+                    ) : (
+                      anomaly.series
+                    )}
+                  </td>
+                  <td className="py-1 text-right tabular-nums">
+                    {currencyFormatter.format(anomaly.value)}
+                  </td>
+                  <td className="py-1 text-right tabular-nums text-slate-300">
+                    {currencyFormatter.format(anomaly.expected)}
+                  </td>
+                  <td
+                    className={`py-1 text-right tabular-nums ${anomaly.deviation > 0 ? "text-red-300" : "text-emerald-300"}`}
+                  >
+                    {anomaly.ratio === null
+                      ? "新規"
+                      : percentFormatter.format(anomaly.ratio)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
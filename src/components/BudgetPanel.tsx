@@ -0,0 +1,284 @@
+"use client";
+
+import { type ChangeEvent, useMemo, useRef, useState } from "react";
+import {
+  BUDGET_SCOPES,
+  type Budget,
+  type BudgetScope,
+  type BudgetStatus,
+  describeBudgetTarget,
+  getBudgetTimeUnit,
+} from "@/lib/budgets";
+import { getCurrencyFormatter } from "@/lib/currency";
+
+const buttonClassName =
+  "rounded-md px-2 py-1 text-xs font-medium text-slate-200 border border-slate-800 bg-slate-900/30 disabled:opacity-40";
+
+const inputClassName =
+  "rounded-md border border-slate-800 bg-slate-900/40 px-2 py-1 text-sm text-slate-200 placeholder:text-slate-500";
+
+const percentFormatter = new Intl.NumberFormat("en-US", {
+  style: "percent",
+  maximumFractionDigits: 0,
+});
+
+const SCOPE_LABELS: Record<BudgetScope, string> = {
+  total: "全体",
+  account: "アカウント",
+  service: "サービス",
+  group: "グループ",
+};
+
+// 超過している予算を先頭に、それ以外は期間の新しい順に並べる
+const sortStatuses = (statuses: BudgetStatus[]) =>
+  [...statuses].sort((a, b) => {
+    if (a.isOver !== b.isOver) return a.isOver ? -1 : 1;
+    return b.budget.period.localeCompare(a.budget.period);
+  });
+
+export default function BudgetPanel({
+  statuses,
+  currency,
+  accounts,
+  accountLabels,
+  services,
+  groupsByDimension,
+  onAdd,
+  onDelete,
+  onImport,
+  onExport,
+}: {
+  statuses: BudgetStatus[];
+  currency: string;
+  accounts: string[];
+  accountLabels: Record<string, string>;
+  services: string[];
+  groupsByDimension: Record<string, string[]>;
+  onAdd: (input: Omit<Budget, "id">) => void;
+  onDelete: (id: string) => void;
+  onImport: (file: File) => Promise<void> | void;
+  onExport: () => void;
+}) {
+  const importInputRef = useRef<HTMLInputElement | null>(null);
+  const [scope, setScope] = useState<BudgetScope>("total");
+  const dimensions = Object.keys(groupsByDimension);
+  const [dimension, setDimension] = useState("");
+  const [target, setTarget] = useState("");
+  const [period, setPeriod] = useState("");
+  const [amount, setAmount] = useState("");
+
+  const activeDimension = dimensions.includes(dimension)
+    ? dimension
+    : (dimensions[0] ?? "");
+  const targetOptions =
+    scope === "account"
+      ? accounts
+      : scope === "service"
+        ? services
+        : scope === "group"
+          ? (groupsByDimension[activeDimension] ?? [])
+          : [];
+  const parsedAmount = Number(amount);
+  const canAdd =
+    getBudgetTimeUnit(period.trim()) !== null &&
+    amount.trim() !== "" &&
+    Number.isFinite(parsedAmount) &&
+    parsedAmount >= 0 &&
+    (scope === "total" || target.trim() !== "") &&
+    (scope !== "group" || activeDimension !== "");
+
+  const sortedStatuses = useMemo(() => sortStatuses(statuses), [statuses]);
+  const actualFormatter = getCurrencyFormatter(currency);
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) await onImport(file);
+    event.target.value = "";
+  };
+
+  return (
+    <div className="rounded-xl border border-slate-800 bg-slate-950/60 p-4 w-full">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="text-sm text-slate-300">予算と実績</div>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => importInputRef.current?.click()}
+            className={buttonClassName}
+          >
+            CSV 読み込み
+          </button>
+          <button
+            type="button"
+            onClick={onExport}
+            disabled={statuses.length === 0}
+            className={buttonClassName}
+          >
+            CSV 書き出し
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            onChange={handleImport}
+            className="sr-only"
+          />
+        </div>
+      </div>
+
+      <form
+        className="mt-3 flex flex-wrap items-center gap-2"
+        onSubmit={(event) => {
+          event.preventDefault();
+          if (!canAdd) return;
+          onAdd({
+            scope,
+            dimension: activeDimension,
+            target,
+            period,
+            amount: parsedAmount,
+            currency,
+          });
+          setTarget("");
+          setAmount("");
+        }}
+      >
+        <select
+          value={scope}
+          onChange={(e) => {
+            setScope(e.target.value as BudgetScope);
+            setTarget("");
+          }}
+          aria-label="予算の対象"
+          className={inputClassName}
+        >
+          {BUDGET_SCOPES.map((value) => (
+            <option
+              key={value}
+              value={value}
+              disabled={value === "group" && dimensions.length === 0}
+            >
+              {SCOPE_LABELS[value]}
+            </option>
+          ))}
+        </select>
+        {scope === "group" && (
+          <select
+            value={activeDimension}
+            onChange={(e) => setDimension(e.target.value)}
+            aria-label="分類"
+            className={inputClassName}
+          >
+            {dimensions.map((value) => (
+              <option key={value} value={value}>
+                {value}
+              </option>
+            ))}
+          </select>
+        )}
+        {scope !== "total" && (
+          <>
+            <input
+              value={target}
+              onChange={(e) => setTarget(e.target.value)}
+              list="budget-target-options"
+              placeholder={`${SCOPE_LABELS[scope]}を入力`}
+              className={`${inputClassName} w-48`}
+            />
+            <datalist id="budget-target-options">
+              {targetOptions.map((option) => (
+                <option key={option} value={option}>
+                  {scope === "account" ? accountLabels[option] : undefined}
+                </option>
+              ))}
+            </datalist>
+          </>
+        )}
+        <input
+          value={period}
+          onChange={(e) => setPeriod(e.target.value)}
+          placeholder="期間（YYYY-MM / YYYY / FYYYYY）"
+          aria-label="期間"
+          className={`${inputClassName} w-56`}
+        />
+        <input
+          type="number"
+          min={0}
+          step="any"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          placeholder={`金額（${currency}）`}
+          aria-label="金額"
+          className={`${inputClassName} w-36`}
+        />
+        <button type="submit" disabled={!canAdd} className={buttonClassName}>
+          追加
+        </button>
+      </form>
+
+      {statuses.length === 0 ? (
+        <p className="mt-3 text-sm text-slate-400">
+          予算は登録されていません。月次（YYYY-MM）・四半期（FYYYYY-Qn）・年次（YYYY）・年度（FYYYYY）の予算を追加してください。
+        </p>
+      ) : (
+        <div className="mt-3 max-h-72 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-slate-950 text-left text-xs text-slate-400">
+              <tr>
+                <th className="py-1 pr-2 font-medium">対象</th>
+                <th className="py-1 pr-2 font-medium">期間</th>
+                <th className="py-1 pr-2 text-right font-medium">予算</th>
+                <th className="py-1 pr-2 text-right font-medium">実績</th>
+                <th className="py-1 pr-2 text-right font-medium">消化率</th>
+                <th className="py-1 font-medium" />
+              </tr>
+            </thead>
+            <tbody className="text-slate-200">
+              {sortedStatuses.map(
+                ({ budget, actual, ratio, isOver, hasData }) => (
+                  <tr
+                    key={budget.id}
+                    className={`border-t border-slate-800 ${isOver ? "bg-red-950/40 text-red-200" : ""}`}
+                  >
+                    <td className="py-1 pr-2">
+                      <span className="text-xs text-slate-400">
+                        {SCOPE_LABELS[budget.scope]}
+                      </span>{" "}
+                      {describeBudgetTarget(budget, accountLabels)}
+                    </td>
+                    <td className="py-1 pr-2 tabular-nums">{budget.period}</td>
+                    <td className="py-1 pr-2 text-right tabular-nums">
+                      {getCurrencyFormatter(budget.currency).format(
+                        budget.amount,
+                      )}
+                    </td>
+                    <td className="py-1 pr-2 text-right tabular-nums">
+                      {hasData ? actualFormatter.format(actual) : "データなし"}
+                    </td>
+                    <td className="py-1 pr-2 text-right tabular-nums">
+                      {ratio === null
+                        ? budget.currency === currency
+                          ? "-"
+                          : "通貨が異なる"
+                        : percentFormatter.format(ratio)}
+                      {isOver && " 超過"}
+                    </td>
+                    <td className="py-1 text-right">
+                      <button
+                        type="button"
+                        onClick={() => onDelete(budget.id)}
+                        className="text-xs text-slate-400 hover:text-slate-200"
+                      >
+                        削除
+                      </button>
+                    </td>
+                  </tr>
+                ),
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
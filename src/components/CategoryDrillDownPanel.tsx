@@ -0,0 +1,90 @@
+"use client";
+
+import type { ServiceBreakdownRow } from "@/lib/aggregate";
+import { getCurrencyFormatter } from "@/lib/currency";
+
+const percentFormatter = new Intl.NumberFormat("en-US", {
+  style: "percent",
+  minimumFractionDigits: 1,
+  maximumFractionDigits: 1,
+});
+
+export default function CategoryDrillDownPanel({
+  category,
+  period,
+  breakdown,
+  currency,
+  onSelectService,
+  onClose,
+}: {
+  category: string;
+  period: string;
+  breakdown: { rows: ServiceBreakdownRow[]; total: number };
+  currency: string;
+  onSelectService: (service: string) => void;
+  onClose: () => void;
+}) {
+  const currencyFormatter = getCurrencyFormatter(currency);
+  return (
+    <div className="rounded-xl border border-slate-800 bg-slate-950/60 p-4 w-full">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <div className="text-sm font-semibold text-slate-100">
+            {category} のサービス内訳（{period}）
+          </div>
+          <div className="text-xs text-slate-400">
+            合計 {currencyFormatter.format(breakdown.total)}
+            ・サービス名をクリックすると明細を表示します
+          </div>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded-md px-2 py-1 text-xs font-medium text-slate-200 border border-slate-800 bg-slate-900/10"
+        >
+          閉じる
+        </button>
+      </div>
+      {breakdown.rows.length === 0 ? (
+        <p className="mt-3 text-sm text-slate-400">
+          表示できるサービスがありません。
+        </p>
+      ) : (
+        <div className="mt-3 max-h-72 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead className="text-left text-xs text-slate-400">
+              <tr>
+                <th className="py-1 font-medium">サービス</th>
+                <th className="py-1 text-right font-medium">金額</th>
+                <th className="py-1 text-right font-medium">割合</th>
+              </tr>
+            </thead>
+            <tbody className="text-slate-200">
+              {breakdown.rows.map((row) => (
+                <tr key={row.service} className="border-t border-slate-800">
+                  <td className="py-1 pr-4">
+                    <button
+                      type="button"
+                      onClick={() => onSelectService(row.service)}
+                      className="text-left text-indigo-300 hover:underline"
+                    >
+                      {row.service}
+                    </button>
+                  </td>
+                  <td className="py-1 text-right tabular-nums">
+                    {currencyFormatter.format(row.cost)}
+                  </td>
+                  <td className="py-1 text-right tabular-nums text-slate-300">
+                    {breakdown.total === 0
+                      ? "-"
+                      : percentFormatter.format(row.cost / breakdown.total)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
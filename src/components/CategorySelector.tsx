@@ -0,0 +1,59 @@
+"use client";
+
+export default function CategorySelector({
+  categories,
+  selectedCategories,
+  toggleCategory,
+  selectAllCategories,
+  clearSelectedCategories,
+}: {
+  categories: string[];
+  selectedCategories: string[];
+  toggleCategory: (category: string) => void;
+  selectAllCategories: () => void;
+  clearSelectedCategories: () => void;
+}) {
+  return (
+    <div className="rounded-xl border border-slate-800 bg-slate-950/60 p-4 w-full">
+      <div className="flex items-center justify-between">
+        <div className="text-sm text-slate-300">カテゴリを選択</div>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={selectAllCategories}
+            className="rounded-md px-2 py-1 text-xs font-medium text-slate-200 border border-slate-800 bg-slate-900/30"
+          >
+            全部
+          </button>
+          <button
+            type="button"
+            onClick={clearSelectedCategories}
+            className="rounded-md px-2 py-1 text-xs font-medium text-slate-200 border border-slate-800 bg-slate-900/10"
+          >
+            解除
+          </button>
+        </div>
+      </div>
+      <div className="mt-3 max-h-48 overflow-y-auto">
+        <ul className="space-y-2">
+          {categories.map((category) => {
+            const checked = selectedCategories.includes(category);
+            return (
+              <li key={category} className="flex items-center">
+                <label className="flex items-center gap-3 text-sm text-slate-200">
+                  <input
+                    type="checkbox"
+                    checked={checked}
+                    onChange={() => toggleCategory(category)}
+                    className="h-4 w-4 rounded border-slate-700 bg-slate-800 text-indigo-500 focus:ring-indigo-400"
+                  />
+                  <span className="truncate max-w-[12rem]">{category}</span>
+                </label>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+}
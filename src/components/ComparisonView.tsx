@@ -0,0 +1,71 @@
+"use client";
+
+import DeltaBarChart from "@/components/DeltaBarChart";
+import DeltaTable from "@/components/DeltaTable";
+import type { DeltaRow } from "@/lib/compare";
+
+export default function ComparisonView({
+  periods,
+  currentPeriod,
+  baselinePeriod,
+  onPeriodChange,
+  rows,
+  hasBaseline,
+  currency,
+}: {
+  periods: string[];
+  currentPeriod: string;
+  baselinePeriod: string;
+  onPeriodChange: (period: string) => void;
+  rows: DeltaRow[];
+  hasBaseline: boolean;
+  currency: string;
+}) {
+  return (
+    <div className="flex flex-col gap-4 p-4">
+      <div className="flex flex-wrap items-center gap-3 text-sm text-slate-300">
+        <label className="flex items-center gap-2">
+          <span>比較先</span>
+          <select
+            value={currentPeriod}
+            onChange={(e) => onPeriodChange(e.target.value)}
+            className="rounded-md border border-slate-800 bg-slate-900/40 px-2 py-1 text-sm text-slate-200"
+          >
+            {periods.map((period) => (
+              <option key={period} value={period}>
+                {period}
+              </option>
+            ))}
+          </select>
+        </label>
+        <span className="text-slate-400">比較元 {baselinePeriod}</span>
+      </div>
+      {!hasBaseline && (
+        <p className="text-xs text-amber-200">
+          比較元（{baselinePeriod}
+          ）のデータが読み込まれていないため、全額を増加として表示しています。
+        </p>
+      )}
+      {rows.length === 0 ? (
+        <div className="flex h-40 w-full items-center justify-center text-sm text-slate-400">
+          比較できるデータがありません。
+        </div>
+      ) : (
+        <>
+          <div
+            className="w-full"
+            style={{ height: `${Math.max(240, rows.length * 28 + 60)}px` }}
+          >
+            <DeltaBarChart rows={rows} currency={currency} />
+          </div>
+          <DeltaTable
+            rows={rows}
+            baselineLabel={baselinePeriod}
+            currentLabel={currentPeriod}
+            currency={currency}
+          />
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+"use client";
+
+import { BASE_CURRENCY, getCurrencyFormatter } from "@/lib/currency";
+import type { HealthFinding } from "@/lib/dataHealth";
+
+const signedFormatter = (currency: string) =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency,
+    signDisplay: "exceptZero",
+  });
+
+const KIND_LABELS: Record<HealthFinding["kind"], string> = {
+  missingMonths: "月の欠落",
+  replaced: "合計の異なる置き換え",
+  negativeService: "マイナスのサービス",
+  unusualRowCount: "行数の異常",
+};
+
+const findingKey = (finding: HealthFinding) => {
+  switch (finding.kind) {
+    case "missingMonths":
+      return `missing-${finding.account}`;
+    case "replaced":
+      return `replaced-${finding.replacement.id}`;
+    case "negativeService":
+      return `negative-${finding.month}-${finding.account}-${finding.service}`;
+    case "unusualRowCount":
+      return `rows-${finding.month}-${finding.account}`;
+  }
+};
+
+export default function DataHealthPanel({
+  findings,
+  accountLabels,
+  onFocus,
+  onClearReplacements,
+}: {
+  findings: HealthFinding[];
+  accountLabels: Record<string, string>;
+  // 該当アカウント・月だけを表示する
+  onFocus: (account: string, month: string) => void;
+  onClearReplacements: () => void;
+}) {
+  // 取り込んだレポートは USD のまま比べる
+  const currencyFormatter = getCurrencyFormatter(BASE_CURRENCY);
+  const deltaFormatter = signedFormatter(BASE_CURRENCY);
+  const hasReplacements = findings.some(
+    (finding) => finding.kind === "replaced",
+  );
+
+  const link = (account: string, month: string, label = month) => (
+    <button
+      type="button"
+      onClick={() => onFocus(account, month)}
+      className="text-indigo-300 hover:underline"
+    >
+      {label}
+    </button>
+  );
+  const accountLabel = (account: string) => accountLabels[account] ?? account;
+
+  const renderFinding = (finding: HealthFinding) => {
+    switch (finding.kind) {
+      case "missingMonths":
+        return (
+          <>
+            {accountLabel(finding.account)}: {finding.months.length}{" "}
+            か月分のレポートがありません（
+            {finding.months.map((month, index) => (
+              <span key={month}>
+                {index > 0 && "、"}
+                {link(finding.account, month)}
+              </span>
+            ))}
+            ）
+          </>
+        );
+      case "replaced": {
+        const { replacement } = finding;
+        return (
+          <>
+            {link(replacement.account, replacement.month)} /{" "}
+            {accountLabel(replacement.account)}: 合計{" "}
+            {currencyFormatter.format(replacement.previousTotal)} →{" "}
+            {currencyFormatter.format(replacement.total)}（
+            {deltaFormatter.format(
+              replacement.total - replacement.previousTotal,
+            )}
+            ）
+            <details className="mt-1 text-xs text-slate-400">
+              <summary className="cursor-pointer">
+                差分（{replacement.changes.length} サービス・
+                {replacement.previousFileName} → {replacement.fileName}）
+              </summary>
+              <table className="mt-1 w-full">
+                <tbody>
+                  {replacement.changes.map((change) => (
+                    <tr key={change.service}>
+                      <td className="py-0.5 pr-3">{change.service}</td>
+                      <td className="py-0.5 pr-3 text-right tabular-nums">
+                        {currencyFormatter.format(change.previous)} →{" "}
+                        {currencyFormatter.format(change.current)}
+                      </td>
+                      <td
+                        className={`py-0.5 text-right tabular-nums ${change.delta > 0 ? "text-red-300" : "text-emerald-300"}`}
+                      >
+                        {deltaFormatter.format(change.delta)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </details>
+          </>
+        );
+      }
+      case "negativeService":
+        return (
+          <>
+            {link(finding.account, finding.month)} /{" "}
+            {accountLabel(finding.account)}: {finding.service}{" "}
+            {currencyFormatter.format(finding.amount)}
+            {finding.creditOnly
+              ? "（クレジットのみ）"
+              : "（クレジットが利用額を上回っています）"}
+          </>
+        );
+      case "unusualRowCount":
+        return (
+          <>
+            {link(finding.account, finding.month)} /{" "}
+            {accountLabel(finding.account)}: {finding.rowCount.toLocaleString()}{" "}
+            行（ほかの月は通常 {finding.typical.toLocaleString()} 行）
+          </>
+        );
+    }
+  };
+
+  return (
+    <div className="rounded-xl border border-slate-800 bg-slate-950/60 p-4 w-full">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="text-sm text-slate-300">
+          データの健全性（{findings.length} 件）
+        </div>
+        {hasReplacements && (
+          <button
+            type="button"
+            onClick={onClearReplacements}
+            className="rounded-md px-2 py-1 text-xs font-medium text-slate-200 border border-slate-800 bg-slate-900/30"
+          >
+            置き換えの記録を消去
+          </button>
+        )}
+      </div>
+      {findings.length === 0 ? (
+        <p className="mt-3 text-sm text-slate-400">
+          問題は見つかりませんでした。
+        </p>
+      ) : (
+        <ul className="mt-3 max-h-72 space-y-2 overflow-y-auto text-sm text-slate-200">
+          {findings.map((finding) => (
+            <li key={findingKey(finding)} className="flex gap-3">
+              <span className="shrink-0 text-xs leading-5 text-amber-300">
+                {KIND_LABELS[finding.kind]}
+              </span>
+              <div className="min-w-0">{renderFinding(finding)}</div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
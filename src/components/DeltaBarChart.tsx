@@ -0,0 +1,107 @@
+"use client";
+
+import type { Chart as ChartJS, ChartOptions } from "chart.js";
+import Chart from "chart.js/auto";
+import { useEffect, useRef } from "react";
+import type { DeltaRow } from "@/lib/compare";
+import { getCurrencyFormatter } from "@/lib/currency";
+
+const percentFormatter = new Intl.NumberFormat("en-US", {
+  style: "percent",
+  signDisplay: "exceptZero",
+  minimumFractionDigits: 1,
+  maximumFractionDigits: 1,
+});
+
+const INCREASE_COLOR = "hsl(0 72% 62%)";
+const DECREASE_COLOR = "hsl(152 60% 48%)";
+
+// 増加を右（赤）、減少を左（緑）に伸ばす横向きの棒グラフ
+export default function DeltaBarChart({
+  rows,
+  currency,
+}: {
+  rows: DeltaRow[];
+  currency: string;
+}) {
+  const currencyFormatter = getCurrencyFormatter(currency);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const chartRef = useRef<ChartJS<"bar"> | null>(null);
+
+  useEffect(() => {
+    const canvasElement = canvasRef.current;
+
+    if (!canvasElement) return;
+
+    if (chartRef.current) {
+      chartRef.current.destroy();
+      chartRef.current = null;
+    }
+
+    if (rows.length === 0) return;
+
+    const colors = rows.map((row) =>
+      row.delta >= 0 ? INCREASE_COLOR : DECREASE_COLOR,
+    );
+
+    const chartOptions = {
+      indexAxis: "y",
+      maintainAspectRatio: false,
+      responsive: true,
+      scales: {
+        x: {
+          ticks: {
+            callback(value: number | string) {
+              return currencyFormatter.format(Number(value));
+            },
+          },
+        },
+        y: { ticks: { autoSkip: false } },
+      },
+      plugins: {
+        legend: { display: false },
+        tooltip: {
+          callbacks: {
+            label(context: { dataIndex: number }) {
+              const row = rows[context.dataIndex];
+              if (!row) return "";
+              const percent =
+                row.percent === null
+                  ? row.current === 0
+                    ? "-"
+                    : "新規"
+                  : percentFormatter.format(row.percent);
+              return `${currencyFormatter.format(row.delta)}（${percent}）`;
+            },
+          },
+        },
+      },
+    } as unknown as ChartOptions<"bar">;
+
+    const chart = new Chart(canvasElement, {
+      type: "bar",
+      data: {
+        labels: rows.map((row) => row.series),
+        datasets: [
+          {
+            label: "増減額",
+            data: rows.map((row) => row.delta),
+            backgroundColor: colors,
+            borderColor: colors,
+            borderWidth: 1,
+          },
+        ],
+      },
+      options: chartOptions,
+    });
+
+    chartRef.current = chart;
+
+    return () => {
+      chart.destroy();
+      chartRef.current = null;
+    };
+  }, [rows, currencyFormatter]);
+
+  return <canvas ref={canvasRef} className="h-full w-full" />;
+}
@@ -0,0 +1,125 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { type DeltaRow, type DeltaSortKey, sortDeltas } from "@/lib/compare";
+import { getCurrencyFormatter } from "@/lib/currency";
+
+const percentFormatter = new Intl.NumberFormat("en-US", {
+  style: "percent",
+  signDisplay: "exceptZero",
+  minimumFractionDigits: 1,
+  maximumFractionDigits: 1,
+});
+
+const COLUMNS: Array<{ key: DeltaSortKey; label: string; numeric: boolean }> = [
+  { key: "series", label: "系列", numeric: false },
+  { key: "baseline", label: "比較元", numeric: true },
+  { key: "current", label: "比較先", numeric: true },
+  { key: "delta", label: "増減額", numeric: true },
+  { key: "percent", label: "増減率", numeric: true },
+];
+
+const formatPercent = (row: DeltaRow) => {
+  if (row.percent !== null) return percentFormatter.format(row.percent);
+  return row.current === 0 ? "-" : "新規";
+};
+
+const deltaClassName = (delta: number) => {
+  if (delta > 0) return "text-red-300";
+  if (delta < 0) return "text-emerald-300";
+  return "text-slate-300";
+};
+
+export default function DeltaTable({
+  rows,
+  baselineLabel,
+  currentLabel,
+  currency,
+}: {
+  rows: DeltaRow[];
+  baselineLabel: string;
+  currentLabel: string;
+  currency: string;
+}) {
+  const currencyFormatter = getCurrencyFormatter(currency);
+  const deltaFormatter = getCurrencyFormatter(currency, true);
+  const [sortKey, setSortKey] = useState<DeltaSortKey>("delta");
+  const [sortDirection, setSortDirection] = useState<"asc" | "desc">("desc");
+
+  const sortedRows = useMemo(
+    () => sortDeltas(rows, sortKey, sortDirection),
+    [rows, sortKey, sortDirection],
+  );
+
+  const handleSort = (key: DeltaSortKey) => {
+    if (key === sortKey) {
+      setSortDirection((prev) => (prev === "asc" ? "desc" : "asc"));
+      return;
+    }
+    setSortKey(key);
+    setSortDirection(key === "series" ? "asc" : "desc");
+  };
+
+  const headerLabel = (key: DeltaSortKey, label: string) => {
+    if (key === "baseline") return `${label}（${baselineLabel}）`;
+    if (key === "current") return `${label}（${currentLabel}）`;
+    return label;
+  };
+
+  return (
+    <div className="max-h-96 overflow-y-auto">
+      <table className="w-full text-sm">
+        <thead className="sticky top-0 bg-slate-950 text-xs text-slate-400">
+          <tr>
+            {COLUMNS.map((column) => (
+              <th
+                key={column.key}
+                className={`py-2 font-medium ${column.numeric ? "text-right" : "text-left"}`}
+                aria-sort={
+                  sortKey === column.key
+                    ? sortDirection === "asc"
+                      ? "ascending"
+                      : "descending"
+                    : "none"
+                }
+              >
+                <button
+                  type="button"
+                  onClick={() => handleSort(column.key)}
+                  className="hover:text-slate-200"
+                >
+                  {headerLabel(column.key, column.label)}
+                  {sortKey === column.key &&
+                    (sortDirection === "asc" ? " ▲" : " ▼")}
+                </button>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="text-slate-200">
+          {sortedRows.map((row) => (
+            <tr key={row.series} className="border-t border-slate-800">
+              <td className="py-1 pr-4">{row.series}</td>
+              <td className="py-1 text-right tabular-nums">
+                {currencyFormatter.format(row.baseline)}
+              </td>
+              <td className="py-1 text-right tabular-nums">
+                {currencyFormatter.format(row.current)}
+              </td>
+              <td
+                className={`py-1 text-right tabular-nums ${deltaClassName(row.delta)}`}
+              >
+                {deltaFormatter.format(row.delta)}
+              </td>
+              <td
+                className={`py-1 text-right tabular-nums ${deltaClassName(row.delta)}`}
+              >
+                {formatPercent(row)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
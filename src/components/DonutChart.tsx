@@ -0,0 +1,154 @@
+"use client";
+
+import type { Chart as ChartJS, ChartOptions } from "chart.js";
+import Chart from "chart.js/auto";
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { ChartRow } from "@/lib/aggregate";
+import { getComposition } from "@/lib/chartViews";
+import { getCurrencyFormatter } from "@/lib/currency";
+
+const percentFormatter = new Intl.NumberFormat("en-US", {
+  style: "percent",
+  minimumFractionDigits: 1,
+  maximumFractionDigits: 1,
+});
+
+// 選択した 1 期間の系列ごとの内訳をドーナツと一覧で表示する
+export default function DonutChart({
+  data,
+  services,
+  seriesLabels = {},
+  seriesColors,
+  currency,
+}: {
+  data: ChartRow[];
+  services: string[];
+  // 系列の表示名（アカウントの表示名など）
+  seriesLabels?: Record<string, string>;
+  // 系列名ごとの色（積み上げ棒グラフと共通）
+  seriesColors: Record<string, string>;
+  currency: string;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const chartRef = useRef<ChartJS<"doughnut"> | null>(null);
+  const [period, setPeriod] = useState<string | null>(null);
+
+  // 未選択・表示中にない期間なら最新の期間を表示する
+  const activePeriod =
+    period && data.some((row) => row.month === period)
+      ? period
+      : (data[data.length - 1]?.month ?? null);
+  const slices = useMemo(
+    () =>
+      getComposition(
+        data.find((row) => row.month === activePeriod),
+        services,
+      ),
+    [data, activePeriod, services],
+  );
+  const currencyFormatter = getCurrencyFormatter(currency);
+  const labelOf = (series: string) => seriesLabels[series] ?? series;
+
+  useEffect(() => {
+    const canvasElement = canvasRef.current;
+    if (!canvasElement) return;
+
+    if (chartRef.current) {
+      chartRef.current.destroy();
+      chartRef.current = null;
+    }
+    if (slices.length === 0) return;
+
+    const formatter = getCurrencyFormatter(currency);
+    const options = {
+      maintainAspectRatio: false,
+      responsive: true,
+      cutout: "55%",
+      plugins: {
+        legend: { display: false },
+        tooltip: {
+          callbacks: {
+            label(context: { dataIndex: number }) {
+              const slice = slices[context.dataIndex];
+              if (!slice) return "";
+              return `${seriesLabels[slice.series] ?? slice.series}: ${formatter.format(slice.value)}（${percentFormatter.format(slice.share)}）`;
+            },
+          },
+        },
+      },
+    } as unknown as ChartOptions<"doughnut">;
+
+    const chart = new Chart(canvasElement, {
+      type: "doughnut",
+      data: {
+        labels: slices.map(
+          (slice) => seriesLabels[slice.series] ?? slice.series,
+        ),
+        datasets: [
+          {
+            data: slices.map((slice) => slice.value),
+            backgroundColor: slices.map((slice) => seriesColors[slice.series]),
+            borderColor: "#020617",
+            borderWidth: 1,
+          },
+        ],
+      },
+      options,
+    });
+    chartRef.current = chart;
+
+    return () => {
+      chart.destroy();
+      chartRef.current = null;
+    };
+  }, [slices, seriesLabels, seriesColors, currency]);
+
+  return (
+    <div className="flex h-full flex-col gap-3 p-4">
+      <label className="flex items-center gap-2 text-sm text-slate-300">
+        期間
+        <select
+          value={activePeriod ?? ""}
+          onChange={(e) => setPeriod(e.target.value)}
+          className="rounded-md border border-slate-800 bg-slate-900/40 px-2 py-1 text-sm text-slate-200"
+        >
+          {data.map((row) => (
+            <option key={row.month} value={row.month}>
+              {row.month}
+            </option>
+          ))}
+        </select>
+      </label>
+      {slices.length === 0 ? (
+        <div className="flex flex-1 items-center justify-center text-sm text-slate-400">
+          この期間にはプラスの金額の系列がありません。
+        </div>
+      ) : (
+        <div className="flex min-h-0 flex-1 flex-col gap-4 md:flex-row">
+          <div className="h-64 md:h-full md:flex-1">
+            <canvas ref={canvasRef} className="h-full w-full" />
+          </div>
+          <ul className="max-h-full space-y-1 overflow-y-auto text-sm md:w-80">
+            {slices.map((slice) => (
+              <li key={slice.series} className="flex items-center gap-2">
+                <span
+                  className="h-3 w-3 shrink-0 rounded-sm"
+                  style={{ backgroundColor: seriesColors[slice.series] }}
+                />
+                <span className="min-w-0 flex-1 truncate text-slate-200">
+                  {labelOf(slice.series)}
+                </span>
+                <span className="tabular-nums text-slate-300">
+                  {currencyFormatter.format(slice.value)}
+                </span>
+                <span className="w-14 text-right tabular-nums text-slate-400">
+                  {percentFormatter.format(slice.share)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
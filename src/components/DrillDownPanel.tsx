@@ -0,0 +1,85 @@
+"use client";
+
+import type { DescriptionBreakdown } from "@/lib/aggregate";
+import { getCurrencyFormatter } from "@/lib/currency";
+
+const percentFormatter = new Intl.NumberFormat("en-US", {
+  style: "percent",
+  minimumFractionDigits: 1,
+  maximumFractionDigits: 1,
+});
+
+export default function DrillDownPanel({
+  service,
+  period,
+  breakdown,
+  currency,
+  onClose,
+}: {
+  service: string;
+  period: string;
+  breakdown: DescriptionBreakdown;
+  currency: string;
+  onClose: () => void;
+}) {
+  const currencyFormatter = getCurrencyFormatter(currency);
+  return (
+    <div className="rounded-xl border border-slate-800 bg-slate-950/60 p-4 w-full">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <div className="text-sm font-semibold text-slate-100">
+            {service} の内訳（{period}）
+          </div>
+          <div className="text-xs text-slate-400">
+            合計 {currencyFormatter.format(breakdown.total)}
+          </div>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded-md px-2 py-1 text-xs font-medium text-slate-200 border border-slate-800 bg-slate-900/10"
+        >
+          閉じる
+        </button>
+      </div>
+      {breakdown.hasMissingDescriptions && (
+        <p className="mt-3 text-xs text-amber-200">
+          明細情報を持たない保存済みレポートが含まれています。CSV
+          を再アップロードすると内訳に反映されます。
+        </p>
+      )}
+      {breakdown.rows.length === 0 ? (
+        <p className="mt-3 text-sm text-slate-400">
+          表示できる明細がありません。
+        </p>
+      ) : (
+        <div className="mt-3 max-h-72 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead className="text-left text-xs text-slate-400">
+              <tr>
+                <th className="py-1 font-medium">明細（description）</th>
+                <th className="py-1 text-right font-medium">金額</th>
+                <th className="py-1 text-right font-medium">割合</th>
+              </tr>
+            </thead>
+            <tbody className="text-slate-200">
+              {breakdown.rows.map((row) => (
+                <tr key={row.description} className="border-t border-slate-800">
+                  <td className="py-1 pr-4">{row.description}</td>
+                  <td className="py-1 text-right tabular-nums">
+                    {currencyFormatter.format(row.cost)}
+                  </td>
+                  <td className="py-1 text-right tabular-nums text-slate-300">
+                    {breakdown.total === 0
+                      ? "-"
+                      : percentFormatter.format(row.cost / breakdown.total)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+"use client";
+
+import { type ChangeEvent, useRef } from "react";
+import type { AppliedRate } from "@/lib/currency";
+
+const buttonClassName =
+  "rounded-md px-2 py-1 text-xs font-medium text-slate-200 border border-slate-800 bg-slate-900/30 disabled:opacity-40";
+
+const rateFormatter = new Intl.NumberFormat("en-US", {
+  maximumFractionDigits: 6,
+});
+
+export default function ExchangeRatePanel({
+  currency,
+  baseCurrency,
+  months,
+  rates,
+  appliedRates,
+  onRateChange,
+  onImport,
+  onExport,
+}: {
+  currency: string;
+  baseCurrency: string;
+  months: string[];
+  // 表示通貨について入力済みのレート（年月 -> 1 基準通貨あたりの金額）
+  rates: Record<string, number>;
+  appliedRates: Record<string, AppliedRate> | null;
+  onRateChange: (month: string, rate: number | null) => void;
+  onImport: (file: File) => Promise<void> | void;
+  onExport: () => void;
+}) {
+  const importInputRef = useRef<HTMLInputElement | null>(null);
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) await onImport(file);
+    event.target.value = "";
+  };
+
+  const describeSource = (month: string) => {
+    const applied = appliedRates?.[month];
+    if (!applied) return "未設定";
+    const text = `1 ${baseCurrency} = ${rateFormatter.format(applied.rate)} ${currency}`;
+    return applied.sourceMonth === month
+      ? text
+      : `${text}（${applied.sourceMonth} のレート）`;
+  };
+
+  return (
+    <details
+      className="rounded-xl border border-slate-800 bg-slate-950/60 p-4 w-full"
+      open={appliedRates === null}
+    >
+      <summary className="cursor-pointer text-sm text-slate-300">
+        為替レート（1 {baseCurrency} あたりの {currency}）
+      </summary>
+      {appliedRates === null && (
+        <p className="mt-3 text-xs text-amber-200">
+          {currency} のレートが未設定のため {baseCurrency}
+          で表示しています。月ごとのレートを入力するか CSV
+          を読み込んでください。
+        </p>
+      )}
+      <div className="mt-3 flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={() => importInputRef.current?.click()}
+          className={buttonClassName}
+        >
+          CSV 読み込み
+        </button>
+        <button type="button" onClick={onExport} className={buttonClassName}>
+          CSV 書き出し
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".csv,text/csv"
+          onChange={handleImport}
+          className="sr-only"
+        />
+      </div>
+      <p className="mt-2 text-xs text-slate-400">
+        CSV は month（YYYY-MM）列と rate 列を読み込みます（currency
+        列があれば通貨ごと）。レートのない月は最も近い月のレートで換算します。
+      </p>
+      <div className="mt-3 max-h-72 overflow-auto">
+        <table className="w-full text-sm">
+          <thead className="text-left text-xs text-slate-400">
+            <tr>
+              <th className="py-1 pr-2 font-medium">年月</th>
+              <th className="py-1 pr-2 font-medium">レート</th>
+              <th className="py-1 pr-2 font-medium">適用レート</th>
+            </tr>
+          </thead>
+          <tbody className="text-slate-200">
+            {months.map((month) => (
+              <tr key={month} className="border-t border-slate-800">
+                <td className="py-1 pr-2 tabular-nums">{month}</td>
+                <td className="py-1 pr-2">
+                  <input
+                    // 入力途中の値（"150." など）を保つため、確定時（blur）にだけ反映する
+                    key={`${currency}-${month}-${rates[month] ?? ""}`}
+                    type="number"
+                    min={0}
+                    step="any"
+                    defaultValue={rates[month] ?? ""}
+                    onBlur={(e) => {
+                      const value = Number(e.target.value);
+                      onRateChange(
+                        month,
+                        e.target.value.trim() !== "" &&
+                          Number.isFinite(value) &&
+                          value > 0
+                          ? value
+                          : null,
+                      );
+                    }}
+                    className="w-32 rounded-md border border-slate-800 bg-slate-900/40 px-2 py-1 text-sm text-slate-200"
+                  />
+                </td>
+                <td className="py-1 pr-2 text-xs text-slate-300 tabular-nums">
+                  {describeSource(month)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </details>
+  );
+}
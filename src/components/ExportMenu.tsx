@@ -0,0 +1,86 @@
+"use client";
+
+import { useState } from "react";
+import type { ExportLayout } from "@/lib/export";
+
+const IMAGE_SIZES = [
+  { label: "1280×720", width: 1280, height: 720 },
+  { label: "1920×1080", width: 1920, height: 1080 },
+  { label: "2560×1440", width: 2560, height: 1440 },
+  { label: "3840×2160", width: 3840, height: 2160 },
+] as const;
+
+export default function ExportMenu({
+  onExportCsv,
+  onExportPng,
+  onExportSvg,
+  disabled,
+}: {
+  onExportCsv: (layout: ExportLayout, bom: boolean) => void;
+  onExportPng: (width: number, height: number) => Promise<void> | void;
+  onExportSvg: () => void;
+  disabled: boolean;
+}) {
+  const [bom, setBom] = useState(true);
+  const [sizeIndex, setSizeIndex] = useState(1);
+  const size = IMAGE_SIZES[sizeIndex] ?? IMAGE_SIZES[0];
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs text-slate-300">
+      <span>エクスポート</span>
+      <button
+        type="button"
+        disabled={disabled}
+        onClick={() => onExportCsv("tidy", bom)}
+        className="rounded-md px-2 py-1 text-xs font-medium text-slate-200 border border-slate-800 bg-slate-900/30 disabled:opacity-40"
+      >
+        CSV（縦持ち）
+      </button>
+      <button
+        type="button"
+        disabled={disabled}
+        onClick={() => onExportCsv("pivot", bom)}
+        className="rounded-md px-2 py-1 text-xs font-medium text-slate-200 border border-slate-800 bg-slate-900/30 disabled:opacity-40"
+      >
+        CSV（ピボット）
+      </button>
+      <label className="flex items-center gap-1">
+        <input
+          type="checkbox"
+          checked={bom}
+          onChange={(e) => setBom(e.target.checked)}
+          className="h-4 w-4 rounded border-slate-700 bg-slate-800"
+        />
+        Excel 用に BOM を付ける
+      </label>
+      <span className="ml-2">画像（積み上げ棒グラフ）</span>
+      <select
+        value={sizeIndex}
+        onChange={(e) => setSizeIndex(Number(e.target.value))}
+        className="rounded-md border border-slate-800 bg-slate-900/40 px-2 py-1 text-xs text-slate-200"
+      >
+        {IMAGE_SIZES.map((option, index) => (
+          <option key={option.label} value={index}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <button
+        type="button"
+        disabled={disabled}
+        onClick={() => onExportPng(size.width, size.height)}
+        className="rounded-md px-2 py-1 text-xs font-medium text-slate-200 border border-slate-800 bg-slate-900/30 disabled:opacity-40"
+      >
+        PNG
+      </button>
+      <button
+        type="button"
+        disabled={disabled}
+        onClick={onExportSvg}
+        className="rounded-md px-2 py-1 text-xs font-medium text-slate-200 border border-slate-800 bg-slate-900/30 disabled:opacity-40"
+      >
+        SVG
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+"use client";
+
+import type { Dispatch, SetStateAction } from "react";
+import type { ForecastMethod, ForecastOptions } from "@/lib/forecast";
+
+const inputClassName =
+  "rounded-md border border-slate-800 bg-slate-900/40 px-2 py-1 text-slate-200 disabled:opacity-40";
+
+export default function ForecastControls({
+  enabled,
+  setEnabled,
+  options,
+  setOptions,
+  unavailableReason,
+}: {
+  enabled: boolean;
+  setEnabled: (enabled: boolean) => void;
+  options: ForecastOptions;
+  setOptions: Dispatch<SetStateAction<ForecastOptions>>;
+  // 予測を表示できない理由（年次表示・比較表示など）。null なら表示できる
+  unavailableReason: string | null;
+}) {
+  const disabled = unavailableReason !== null;
+  return (
+    <div className="flex w-full flex-wrap items-center gap-3 text-xs text-slate-300">
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={enabled}
+          disabled={disabled}
+          onChange={(e) => setEnabled(e.target.checked)}
+          className="h-4 w-4"
+        />
+        <span className="text-slate-300">予測を表示</span>
+      </label>
+      <label className="flex items-center gap-1">
+        手法
+        <select
+          value={options.method}
+          disabled={disabled || !enabled}
+          onChange={(e) =>
+            setOptions((prev) => ({
+              ...prev,
+              method: e.target.value as ForecastMethod,
+            }))
+          }
+          className={inputClassName}
+        >
+          <option value="linear">線形トレンド</option>
+          <option value="movingAverage">移動平均</option>
+        </select>
+      </label>
+      <label className="flex items-center gap-1">
+        予測期間
+        <input
+          type="number"
+          min={1}
+          max={24}
+          value={options.horizon}
+          disabled={disabled || !enabled}
+          onChange={(e) =>
+            setOptions((prev) => ({
+              ...prev,
+              horizon: Math.min(24, Math.max(1, Number(e.target.value) || 1)),
+            }))
+          }
+          className={`${inputClassName} w-14`}
+        />
+        ヶ月
+      </label>
+      {options.method === "movingAverage" && (
+        <label className="flex items-center gap-1">
+          平均する期間
+          <input
+            type="number"
+            min={1}
+            max={12}
+            value={options.window}
+            disabled={disabled || !enabled}
+            onChange={(e) =>
+              setOptions((prev) => ({
+                ...prev,
+                window: Math.min(12, Math.max(1, Number(e.target.value) || 1)),
+              }))
+            }
+            className={`${inputClassName} w-14`}
+          />
+          ヶ月
+        </label>
+      )}
+      <span className="text-slate-400">
+        {unavailableReason ??
+          "予測は半透明の棒、合計の 95% 区間は帯で表示します（書き出しには含みません）。"}
+      </span>
+    </div>
+  );
+}
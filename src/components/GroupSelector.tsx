@@ -0,0 +1,79 @@
+"use client";
+
+export default function GroupSelector({
+  dimensions,
+  groupDimension,
+  setGroupDimension,
+  groups,
+  selectedGroups,
+  toggleGroup,
+  selectAllGroups,
+  clearSelectedGroups,
+}: {
+  dimensions: string[];
+  groupDimension: string;
+  setGroupDimension: (dimension: string) => void;
+  groups: string[];
+  selectedGroups: string[];
+  toggleGroup: (group: string) => void;
+  selectAllGroups: () => void;
+  clearSelectedGroups: () => void;
+}) {
+  return (
+    <div className="rounded-xl border border-slate-800 bg-slate-950/60 p-4 w-full">
+      <div className="flex items-center justify-between">
+        <div className="text-sm text-slate-300">グループを選択</div>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={selectAllGroups}
+            className="rounded-md px-2 py-1 text-xs font-medium text-slate-200 border border-slate-800 bg-slate-900/30"
+          >
+            全部
+          </button>
+          <button
+            type="button"
+            onClick={clearSelectedGroups}
+            className="rounded-md px-2 py-1 text-xs font-medium text-slate-200 border border-slate-800 bg-slate-900/10"
+          >
+            解除
+          </button>
+        </div>
+      </div>
+      <div className="mt-3">
+        <select
+          value={groupDimension}
+          onChange={(e) => setGroupDimension(e.target.value)}
+          aria-label="分類"
+          className="w-full rounded-md border border-slate-800 bg-slate-900/40 px-3 py-2 text-sm text-slate-200"
+        >
+          {dimensions.map((dimension) => (
+            <option key={dimension} value={dimension}>
+              {dimension}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="mt-3 max-h-36 overflow-y-auto">
+        <ul className="space-y-2">
+          {groups.map((group) => {
+            const checked = selectedGroups.includes(group);
+            return (
+              <li key={group} className="flex items-center">
+                <label className="flex items-center gap-3 text-sm text-slate-200">
+                  <input
+                    type="checkbox"
+                    checked={checked}
+                    onChange={() => toggleGroup(group)}
+                    className="h-4 w-4 rounded border-slate-700 bg-slate-800 text-indigo-500 focus:ring-indigo-400"
+                  />
+                  <span className="truncate max-w-[12rem]">{group}</span>
+                </label>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+}
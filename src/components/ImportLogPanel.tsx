@@ -0,0 +1,181 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { BASE_CURRENCY, getCurrencyFormatter } from "@/lib/currency";
+import {
+  describeImportLogIssues,
+  filterImportLog,
+  IMPORT_LOG_STATUS_LABELS,
+  type ImportLogEntry,
+  type ImportLogFilter,
+  type ImportLogStatus,
+} from "@/lib/importLog";
+
+const buttonClassName =
+  "rounded-md px-2 py-1 text-xs font-medium text-slate-200 border border-slate-800 bg-slate-900/30 disabled:opacity-40";
+
+const inputClassName =
+  "rounded-md border border-slate-800 bg-slate-900/40 px-2 py-1 text-sm text-slate-200 placeholder:text-slate-500";
+
+const STATUS_CLASS_NAMES: Record<ImportLogStatus, string> = {
+  imported: "text-emerald-300",
+  replaced: "text-sky-300",
+  skipped: "text-slate-400",
+  failed: "text-red-300",
+};
+
+const dateFormatter = new Intl.DateTimeFormat("ja-JP", {
+  dateStyle: "short",
+  timeStyle: "medium",
+});
+
+export default function ImportLogPanel({
+  log,
+  onDownload,
+  onClear,
+}: {
+  log: ImportLogEntry[];
+  // 表示中（絞り込み後）のログをダウンロードする
+  onDownload: (entries: ImportLogEntry[], format: "csv" | "json") => void;
+  onClear: () => void;
+}) {
+  const [filter, setFilter] = useState<ImportLogFilter>({
+    status: "all",
+    query: "",
+  });
+  const entries = useMemo(() => filterImportLog(log, filter), [log, filter]);
+  const counts = useMemo(() => {
+    const result: Record<ImportLogStatus, number> = {
+      imported: 0,
+      replaced: 0,
+      skipped: 0,
+      failed: 0,
+    };
+    for (const entry of log) result[entry.status] += 1;
+    return result;
+  }, [log]);
+  const currencyFormatter = getCurrencyFormatter(BASE_CURRENCY);
+
+  return (
+    <details className="rounded-xl border border-slate-800 bg-slate-950/60 p-4 w-full">
+      <summary className="cursor-pointer text-sm text-slate-300">
+        インポートログ（{log.length} 件
+        {counts.failed > 0 ? `、失敗 ${counts.failed} 件` : ""}）
+      </summary>
+      <div className="mt-3 flex flex-wrap items-center gap-2">
+        <select
+          value={filter.status}
+          onChange={(e) =>
+            setFilter((prev) => ({
+              ...prev,
+              status: e.target.value as ImportLogFilter["status"],
+            }))
+          }
+          aria-label="状態で絞り込む"
+          className={inputClassName}
+        >
+          <option value="all">すべての状態</option>
+          {(Object.keys(IMPORT_LOG_STATUS_LABELS) as ImportLogStatus[]).map(
+            (status) => (
+              <option key={status} value={status}>
+                {IMPORT_LOG_STATUS_LABELS[status]}（{counts[status]}）
+              </option>
+            ),
+          )}
+        </select>
+        <input
+          value={filter.query}
+          onChange={(e) =>
+            setFilter((prev) => ({ ...prev, query: e.target.value }))
+          }
+          placeholder="ファイル・月・アカウント・警告で絞り込む"
+          aria-label="キーワードで絞り込む"
+          className={`${inputClassName} min-w-64`}
+        />
+        <span className="text-xs text-slate-400">
+          {entries.length} / {log.length} 件を表示
+        </span>
+        <div className="ml-auto flex gap-2">
+          <button
+            type="button"
+            disabled={entries.length === 0}
+            onClick={() => onDownload(entries, "csv")}
+            className={buttonClassName}
+          >
+            CSV をダウンロード
+          </button>
+          <button
+            type="button"
+            disabled={entries.length === 0}
+            onClick={() => onDownload(entries, "json")}
+            className={buttonClassName}
+          >
+            JSON をダウンロード
+          </button>
+          <button type="button" onClick={onClear} className={buttonClassName}>
+            ログを消去
+          </button>
+        </div>
+      </div>
+      <div className="mt-3 max-h-96 overflow-y-auto">
+        <table className="w-full text-sm">
+          <thead className="text-left text-xs text-slate-400">
+            <tr>
+              <th className="py-1 pr-2 font-medium">日時</th>
+              <th className="py-1 pr-2 font-medium">ファイル</th>
+              <th className="py-1 pr-2 font-medium">状態</th>
+              <th className="py-1 pr-2 text-right font-medium">行数</th>
+              <th className="py-1 pr-2 text-right font-medium">0 円で除外</th>
+              <th className="py-1 pr-2 text-right font-medium">合計</th>
+              <th className="py-1 pr-2 font-medium">月 / アカウント</th>
+              <th className="py-1 font-medium">警告・エラー</th>
+            </tr>
+          </thead>
+          <tbody className="text-slate-200">
+            {entries.map((entry) => (
+              <tr
+                key={entry.id}
+                className="border-t border-slate-800 align-top"
+              >
+                <td className="py-1 pr-2 text-xs whitespace-nowrap text-slate-400">
+                  {dateFormatter.format(new Date(entry.importedAt))}
+                </td>
+                <td className="py-1 pr-2 break-all">{entry.path}</td>
+                <td
+                  className={`py-1 pr-2 whitespace-nowrap ${STATUS_CLASS_NAMES[entry.status]}`}
+                >
+                  {IMPORT_LOG_STATUS_LABELS[entry.status]}
+                </td>
+                <td className="py-1 pr-2 text-right">{entry.rowCount}</td>
+                <td className="py-1 pr-2 text-right">{entry.zeroCostRows}</td>
+                <td className="py-1 pr-2 text-right whitespace-nowrap">
+                  {entry.status === "imported" || entry.status === "replaced"
+                    ? currencyFormatter.format(entry.total)
+                    : "-"}
+                </td>
+                <td className="py-1 pr-2 text-xs text-slate-300">
+                  {entry.months.join(", ") || "-"}
+                  {entry.accounts.length > 0 && (
+                    <span className="block text-slate-400">
+                      {entry.accounts.join(", ")}
+                    </span>
+                  )}
+                </td>
+                <td className="py-1 text-xs text-amber-200">
+                  {entry.issues.length > 0 && (
+                    <ul className="list-disc space-y-0.5 pl-4">
+                      {describeImportLogIssues(entry).map((issue, index) => (
+                        // 同じ警告が複数回出ることがあるため位置も使う
+                        <li key={`${index.toString()}-${issue}`}>{issue}</li>
+                      ))}
+                    </ul>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,246 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { ReportColumns } from "@/lib/csv";
+import { BASE_CURRENCY, getCurrencyFormatter } from "@/lib/currency";
+import {
+  applyImportMapping,
+  guessReportColumns,
+  type ImportMapping,
+  matchFileNamePattern,
+  type PendingImport,
+} from "@/lib/importMappings";
+
+const buttonClassName =
+  "rounded-md px-2 py-1 text-xs font-medium text-slate-200 border border-slate-800 bg-slate-900/30 disabled:opacity-40";
+
+const inputClassName =
+  "rounded-md border border-slate-800 bg-slate-900/40 px-2 py-1 text-sm text-slate-200 placeholder:text-slate-500";
+
+const PREVIEW_ROWS = 3;
+
+const COLUMN_LABELS: Record<keyof ReportColumns, string> = {
+  service: "サービス名",
+  cost: "金額（USD）",
+  description: "明細（任意）",
+};
+
+export default function ImportMappingDialog({
+  pending,
+  remainingCount,
+  savedMapping,
+  onConfirm,
+  onSkip,
+}: {
+  pending: PendingImport;
+  // このファイルの後に設定を待っているファイルの数
+  remainingCount: number;
+  // 同じヘッダーの保存済み設定（ファイル名のパターンで年月を取れなかった場合など）
+  savedMapping: ImportMapping | null;
+  onConfirm: (
+    mapping: Omit<ImportMapping, "id">,
+    manual: { month: string; accountId: string },
+    remember: boolean,
+  ) => void;
+  onSkip: () => void;
+}) {
+  const [columns, setColumns] = useState<ReportColumns>(
+    () => savedMapping?.columns ?? guessReportColumns(pending.fields),
+  );
+  const [fileNamePattern, setFileNamePattern] = useState(
+    savedMapping?.fileNamePattern ?? "",
+  );
+  const [month, setMonth] = useState("");
+  const [accountId, setAccountId] = useState("");
+  const [remember, setRemember] = useState(true);
+
+  const matched = matchFileNamePattern(fileNamePattern, pending.fileName);
+  const preview = useMemo(() => {
+    try {
+      return {
+        report: applyImportMapping(
+          pending,
+          { columns, fileNamePattern },
+          { month, accountId },
+        ),
+        error: null,
+      };
+    } catch (error) {
+      return {
+        report: null,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }, [pending, columns, fileNamePattern, month, accountId]);
+  const currencyFormatter = getCurrencyFormatter(BASE_CURRENCY);
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="import-mapping-title"
+      className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 p-4"
+    >
+      <div className="max-h-full w-full max-w-3xl overflow-y-auto rounded-xl border border-slate-800 bg-slate-900 p-5">
+        <div className="flex flex-wrap items-baseline justify-between gap-2">
+          <h2
+            id="import-mapping-title"
+            className="text-base font-semibold text-slate-100"
+          >
+            取り込み設定
+          </h2>
+          {remainingCount > 0 && (
+            <span className="text-xs text-slate-400">
+              ほかに {remainingCount} 件のファイルが設定を待っています
+            </span>
+          )}
+        </div>
+        <p className="mt-1 text-sm text-slate-300">
+          「{pending.path}
+          」の形式を判定できませんでした。サービス名と金額の列、年月とアカウントを指定してください。
+        </p>
+
+        <div className="mt-3 overflow-x-auto rounded-lg border border-slate-800">
+          <table className="w-full text-xs">
+            <thead className="bg-slate-950/60 text-left text-slate-400">
+              <tr>
+                {pending.fields.map((field) => (
+                  <th key={field} className="px-2 py-1 font-medium">
+                    {field}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="text-slate-300">
+              {pending.rows.slice(0, PREVIEW_ROWS).map((row, index) => (
+                <tr
+                  // プレビューの行は並び替えないため位置で識別する
+                  key={`preview-${index.toString()}`}
+                  className="border-t border-slate-800"
+                >
+                  {pending.fields.map((field) => (
+                    <td key={field} className="px-2 py-1">
+                      {row[field]}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="mt-4 grid gap-3 sm:grid-cols-3">
+          {(Object.keys(COLUMN_LABELS) as Array<keyof ReportColumns>).map(
+            (key) => (
+              <label
+                key={key}
+                className="flex flex-col gap-1 text-xs text-slate-300"
+              >
+                {COLUMN_LABELS[key]}
+                <select
+                  value={columns[key]}
+                  onChange={(e) =>
+                    setColumns((prev) => ({ ...prev, [key]: e.target.value }))
+                  }
+                  className={inputClassName}
+                >
+                  <option value="">（指定しない）</option>
+                  {pending.fields.map((field) => (
+                    <option key={field} value={field}>
+                      {field}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ),
+          )}
+        </div>
+
+        <label className="mt-4 flex flex-col gap-1 text-xs text-slate-300">
+          ファイル名のパターン（任意）
+          <input
+            value={fileNamePattern}
+            onChange={(e) => setFileNamePattern(e.target.value)}
+            placeholder="例: billing_{YYYY}{MM}_{ACCOUNT}.csv"
+            className={inputClassName}
+          />
+          <span className="text-slate-400">
+            {"{YYYY}"}・{"{MM}"} が年月、{"{ACCOUNT}"} がアカウント ID、*
+            は任意の文字列。
+            {fileNamePattern.trim() !== "" &&
+              (matched
+                ? ` 「${pending.fileName}」→ 年月: ${matched.month ?? "なし"} / アカウント: ${matched.accountId ?? "なし"}`
+                : ` 「${pending.fileName}」には一致しません。`)}
+          </span>
+        </label>
+
+        <div className="mt-3 grid gap-3 sm:grid-cols-2">
+          <label className="flex flex-col gap-1 text-xs text-slate-300">
+            年月（パターンで取れない場合）
+            <input
+              type="month"
+              value={month}
+              onChange={(e) => setMonth(e.target.value)}
+              disabled={Boolean(matched?.month)}
+              className={`${inputClassName} disabled:opacity-40`}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-slate-300">
+            アカウント ID（パターンで取れない場合・任意）
+            <input
+              value={accountId}
+              onChange={(e) => setAccountId(e.target.value)}
+              disabled={Boolean(matched?.accountId)}
+              placeholder="未指定ならファイル名で区別します"
+              className={`${inputClassName} disabled:opacity-40`}
+            />
+          </label>
+        </div>
+
+        <div className="mt-4 text-sm">
+          {preview.report ? (
+            <p className="text-slate-300">
+              {preview.report.month} /{" "}
+              {preview.report.accountId ?? pending.fileName}:{" "}
+              {Object.keys(preview.report.services).length} サービス、合計{" "}
+              {currencyFormatter.format(preview.report.total)}
+            </p>
+          ) : (
+            <p className="text-amber-200">{preview.error}</p>
+          )}
+        </div>
+
+        <div className="mt-4 flex flex-wrap items-center justify-between gap-3">
+          <label className="flex items-center gap-2 text-xs text-slate-300">
+            <input
+              type="checkbox"
+              checked={remember}
+              onChange={(e) => setRemember(e.target.checked)}
+              className="h-4 w-4"
+            />
+            列とパターンを保存し、同じヘッダーのファイルに次回から自動で適用する
+          </label>
+          <div className="flex gap-2">
+            <button type="button" onClick={onSkip} className={buttonClassName}>
+              スキップ
+            </button>
+            <button
+              type="button"
+              disabled={!preview.report}
+              onClick={() =>
+                onConfirm(
+                  { headers: pending.fields, columns, fileNamePattern },
+                  { month, accountId },
+                  remember,
+                )
+              }
+              className={buttonClassName}
+            >
+              取り込む
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
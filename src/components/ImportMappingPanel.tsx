@@ -0,0 +1,64 @@
+"use client";
+
+import type { ImportMapping } from "@/lib/importMappings";
+
+export default function ImportMappingPanel({
+  mappings,
+  onDelete,
+}: {
+  mappings: ImportMapping[];
+  onDelete: (id: string) => void;
+}) {
+  return (
+    <details className="rounded-xl border border-slate-800 bg-slate-950/60 p-4 w-full">
+      <summary className="cursor-pointer text-sm text-slate-300">
+        保存済みの取り込み設定（{mappings.length} 件）
+      </summary>
+      <p className="mt-2 text-xs text-slate-400">
+        形式を判定できなかったファイルのうち、ヘッダーが一致するものに自動で適用します。
+      </p>
+      <div className="mt-3 max-h-72 overflow-y-auto">
+        <table className="w-full text-sm">
+          <thead className="text-left text-xs text-slate-400">
+            <tr>
+              <th className="py-1 pr-2 font-medium">ヘッダー</th>
+              <th className="py-1 pr-2 font-medium">
+                サービス名 / 金額 / 明細
+              </th>
+              <th className="py-1 pr-2 font-medium">ファイル名のパターン</th>
+              <th className="py-1 font-medium" />
+            </tr>
+          </thead>
+          <tbody className="text-slate-200">
+            {mappings.map((mapping) => (
+              <tr key={mapping.id} className="border-t border-slate-800">
+                <td className="py-1 pr-2 text-xs text-slate-300">
+                  {mapping.headers.join(", ")}
+                </td>
+                <td className="py-1 pr-2">
+                  {[
+                    mapping.columns.service,
+                    mapping.columns.cost,
+                    mapping.columns.description || "-",
+                  ].join(" / ")}
+                </td>
+                <td className="py-1 pr-2">
+                  {mapping.fileNamePattern || "（手入力）"}
+                </td>
+                <td className="py-1 text-right">
+                  <button
+                    type="button"
+                    onClick={() => onDelete(mapping.id)}
+                    className="text-xs text-slate-400 hover:text-slate-200"
+                  >
+                    削除
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </details>
+  );
+}
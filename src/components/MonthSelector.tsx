@@ -1,6 +1,7 @@
 "use client";
 
 import type { Dispatch, SetStateAction } from "react";
+import type { MonthRangeShortcut } from "@/lib/periods";
 
 export default function MonthSelector({
   filteredMonths,
@@ -10,6 +11,9 @@ export default function MonthSelector({
   clearSelectedMonths,
   monthFilter,
   setMonthFilter,
+  shortcuts,
+  selectMonths,
+  periodLabels,
 }: {
   filteredMonths: string[];
   selectedMonths: string[];
@@ -18,6 +22,11 @@ export default function MonthSelector({
   clearSelectedMonths: () => void;
   monthFilter: string;
   setMonthFilter: Dispatch<SetStateAction<string>>;
+  // 「今年度」「直近 2 四半期」などの範囲の選択
+  shortcuts: MonthRangeShortcut[];
+  selectMonths: (months: string[]) => void;
+  // 月の属する期間（四半期・年度の表示中のみ）
+  periodLabels: Record<string, string>;
 }) {
   return (
     <div className="rounded-xl border border-slate-800 bg-slate-950/60 p-4 w-full">
@@ -40,6 +49,26 @@ export default function MonthSelector({
           </button>
         </div>
       </div>
+      {shortcuts.length > 0 && (
+        <div className="mt-3 flex flex-wrap gap-1">
+          {shortcuts.map((shortcut) => (
+            <button
+              key={shortcut.label}
+              type="button"
+              disabled={shortcut.months.length === 0}
+              onClick={() => selectMonths(shortcut.months)}
+              title={
+                shortcut.months.length > 0
+                  ? `${shortcut.months[0]}〜${shortcut.months[shortcut.months.length - 1]}`
+                  : "該当する月のデータがありません"
+              }
+              className="rounded-md px-2 py-1 text-xs font-medium text-slate-200 border border-slate-800 bg-slate-900/30 disabled:opacity-40"
+            >
+              {shortcut.label}
+            </button>
+          ))}
+        </div>
+      )}
       <div className="mt-3">
         <input
           value={monthFilter}
@@ -63,6 +92,11 @@ export default function MonthSelector({
                   />
                   <span className="truncate max-w-[9rem]">{month}</span>
                 </label>
+                {periodLabels[month] && (
+                  <span className="text-xs text-slate-500">
+                    {periodLabels[month]}
+                  </span>
+                )}
               </li>
             );
           })}
@@ -0,0 +1,246 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { ChartRow } from "@/lib/aggregate";
+import { getCurrencyFormatter } from "@/lib/currency";
+import {
+  buildPivotTable,
+  getHeatmapIntensity,
+  type PivotSortKey,
+  type PivotValueMode,
+  sortPivotRows,
+  toPivotCellValue,
+} from "@/lib/pivot";
+
+const inputClassName =
+  "rounded-md border border-slate-800 bg-slate-900/40 px-2 py-1 text-xs text-slate-200";
+
+const percentFormatter = new Intl.NumberFormat("en-US", {
+  style: "percent",
+  minimumFractionDigits: 1,
+  maximumFractionDigits: 1,
+});
+
+const VALUE_MODE_LABELS: Record<PivotValueMode, string> = {
+  amount: "金額",
+  periodShare: "期間内の割合",
+  totalShare: "全体に対する割合",
+};
+
+// indigo-500 の透明度で濃さを表す
+const heatmapColor = (intensity: number) =>
+  `rgba(99, 102, 241, ${(intensity * 0.55).toFixed(3)})`;
+
+export default function PivotTable({
+  data,
+  series,
+  seriesLabels = {},
+  currency,
+  incompletePeriods = [],
+}: {
+  data: ChartRow[];
+  series: string[];
+  // 系列の表示名（アカウントの表示名など）
+  seriesLabels?: Record<string, string>;
+  currency: string;
+  // 一部の月しか含まない期間。列見出しに「*」を付ける
+  incompletePeriods?: string[];
+}) {
+  const [valueMode, setValueMode] = useState<PivotValueMode>("amount");
+  const [showHeatmap, setShowHeatmap] = useState(true);
+  const [sortKey, setSortKey] = useState<PivotSortKey>("total");
+  const [sortDirection, setSortDirection] = useState<"asc" | "desc">("desc");
+
+  const table = useMemo(() => buildPivotTable(data, series), [data, series]);
+  // 表示中にない期間の列で並べ替えていたら合計で並べる
+  const activeSortKey =
+    sortKey === "series" ||
+    sortKey === "total" ||
+    table.periods.includes(sortKey)
+      ? sortKey
+      : "total";
+  const sortedRows = useMemo(
+    () =>
+      sortPivotRows(
+        table.rows,
+        activeSortKey,
+        sortDirection,
+        (name) => seriesLabels[name] ?? name,
+      ),
+    [table.rows, activeSortKey, sortDirection, seriesLabels],
+  );
+  const currencyFormatter = getCurrencyFormatter(currency);
+
+  const handleSort = (key: PivotSortKey) => {
+    if (key === activeSortKey) {
+      setSortDirection((prev) => (prev === "asc" ? "desc" : "asc"));
+      return;
+    }
+    setSortKey(key);
+    setSortDirection(key === "series" ? "asc" : "desc");
+  };
+
+  const formatCell = (value: number, periodTotal: number) => {
+    const display = toPivotCellValue(value, valueMode, {
+      periodTotal,
+      total: table.total,
+    });
+    if (display === null) return "-";
+    return valueMode === "amount"
+      ? currencyFormatter.format(display)
+      : percentFormatter.format(display);
+  };
+  // 合計の列は期間をまたぐため、割合の表示では常に全体に対する割合にする
+  const formatTotal = (value: number) =>
+    valueMode === "amount"
+      ? currencyFormatter.format(value)
+      : table.total === 0
+        ? "-"
+        : percentFormatter.format(value / table.total);
+
+  const sortableHeader = (key: PivotSortKey, label: string) => (
+    <button
+      type="button"
+      onClick={() => handleSort(key)}
+      className="hover:text-slate-200"
+    >
+      {label}
+      {activeSortKey === key && (sortDirection === "asc" ? " ▲" : " ▼")}
+    </button>
+  );
+  const ariaSort = (key: PivotSortKey) =>
+    activeSortKey === key
+      ? sortDirection === "asc"
+        ? "ascending"
+        : "descending"
+      : "none";
+
+  return (
+    <div className="rounded-xl border border-slate-800 bg-slate-950/60 p-4 w-full">
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="text-sm text-slate-300">
+          ピボット表（{table.rows.length} 系列 × {table.periods.length} 期間）
+        </div>
+        <label className="flex items-center gap-2 text-xs text-slate-300">
+          表示
+          <select
+            value={valueMode}
+            onChange={(e) => setValueMode(e.target.value as PivotValueMode)}
+            className={inputClassName}
+          >
+            {(Object.keys(VALUE_MODE_LABELS) as PivotValueMode[]).map(
+              (mode) => (
+                <option key={mode} value={mode}>
+                  {VALUE_MODE_LABELS[mode]}
+                </option>
+              ),
+            )}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-xs text-slate-300">
+          <input
+            type="checkbox"
+            checked={showHeatmap}
+            onChange={(e) => setShowHeatmap(e.target.checked)}
+            className="h-4 w-4"
+          />
+          ヒートマップ
+        </label>
+      </div>
+      <div className="mt-3 max-h-[32rem] overflow-auto">
+        <table className="w-full border-separate border-spacing-0 text-sm">
+          <thead className="text-xs text-slate-400">
+            <tr>
+              <th
+                className="sticky top-0 left-0 z-20 bg-slate-950 py-2 pr-4 text-left font-medium"
+                aria-sort={ariaSort("series")}
+              >
+                {sortableHeader("series", "系列")}
+              </th>
+              {table.periods.map((period) => (
+                <th
+                  key={period}
+                  className="sticky top-0 z-10 bg-slate-950 px-2 py-2 text-right font-medium whitespace-nowrap"
+                  aria-sort={ariaSort(period)}
+                >
+                  {sortableHeader(
+                    period,
+                    incompletePeriods.includes(period) ? `${period} *` : period,
+                  )}
+                </th>
+              ))}
+              <th
+                className="sticky top-0 z-10 bg-slate-950 px-2 py-2 text-right font-medium"
+                aria-sort={ariaSort("total")}
+              >
+                {sortableHeader("total", "合計")}
+              </th>
+            </tr>
+          </thead>
+          <tbody className="text-slate-200">
+            {sortedRows.map((row) => (
+              <tr key={row.series}>
+                <th
+                  scope="row"
+                  className="sticky left-0 z-10 border-t border-slate-800 bg-slate-950 py-1 pr-4 text-left font-normal"
+                >
+                  {seriesLabels[row.series] ?? row.series}
+                </th>
+                {table.periods.map((period) => (
+                  <td
+                    key={period}
+                    className="border-t border-slate-800 px-2 py-1 text-right tabular-nums whitespace-nowrap"
+                    style={
+                      showHeatmap
+                        ? {
+                            backgroundColor: heatmapColor(
+                              getHeatmapIntensity(
+                                row.values[period] ?? 0,
+                                table.maxValue,
+                              ),
+                            ),
+                          }
+                        : undefined
+                    }
+                  >
+                    {formatCell(
+                      row.values[period] ?? 0,
+                      table.periodTotals[period] ?? 0,
+                    )}
+                  </td>
+                ))}
+                <td className="border-t border-slate-800 px-2 py-1 text-right font-medium tabular-nums whitespace-nowrap">
+                  {formatTotal(row.total)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot className="text-slate-100">
+            <tr>
+              <th
+                scope="row"
+                className="sticky bottom-0 left-0 z-20 border-t border-slate-700 bg-slate-950 py-2 pr-4 text-left font-medium"
+              >
+                合計
+              </th>
+              {table.periods.map((period) => (
+                <td
+                  key={period}
+                  className="sticky bottom-0 z-10 border-t border-slate-700 bg-slate-950 px-2 py-2 text-right font-medium tabular-nums whitespace-nowrap"
+                >
+                  {formatCell(
+                    table.periodTotals[period] ?? 0,
+                    table.periodTotals[period] ?? 0,
+                  )}
+                </td>
+              ))}
+              <td className="sticky bottom-0 z-10 border-t border-slate-700 bg-slate-950 px-2 py-2 text-right font-semibold tabular-nums whitespace-nowrap">
+                {formatTotal(table.total)}
+              </td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+"use client";
+
+import { type ChangeEvent, useRef, useState } from "react";
+import type { ViewPreset } from "@/lib/presets";
+
+const buttonClassName =
+  "rounded-md px-2 py-1 text-xs font-medium text-slate-200 border border-slate-800 bg-slate-900/30 disabled:opacity-40";
+
+export default function PresetPanel({
+  presets,
+  onSave,
+  onApply,
+  onRename,
+  onDelete,
+  onImport,
+  onExport,
+}: {
+  presets: ViewPreset[];
+  onSave: (name: string) => void;
+  onApply: (preset: ViewPreset) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onImport: (file: File) => Promise<void> | void;
+  onExport: () => void;
+}) {
+  const importInputRef = useRef<HTMLInputElement | null>(null);
+  const [newName, setNewName] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState("");
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) await onImport(file);
+    event.target.value = "";
+  };
+
+  const commitRename = () => {
+    if (editingId && editingName.trim() !== "") {
+      onRename(editingId, editingName);
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="rounded-xl border border-slate-800 bg-slate-950/60 p-4 w-full">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="text-sm text-slate-300">保存したビュー</div>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => importInputRef.current?.click()}
+            className={buttonClassName}
+          >
+            JSON 読み込み
+          </button>
+          <button
+            type="button"
+            onClick={onExport}
+            disabled={presets.length === 0}
+            className={buttonClassName}
+          >
+            JSON 書き出し
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={handleImport}
+            className="sr-only"
+          />
+        </div>
+      </div>
+      <form
+        className="mt-3 flex gap-2"
+        onSubmit={(event) => {
+          event.preventDefault();
+          if (newName.trim() === "") return;
+          onSave(newName);
+          setNewName("");
+        }}
+      >
+        <input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="現在の条件に名前を付けて保存..."
+          className="w-full rounded-md border border-slate-800 bg-slate-900/40 px-3 py-2 text-sm text-slate-200 placeholder:text-slate-400"
+        />
+        <button
+          type="submit"
+          disabled={newName.trim() === ""}
+          className="rounded-md px-3 py-1 text-xs font-medium text-slate-200 border border-slate-800 bg-indigo-500/10 disabled:opacity-40"
+        >
+          保存
+        </button>
+      </form>
+      {presets.length > 0 && (
+        <ul className="mt-3 max-h-40 space-y-2 overflow-y-auto">
+          {presets.map((preset) => (
+            <li
+              key={preset.id}
+              className="flex items-center justify-between gap-2 text-sm text-slate-200"
+            >
+              {editingId === preset.id ? (
+                <input
+                  value={editingName}
+                  onChange={(e) => setEditingName(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") commitRename();
+                    if (e.key === "Escape") setEditingId(null);
+                  }}
+                  className="w-full rounded-md border border-slate-800 bg-slate-900/40 px-2 py-1 text-sm text-slate-200"
+                />
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => onApply(preset)}
+                  className="truncate text-left text-indigo-300 hover:underline"
+                  title="このビューを適用"
+                >
+                  {preset.name}
+                </button>
+              )}
+              <div className="flex shrink-0 gap-2">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setEditingId(preset.id);
+                    setEditingName(preset.name);
+                  }}
+                  className={buttonClassName}
+                >
+                  名前変更
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onDelete(preset.id)}
+                  className={buttonClassName}
+                >
+                  削除
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
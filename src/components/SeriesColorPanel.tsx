@@ -0,0 +1,100 @@
+"use client";
+
+import {
+  COLOR_PALETTE_IDS,
+  COLOR_PALETTES,
+  type ColorPaletteId,
+} from "@/lib/colors";
+
+const buttonClassName =
+  "rounded-md px-2 py-1 text-xs font-medium text-slate-200 border border-slate-800 bg-slate-900/30 disabled:opacity-40";
+
+export default function SeriesColorPanel({
+  series,
+  seriesLabels = {},
+  seriesColors,
+  palette,
+  customColors,
+  onPaletteChange,
+  onColorChange,
+  onReset,
+}: {
+  // 表示中の系列
+  series: string[];
+  seriesLabels?: Record<string, string>;
+  seriesColors: Record<string, string>;
+  palette: ColorPaletteId;
+  customColors: Record<string, string>;
+  onPaletteChange: (palette: ColorPaletteId) => void;
+  // color が null なら固定を解除してパレットの色に戻す
+  onColorChange: (series: string, color: string | null) => void;
+  onReset: () => void;
+}) {
+  const pinnedCount = Object.keys(customColors).length;
+
+  return (
+    <details className="rounded-xl border border-slate-800 bg-slate-950/60 p-4 w-full">
+      <summary className="cursor-pointer text-sm text-slate-300">
+        系列の色（{COLOR_PALETTES[palette].label}
+        {pinnedCount > 0 && `・固定 ${pinnedCount} 件`}）
+      </summary>
+      <div className="mt-3 flex flex-wrap items-center gap-3 text-xs text-slate-300">
+        <label className="flex items-center gap-1">
+          パレット
+          <select
+            value={palette}
+            onChange={(e) => onPaletteChange(e.target.value as ColorPaletteId)}
+            className="rounded-md border border-slate-800 bg-slate-900/40 px-2 py-1 text-slate-200"
+          >
+            {COLOR_PALETTE_IDS.map((id) => (
+              <option key={id} value={id}>
+                {COLOR_PALETTES[id].label}
+                {COLOR_PALETTES[id].colorblindSafe && "・色覚多様性に配慮"}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          type="button"
+          onClick={onReset}
+          disabled={pinnedCount === 0}
+          className={buttonClassName}
+        >
+          固定した色をすべて解除
+        </button>
+      </div>
+      <p className="mt-2 text-xs text-slate-400">
+        色は系列名から決まり、並び順を変えても変わりません（同じ色になる系列があるときは、名前順に次の色へずらします）。色見本をクリックすると、その系列の色を固定できます（このブラウザに保存）。
+      </p>
+      <ul className="mt-3 grid gap-x-4 gap-y-1 text-sm sm:grid-cols-2 lg:grid-cols-3">
+        {series.map((name) => {
+          const label = seriesLabels[name] ?? name;
+          const isPinned = Object.hasOwn(customColors, name);
+          return (
+            <li key={name} className="flex items-center gap-2">
+              <input
+                type="color"
+                value={seriesColors[name]}
+                onChange={(e) => onColorChange(name, e.target.value)}
+                aria-label={`${label} の色`}
+                className="h-5 w-6 shrink-0 cursor-pointer rounded border border-slate-700 bg-transparent"
+              />
+              <span className="min-w-0 flex-1 truncate text-slate-200">
+                {label}
+              </span>
+              {isPinned && (
+                <button
+                  type="button"
+                  onClick={() => onColorChange(name, null)}
+                  className="text-xs text-slate-400 hover:text-slate-200"
+                >
+                  固定を解除
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </details>
+  );
+}
@@ -0,0 +1,115 @@
+"use client";
+
+import { type ChangeEvent, useRef } from "react";
+import {
+  getBuiltinServiceCategory,
+  type ServiceCategoryMap,
+} from "@/lib/serviceCategories";
+
+const buttonClassName =
+  "rounded-md px-2 py-1 text-xs font-medium text-slate-200 border border-slate-800 bg-slate-900/30 disabled:opacity-40";
+
+const inputClassName =
+  "w-full rounded-md border border-slate-800 bg-slate-900/40 px-2 py-1 text-sm text-slate-200 placeholder:text-slate-500";
+
+export default function ServiceCategoryPanel({
+  services,
+  overrides,
+  categories,
+  onChange,
+  onReset,
+  onImport,
+  onExport,
+}: {
+  services: string[];
+  overrides: ServiceCategoryMap;
+  categories: string[];
+  onChange: (service: string, category: string) => void;
+  onReset: () => void;
+  onImport: (file: File) => Promise<void> | void;
+  onExport: () => void;
+}) {
+  const importInputRef = useRef<HTMLInputElement | null>(null);
+  const hasOverrides = Object.keys(overrides).length > 0;
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) await onImport(file);
+    event.target.value = "";
+  };
+
+  return (
+    <details className="rounded-xl border border-slate-800 bg-slate-950/60 p-4 w-full">
+      <summary className="cursor-pointer text-sm text-slate-300">
+        サービスのカテゴリ
+      </summary>
+      <div className="mt-3 flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={() => importInputRef.current?.click()}
+          className={buttonClassName}
+        >
+          CSV / JSON 読み込み
+        </button>
+        <button
+          type="button"
+          onClick={onExport}
+          disabled={!hasOverrides}
+          className={buttonClassName}
+        >
+          JSON 書き出し
+        </button>
+        <button
+          type="button"
+          onClick={onReset}
+          disabled={!hasOverrides}
+          className={buttonClassName}
+        >
+          すべて既定に戻す
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          onChange={handleImport}
+          className="sr-only"
+        />
+      </div>
+      <p className="mt-2 text-xs text-slate-400">
+        空欄のサービスは組み込みの対応表（薄字）のカテゴリになります。CSV は
+        service（または product_name）列と category 列を読み込みます。
+      </p>
+      <datalist id="service-category-options">
+        {categories.map((category) => (
+          <option key={category} value={category} />
+        ))}
+      </datalist>
+      <div className="mt-3 max-h-72 overflow-auto">
+        <table className="w-full text-sm">
+          <thead className="text-left text-xs text-slate-400">
+            <tr>
+              <th className="py-1 pr-2 font-medium">サービス</th>
+              <th className="py-1 pr-2 font-medium">カテゴリ</th>
+            </tr>
+          </thead>
+          <tbody className="text-slate-200">
+            {services.map((service) => (
+              <tr key={service} className="border-t border-slate-800">
+                <td className="py-1 pr-2">{service}</td>
+                <td className="py-1 pr-2">
+                  <input
+                    value={overrides[service] ?? ""}
+                    onChange={(e) => onChange(service, e.target.value)}
+                    placeholder={getBuiltinServiceCategory(service)}
+                    list="service-category-options"
+                    className={inputClassName}
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </details>
+  );
+}
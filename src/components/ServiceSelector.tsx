@@ -7,7 +7,6 @@ export default function ServiceSelector({
   selectedServices,
   toggleService,
   selectAllServices,
-  selectTop10,
   clearSelectedServices,
   serviceFilter,
   setServiceFilter,
@@ -16,7 +15,6 @@ export default function ServiceSelector({
   selectedServices: string[];
   toggleService: (service: string) => void;
   selectAllServices: () => void;
-  selectTop10: () => void;
   clearSelectedServices: () => void;
   serviceFilter: string;
   setServiceFilter: Dispatch<SetStateAction<string>>;
@@ -33,13 +31,6 @@ export default function ServiceSelector({
           >
             全部
           </button>
-          <button
-            type="button"
-            onClick={selectTop10}
-            className="rounded-md px-2 py-1 text-xs font-medium text-slate-200 border border-slate-800 bg-indigo-500/10"
-          >
-            Top10
-          </button>
           <button
             type="button"
             onClick={clearSelectedServices}
@@ -0,0 +1,72 @@
+"use client";
+
+import { useState } from "react";
+import type { MissingViewItems } from "@/lib/viewState";
+
+const MISSING_LABELS: Array<[keyof MissingViewItems, string]> = [
+  ["accounts", "アカウント"],
+  ["months", "年月"],
+  ["services", "サービス"],
+  ["groups", "グループ"],
+  ["categories", "カテゴリ"],
+];
+
+export default function SharePanel({
+  missingItems,
+  onCopyLink,
+  onDismissMissing,
+}: {
+  missingItems: MissingViewItems | null;
+  onCopyLink: () => Promise<void>;
+  onDismissMissing: () => void;
+}) {
+  const [copied, setCopied] = useState(false);
+
+  return (
+    <div className="mt-3 flex flex-col gap-3">
+      <div className="flex items-center gap-3 text-xs text-slate-400">
+        <button
+          type="button"
+          onClick={async () => {
+            await onCopyLink();
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000);
+          }}
+          className="rounded-md px-2 py-1 text-xs font-medium text-slate-200 border border-slate-800 bg-slate-900/30"
+        >
+          表示条件のリンクをコピー
+        </button>
+        {copied ? (
+          <span className="text-indigo-300">コピーしました</span>
+        ) : (
+          <span>リンクには表示条件のみが含まれ、料金データは含まれません</span>
+        )}
+      </div>
+      {missingItems && (
+        <div className="rounded-lg border border-amber-500/40 bg-amber-500/10 p-4 text-sm text-amber-200">
+          <div className="flex items-start justify-between gap-4">
+            <p className="font-semibold">
+              共有された表示条件のうち、読み込まれていない項目があります
+            </p>
+            <button
+              type="button"
+              onClick={onDismissMissing}
+              className="rounded-md px-2 py-1 text-xs font-medium text-amber-100 border border-amber-500/40"
+            >
+              閉じる
+            </button>
+          </div>
+          <ul className="mt-2 list-disc space-y-1 pl-5">
+            {MISSING_LABELS.filter(([key]) => missingItems[key].length > 0).map(
+              ([key, label]) => (
+                <li key={key}>
+                  {label}: {missingItems[key].join(", ")}
+                </li>
+              ),
+            )}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,36 +1,506 @@
 "use client";
 
-import type { Chart as ChartJS, ChartOptions, Plugin } from "chart.js";
+import type {
+  ChartConfiguration,
+  Chart as ChartJS,
+  ChartOptions,
+  Plugin,
+} from "chart.js";
 import Chart from "chart.js/auto";
 import { useEffect, useMemo, useRef } from "react";
+import type { ChartRow } from "@/lib/aggregate";
+import {
+  type BudgetLine,
+  budgetLineActual,
+  budgetLineBase,
+} from "@/lib/budgets";
+import { withAlpha } from "@/lib/colors";
+import { BASE_CURRENCY, getCurrencyFormatter } from "@/lib/currency";
+import type { ForecastResult } from "@/lib/forecast";
 
-type ChartRow = {
-  month: string;
-  services: Record<string, number>;
+type StackedTotalsOptions = {
+  position?: string;
+  color?: string;
+  currency?: string;
 };
 
-const currencyFormatter = new Intl.NumberFormat("en-US", {
-  style: "currency",
-  currency: "USD",
-  minimumFractionDigits: 2,
-  maximumFractionDigits: 2,
+const stackedTotalsPlugin: Plugin<"bar"> = {
+  id: "stackedTotals",
+  afterDatasetsDraw(chart) {
+    const ctx = chart.ctx;
+    if (!ctx) return;
+
+    const labels = chart.data.labels ?? [];
+    const datasets = chart.data.datasets ?? [];
+    if (datasets.length === 0) return;
+
+    const options =
+      (
+        chart.options as unknown as {
+          plugins?: { stackedTotals?: StackedTotalsOptions };
+        }
+      )?.plugins?.stackedTotals ?? {};
+
+    labels.forEach((_, idx) => {
+      const elems: Array<{ x: number; y: number; base: number }> = [];
+      for (let dsIdx = 0; dsIdx < datasets.length; dsIdx += 1) {
+        const meta = chart.getDatasetMeta(dsIdx as number) as unknown as {
+          data?: Array<{ x: number; y: number; base: number }>;
+        };
+        const el = meta?.data?.[idx];
+        // 値のない期間（実績の後ろの予測期間など）の要素は座標が NaN になる
+        if (el && Number.isFinite(el.y)) {
+          elems.push({ x: el.x, y: el.y, base: el.base });
+        }
+      }
+      if (elems.length === 0) return;
+
+      const total = datasets.reduce((sum, ds) => {
+        const arr = ds.data as unknown as Array<number>;
+        const val = Number(arr?.[idx] ?? 0);
+        return sum + (Number.isFinite(val) ? val : 0);
+      }, 0);
+
+      const yTop = Math.min(...elems.map((z) => z.y));
+      const yBottom = Math.max(...elems.map((z) => z.base));
+      const x = elems[0].x;
+
+      ctx.save();
+      ctx.fillStyle = options.color ?? "#e6edf3";
+      ctx.font = "600 12px Inter, ui-sans-serif, system-ui";
+      ctx.textAlign = "center";
+      ctx.textBaseline = "bottom";
+
+      const text = getCurrencyFormatter(
+        options.currency ?? BASE_CURRENCY,
+      ).format(total);
+      let yPos = yTop - 6;
+      if ((options.position ?? "top") === "bottom") {
+        ctx.textBaseline = "top";
+        yPos = yBottom + 6;
+      }
+      ctx.fillText(text, x, yPos);
+      ctx.restore();
+    });
+  },
+};
+
+// 書き出し画像は背景が透過しないよう塗りつぶす
+const backgroundPlugin: Plugin<"bar"> = {
+  id: "exportBackground",
+  beforeDraw(chart) {
+    const color = (
+      chart.options as unknown as {
+        plugins?: { exportBackground?: { color?: string } };
+      }
+    )?.plugins?.exportBackground?.color;
+    if (!color) return;
+    const ctx = chart.ctx;
+    ctx.save();
+    ctx.fillStyle = color;
+    ctx.fillRect(0, 0, chart.width, chart.height);
+    ctx.restore();
+  },
+};
+
+const BUDGET_COLOR = "#cbd5e1";
+const OVER_BUDGET_COLOR = "#f87171";
+
+const createBudgetLinesPlugin = (
+  data: ChartRow[],
+  services: string[],
+  lines: BudgetLine[],
+): Plugin<"bar"> => ({
+  id: "budgetLines",
+  afterDatasetsDraw(chart) {
+    const ctx = chart.ctx;
+    const yScale = chart.scales.y;
+    if (!ctx || !yScale) return;
+    const color =
+      (
+        chart.options as unknown as {
+          plugins?: { budgetLines?: { color?: string } };
+        }
+      )?.plugins?.budgetLines?.color ?? BUDGET_COLOR;
+
+    for (const line of lines) {
+      const idx = data.findIndex((row) => row.month === line.period);
+      if (idx < 0) continue;
+      const dsIdx = line.series === null ? 0 : services.indexOf(line.series);
+      if (dsIdx < 0) continue;
+      const meta = chart.getDatasetMeta(dsIdx) as unknown as {
+        hidden?: boolean;
+        data?: Array<{ x: number; width: number }>;
+      };
+      const el = meta?.data?.[idx];
+      if (!el || (line.series !== null && meta.hidden)) continue;
+
+      const row = data[idx];
+      const actual = budgetLineActual(row, services, line);
+      const base = budgetLineBase(row, services, line);
+      const y = yScale.getPixelForValue(base + line.amount);
+      const halfWidth = el.width / 2 + (line.series === null ? 6 : 2);
+
+      ctx.save();
+      ctx.strokeStyle = actual > line.amount ? OVER_BUDGET_COLOR : color;
+      ctx.lineWidth = line.series === null ? 2 : 1.5;
+      ctx.setLineDash(line.series === null ? [6, 3] : [3, 3]);
+      ctx.beginPath();
+      ctx.moveTo(el.x - halfWidth, y);
+      ctx.lineTo(el.x + halfWidth, y);
+      ctx.stroke();
+      ctx.restore();
+    }
+  },
+});
+
+// 予測期間の合計の 95% 信頼区間を帯で描く（予測の棒は実績の期間の後ろに並ぶ）
+const createForecastBandPlugin = (
+  offset: number,
+  services: string[],
+  forecast: ForecastResult,
+): Plugin<"bar"> => ({
+  id: "forecastBand",
+  afterDatasetsDraw(chart) {
+    const ctx = chart.ctx;
+    const yScale = chart.scales.y;
+    if (!ctx || !yScale) return;
+    const meta = chart.getDatasetMeta(services.length) as unknown as {
+      data?: Array<{ x: number; width: number }>;
+    };
+
+    const upper: Array<[number, number]> = [];
+    const lower: Array<[number, number]> = [];
+    forecast.rows.forEach((row, i) => {
+      const el = meta?.data?.[offset + i];
+      const band = forecast.bands[row.month];
+      if (!el || !band) return;
+      const left = el.x - el.width / 2;
+      const right = el.x + el.width / 2;
+      const top = yScale.getPixelForValue(band.upper);
+      const bottom = yScale.getPixelForValue(band.lower);
+      upper.push([left, top], [right, top]);
+      lower.unshift([right, bottom], [left, bottom]);
+    });
+    if (upper.length === 0) return;
+
+    ctx.save();
+    ctx.fillStyle = "rgba(148, 163, 184, 0.18)";
+    ctx.strokeStyle = "rgba(148, 163, 184, 0.8)";
+    ctx.lineWidth = 1;
+    ctx.setLineDash([4, 3]);
+    ctx.beginPath();
+    for (const [index, [x, y]] of [...upper, ...lower].entries()) {
+      if (index === 0) ctx.moveTo(x, y);
+      else ctx.lineTo(x, y);
+    }
+    ctx.closePath();
+    ctx.fill();
+    ctx.stroke();
+    ctx.restore();
+  },
 });
 
-const generateColor = (index: number) => {
-  const hue = (index * 59) % 360;
-  return `hsl(${hue} 70% 52%)`;
+// 予算線や予測の信頼区間が棒より上にあっても見切れないよう、縦軸の最大値の候補にする
+const suggestedMaxOf = (
+  data: ChartRow[],
+  services: string[],
+  lines: BudgetLine[],
+  forecast: ForecastResult | undefined,
+) => {
+  let max = 0;
+  for (const line of lines) {
+    const idx = data.findIndex((row) => row.month === line.period);
+    if (idx < 0) continue;
+    max = Math.max(
+      max,
+      budgetLineBase(data[idx], services, line) + line.amount,
+    );
+  }
+  for (const band of Object.values(forecast?.bands ?? {})) {
+    max = Math.max(max, band.upper);
+  }
+  return max > 0 ? max : undefined;
+};
+
+const buildChartConfiguration = ({
+  data,
+  services,
+  seriesLabels = {},
+  colors,
+  currency,
+  periodNotes = {},
+  incompletePeriods = [],
+  budgetLines = [],
+  forecast,
+  showLegend,
+  sumPosition,
+  plugins = [],
+  extraOptions = {},
+}: {
+  data: ChartRow[];
+  services: string[];
+  seriesLabels?: Record<string, string>;
+  colors: string[];
+  currency: string;
+  periodNotes?: Record<string, string>;
+  incompletePeriods?: string[];
+  budgetLines?: BudgetLine[];
+  forecast?: ForecastResult;
+  showLegend: boolean;
+  sumPosition: "top" | "bottom";
+  plugins?: Plugin<"bar">[];
+  extraOptions?: Record<string, unknown>;
+}): ChartConfiguration<"bar"> => {
+  const currencyFormatter = getCurrencyFormatter(currency);
+  const incomplete = new Set(incompletePeriods);
+  const chartOptions = {
+    maintainAspectRatio: false,
+    responsive: true,
+    scales: {
+      x: {
+        stacked: true,
+        ticks: {
+          autoSkip: false,
+          // 一部の月しか含まない期間は軸ラベルに「*」を付ける
+          callback(
+            this: { getLabelForValue: (value: number) => string },
+            value: number | string,
+          ) {
+            const label = this.getLabelForValue(Number(value));
+            return incomplete.has(label) ? `${label} *` : label;
+          },
+        },
+      },
+      y: {
+        stacked: true,
+        ticks: {
+          callback(value: number | string) {
+            return currencyFormatter.format(Number(value));
+          },
+        },
+        beginAtZero: true,
+        suggestedMax: suggestedMaxOf(data, services, budgetLines, forecast),
+      },
+    },
+    plugins: {
+      stackedTotals: { position: sumPosition, currency },
+      legend: {
+        display: showLegend,
+        position: "bottom",
+        labels: {
+          boxHeight: 12,
+          boxWidth: 12,
+          // 予測の系列は実績の系列と同じ色なので凡例には出さない
+          filter: (item: { datasetIndex?: number }) =>
+            (item.datasetIndex ?? 0) < services.length,
+        },
+      },
+      tooltip: {
+        callbacks: {
+          label(context: {
+            dataset?: { label?: string };
+            parsed?: { y?: number };
+          }) {
+            const label = context.dataset?.label ?? "";
+            const rawValue = context.parsed?.y ?? 0;
+            return `${label}: ${currencyFormatter.format(rawValue)}`;
+          },
+          footer(items: Array<{ label?: string; parsed?: { y?: number } }>) {
+            const total = items.reduce(
+              (sum: number, item) => sum + (item.parsed?.y ?? 0),
+              0,
+            );
+            const note = periodNotes[items[0]?.label ?? ""];
+            const footer = `合計: ${currencyFormatter.format(total)}`;
+            return note ? [footer, note] : footer;
+          },
+        },
+      },
+    },
+    ...extraOptions,
+  } as unknown as ChartOptions<"bar">;
+
+  // 予測は実績の後ろに期間を足し、同じ色の半透明の棒として別の系列で描く
+  const forecastRows = forecast?.rows ?? [];
+  return {
+    type: "bar",
+    data: {
+      labels: [...data, ...forecastRows].map((row) => row.month),
+      datasets: [
+        ...services.map((service, index) => ({
+          label: seriesLabels[service] ?? service,
+          data: [
+            ...data.map((row) => Number(row.services[service] ?? 0)),
+            ...forecastRows.map(() => null),
+          ],
+          backgroundColor: colors[index],
+          borderColor: colors[index],
+          borderWidth: 1,
+        })),
+        ...(forecastRows.length > 0
+          ? services.map((service, index) => ({
+              label: `${seriesLabels[service] ?? service}（予測）`,
+              data: [
+                ...data.map(() => null),
+                ...forecastRows.map((row) =>
+                  Number(row.services[service] ?? 0),
+                ),
+              ],
+              backgroundColor: withAlpha(colors[index], 0.3),
+              borderColor: colors[index],
+              borderWidth: 1,
+            }))
+          : []),
+      ],
+    },
+    options: chartOptions,
+    plugins: [
+      stackedTotalsPlugin,
+      ...(budgetLines.length > 0
+        ? [createBudgetLinesPlugin(data, services, budgetLines)]
+        : []),
+      ...(forecast && forecastRows.length > 0
+        ? [createForecastBandPlugin(data.length, services, forecast)]
+        : []),
+      ...plugins,
+    ],
+  };
+};
+
+/**
+ * 画面とは別のキャンバスに、タイトル・フィルター条件・凡例付きでチャートを描画して PNG を返す。
+ */
+export const renderStackedBarChartPng = ({
+  data,
+  services,
+  colors,
+  title,
+  subtitle,
+  currency,
+  incompletePeriods,
+  budgetLines,
+  width,
+  height,
+}: {
+  data: ChartRow[];
+  services: string[];
+  // services と同じ順の系列の色
+  colors: string[];
+  currency: string;
+  incompletePeriods?: string[];
+  budgetLines?: BudgetLine[];
+  title: string;
+  subtitle: string;
+  width: number;
+  height: number;
+}): Promise<Blob> => {
+  // 論理サイズ 1280px 幅で描画し、devicePixelRatio で指定解像度まで拡大する（文字や余白も比例して大きくなる）
+  const scale = width / 1280;
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(width / scale);
+  canvas.height = Math.round(height / scale);
+  const textColor = "#0f172a";
+
+  const config = buildChartConfiguration({
+    data,
+    services,
+    colors,
+    currency,
+    incompletePeriods,
+    budgetLines,
+    showLegend: true,
+    sumPosition: "top",
+    plugins: [backgroundPlugin],
+  });
+  const options = config.options as unknown as {
+    plugins: Record<string, unknown>;
+    scales: Record<string, { ticks?: Record<string, unknown> }>;
+  };
+  Object.assign(config.options ?? {}, {
+    responsive: false,
+    animation: false,
+    devicePixelRatio: scale,
+    layout: { padding: 16 },
+  });
+  options.plugins.stackedTotals = {
+    position: "top",
+    color: textColor,
+    currency,
+  };
+  options.plugins.exportBackground = { color: "#ffffff" };
+  options.plugins.budgetLines = { color: "#475569" };
+  options.plugins.title = {
+    display: true,
+    text: title,
+    color: textColor,
+    font: { size: 18, weight: "bold" },
+  };
+  options.plugins.subtitle = {
+    display: true,
+    text: subtitle,
+    color: "#475569",
+    padding: { bottom: 24 },
+  };
+  options.plugins.legend = {
+    display: true,
+    position: "bottom",
+    labels: { boxHeight: 12, boxWidth: 12, color: textColor },
+  };
+  options.plugins.tooltip = { enabled: false };
+  for (const axis of Object.values(options.scales)) {
+    axis.ticks = { ...axis.ticks, color: textColor };
+  }
+
+  const chart = new Chart(canvas, config);
+  // DOM に接続していないキャンバスは自動で描画されないため明示的に更新する
+  chart.update("none");
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      chart.destroy();
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error("PNG の生成に失敗しました。"));
+      }
+    }, "image/png");
+  });
 };
 
 export default function StackedBarChart({
   data,
   services,
+  seriesLabels,
+  seriesColors,
+  currency,
+  periodNotes,
+  incompletePeriods,
+  budgetLines,
+  forecast,
   onLegendClick,
+  onSegmentClick,
+  highlights,
   showLegend = true,
   sumPosition = "top",
 }: {
   data: ChartRow[];
   services: string[];
+  // 系列の表示名（アカウントの表示名など）。クリック時のコールバックには元の系列名を渡す
+  seriesLabels?: Record<string, string>;
+  // 系列名ごとの色（assignSeriesColors の結果）
+  seriesColors: Record<string, string>;
+  currency: string;
+  // 期間ごとの補足（適用した為替レートなど）。ツールチップの末尾に表示する
+  periodNotes?: Record<string, string>;
+  // 一部の月しか含まない期間（年度の途中など）。軸ラベルに「*」を付ける
+  incompletePeriods?: string[];
+  // 予算線（破線）。実績が予算を超えている期間は赤で描く
+  budgetLines?: BudgetLine[];
+  // 予測（実績の後ろに半透明の棒と、合計の信頼区間の帯で描く）
+  forecast?: ForecastResult;
   onLegendClick?: (service: string) => void;
+  onSegmentClick?: (period: string, service: string) => void;
+  highlights?: Array<{ period: string; series: string }>;
   showLegend?: boolean;
   sumPosition?: "top" | "bottom";
 }) {
@@ -38,8 +508,8 @@ export default function StackedBarChart({
   const chartRef = useRef<ChartJS<"bar"> | null>(null);
 
   const colors = useMemo(
-    () => services.map((_, index) => generateColor(index)),
-    [services],
+    () => services.map((service) => seriesColors[service]),
+    [services, seriesColors],
   );
 
   useEffect(() => {
@@ -54,132 +524,100 @@ export default function StackedBarChart({
 
     if (data.length === 0 || services.length === 0) return;
 
-    const stackedTotalsPlugin: Plugin<"bar"> = {
-      id: "stackedTotals",
+    // outline highlighted segments (e.g. detected anomalies) with a marker
+    const highlightPlugin: Plugin<"bar"> = {
+      id: "segmentHighlights",
       afterDatasetsDraw(chart) {
         const ctx = chart.ctx;
-        if (!ctx) return;
-
-        const labels = chart.data.labels ?? [];
-        const datasets = chart.data.datasets ?? [];
-        if (datasets.length === 0) return;
-
-        labels.forEach((_, idx) => {
-          const elems: Array<{ x: number; y: number; base: number }> = [];
-          for (let dsIdx = 0; dsIdx < datasets.length; dsIdx += 1) {
-            const meta = chart.getDatasetMeta(dsIdx as number) as unknown as {
-              data?: Array<{ x: number; y: number; base: number }>;
-            };
-            const el = meta?.data?.[idx];
-            if (el) elems.push({ x: el.x, y: el.y, base: el.base });
-          }
-          if (elems.length === 0) return;
+        if (!ctx || !highlights || highlights.length === 0) return;
 
-          const total = datasets.reduce((sum, ds) => {
-            const arr = ds.data as unknown as Array<number>;
-            const val = Number(arr?.[idx] ?? 0);
-            return sum + (Number.isFinite(val) ? val : 0);
-          }, 0);
+        for (const highlight of highlights) {
+          const dsIdx = services.indexOf(highlight.series);
+          const idx = data.findIndex((row) => row.month === highlight.period);
+          if (dsIdx < 0 || idx < 0) continue;
 
-          const yTop = Math.min(...elems.map((z) => z.y));
-          const yBottom = Math.max(...elems.map((z) => z.base));
-          const x = elems[0].x;
+          const meta = chart.getDatasetMeta(dsIdx) as unknown as {
+            hidden?: boolean;
+            data?: Array<{ x: number; y: number; base: number; width: number }>;
+          };
+          const el = meta?.data?.[idx];
+          if (!el || meta.hidden) continue;
+
+          const top = Math.min(el.y, el.base);
+          const height = Math.abs(el.base - el.y);
+          const left = el.x - el.width / 2;
 
           ctx.save();
-          ctx.fillStyle = "#e6edf3";
-          ctx.font = "600 12px Inter, ui-sans-serif, system-ui";
+          ctx.strokeStyle = "#fbbf24";
+          ctx.lineWidth = 2;
+          ctx.setLineDash([4, 3]);
+          ctx.strokeRect(left, top, el.width, height);
+          ctx.setLineDash([]);
+          ctx.fillStyle = "#fbbf24";
+          ctx.beginPath();
+          ctx.arc(left + el.width, top, 7, 0, Math.PI * 2);
+          ctx.fill();
+          ctx.fillStyle = "#0f172a";
+          ctx.font = "700 10px Inter, ui-sans-serif, system-ui";
           ctx.textAlign = "center";
-          ctx.textBaseline = "bottom";
-
-          const text = currencyFormatter.format(total);
-          const pos =
-            (
-              chart.options as unknown as {
-                plugins?: { stackedTotals?: { position?: string } };
-              }
-            )?.plugins?.stackedTotals?.position ??
-            sumPosition ??
-            "top";
-          let yPos = yTop - 6;
-          if (pos === "bottom") {
-            ctx.textBaseline = "top";
-            yPos = yBottom + 6;
-          }
-          ctx.fillText(text, x, yPos);
+          ctx.textBaseline = "middle";
+          ctx.fillText("!", left + el.width, top);
           ctx.restore();
-        });
+        }
       },
     };
 
-    const chartOptions = {
-      maintainAspectRatio: false,
-      responsive: true,
-      scales: {
-        x: { stacked: true, ticks: { autoSkip: false } },
-        y: {
-          stacked: true,
-          ticks: {
-            callback(value: number | string) {
-              return currencyFormatter.format(Number(value));
-            },
-          },
-          beginAtZero: true,
-        },
-      },
-      plugins: {
-        stackedTotals: { position: sumPosition },
-        legend: {
-          display: showLegend,
-          position: "bottom",
-          labels: { boxHeight: 12, boxWidth: 12 },
-          onClick(
-            _e: unknown,
-            legendItem: { text?: string },
-            _legend: unknown,
-          ) {
-            const label = legendItem.text ?? "";
-            if (onLegendClick && label) onLegendClick(label);
-          },
+    const config = buildChartConfiguration({
+      data,
+      services,
+      seriesLabels,
+      colors,
+      currency,
+      periodNotes,
+      incompletePeriods,
+      budgetLines,
+      forecast,
+      showLegend,
+      sumPosition,
+      plugins: [highlightPlugin],
+      extraOptions: {
+        onClick(
+          _e: unknown,
+          elements: Array<{ datasetIndex: number; index: number }>,
+        ) {
+          const element = elements[0];
+          if (!onSegmentClick || !element) return;
+          // 予測の棒（実績の後ろの期間・予測の系列）はクリックの対象外
+          const period = data[element.index]?.month;
+          const service = services[element.datasetIndex];
+          if (period && service) onSegmentClick(period, service);
         },
-        tooltip: {
-          callbacks: {
-            label(context: {
-              dataset?: { label?: string };
-              parsed?: { y?: number };
-            }) {
-              const label = context.dataset?.label ?? "";
-              const rawValue = context.parsed?.y ?? 0;
-              return `${label}: ${currencyFormatter.format(rawValue)}`;
-            },
-            footer(items: Array<{ parsed?: { y?: number } }>) {
-              const total = items.reduce(
-                (sum: number, item) => sum + (item.parsed?.y ?? 0),
-                0,
-              );
-              return `合計: ${currencyFormatter.format(total)}`;
-            },
-          },
+        onHover(event: { native?: Event | null }, elements: Array<unknown>) {
+          const target = event.native?.target;
+          if (onSegmentClick && target instanceof HTMLElement) {
+            target.style.cursor = elements.length > 0 ? "pointer" : "default";
+          }
         },
       },
-    } as unknown as ChartOptions<"bar"> & {
-      plugins?: { stackedTotals?: { position?: string } };
+    });
+    const legend = (
+      config.options as unknown as {
+        plugins: { legend: Record<string, unknown> };
+      }
+    ).plugins.legend;
+    legend.onClick = (
+      _e: unknown,
+      legendItem: { datasetIndex?: number },
+      _legend: unknown,
+    ) => {
+      const service =
+        legendItem.datasetIndex === undefined
+          ? undefined
+          : services[legendItem.datasetIndex];
+      if (onLegendClick && service) onLegendClick(service);
     };
 
-    const chart = new Chart(canvasElement, {
-      type: "bar",
-      data: {
-        labels: data.map((row) => row.month),
-        datasets: services.map((service, index) => ({
-          label: service,
-          data: data.map((row) => Number(row.services[service] ?? 0)),
-          backgroundColor: colors[index],
-          borderColor: colors[index],
-          borderWidth: 1,
-        })),
-      },
-      options: chartOptions,
-      plugins: [stackedTotalsPlugin],
-    });
+    const chart = new Chart(canvasElement, config);
 
     chartRef.current = chart;
 
@@ -187,7 +625,22 @@ export default function StackedBarChart({
       chart.destroy();
       chartRef.current = null;
     };
-  }, [colors, data, services, onLegendClick, showLegend, sumPosition]);
+  }, [
+    colors,
+    data,
+    services,
+    seriesLabels,
+    currency,
+    periodNotes,
+    incompletePeriods,
+    budgetLines,
+    forecast,
+    onLegendClick,
+    onSegmentClick,
+    highlights,
+    showLegend,
+    sumPosition,
+  ]);
 
   return <canvas ref={canvasRef} className="h-full w-full" />;
 }
@@ -0,0 +1,92 @@
+"use client";
+
+import type { Dispatch, SetStateAction } from "react";
+import {
+  MAX_TOP_N_COUNT,
+  OTHERS_SERIES_LABEL,
+  TOP_N_RANKING_LABELS,
+  type TopNOptions,
+  type TopNRanking,
+} from "@/lib/topN";
+
+const inputClassName =
+  "rounded-md border border-slate-800 bg-slate-900/40 px-2 py-1 text-slate-200 disabled:opacity-40";
+
+export default function TopNControls({
+  options,
+  setOptions,
+  othersCount,
+  unavailableReason,
+}: {
+  options: TopNOptions;
+  setOptions: Dispatch<SetStateAction<TopNOptions>>;
+  // 「その他」にまとめた系列の数
+  othersCount: number;
+  // 上位 N 件を使えない理由（グループ別・カテゴリ別など）。null なら使える
+  unavailableReason: string | null;
+}) {
+  const disabled = unavailableReason !== null;
+  return (
+    <div className="flex w-full flex-wrap items-center gap-3 text-xs text-slate-300">
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={options.enabled}
+          disabled={disabled}
+          onChange={(e) =>
+            setOptions((prev) => ({ ...prev, enabled: e.target.checked }))
+          }
+          className="h-4 w-4"
+        />
+        <span className="text-slate-300">上位のみ表示</span>
+      </label>
+      <label className="flex items-center gap-1">
+        上位
+        <input
+          type="number"
+          min={1}
+          max={MAX_TOP_N_COUNT}
+          value={options.count}
+          disabled={disabled || !options.enabled}
+          onChange={(e) =>
+            setOptions((prev) => ({
+              ...prev,
+              count: Math.min(
+                MAX_TOP_N_COUNT,
+                Math.max(1, Number(e.target.value) || 1),
+              ),
+            }))
+          }
+          className={`${inputClassName} w-14`}
+        />
+        件
+      </label>
+      <label className="flex items-center gap-1">
+        順位の基準
+        <select
+          value={options.rankBy}
+          disabled={disabled || !options.enabled}
+          onChange={(e) =>
+            setOptions((prev) => ({
+              ...prev,
+              rankBy: e.target.value as TopNRanking,
+            }))
+          }
+          className={inputClassName}
+        >
+          {(Object.keys(TOP_N_RANKING_LABELS) as TopNRanking[]).map((key) => (
+            <option key={key} value={key}>
+              {TOP_N_RANKING_LABELS[key]}
+            </option>
+          ))}
+        </select>
+      </label>
+      <span className="text-slate-400">
+        {unavailableReason ??
+          (options.enabled && othersCount > 0
+            ? `ほかの ${othersCount} 件は「${OTHERS_SERIES_LABEL}」にまとめています。`
+            : `上位以外の系列は「${OTHERS_SERIES_LABEL}」にまとめ、選択から外したアカウント・サービスも「${OTHERS_SERIES_LABEL}」に入るため、積み上げの高さは全体の合計と一致します。`)}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+"use client";
+
+import { useMemo } from "react";
+import type { AccountServiceBreakdown } from "@/lib/aggregate";
+import { getCurrencyFormatter } from "@/lib/currency";
+import { squarify } from "@/lib/treemap";
+
+// レイアウトを計算する論理サイズ。表示はこの比率の % で配置する
+const WIDTH = 1000;
+const HEIGHT = 480;
+// アカウント名の見出しの高さと、タイルの内側の余白（論理サイズ）
+const HEADER = 20;
+const GAP = 2;
+
+const toPercentStyle = ({
+  x,
+  y,
+  width,
+  height,
+}: {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}) => ({
+  left: `${(x / WIDTH) * 100}%`,
+  top: `${(y / HEIGHT) * 100}%`,
+  width: `${(width / WIDTH) * 100}%`,
+  height: `${(height / HEIGHT) * 100}%`,
+});
+
+/**
+ * アカウントごとの領域の中に、サービスを金額に比例した面積のタイルで並べる。
+ * タイルの色は積み上げ棒グラフで属する系列の色（サービス別ならサービス、アカウント別ならアカウント）。
+ */
+export default function TreemapChart({
+  breakdown,
+  seriesColors,
+  accountLabels,
+  currency,
+}: {
+  breakdown: AccountServiceBreakdown[];
+  // 集計モードの系列名ごとの色（積み上げ棒グラフと共通）
+  seriesColors: Record<string, string>;
+  accountLabels: Record<string, string>;
+  currency: string;
+}) {
+  const currencyFormatter = getCurrencyFormatter(currency);
+  const layout = useMemo(
+    () =>
+      squarify(
+        breakdown.map((account) => ({ ...account, value: account.total })),
+        { x: 0, y: 0, width: WIDTH, height: HEIGHT },
+      ).map((account) => {
+        const hasHeader = account.height > HEADER * 2;
+        return {
+          ...account,
+          hasHeader,
+          tiles: squarify(
+            account.services.map((service) => ({
+              ...service,
+              value: service.cost,
+            })),
+            {
+              x: account.x + GAP,
+              y: account.y + (hasHeader ? HEADER : GAP),
+              width: Math.max(account.width - GAP * 2, 0),
+              height: Math.max(
+                account.height - (hasHeader ? HEADER : GAP) - GAP,
+                0,
+              ),
+            },
+          ),
+        };
+      }),
+    [breakdown],
+  );
+
+  if (layout.length === 0) {
+    return (
+      <div className="flex h-full w-full items-center justify-center text-sm text-slate-400">
+        プラスの金額のサービスがありません。
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative h-full w-full">
+      {layout.map((account) => {
+        const accountLabel = accountLabels[account.account] ?? account.account;
+        return (
+          <div key={account.account}>
+            <div
+              className="absolute overflow-hidden border border-slate-700 bg-slate-900/60"
+              style={toPercentStyle(account)}
+              title={`${accountLabel}: ${currencyFormatter.format(account.total)}`}
+            >
+              {account.hasHeader && (
+                <div className="truncate px-1 text-xs font-medium text-slate-200">
+                  {accountLabel}（{currencyFormatter.format(account.total)}）
+                </div>
+              )}
+            </div>
+            {account.tiles.map((tile) => {
+              const large = tile.width > 90 && tile.height > 36;
+              return (
+                <div
+                  key={tile.service}
+                  className="absolute overflow-hidden border border-slate-950 px-1 text-xs text-slate-950"
+                  style={{
+                    ...toPercentStyle(tile),
+                    backgroundColor: seriesColors[tile.series],
+                  }}
+                  title={`${accountLabel} / ${tile.service}: ${currencyFormatter.format(tile.cost)}`}
+                >
+                  {large && (
+                    <>
+                      <div className="truncate font-medium">{tile.service}</div>
+                      <div className="truncate tabular-nums">
+                        {currencyFormatter.format(tile.cost)}
+                      </div>
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+"use client";
+
+import type { Chart as ChartJS, ChartOptions } from "chart.js";
+import Chart from "chart.js/auto";
+import { useEffect, useMemo, useRef } from "react";
+import type { ChartRow } from "@/lib/aggregate";
+import { toShareRows } from "@/lib/chartViews";
+import { withAlpha } from "@/lib/colors";
+import { getCurrencyFormatter } from "@/lib/currency";
+
+const percentFormatter = new Intl.NumberFormat("en-US", {
+  style: "percent",
+  minimumFractionDigits: 1,
+  maximumFractionDigits: 1,
+});
+
+// line: 系列ごとの折れ線 / share: 期間の合計を 100% にした積み上げ面グラフ
+export default function TrendChart({
+  data,
+  services,
+  seriesLabels = {},
+  seriesColors,
+  currency,
+  mode,
+  incompletePeriods = [],
+}: {
+  data: ChartRow[];
+  services: string[];
+  // 系列の表示名（アカウントの表示名など）
+  seriesLabels?: Record<string, string>;
+  // 系列名ごとの色（積み上げ棒グラフと共通）
+  seriesColors: Record<string, string>;
+  currency: string;
+  mode: "line" | "share";
+  // 一部の月しか含まない期間。軸ラベルに「*」を付ける
+  incompletePeriods?: string[];
+}) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const chartRef = useRef<ChartJS<"line"> | null>(null);
+
+  const colors = useMemo(
+    () => services.map((service) => seriesColors[service]),
+    [services, seriesColors],
+  );
+
+  useEffect(() => {
+    const canvasElement = canvasRef.current;
+    if (!canvasElement) return;
+
+    if (chartRef.current) {
+      chartRef.current.destroy();
+      chartRef.current = null;
+    }
+    if (data.length === 0 || services.length === 0) return;
+
+    const currencyFormatter = getCurrencyFormatter(currency);
+    const isShare = mode === "share";
+    const rows = isShare ? toShareRows(data, services) : data;
+    const incomplete = new Set(incompletePeriods);
+    const formatValue = (value: number) =>
+      isShare
+        ? percentFormatter.format(value)
+        : currencyFormatter.format(value);
+
+    const options = {
+      maintainAspectRatio: false,
+      responsive: true,
+      interaction: { mode: "index", intersect: false },
+      scales: {
+        x: {
+          ticks: {
+            autoSkip: false,
+            callback(
+              this: { getLabelForValue: (value: number) => string },
+              value: number | string,
+            ) {
+              const label = this.getLabelForValue(Number(value));
+              return incomplete.has(label) ? `${label} *` : label;
+            },
+          },
+        },
+        y: {
+          stacked: isShare,
+          beginAtZero: true,
+          ...(isShare ? { max: 1 } : {}),
+          ticks: {
+            callback(value: number | string) {
+              return formatValue(Number(value));
+            },
+          },
+        },
+      },
+      plugins: {
+        legend: { display: false },
+        tooltip: {
+          callbacks: {
+            label(context: {
+              dataset?: { label?: string };
+              parsed?: { y?: number };
+            }) {
+              return `${context.dataset?.label ?? ""}: ${formatValue(context.parsed?.y ?? 0)}`;
+            },
+          },
+        },
+      },
+    } as unknown as ChartOptions<"line">;
+
+    const chart = new Chart(canvasElement, {
+      type: "line",
+      data: {
+        labels: rows.map((row) => row.month),
+        datasets: services.map((service, index) => ({
+          label: seriesLabels[service] ?? service,
+          data: rows.map((row) => Number(row.services[service] ?? 0)),
+          borderColor: colors[index],
+          backgroundColor: isShare
+            ? withAlpha(colors[index], 0.7)
+            : colors[index],
+          borderWidth: isShare ? 1 : 2,
+          pointRadius: isShare ? 0 : 3,
+          fill: isShare ? (index === 0 ? "origin" : "-1") : false,
+          tension: 0.2,
+        })),
+      },
+      options,
+    });
+    chartRef.current = chart;
+
+    return () => {
+      chart.destroy();
+      chartRef.current = null;
+    };
+  }, [colors, data, services, seriesLabels, currency, mode, incompletePeriods]);
+
+  return <canvas ref={canvasRef} className="h-full w-full" />;
+}
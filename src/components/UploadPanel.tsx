@@ -1,6 +1,31 @@
 "use client";
 
 import type { ChangeEvent, DragEvent, RefObject } from "react";
+import { type FileProgress, summarizeFileProgress } from "@/lib/parserPool";
+
+// 警告が多いときはここまで表示し、残りはインポートログで確認してもらう
+const MAX_VISIBLE_WARNINGS = 5;
+
+const toPercent = (loaded: number, total: number) =>
+  total > 0 ? Math.min(100, Math.round((loaded / total) * 100)) : 0;
+
+function ProgressBar({ label, percent }: { label: string; percent: number }) {
+  return (
+    <div
+      role="progressbar"
+      aria-label={label}
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={percent}
+      className="h-1.5 w-full overflow-hidden rounded-full bg-slate-800"
+    >
+      <div
+        className="h-full rounded-full bg-indigo-400 transition-[width]"
+        style={{ width: `${percent}%` }}
+      />
+    </div>
+  );
+}
 
 export default function UploadPanel({
   fileInputRef,
@@ -11,10 +36,15 @@ export default function UploadPanel({
   onDrop,
   isDragActive,
   isParsing,
+  importProgress,
+  onCancelImport,
   errorMessage,
   warnings,
   sortedMonths,
   onClearReports,
+  isPersisting,
+  onForgetStoredReports,
+  onResumePersistence,
 }: {
   fileInputRef: RefObject<HTMLInputElement | null>;
   onFileChange: (e: ChangeEvent<HTMLInputElement>) => Promise<void> | void;
@@ -24,11 +54,19 @@ export default function UploadPanel({
   onDrop: (e: DragEvent<HTMLElement>) => Promise<void> | void;
   isDragActive: boolean;
   isParsing: boolean;
+  // 解析中のファイルごとの進捗（アーカイブの展開中は null）
+  importProgress: FileProgress[] | null;
+  onCancelImport: () => void;
   errorMessage: string | null;
   warnings: string[];
   sortedMonths: string[];
   onClearReports: () => void;
+  isPersisting: boolean;
+  onForgetStoredReports: () => Promise<void> | void;
+  onResumePersistence: () => void;
 }) {
+  const summary = importProgress ? summarizeFileProgress(importProgress) : null;
+
   return (
     <section className="rounded-2xl border border-slate-800 bg-slate-900/60 p-6 shadow-inner shadow-slate-950/40">
       <div className="flex flex-col gap-4">
@@ -36,13 +74,14 @@ export default function UploadPanel({
           className="text-sm font-medium text-slate-200"
           htmlFor="csv-upload"
         >
-          月次 CSV ファイルを追加
+          請求 CSV ファイルを追加（Classmethod 月次レポート・AWS CUR・Cost
+          Explorer）
         </label>
         <input
           ref={fileInputRef}
           id="csv-upload"
           type="file"
-          accept=".csv,text/csv"
+          accept=".csv,text/csv,.zip,application/zip,.gz,application/gzip"
           multiple
           onChange={onFileChange}
           className="sr-only"
@@ -60,17 +99,61 @@ export default function UploadPanel({
           className={`flex flex-col items-center justify-center gap-3 rounded-2xl border-2 border-dashed px-6 py-10 text-center transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-indigo-500/80 ${isDragActive ? "border-indigo-400 bg-indigo-500/10" : "border-slate-700 bg-slate-950/50 hover:border-indigo-400/70 hover:bg-slate-950/60"}`}
         >
           <p className="text-sm font-medium text-slate-100">
-            ここに CSV ファイルをドラッグ＆ドロップ
+            ここに CSV・ZIP・フォルダをドラッグ＆ドロップ
           </p>
           <p className="text-xs text-slate-400">
-            またはクリックしてファイルを選択（複数可）
+            またはクリックしてファイルを選択（複数可。ZIP・.csv.gz
+            は展開して取り込みます）
           </p>
           <span className="rounded-md border border-indigo-500/70 bg-indigo-500/20 px-3 py-1.5 text-xs font-semibold text-indigo-200 transition hover:bg-indigo-500/30">
             ファイルを選択
           </span>
         </button>
         {isParsing && (
-          <p className="text-sm text-indigo-300">ファイルを解析しています…</p>
+          <div className="flex flex-col gap-2 rounded-lg border border-indigo-500/40 bg-indigo-500/10 p-4 text-sm text-indigo-200">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <p>
+                {summary && importProgress
+                  ? `ファイルを解析しています…（${summary.settled} / ${importProgress.length} 件完了${summary.failed > 0 ? `、${summary.failed} 件失敗` : ""}）`
+                  : "ファイルを展開しています…"}
+              </p>
+              <button
+                type="button"
+                onClick={onCancelImport}
+                className="rounded-md border border-slate-700 px-3 py-1 text-xs font-medium text-slate-200 transition hover:border-slate-500 hover:bg-slate-800/80"
+              >
+                キャンセル
+              </button>
+            </div>
+            {summary && importProgress && (
+              <>
+                <ProgressBar
+                  label="全体の進捗"
+                  percent={
+                    summary.total > 0
+                      ? toPercent(summary.loaded, summary.total)
+                      : toPercent(summary.settled, importProgress.length)
+                  }
+                />
+                <ul className="flex flex-col gap-1.5 text-xs text-slate-300">
+                  {importProgress
+                    .filter((progress) => progress.status === "parsing")
+                    .map((progress) => (
+                      <li key={progress.path} className="flex flex-col gap-1">
+                        <span className="truncate">
+                          {progress.path}（
+                          {toPercent(progress.loaded, progress.total)}%）
+                        </span>
+                        <ProgressBar
+                          label={progress.path}
+                          percent={toPercent(progress.loaded, progress.total)}
+                        />
+                      </li>
+                    ))}
+                </ul>
+              </>
+            )}
+          </div>
         )}
         {errorMessage && (
           <div className="rounded-lg border border-red-500/40 bg-red-500/10 p-4 text-sm text-red-200">
@@ -84,10 +167,17 @@ export default function UploadPanel({
           <div className="rounded-lg border border-amber-500/40 bg-amber-500/10 p-4 text-sm text-amber-200">
             <p className="font-semibold">警告</p>
             <ul className="mt-2 list-disc space-y-1 pl-5">
-              {warnings.map((warning) => (
-                <li key={warning}>{warning}</li>
+              {warnings.slice(0, MAX_VISIBLE_WARNINGS).map((warning, index) => (
+                // 同じ警告が複数回出ることがあるため位置も使う
+                <li key={`${index.toString()}-${warning}`}>{warning}</li>
               ))}
             </ul>
+            {warnings.length > MAX_VISIBLE_WARNINGS && (
+              <p className="mt-2 text-xs">
+                ほか {warnings.length - MAX_VISIBLE_WARNINGS}{" "}
+                件の警告はインポートログで確認できます。
+              </p>
+            )}
           </div>
         )}
         {sortedMonths.length > 0 && (
@@ -102,6 +192,33 @@ export default function UploadPanel({
             </button>
           </div>
         )}
+        <div className="flex flex-wrap items-center gap-3 text-xs text-slate-400">
+          {isPersisting ? (
+            <>
+              <span>
+                取り込んだデータはこのブラウザ（IndexedDB）にのみ保存され、次回起動時に復元されます
+              </span>
+              <button
+                type="button"
+                onClick={onForgetStoredReports}
+                className="rounded-md border border-slate-700 px-3 py-1 font-medium text-slate-200 transition hover:border-slate-500 hover:bg-slate-800/80"
+              >
+                保存データを削除
+              </button>
+            </>
+          ) : (
+            <>
+              <span>データはブラウザに保存されていません</span>
+              <button
+                type="button"
+                onClick={onResumePersistence}
+                className="rounded-md border border-slate-700 px-3 py-1 font-medium text-slate-200 transition hover:border-slate-500 hover:bg-slate-800/80"
+              >
+                保存を再開
+              </button>
+            </>
+          )}
+        </div>
       </div>
     </section>
   );
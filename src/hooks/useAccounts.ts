@@ -0,0 +1,242 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useLocalSetting } from "@/hooks/useLocalSetting";
+import {
+  ACCOUNT_METADATA_STORAGE_KEY,
+  type AccountMetadata,
+  getAccountGroup,
+  getAccountLabel,
+  isAccountMetadataMap,
+  listGroupDimensions,
+  listGroups,
+  mergeAccountMetadata,
+  parseAccountMetadataCsv,
+  parseAccountMetadataJson,
+} from "@/lib/accountMetadata";
+import { downloadText } from "@/lib/download";
+import type { MonthlyReport } from "@/lib/reports";
+
+/**
+ * アカウントの選択と、アカウント情報（表示名・グループ）、グループによる絞り込み。
+ */
+export const useAccounts = (
+  reportsByMonth: Record<string, MonthlyReport[]>,
+  onError: (message: string) => void,
+) => {
+  // derive list of accounts (accountId or fallback to fileName)
+  const accounts = useMemo(() => {
+    const set = new Set<string>();
+    Object.values(reportsByMonth).forEach((arr) => {
+      (arr ?? []).forEach((r) => {
+        set.add(r.accountId ?? r.fileName);
+      });
+    });
+    return Array.from(set).sort();
+  }, [reportsByMonth]);
+
+  const [selectedAccounts, setSelectedAccounts] = useState<string[]>([]);
+  const [accountFilter, setAccountFilter] = useState("");
+  const hasInitializedAccounts = useRef(false);
+  const prevAccountsRef = useRef<Set<string>>(new Set());
+  useEffect(() => {
+    const newAccounts = accounts.filter((a) => !prevAccountsRef.current.has(a));
+    if (newAccounts.length > 0) {
+      setSelectedAccounts((prev) => {
+        const prevSet = new Set(prev);
+        const toAdd = newAccounts.filter((a) => !prevSet.has(a));
+        return toAdd.length > 0 ? [...prev, ...toAdd] : prev;
+      });
+      if (!hasInitializedAccounts.current) {
+        hasInitializedAccounts.current = true;
+      }
+    }
+    prevAccountsRef.current = new Set(accounts);
+  }, [accounts]);
+
+  const toggleAccount = useCallback((acc: string) => {
+    setSelectedAccounts((prev) =>
+      prev.includes(acc) ? prev.filter((a) => a !== acc) : [...prev, acc],
+    );
+  }, []);
+  const selectAllAccounts = useCallback(
+    () => setSelectedAccounts([...accounts]),
+    [accounts],
+  );
+  const clearSelectedAccounts = useCallback(() => setSelectedAccounts([]), []);
+
+  // account metadata: display names and groups (team, environment, ...) stored in localStorage
+  const [accountMetadata, setAccountMetadata, hasLoadedAccountMetadata] =
+    useLocalSetting(ACCOUNT_METADATA_STORAGE_KEY, isAccountMetadataMap, {});
+
+  const accountLabels = useMemo(
+    () =>
+      Object.fromEntries(
+        accounts.map((acc) => [acc, getAccountLabel(accountMetadata, acc)]),
+      ),
+    [accounts, accountMetadata],
+  );
+
+  const filteredAccounts = useMemo(() => {
+    const term = accountFilter.trim().toLowerCase();
+    return accounts.filter((s) =>
+      term === "" ? true : (accountLabels[s] ?? s).toLowerCase().includes(term),
+    );
+  }, [accounts, accountFilter, accountLabels]);
+
+  const updateAccountMetadata = useCallback(
+    (accountId: string, entry: AccountMetadata) => {
+      setAccountMetadata((prev) => ({ ...prev, [accountId]: entry }));
+    },
+    [setAccountMetadata],
+  );
+  const importAccountMetadata = useCallback(
+    async (file: File) => {
+      try {
+        const text = await file.text();
+        const imported = file.name.toLowerCase().endsWith(".json")
+          ? parseAccountMetadataJson(text)
+          : parseAccountMetadataCsv(text);
+        setAccountMetadata((prev) => mergeAccountMetadata(prev, imported));
+      } catch (error) {
+        onError(
+          `「${file.name}」のアカウント情報を読み込めませんでした: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    },
+    [setAccountMetadata, onError],
+  );
+  const exportAccountMetadata = useCallback(() => {
+    downloadText(
+      JSON.stringify(accountMetadata, null, 2),
+      "pricing-chart-accounts.json",
+      "application/json",
+    );
+  }, [accountMetadata]);
+
+  // group filter: one dimension at a time; every group of a newly chosen dimension starts selected
+  const groupDimensions = useMemo(
+    () => listGroupDimensions(accountMetadata),
+    [accountMetadata],
+  );
+  const [groupDimension, setGroupDimension] = useState<string | null>(null);
+  const activeGroupDimension =
+    groupDimension && groupDimensions.includes(groupDimension)
+      ? groupDimension
+      : (groupDimensions[0] ?? null);
+  const groups = useMemo(
+    () =>
+      activeGroupDimension
+        ? listGroups(accountMetadata, accounts, activeGroupDimension)
+        : [],
+    [accountMetadata, accounts, activeGroupDimension],
+  );
+  const accountGroups = useMemo(
+    () =>
+      activeGroupDimension
+        ? Object.fromEntries(
+            accounts.map((acc) => [
+              acc,
+              getAccountGroup(accountMetadata, acc, activeGroupDimension),
+            ]),
+          )
+        : {},
+    [accountMetadata, accounts, activeGroupDimension],
+  );
+  // groups of every dimension (budgets can target any of them)
+  const groupsByDimension = useMemo(
+    () =>
+      Object.fromEntries(
+        groupDimensions.map((dimension) => [
+          dimension,
+          listGroups(accountMetadata, accounts, dimension),
+        ]),
+      ),
+    [groupDimensions, accountMetadata, accounts],
+  );
+  const [selectedGroups, setSelectedGroups] = useState<string[]>([]);
+  const prevGroupsRef = useRef<{
+    dimension: string | null;
+    groups: Set<string>;
+  }>({ dimension: null, groups: new Set() });
+  useEffect(() => {
+    const prev = prevGroupsRef.current;
+    if (prev.dimension !== activeGroupDimension) {
+      setSelectedGroups(groups);
+    } else {
+      const newGroups = groups.filter((g) => !prev.groups.has(g));
+      if (newGroups.length > 0) {
+        setSelectedGroups((current) => [
+          ...current,
+          ...newGroups.filter((g) => !current.includes(g)),
+        ]);
+      }
+    }
+    prevGroupsRef.current = {
+      dimension: activeGroupDimension,
+      groups: new Set(groups),
+    };
+  }, [activeGroupDimension, groups]);
+
+  const toggleGroup = useCallback((group: string) => {
+    setSelectedGroups((prev) =>
+      prev.includes(group) ? prev.filter((g) => g !== group) : [...prev, group],
+    );
+  }, []);
+  const selectAllGroups = useCallback(
+    () => setSelectedGroups([...groups]),
+    [groups],
+  );
+  const clearSelectedGroups = useCallback(() => setSelectedGroups([]), []);
+  // restoring a shared view: switch the dimension without the "select every group" reset above
+  const restoreGroupSelection = useCallback(
+    (dimension: string | undefined, selected: string[] | undefined) => {
+      if (dimension !== undefined && groupDimensions.includes(dimension)) {
+        setGroupDimension(dimension);
+        if (!selected) return;
+        prevGroupsRef.current = {
+          dimension,
+          groups: new Set(groupsByDimension[dimension]),
+        };
+      }
+      if (selected) setSelectedGroups(selected);
+    },
+    [groupDimensions, groupsByDimension],
+  );
+
+  // accounts that pass both the account selector and the group filter
+  const effectiveAccounts = useMemo(() => {
+    if (!activeGroupDimension) return selectedAccounts;
+    const allowed = new Set(selectedGroups);
+    return selectedAccounts.filter((acc) => allowed.has(accountGroups[acc]));
+  }, [activeGroupDimension, selectedAccounts, selectedGroups, accountGroups]);
+
+  return {
+    accounts,
+    selectedAccounts,
+    setSelectedAccounts,
+    hasInitializedAccounts,
+    accountFilter,
+    setAccountFilter,
+    filteredAccounts,
+    toggleAccount,
+    selectAllAccounts,
+    clearSelectedAccounts,
+    accountMetadata,
+    hasLoadedAccountMetadata,
+    accountLabels,
+    updateAccountMetadata,
+    importAccountMetadata,
+    exportAccountMetadata,
+    groupDimensions,
+    activeGroupDimension,
+    setGroupDimension,
+    groups,
+    groupsByDimension,
+    accountGroups,
+    selectedGroups,
+    toggleGroup,
+    selectAllGroups,
+    clearSelectedGroups,
+    restoreGroupSelection,
+    effectiveAccounts,
+  };
+};
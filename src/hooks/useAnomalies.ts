@@ -0,0 +1,78 @@
+import { useMemo, useState } from "react";
+import {
+  type AggregateOptions,
+  aggregate,
+  type GroupBy,
+  type TimeUnit,
+} from "@/lib/aggregate";
+import {
+  type AnomalyRule,
+  DEFAULT_ANOMALY_RULE,
+  detectAnomalies,
+} from "@/lib/anomaly";
+import type { AppliedRate } from "@/lib/currency";
+import type { MonthlyReport } from "@/lib/reports";
+
+/**
+ * 選択中の条件でのサービスごとの月次の推移から、異常な増減を見つける。
+ * 最小乖離額は USD で持ち、表示通貨では月ごとのレートで換算して比べる。
+ */
+export const useAnomalies = ({
+  displayReportsByMonth,
+  aggregateFilters,
+  months,
+  groupBy,
+  timeUnit,
+  appliedRates,
+}: {
+  displayReportsByMonth: Record<string, MonthlyReport[]>;
+  aggregateFilters: Omit<AggregateOptions, "months" | "groupBy" | "timeUnit">;
+  months: string[];
+  // チャートの集計モードと時間軸（強調表示できるかの判定に使う）
+  groupBy: GroupBy;
+  timeUnit: TimeUnit;
+  // 表示通貨の月ごとのレート（表示通貨が USD でレートがなければ null）
+  appliedRates: Record<string, AppliedRate> | null;
+}) => {
+  // anomaly detection over the per-service monthly series of the current selection
+  const [anomalyRule, setAnomalyRule] =
+    useState<AnomalyRule>(DEFAULT_ANOMALY_RULE);
+  const anomalies = useMemo(() => {
+    const { rows } = aggregate(displayReportsByMonth, {
+      ...aggregateFilters,
+      months,
+      groupBy: "service",
+      timeUnit: "month",
+    });
+    const rates = Object.fromEntries(
+      Object.entries(appliedRates ?? {}).map(([month, { rate }]) => [
+        month,
+        rate,
+      ]),
+    );
+    return detectAnomalies(rows, aggregateFilters.services, anomalyRule, rates);
+  }, [
+    displayReportsByMonth,
+    aggregateFilters,
+    months,
+    anomalyRule,
+    appliedRates,
+  ]);
+  // markers only line up with the chart when it shows services per month
+  const isMonthlyServiceChart = groupBy === "service" && timeUnit === "month";
+  const anomalyHighlights = useMemo(
+    () =>
+      isMonthlyServiceChart
+        ? anomalies.map(({ period, series }) => ({ period, series }))
+        : undefined,
+    [anomalies, isMonthlyServiceChart],
+  );
+
+  return {
+    anomalyRule,
+    setAnomalyRule,
+    anomalies,
+    isMonthlyServiceChart,
+    anomalyHighlights,
+  };
+};
@@ -0,0 +1,131 @@
+import { useCallback, useMemo } from "react";
+import { useLocalSetting } from "@/hooks/useLocalSetting";
+import {
+  type AccountMetadataMap,
+  getAccountGroup,
+} from "@/lib/accountMetadata";
+import type { ChartRow, GroupBy, TimeUnit } from "@/lib/aggregate";
+import {
+  BUDGETS_STORAGE_KEY,
+  type Budget,
+  createBudget,
+  evaluateBudgets,
+  isBudgetList,
+  mergeBudgets,
+  parseBudgetsCsv,
+  selectBudgetLines,
+  toBudgetsCsv,
+} from "@/lib/budgets";
+import { downloadText } from "@/lib/download";
+import type { MonthlyReport } from "@/lib/reports";
+
+/**
+ * 合計・アカウント・サービス・グループごとの月次・年次の予算と、その実績・チャートに引く予算線。
+ */
+export const useBudgets = ({
+  displayReportsByMonth,
+  displayCurrency,
+  accountMetadata,
+  fiscalStartMonth,
+  groupBy,
+  timeUnit,
+  series,
+  rows,
+  groupDimension,
+  onError,
+}: {
+  displayReportsByMonth: Record<string, MonthlyReport[]>;
+  displayCurrency: string;
+  accountMetadata: AccountMetadataMap;
+  fiscalStartMonth: number;
+  // 予算線を引くチャートの集計条件と系列・行
+  groupBy: GroupBy;
+  timeUnit: TimeUnit;
+  series: string[];
+  rows: ChartRow[];
+  groupDimension: string | null;
+  onError: (message: string) => void;
+}) => {
+  // budgets per total/account/service/group and month/year, stored in localStorage
+  const [budgets, setBudgets] = useLocalSetting(
+    BUDGETS_STORAGE_KEY,
+    isBudgetList,
+    [],
+  );
+
+  const addBudget = useCallback(
+    (input: Omit<Budget, "id">) => {
+      setBudgets((prev) => mergeBudgets(prev, [createBudget(input)]));
+    },
+    [setBudgets],
+  );
+  const deleteBudget = useCallback(
+    (id: string) => {
+      setBudgets((prev) => prev.filter((budget) => budget.id !== id));
+    },
+    [setBudgets],
+  );
+  const importBudgets = useCallback(
+    async (file: File) => {
+      try {
+        const imported = parseBudgetsCsv(await file.text(), displayCurrency);
+        setBudgets((prev) => mergeBudgets(prev, imported));
+      } catch (error) {
+        onError(
+          `「${file.name}」の予算を読み込めませんでした: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    },
+    [displayCurrency, setBudgets, onError],
+  );
+  const exportBudgets = useCallback(() => {
+    downloadText(
+      toBudgetsCsv(budgets),
+      "pricing-chart-budgets.csv",
+      "text/csv",
+    );
+  }, [budgets]);
+
+  // actuals cover every loaded report for the budget's period, independent of the selectors
+  const budgetStatuses = useMemo(
+    () =>
+      evaluateBudgets(budgets, displayReportsByMonth, {
+        currency: displayCurrency,
+        groupOf: (account, dimension) =>
+          getAccountGroup(accountMetadata, account, dimension),
+        fiscalStartMonth,
+      }),
+    [
+      budgets,
+      displayReportsByMonth,
+      displayCurrency,
+      accountMetadata,
+      fiscalStartMonth,
+    ],
+  );
+  const overBudgetCount = budgetStatuses.filter(
+    (status) => status.isOver,
+  ).length;
+  const budgetLines = useMemo(
+    () =>
+      selectBudgetLines(budgets, {
+        groupBy,
+        timeUnit,
+        series,
+        periods: rows.map((row) => row.month),
+        currency: displayCurrency,
+        groupDimension,
+      }),
+    [budgets, groupBy, timeUnit, series, rows, displayCurrency, groupDimension],
+  );
+
+  return {
+    addBudget,
+    deleteBudget,
+    importBudgets,
+    exportBudgets,
+    budgetStatuses,
+    overBudgetCount,
+    budgetLines,
+  };
+};
@@ -0,0 +1,224 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  aggregate,
+  breakdownByAccountAndService,
+  type GroupBy,
+  relabelRows,
+  type TimeUnit,
+} from "@/lib/aggregate";
+import type { ChartType } from "@/lib/chartViews";
+import { findIncompletePeriods } from "@/lib/periods";
+import type { MonthlyReport } from "@/lib/reports";
+import {
+  collapseToTopN,
+  DEFAULT_TOP_N_OPTIONS,
+  OTHERS_SERIES,
+  OTHERS_SERIES_LABEL,
+  TOP_N_GROUP_BYS,
+  type TopNOptions,
+} from "@/lib/topN";
+
+/**
+ * チャートの集計。集計モード・グラフの種類・上位のみ表示を持ち、選択中の条件で集計した行・系列・合計を返す。
+ */
+export const useChartData = ({
+  displayReportsByMonth,
+  months,
+  timeUnit,
+  fiscalStartMonth,
+  accounts,
+  services,
+  allAccounts,
+  allServices,
+  groups,
+  accountGroups,
+  hasGroupDimension,
+  hasLoadedAccountMetadata,
+  categories,
+  serviceCategories,
+  accountLabels,
+}: {
+  displayReportsByMonth: Record<string, MonthlyReport[]>;
+  months: string[];
+  timeUnit: TimeUnit;
+  fiscalStartMonth: number;
+  // アカウント・グループの絞り込みを通ったアカウント
+  accounts: string[];
+  // サービス・カテゴリの絞り込みを通ったサービス
+  services: string[];
+  // 読み込み済みのすべてのアカウント・サービス（上位のみ表示で「その他」に入れる全体）
+  allAccounts: string[];
+  allServices: string[];
+  groups: string[];
+  accountGroups: Record<string, string>;
+  hasGroupDimension: boolean;
+  hasLoadedAccountMetadata: boolean;
+  categories: string[];
+  serviceCategories: Record<string, string>;
+  accountLabels: Record<string, string>;
+}) => {
+  // aggregation mode: 'service' (default) or 'account'
+  const [aggregationMode, setAggregationMode] = useState<GroupBy>("service");
+  // group mode needs at least one group dimension; fall back once metadata is known
+  useEffect(() => {
+    if (
+      hasLoadedAccountMetadata &&
+      !hasGroupDimension &&
+      aggregationMode === "group"
+    )
+      setAggregationMode("service");
+  }, [hasLoadedAccountMetadata, hasGroupDimension, aggregationMode]);
+  // chart type: the stacked bars (default) or an alternative view of the same filtered data.
+  // Forecast, budget lines, anomaly markers and drill-down belong to the stacked bars only.
+  const [chartType, setChartType] = useState<ChartType>("stacked");
+  // Top-N: series outside the top N are summed into a single "Others" series (service / account modes)
+  const [topNOptions, setTopNOptions] = useState<TopNOptions>(
+    DEFAULT_TOP_N_OPTIONS,
+  );
+
+  // account/service/group filters shared by every aggregation of the selection
+  const aggregateFilters = useMemo(
+    () => ({
+      accounts,
+      services,
+      groups,
+      accountGroups,
+      categories,
+      serviceCategories,
+      fiscalStartMonth,
+    }),
+    [
+      accounts,
+      services,
+      groups,
+      accountGroups,
+      categories,
+      serviceCategories,
+      fiscalStartMonth,
+    ],
+  );
+
+  const topNUnavailableReason = TOP_N_GROUP_BYS.includes(aggregationMode)
+    ? null
+    : "上位のみの表示はサービス別・アカウント別でのみ使えます。";
+  const isTopNActive = topNOptions.enabled && topNUnavailableReason === null;
+  // With Top-N the chart covers the whole bill: the top N of the selected series keep their names
+  // and everything else, deselected accounts and services included, is summed into "Others"
+  const fullFilters = useMemo(
+    () =>
+      isTopNActive
+        ? { accounts: allAccounts, services: allServices, fiscalStartMonth }
+        : null,
+    [isTopNActive, allAccounts, allServices, fiscalStartMonth],
+  );
+
+  // chart rows and total cost come from the same aggregation so they always agree
+  const aggregation = useMemo(() => {
+    const options = { months, groupBy: aggregationMode, timeUnit };
+    const selection = aggregate(displayReportsByMonth, {
+      ...aggregateFilters,
+      ...options,
+    });
+    return fullFilters
+      ? collapseToTopN(
+          selection,
+          topNOptions,
+          aggregate(displayReportsByMonth, { ...fullFilters, ...options }),
+        )
+      : { ...selection, others: [] };
+  }, [
+    displayReportsByMonth,
+    aggregateFilters,
+    fullFilters,
+    topNOptions,
+    months,
+    aggregationMode,
+    timeUnit,
+  ]);
+  // display names for the series (account aliases); series keys stay raw IDs
+  const seriesLabels = useMemo<Record<string, string>>(
+    () => ({
+      ...(aggregationMode === "account" ? accountLabels : {}),
+      [OTHERS_SERIES]: OTHERS_SERIES_LABEL,
+    }),
+    [aggregationMode, accountLabels],
+  );
+  const labeledChart = useMemo(
+    () => relabelRows(aggregation.rows, aggregation.series, seriesLabels),
+    [aggregation, seriesLabels],
+  );
+  // quarters / years that only part of their months went into (partial fiscal year, unselected or missing months)
+  const incompletePeriods = useMemo(
+    () =>
+      findIncompletePeriods(
+        aggregation.rows.map((row) => row.month),
+        months.filter(
+          (month) => (displayReportsByMonth[month] ?? []).length > 0,
+        ),
+        timeUnit,
+        fiscalStartMonth,
+      ),
+    [aggregation, months, displayReportsByMonth, timeUnit, fiscalStartMonth],
+  );
+  const incompletePeriodLabels = useMemo(
+    () => incompletePeriods.map((coverage) => coverage.period),
+    [incompletePeriods],
+  );
+
+  // tiles outside the named series (or outside the selection) take the color of "Others"
+  const treemapBreakdown = useMemo(() => {
+    if (chartType !== "treemap") return [];
+    const breakdown = breakdownByAccountAndService(displayReportsByMonth, {
+      ...(fullFilters ?? aggregateFilters),
+      months,
+      groupBy: aggregationMode,
+    });
+    if (!fullFilters) return breakdown;
+    const named = new Set(aggregation.series);
+    const selectedAccounts = new Set(accounts);
+    const selectedServices = new Set(services);
+    return breakdown.map((account) => ({
+      ...account,
+      services: account.services.map((row) =>
+        named.has(row.series) &&
+        selectedAccounts.has(account.account) &&
+        selectedServices.has(row.service)
+          ? row
+          : { ...row, series: OTHERS_SERIES },
+      ),
+    }));
+  }, [
+    chartType,
+    aggregation.series,
+    displayReportsByMonth,
+    fullFilters,
+    aggregateFilters,
+    accounts,
+    services,
+    months,
+    aggregationMode,
+  ]);
+
+  return {
+    aggregationMode,
+    setAggregationMode,
+    chartType,
+    setChartType,
+    topNOptions,
+    setTopNOptions,
+    topNUnavailableReason,
+    aggregateFilters,
+    // 上位のみ表示で「その他」に入れる全体の条件（上位のみ表示でなければ null）
+    fullFilters,
+    // series names for the chart depending on mode (selection order is preserved)
+    rows: aggregation.rows,
+    series: aggregation.series,
+    others: aggregation.others,
+    totalCost: aggregation.total,
+    seriesLabels,
+    labeledChart,
+    incompletePeriods,
+    incompletePeriodLabels,
+    treemapBreakdown,
+  };
+};
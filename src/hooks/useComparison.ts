@@ -0,0 +1,115 @@
+import { useMemo, useState } from "react";
+import {
+  type AggregateOptions,
+  aggregate,
+  type ChartRow,
+  type GroupBy,
+  type TimeUnit,
+} from "@/lib/aggregate";
+import {
+  type ComparisonMode,
+  computeDeltas,
+  getBaselinePeriod,
+} from "@/lib/compare";
+import type { MonthlyReport } from "@/lib/reports";
+import { collapseToSeries, OTHERS_SERIES } from "@/lib/topN";
+
+/**
+ * 比較表示。各系列の前期（前月・前四半期・前年）・前年同期からの増減を求める。
+ * 比較元・比較先とも読み込んだすべての月で集計し、一部の月だけを選んだ年と 1 年分を比べないようにする。
+ * 上位のみ表示ではチャートと同じ系列を名前付きで残し、それ以外をチャートと同じく「その他」にまとめる。
+ */
+export const useComparison = ({
+  displayReportsByMonth,
+  aggregateFilters,
+  fullFilters,
+  sortedMonths,
+  groupBy,
+  timeUnit,
+  fiscalStartMonth,
+  rows,
+  series,
+  seriesLabels,
+}: {
+  displayReportsByMonth: Record<string, MonthlyReport[]>;
+  aggregateFilters: Omit<AggregateOptions, "months" | "groupBy" | "timeUnit">;
+  // 上位のみ表示で「その他」に入れる全体の条件（上位のみ表示でなければ null）
+  fullFilters: Omit<AggregateOptions, "months" | "groupBy" | "timeUnit"> | null;
+  sortedMonths: string[];
+  groupBy: GroupBy;
+  timeUnit: TimeUnit;
+  fiscalStartMonth: number;
+  // チャートの行と系列（比較できる期間と、比較する系列）
+  rows: ChartRow[];
+  series: string[];
+  seriesLabels: Record<string, string>;
+}) => {
+  const [comparisonMode, setComparisonMode] = useState<ComparisonMode>("none");
+  const [comparisonPeriod, setComparisonPeriod] = useState<string | null>(null);
+  const comparisonPeriods = useMemo(() => rows.map((row) => row.month), [rows]);
+  const comparison = useMemo(() => {
+    if (comparisonMode === "none" || comparisonPeriods.length === 0)
+      return null;
+    const currentPeriod =
+      comparisonPeriod && comparisonPeriods.includes(comparisonPeriod)
+        ? comparisonPeriod
+        : comparisonPeriods[comparisonPeriods.length - 1];
+    const baselinePeriod = getBaselinePeriod(
+      currentPeriod,
+      timeUnit,
+      comparisonMode,
+      fiscalStartMonth,
+    );
+    const options = { months: sortedMonths, groupBy, timeUnit };
+    const selection = aggregate(displayReportsByMonth, {
+      ...aggregateFilters,
+      ...options,
+    });
+    const { rows: allRows } = fullFilters
+      ? collapseToSeries(
+          selection,
+          series.filter((name) => name !== OTHERS_SERIES),
+          aggregate(displayReportsByMonth, { ...fullFilters, ...options }),
+        )
+      : selection;
+    const currentRow = allRows.find((row) => row.month === currentPeriod);
+    const baselineRow = allRows.find((row) => row.month === baselinePeriod);
+    const deltas = computeDeltas(
+      currentRow?.services ?? {},
+      baselineRow?.services ?? {},
+      series,
+    )
+      .filter((row) => row.current !== 0 || row.baseline !== 0)
+      .map((row) => ({
+        ...row,
+        series: seriesLabels[row.series] ?? row.series,
+      }));
+    return {
+      currentPeriod,
+      baselinePeriod,
+      hasBaseline: Boolean(baselineRow),
+      rows: deltas,
+    };
+  }, [
+    comparisonMode,
+    comparisonPeriod,
+    comparisonPeriods,
+    timeUnit,
+    fiscalStartMonth,
+    displayReportsByMonth,
+    aggregateFilters,
+    fullFilters,
+    sortedMonths,
+    groupBy,
+    series,
+    seriesLabels,
+  ]);
+
+  return {
+    comparisonMode,
+    setComparisonMode,
+    setComparisonPeriod,
+    comparisonPeriods,
+    comparison,
+  };
+};
@@ -0,0 +1,133 @@
+import { useCallback, useMemo } from "react";
+import { useLocalSetting } from "@/hooks/useLocalSetting";
+import type { TimeUnit } from "@/lib/aggregate";
+import {
+  BASE_CURRENCY,
+  CURRENCY_SETTINGS_STORAGE_KEY,
+  convertReports,
+  DEFAULT_CURRENCY_SETTINGS,
+  getCurrencyFormatter,
+  isCurrencySettings,
+  mergeExchangeRates,
+  parseExchangeRatesCsv,
+  resolveMonthlyRates,
+  toExchangeRatesCsv,
+} from "@/lib/currency";
+import { downloadText } from "@/lib/download";
+import type { MonthlyReport } from "@/lib/reports";
+
+/**
+ * 表示通貨と月ごとの為替レート。レポートは USD のまま持ち、集計には換算したコピーを使う。
+ */
+export const useCurrency = ({
+  reportsByMonth,
+  sortedMonths,
+  timeUnit,
+  onError,
+}: {
+  reportsByMonth: Record<string, MonthlyReport[]>;
+  sortedMonths: string[];
+  timeUnit: TimeUnit;
+  onError: (message: string) => void;
+}) => {
+  const [currencySettings, setCurrencySettings] = useLocalSetting(
+    CURRENCY_SETTINGS_STORAGE_KEY,
+    isCurrencySettings,
+    DEFAULT_CURRENCY_SETTINGS,
+  );
+
+  const appliedRates = useMemo(
+    () =>
+      resolveMonthlyRates(
+        sortedMonths,
+        currencySettings.currency,
+        currencySettings.rates,
+      ),
+    [sortedMonths, currencySettings],
+  );
+  // without any rate for the chosen currency, keep showing USD instead of mixing units
+  const displayCurrency = appliedRates
+    ? currencySettings.currency
+    : BASE_CURRENCY;
+  const currencyFormatter = getCurrencyFormatter(displayCurrency);
+  const displayReportsByMonth = useMemo(
+    () =>
+      appliedRates
+        ? convertReports(reportsByMonth, appliedRates)
+        : reportsByMonth,
+    [reportsByMonth, appliedRates],
+  );
+
+  const setDisplayCurrency = useCallback(
+    (currency: string) => {
+      setCurrencySettings((prev) => ({ ...prev, currency }));
+    },
+    [setCurrencySettings],
+  );
+  const updateExchangeRate = useCallback(
+    (month: string, rate: number | null) => {
+      setCurrencySettings((prev) => {
+        const byMonth = { ...prev.rates[prev.currency] };
+        if (rate === null) delete byMonth[month];
+        else byMonth[month] = rate;
+        return { ...prev, rates: { ...prev.rates, [prev.currency]: byMonth } };
+      });
+    },
+    [setCurrencySettings],
+  );
+  const importExchangeRates = useCallback(
+    async (file: File) => {
+      try {
+        const imported = parseExchangeRatesCsv(
+          await file.text(),
+          currencySettings.currency,
+        );
+        setCurrencySettings((prev) => ({
+          ...prev,
+          rates: mergeExchangeRates(prev.rates, imported),
+        }));
+      } catch (error) {
+        onError(
+          `「${file.name}」の為替レートを読み込めませんでした: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    },
+    [currencySettings.currency, setCurrencySettings, onError],
+  );
+  const exportExchangeRates = useCallback(() => {
+    downloadText(
+      toExchangeRatesCsv(currencySettings.rates),
+      "pricing-chart-exchange-rates.csv",
+      "text/csv",
+    );
+  }, [currencySettings.rates]);
+
+  // tooltip note per month: the rate used and the month it was entered for
+  const ratePeriodNotes = useMemo(() => {
+    if (
+      !appliedRates ||
+      displayCurrency === BASE_CURRENCY ||
+      timeUnit !== "month"
+    )
+      return undefined;
+    return Object.fromEntries(
+      Object.entries(appliedRates).map(([month, { rate, sourceMonth }]) => [
+        month,
+        `1 ${BASE_CURRENCY} = ${rate} ${displayCurrency}${sourceMonth === month ? "" : `（${sourceMonth} のレート）`}`,
+      ]),
+    );
+  }, [appliedRates, displayCurrency, timeUnit]);
+
+  return {
+    currencySettings,
+    appliedRates,
+    displayCurrency,
+    currencyFormatter,
+    displayReportsByMonth,
+    setDisplayCurrency,
+    updateExchangeRate,
+    importExchangeRates,
+    exportExchangeRates,
+    ratePeriodNotes,
+  };
+};
@@ -0,0 +1,65 @@
+import {
+  type Dispatch,
+  type SetStateAction,
+  useCallback,
+  useMemo,
+} from "react";
+import type { TimeUnit } from "@/lib/aggregate";
+import {
+  checkDataHealth,
+  type ReportReplacement,
+  rowCountsFromImportLog,
+} from "@/lib/dataHealth";
+import type { ImportLogEntry } from "@/lib/importLog";
+import { monthIndex } from "@/lib/periods";
+import type { MonthlyReport } from "@/lib/reports";
+
+/**
+ * データの健全性（欠けている月・置き換え・行数の変化など）の確認と、該当するアカウント・月への絞り込み。
+ */
+export const useDataHealth = ({
+  reportsByMonth,
+  sortedMonths,
+  reportReplacements,
+  importLog,
+  setSelectedAccounts,
+  setSelectedMonths,
+  setTimeUnit,
+}: {
+  reportsByMonth: Record<string, MonthlyReport[]>;
+  sortedMonths: string[];
+  reportReplacements: ReportReplacement[];
+  importLog: ImportLogEntry[];
+  setSelectedAccounts: Dispatch<SetStateAction<string[]>>;
+  setSelectedMonths: Dispatch<SetStateAction<string[]>>;
+  setTimeUnit: Dispatch<SetStateAction<TimeUnit>>;
+}) => {
+  const dataHealthFindings = useMemo(
+    () =>
+      checkDataHealth({
+        reportsByMonth,
+        replacements: reportReplacements,
+        rowCounts: rowCountsFromImportLog(importLog),
+      }),
+    [reportsByMonth, reportReplacements, importLog],
+  );
+  // データの健全性パネルから、該当アカウント・月だけを表示する（データのない月は前後の月を表示する）
+  const focusAccountMonth = useCallback(
+    (account: string, month: string) => {
+      setSelectedAccounts([account]);
+      setTimeUnit("month");
+      if (sortedMonths.includes(month)) {
+        setSelectedMonths([month]);
+      } else {
+        const index = monthIndex(month);
+        const around = sortedMonths.filter(
+          (m) => Math.abs(monthIndex(m) - index) <= 1,
+        );
+        if (around.length > 0) setSelectedMonths(around);
+      }
+    },
+    [sortedMonths, setSelectedAccounts, setSelectedMonths, setTimeUnit],
+  );
+
+  return { dataHealthFindings, focusAccountMonth };
+};
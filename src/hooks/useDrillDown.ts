@@ -0,0 +1,132 @@
+import { useCallback, useMemo, useState } from "react";
+import {
+  breakdownByDescription,
+  breakdownByService,
+  type ChartRow,
+  type GroupBy,
+  type TimeUnit,
+} from "@/lib/aggregate";
+import type { MonthlyReport } from "@/lib/reports";
+
+/**
+ * ドリルダウン。サービスの区画をクリックすると明細（説明）ごとの内訳を、カテゴリの区画をクリックすると
+ * カテゴリ内のサービスの一覧を表示し、そこからさらにサービスの明細へ進める。
+ */
+export const useDrillDown = ({
+  displayReportsByMonth,
+  accounts,
+  months,
+  groupBy,
+  timeUnit,
+  fiscalStartMonth,
+  rows,
+  series,
+  services,
+  serviceCategories,
+}: {
+  displayReportsByMonth: Record<string, MonthlyReport[]>;
+  accounts: string[];
+  months: string[];
+  groupBy: GroupBy;
+  timeUnit: TimeUnit;
+  fiscalStartMonth: number;
+  // チャートの行・系列
+  rows: ChartRow[];
+  series: string[];
+  // サービス・カテゴリの絞り込みを通ったサービス
+  services: string[];
+  serviceCategories: Record<string, string>;
+}) => {
+  // drill-down: clicking a service segment shows that service by description
+  const [drillDown, setDrillDown] = useState<{
+    period: string;
+    service: string;
+  } | null>(null);
+  const openDrillDown = useCallback((period: string, service: string) => {
+    setDrillDown({ period, service });
+  }, []);
+  const closeDrillDown = useCallback(() => setDrillDown(null), []);
+
+  const drillDownBreakdown = useMemo(() => {
+    if (!drillDown) return null;
+    if (groupBy !== "service" && groupBy !== "category") return null;
+    if (!rows.some((row) => row.month === drillDown.period)) return null;
+    if (!services.includes(drillDown.service)) return null;
+    return breakdownByDescription(displayReportsByMonth, {
+      accounts,
+      months,
+      timeUnit,
+      fiscalStartMonth,
+      service: drillDown.service,
+      period: drillDown.period,
+    });
+  }, [
+    drillDown,
+    groupBy,
+    rows,
+    services,
+    displayReportsByMonth,
+    accounts,
+    months,
+    timeUnit,
+    fiscalStartMonth,
+  ]);
+
+  // category drill-down: clicking a category segment lists the services inside,
+  // and each service can be drilled further into descriptions
+  const [categoryDrillDown, setCategoryDrillDown] = useState<{
+    period: string;
+    category: string;
+  } | null>(null);
+  const openCategoryDrillDown = useCallback(
+    (period: string, category: string) => {
+      setCategoryDrillDown({ period, category });
+      setDrillDown(null);
+    },
+    [],
+  );
+  const closeCategoryDrillDown = useCallback(() => {
+    setCategoryDrillDown(null);
+    setDrillDown(null);
+  }, []);
+
+  const categoryDrillDownBreakdown = useMemo(() => {
+    if (!categoryDrillDown || groupBy !== "category") return null;
+    if (!rows.some((row) => row.month === categoryDrillDown.period))
+      return null;
+    if (!series.includes(categoryDrillDown.category)) return null;
+    return breakdownByService(displayReportsByMonth, {
+      accounts,
+      months,
+      timeUnit,
+      fiscalStartMonth,
+      services: services.filter(
+        (svc) => serviceCategories[svc] === categoryDrillDown.category,
+      ),
+      period: categoryDrillDown.period,
+    });
+  }, [
+    categoryDrillDown,
+    groupBy,
+    rows,
+    series,
+    displayReportsByMonth,
+    accounts,
+    months,
+    timeUnit,
+    fiscalStartMonth,
+    services,
+    serviceCategories,
+  ]);
+
+  return {
+    drillDown,
+    drillDownBreakdown,
+    openDrillDown,
+    closeDrillDown,
+    categoryDrillDown,
+    categoryDrillDownBreakdown,
+    openCategoryDrillDown,
+    closeCategoryDrillDown,
+  };
+};
@@ -0,0 +1,166 @@
+import { useCallback, useMemo } from "react";
+import { renderStackedBarChartPng } from "@/components/StackedBarChart";
+import type { ChartRow } from "@/lib/aggregate";
+import type { BudgetLine } from "@/lib/budgets";
+import { renderStackedBarSvg } from "@/lib/chartSvg";
+import { getCurrencyFormatter } from "@/lib/currency";
+import { downloadBlob, downloadText } from "@/lib/download";
+import {
+  buildExportFileName,
+  describeChartTitle,
+  describeFilters,
+  type ExportFilters,
+  type ExportLayout,
+  toPivotCsv,
+  toTidyCsv,
+  withBom,
+} from "@/lib/export";
+
+/**
+ * チャートの CSV・PNG・SVG 書き出し。ファイル名とタイトルには集計条件の要約を入れる。
+ * PNG・SVG は選んだグラフの種類によらず、予算線と期間の注記（*）付きの積み上げ棒グラフで描く。
+ */
+export const useExports = ({
+  groupBy,
+  timeUnit,
+  accounts,
+  months,
+  services,
+  currency,
+  availableAccounts,
+  availableServices,
+  topN,
+  labeledChart,
+  series,
+  seriesLabels,
+  seriesColors,
+  incompletePeriods,
+  budgetLines,
+  onError,
+}: Omit<ExportFilters, "availableAccounts" | "availableServices"> & {
+  // 読み込み済みのアカウント・サービス（件数を「すべて選択中」の判別に使う）
+  availableAccounts: string[];
+  availableServices: string[];
+  // 表示名に置き換えた行と系列
+  labeledChart: { rows: ChartRow[]; series: string[] };
+  series: string[];
+  seriesLabels: Record<string, string>;
+  seriesColors: Record<string, string>;
+  incompletePeriods: string[];
+  budgetLines: BudgetLine[];
+  onError: (message: string) => void;
+}) => {
+  const exportFilters = useMemo<ExportFilters>(
+    () => ({
+      groupBy,
+      timeUnit,
+      accounts,
+      months,
+      services,
+      currency,
+      availableAccounts: availableAccounts.length,
+      availableServices: availableServices.length,
+      topN,
+    }),
+    [
+      groupBy,
+      timeUnit,
+      accounts,
+      months,
+      services,
+      currency,
+      availableAccounts,
+      availableServices,
+      topN,
+    ],
+  );
+
+  const exportCsv = useCallback(
+    (layout: ExportLayout, bom: boolean) => {
+      const content =
+        layout === "tidy"
+          ? toTidyCsv(labeledChart.rows, labeledChart.series)
+          : toPivotCsv(labeledChart.rows, labeledChart.series);
+      downloadText(
+        withBom(content, bom),
+        buildExportFileName(exportFilters, layout, "csv"),
+        "text/csv;charset=utf-8",
+      );
+    },
+    [labeledChart, exportFilters],
+  );
+
+  // 予算線の系列名はチャートと同じ表示名にそろえる
+  const labeledBudgetLines = useMemo(
+    () =>
+      budgetLines.map((line) => ({
+        ...line,
+        series: line.series && (seriesLabels[line.series] ?? line.series),
+      })),
+    [budgetLines, seriesLabels],
+  );
+
+  const exportPng = useCallback(
+    async (width: number, height: number) => {
+      try {
+        const blob = await renderStackedBarChartPng({
+          data: labeledChart.rows,
+          services: labeledChart.series,
+          colors: series.map((name) => seriesColors[name]),
+          title: describeChartTitle(exportFilters),
+          subtitle: describeFilters(exportFilters),
+          currency: exportFilters.currency,
+          incompletePeriods,
+          budgetLines: labeledBudgetLines,
+          width,
+          height,
+        });
+        downloadBlob(
+          blob,
+          buildExportFileName(exportFilters, `${width}x${height}`, "png"),
+        );
+      } catch (error) {
+        onError(
+          error instanceof Error ? error.message : "PNG の生成に失敗しました。",
+        );
+      }
+    },
+    [
+      labeledChart,
+      exportFilters,
+      incompletePeriods,
+      labeledBudgetLines,
+      series,
+      seriesColors,
+      onError,
+    ],
+  );
+
+  const exportSvg = useCallback(() => {
+    const svg = renderStackedBarSvg({
+      data: labeledChart.rows,
+      series: labeledChart.series,
+      colors: series.map((name) => seriesColors[name]),
+      title: describeChartTitle(exportFilters),
+      subtitle: describeFilters(exportFilters),
+      formatValue: (value) =>
+        getCurrencyFormatter(exportFilters.currency).format(value),
+      incompletePeriods,
+      budgetLines: labeledBudgetLines,
+    });
+    downloadText(
+      svg,
+      buildExportFileName(exportFilters, "chart", "svg"),
+      "image/svg+xml",
+    );
+  }, [
+    labeledChart,
+    exportFilters,
+    series,
+    seriesColors,
+    incompletePeriods,
+    labeledBudgetLines,
+  ]);
+
+  return { exportCsv, exportPng, exportSvg };
+};
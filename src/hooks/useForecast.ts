@@ -0,0 +1,100 @@
+import { useMemo, useState } from "react";
+import type { ChartRow, TimeUnit } from "@/lib/aggregate";
+import type { ChartType } from "@/lib/chartViews";
+import {
+  DEFAULT_FORECAST_OPTIONS,
+  type ForecastOptions,
+  forecastRows,
+} from "@/lib/forecast";
+import type { PeriodCoverage } from "@/lib/periods";
+
+/**
+ * 予測（表示中の各系列の翌月以降）と、チャートの期間ごとの注記（為替レート・データの欠け・予測区間）。
+ * 予測は月次の積み上げ棒グラフでのみ、実績の棒の後ろに描く。書き出しは実績だけ。
+ */
+export const useForecast = ({
+  timeUnit,
+  chartType,
+  isComparing,
+  rows,
+  series,
+  incompletePeriods,
+  ratePeriodNotes,
+  currencyFormatter,
+}: {
+  timeUnit: TimeUnit;
+  chartType: ChartType;
+  isComparing: boolean;
+  rows: ChartRow[];
+  series: string[];
+  incompletePeriods: PeriodCoverage[];
+  ratePeriodNotes: Record<string, string> | undefined;
+  currencyFormatter: Intl.NumberFormat;
+}) => {
+  const [isForecastEnabled, setIsForecastEnabled] = useState(false);
+  const [forecastOptions, setForecastOptions] = useState<ForecastOptions>(
+    DEFAULT_FORECAST_OPTIONS,
+  );
+  const forecastUnavailableReason =
+    timeUnit !== "month"
+      ? "予測は月次表示でのみ利用できます。"
+      : chartType !== "stacked"
+        ? "予測は積み上げ棒グラフでのみ表示できます。"
+        : isComparing
+          ? "比較表示中は予測を表示できません。"
+          : rows.length < 2
+            ? "予測には 2 ヶ月以上のデータが必要です。"
+            : null;
+  const forecast = useMemo(
+    () =>
+      isForecastEnabled && forecastUnavailableReason === null
+        ? forecastRows(rows, series, forecastOptions)
+        : undefined,
+    [
+      isForecastEnabled,
+      forecastUnavailableReason,
+      rows,
+      series,
+      forecastOptions,
+    ],
+  );
+  const chartPeriodNotes = useMemo(() => {
+    const coverageNotes = Object.fromEntries(
+      incompletePeriods.map(({ period, expected, months }) => [
+        period,
+        `* ${expected} か月中 ${months.length} か月分のデータ`,
+      ]),
+    );
+    if (!forecast) return { ...ratePeriodNotes, ...coverageNotes };
+    const method =
+      forecastOptions.method === "linear"
+        ? "線形トレンド"
+        : `直近 ${forecastOptions.window} ヶ月の移動平均`;
+    return {
+      ...ratePeriodNotes,
+      ...coverageNotes,
+      ...Object.fromEntries(
+        Object.entries(forecast.bands).map(([month, { lower, upper }]) => [
+          month,
+          `予測（${method}）95% 区間: ${currencyFormatter.format(lower)}〜${currencyFormatter.format(upper)}`,
+        ]),
+      ),
+    };
+  }, [
+    forecast,
+    forecastOptions,
+    ratePeriodNotes,
+    incompletePeriods,
+    currencyFormatter,
+  ]);
+
+  return {
+    isForecastEnabled,
+    setIsForecastEnabled,
+    forecastOptions,
+    setForecastOptions,
+    forecastUnavailableReason,
+    forecast,
+    chartPeriodNotes,
+  };
+};
@@ -0,0 +1,454 @@
+import {
+  type ChangeEvent,
+  type Dispatch,
+  type DragEvent,
+  type RefObject,
+  type SetStateAction,
+  useCallback,
+  useRef,
+  useState,
+} from "react";
+import { useLocalSetting } from "@/hooks/useLocalSetting";
+import {
+  expandSourceFiles,
+  type SourceFile,
+  toSourceFile,
+} from "@/lib/archive";
+import type { ParseStats } from "@/lib/csv";
+import { downloadText } from "@/lib/download";
+import {
+  collectDroppedFiles,
+  type DroppedFileFailure,
+} from "@/lib/droppedFiles";
+import {
+  appendImportLog,
+  classifyImportedFiles,
+  createImportLogEntry,
+  IMPORT_LOG_SAVE_FAILED_WARNING,
+  IMPORT_LOG_STORAGE_KEY,
+  type ImportLogEntry,
+  isImportLogList,
+  toImportLogCsv,
+  toImportLogJson,
+} from "@/lib/importLog";
+import {
+  applyImportMapping,
+  IMPORT_MAPPINGS_STORAGE_KEY,
+  type ImportMapping,
+  isImportMappingList,
+  matchesImportHeaders,
+  type PendingImport,
+  saveImportMapping,
+} from "@/lib/importMappings";
+import { type FileProgress, parseFilesInWorkers } from "@/lib/parserPool";
+import {
+  combineImportedReports,
+  getPartExportKey,
+  isAbortError,
+} from "@/lib/reportParsing";
+import type { MonthlyReport } from "@/lib/reports";
+
+/**
+ * ファイルの選択・ドロップからの取り込み。解析の進捗と中止、形式を判定できなかったファイルの取り込み設定、
+ * インポートログを扱う。取り込んだレポートは addReports に渡す。
+ */
+export const useImport = ({
+  reportsByMonthRef,
+  addReports,
+  setErrorMessage,
+  setWarnings,
+}: {
+  // 取り込み結果の分類（新規・置き換え）に使う最新のレポート
+  reportsByMonthRef: RefObject<Record<string, MonthlyReport[]>>;
+  addReports: (reports: MonthlyReport[]) => void;
+  // 取り込み結果のエラーと警告はアップロード欄に表示する
+  setErrorMessage: Dispatch<SetStateAction<string | null>>;
+  setWarnings: Dispatch<SetStateAction<string[]>>;
+}) => {
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const [isParsing, setIsParsing] = useState(false);
+  // 解析中のファイルごとの進捗（アーカイブの展開中は null）
+  const [importProgress, setImportProgress] = useState<FileProgress[] | null>(
+    null,
+  );
+  const importAbortRef = useRef<AbortController | null>(null);
+  const [isDragActive, setIsDragActive] = useState(false);
+
+  // 取り込み設定（形式を判定できなかったファイルの列・年月の割り当て）は localStorage に保存する
+  const [importMappings, setImportMappings] = useLocalSetting(
+    IMPORT_MAPPINGS_STORAGE_KEY,
+    isImportMappingList,
+    [],
+  );
+  const [pendingImports, setPendingImports] = useState<PendingImport[]>([]);
+  // ファイルごとの取り込み結果。アップロードをまたいで残す
+  const [importLog, setImportLog] = useLocalSetting(
+    IMPORT_LOG_STORAGE_KEY,
+    isImportLogList,
+    [],
+    // 容量を超えて保存できなければ、再読み込みで消えることを（ほかの警告に埋もれないよう先頭で）知らせる
+    () =>
+      setWarnings((prev) =>
+        prev.includes(IMPORT_LOG_SAVE_FAILED_WARNING)
+          ? prev
+          : [IMPORT_LOG_SAVE_FAILED_WARNING, ...prev],
+      ),
+  );
+  const addImportLog = useCallback(
+    (entries: ImportLogEntry[]) => {
+      if (entries.length === 0) return;
+      setImportLog((prev) => appendImportLog(prev, entries));
+    },
+    [setImportLog],
+  );
+
+  const processFiles = useCallback(
+    // readFailures はドロップしたフォルダの中で読み取れなかったファイル（警告とログに残す）
+    async (sources: SourceFile[], readFailures: DroppedFileFailure[] = []) => {
+      if (sources.length === 0 && readFailures.length === 0) {
+        return;
+      }
+
+      // 進捗と中止を 1 つの取り込みにまとめるため、取り込み中は次のファイルを受け付けない
+      if (importAbortRef.current) {
+        setWarnings([
+          "取り込み中です。完了するか中止してからファイルを追加してください。",
+        ]);
+        return;
+      }
+      const controller = new AbortController();
+      importAbortRef.current = controller;
+      setIsParsing(true);
+      setImportProgress(null);
+
+      try {
+        // ZIP・.csv.gz は展開し、中の CSV を通常のファイルと同じように取り込む
+        const { files, failures: archiveFailures } =
+          await expandSourceFiles(sources);
+        if (controller.signal.aborted) return;
+
+        setImportProgress(
+          files.map(({ file, path }) => ({
+            path,
+            loaded: 0,
+            total: file.size,
+            status: "waiting",
+          })),
+        );
+        const updateProgress = (index: number, update: Partial<FileProgress>) =>
+          setImportProgress((prev) =>
+            prev
+              ? prev.map((progress, i) =>
+                  i === index ? { ...progress, ...update } : progress,
+                )
+              : prev,
+          );
+
+        // 解析と集計は Web Worker で行い、同時に解析するファイル数を抑える
+        const outcomes = await parseFilesInWorkers(files, importMappings, {
+          signal: controller.signal,
+          onProgress: (index, { loaded, total }) =>
+            updateProgress(index, { loaded, total, status: "parsing" }),
+          onSettled: (index, outcome) =>
+            updateProgress(index, {
+              loaded: files[index]?.file.size ?? 0,
+              status: outcome.status === "failed" ? "failed" : "done",
+            }),
+        });
+
+        const importedAt = new Date();
+        const nextWarnings: string[] = [];
+        const failures: string[] = [];
+        const nextPending: PendingImport[] = [];
+        const logEntries: ImportLogEntry[] = [
+          ...readFailures,
+          ...archiveFailures,
+        ].map(({ path, message }) => {
+          nextWarnings.push(`「${path}」: ${message}`);
+          return createImportLogEntry(
+            { path, status: "failed", issues: [message] },
+            importedAt,
+          );
+        });
+
+        const parsed = outcomes.flatMap((outcome, index) =>
+          outcome.status === "parsed"
+            ? [{ outcome, index, path: files[index]?.path ?? "不明なファイル" }]
+            : [],
+        );
+        const statuses = classifyImportedFiles(
+          reportsByMonthRef.current,
+          parsed.map(({ outcome }) => outcome.reports),
+          parsed.map(({ outcome, path }) =>
+            outcome.isPart ? getPartExportKey(path) : null,
+          ),
+        );
+        parsed.forEach(({ outcome, path }, i) => {
+          nextWarnings.push(...outcome.warnings);
+          logEntries.push(
+            createImportLogEntry(
+              {
+                path,
+                status: statuses[i] ?? "imported",
+                rowCount: outcome.rowCount,
+                zeroCostRows: outcome.zeroCostRows,
+                reports: outcome.reports,
+                issues: outcome.warnings,
+              },
+              importedAt,
+            ),
+          );
+        });
+        for (const [index, outcome] of outcomes.entries()) {
+          if (outcome.status === "unrecognized") {
+            // 取り込むかどうかはダイアログで決まるため、ログはそのときに残す
+            nextPending.push({
+              ...outcome.pending,
+              warnings: outcome.warnings,
+            });
+          } else if (outcome.status === "failed") {
+            failures.push(outcome.message);
+            logEntries.push(
+              createImportLogEntry(
+                {
+                  path: files[index]?.path ?? "不明なファイル",
+                  status: "failed",
+                  rowCount: outcome.rowCount,
+                  issues: [...outcome.warnings, outcome.message],
+                },
+                importedAt,
+              ),
+            );
+          }
+        }
+
+        // CUR の分割ファイルは同じエクスポートなら同じ月・アカウントでも置き換えずに合算する
+        const combined = combineImportedReports(
+          parsed.map(({ outcome, path }) => ({ ...outcome, path })),
+        );
+        nextWarnings.push(...combined.warnings);
+        addReports(combined.reports);
+        addImportLog(logEntries);
+        if (nextPending.length > 0) {
+          setPendingImports((prev) => [...prev, ...nextPending]);
+        }
+
+        setWarnings(nextWarnings);
+        setErrorMessage(failures.length > 0 ? failures.join("\n") : null);
+      } catch (error) {
+        // 中止した取り込みの結果は追加しない
+        if (isAbortError(error)) return;
+        setErrorMessage(
+          `ファイルを取り込めませんでした: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      } finally {
+        importAbortRef.current = null;
+        setIsParsing(false);
+        setImportProgress(null);
+      }
+    },
+    [
+      importMappings,
+      reportsByMonthRef,
+      addReports,
+      addImportLog,
+      setErrorMessage,
+      setWarnings,
+    ],
+  );
+
+  const cancelImport = useCallback(() => {
+    importAbortRef.current?.abort();
+    setWarnings([
+      "取り込みを中止しました。中止した取り込みのファイルは追加していません。",
+    ]);
+  }, [setWarnings]);
+
+  // ダイアログで設定したファイルを取り込む。設定を保存する場合は、待っている同じヘッダーのファイルにも適用する
+  const confirmPendingImport = useCallback(
+    (
+      mapping: Omit<ImportMapping, "id">,
+      manual: { month: string; accountId: string },
+      remember: boolean,
+    ) => {
+      const [current, ...rest] = pendingImports;
+      if (!current) return;
+      const currentStats: ParseStats = { zeroCostRows: 0 };
+      const applied = [
+        {
+          pending: current,
+          report: applyImportMapping(current, mapping, manual, currentStats),
+          stats: currentStats,
+        },
+      ];
+      let remaining = rest;
+      if (remember) {
+        setImportMappings((prev) => saveImportMapping(prev, mapping));
+        remaining = rest.filter((pending) => {
+          if (matchesImportHeaders(mapping, pending.fields)) {
+            try {
+              const stats: ParseStats = { zeroCostRows: 0 };
+              const report = applyImportMapping(
+                pending,
+                mapping,
+                undefined,
+                stats,
+              );
+              applied.push({ pending, report, stats });
+              return false;
+            } catch {
+              // ファイル名のパターンで年月を取れないファイルはダイアログで個別に設定する
+            }
+          }
+          return true;
+        });
+      }
+      const importedAt = new Date();
+      const statuses = classifyImportedFiles(
+        reportsByMonthRef.current,
+        applied.map(({ report }) => [report]),
+      );
+      addReports(applied.map(({ report }) => report));
+      addImportLog(
+        applied.map(({ pending, report, stats }, index) =>
+          createImportLogEntry(
+            {
+              path: pending.path,
+              status: statuses[index] ?? "imported",
+              rowCount: pending.rows.length,
+              zeroCostRows: stats.zeroCostRows,
+              reports: [report],
+              issues: pending.warnings,
+            },
+            importedAt,
+          ),
+        ),
+      );
+      setPendingImports(remaining);
+    },
+    [
+      pendingImports,
+      setImportMappings,
+      reportsByMonthRef,
+      addReports,
+      addImportLog,
+    ],
+  );
+
+  const skipPendingImport = useCallback(() => {
+    const [current, ...rest] = pendingImports;
+    if (!current) return;
+    setWarnings((prev) => [
+      ...prev,
+      `「${current.path}」: 取り込みをスキップしました。`,
+    ]);
+    addImportLog([
+      createImportLogEntry(
+        {
+          path: current.path,
+          status: "skipped",
+          rowCount: current.rows.length,
+          issues: current.warnings,
+        },
+        new Date(),
+      ),
+    ]);
+    setPendingImports(rest);
+  }, [pendingImports, addImportLog, setWarnings]);
+
+  const clearImportLog = useCallback(() => {
+    setImportLog([]);
+  }, [setImportLog]);
+  const exportImportLog = useCallback(
+    (entries: ImportLogEntry[], format: "csv" | "json") => {
+      if (format === "csv") {
+        downloadText(
+          toImportLogCsv(entries),
+          "pricing-chart-import-log.csv",
+          "text/csv",
+        );
+      } else {
+        downloadText(
+          toImportLogJson(entries),
+          "pricing-chart-import-log.json",
+          "application/json",
+        );
+      }
+    },
+    [],
+  );
+
+  const deleteImportMapping = useCallback(
+    (id: string) => {
+      setImportMappings((prev) => prev.filter((mapping) => mapping.id !== id));
+    },
+    [setImportMappings],
+  );
+
+  const handleFileSelection = useCallback(
+    async (event: ChangeEvent<HTMLInputElement>) => {
+      const fileList = event.target.files;
+      const files = fileList ? Array.from(fileList) : [];
+
+      await processFiles(files.map(toSourceFile));
+
+      // 同じファイルを再度選択できるように値をリセット
+      event.target.value = "";
+    },
+    [processFiles],
+  );
+
+  const handleDragOver = useCallback((event: DragEvent<HTMLElement>) => {
+    event.preventDefault();
+    event.dataTransfer.dropEffect = "copy";
+    setIsDragActive(true);
+  }, []);
+
+  const handleDragLeave = useCallback((event: DragEvent<HTMLElement>) => {
+    event.preventDefault();
+    const relatedTarget = event.relatedTarget as Node | null;
+    if (relatedTarget && event.currentTarget.contains(relatedTarget)) {
+      return;
+    }
+    setIsDragActive(false);
+  }, []);
+
+  const handleDrop = useCallback(
+    async (event: DragEvent<HTMLElement>) => {
+      event.preventDefault();
+      setIsDragActive(false);
+
+      // フォルダがドロップされた場合は中のファイルを再帰的に集める。
+      // 読み取れないファイル（ドロップ後に移動されたファイルなど）はパスごとに警告し、残りを取り込む
+      if (!event.dataTransfer) return;
+      const { files, failures } = await collectDroppedFiles(event.dataTransfer);
+      await processFiles(files, failures);
+    },
+    [processFiles],
+  );
+
+  const handleBrowseClick = useCallback(() => {
+    fileInputRef.current?.click();
+  }, []);
+
+  return {
+    fileInputRef,
+    isParsing,
+    importProgress,
+    isDragActive,
+    cancelImport,
+    importMappings,
+    deleteImportMapping,
+    pendingImports,
+    confirmPendingImport,
+    skipPendingImport,
+    importLog,
+    clearImportLog,
+    exportImportLog,
+    handleFileSelection,
+    handleDragOver,
+    handleDragLeave,
+    handleDrop,
+    handleBrowseClick,
+  };
+};
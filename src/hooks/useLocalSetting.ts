@@ -0,0 +1,32 @@
+import { useEffect, useRef, useState } from "react";
+import { readLocalJson, writeLocalJson } from "@/lib/localSettings";
+
+/**
+ * localStorage に保存する設定。最初の描画は fallback で行い、マウント後に保存済みの値を読み込む。
+ * 読み込みが終わるまでは保存しない（fallback で保存済みの値を上書きしないため）。
+ * 戻り値の 3 つ目は読み込みが終わったかどうか。保存できなかったとき（容量超過など）は onWriteError を呼ぶ。
+ */
+export const useLocalSetting = <T>(
+  key: string,
+  validate: (value: unknown) => value is T,
+  fallback: T,
+  onWriteError?: () => void,
+) => {
+  // fallback は最初の値だけを使う（呼び出しごとに作られる [] や {} で読み込み直さないため）
+  const [initial] = useState(fallback);
+  const [value, setValue] = useState(initial);
+  const [hasLoaded, setHasLoaded] = useState(false);
+  // 呼び出しごとに作られるコールバックで保存し直さないよう、最新のものを ref で持つ
+  const onWriteErrorRef = useRef(onWriteError);
+  useEffect(() => {
+    onWriteErrorRef.current = onWriteError;
+  }, [onWriteError]);
+  useEffect(() => {
+    setValue(readLocalJson(key, validate, initial));
+    setHasLoaded(true);
+  }, [key, validate, initial]);
+  useEffect(() => {
+    if (hasLoaded && !writeLocalJson(key, value)) onWriteErrorRef.current?.();
+  }, [key, value, hasLoaded]);
+  return [value, setValue, hasLoaded] as const;
+};
@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useLocalSetting } from "@/hooks/useLocalSetting";
+import {
+  DEFAULT_FISCAL_START_MONTH,
+  type TimeUnit,
+  toPeriod,
+} from "@/lib/aggregate";
+import {
+  buildMonthRangeShortcuts,
+  FISCAL_START_MONTH_STORAGE_KEY,
+  isFiscalStartMonth,
+} from "@/lib/periods";
+
+/**
+ * 年月の選択と、時間軸（月次・四半期・年次・年度）、年度の開始月。
+ */
+export const useMonths = (sortedMonths: string[]) => {
+  // time unit: month / quarter / calendar year / fiscal year (controls how the chart groups months)
+  const [timeUnit, setTimeUnit] = useState<TimeUnit>("month");
+  // first month of the fiscal year; quarters and fiscal years are counted from it
+  const [fiscalStartMonth, setFiscalStartMonth] = useLocalSetting(
+    FISCAL_START_MONTH_STORAGE_KEY,
+    isFiscalStartMonth,
+    DEFAULT_FISCAL_START_MONTH,
+  );
+
+  // Months selection (年月) - default: all selected
+  const [selectedMonths, setSelectedMonths] = useState<string[]>([]);
+  const [monthFilter, setMonthFilter] = useState("");
+
+  // default: select all months when months first become available; auto-select newly added months
+  const hasInitializedMonths = useRef(false);
+  const prevMonthsRef = useRef<Set<string>>(new Set());
+  useEffect(() => {
+    const newMonths = sortedMonths.filter((m) => !prevMonthsRef.current.has(m));
+    if (newMonths.length > 0) {
+      setSelectedMonths((prev) => {
+        const prevSet = new Set(prev);
+        const toAdd = newMonths.filter((m) => !prevSet.has(m));
+        return toAdd.length > 0 ? [...prev, ...toAdd] : prev;
+      });
+      if (!hasInitializedMonths.current) {
+        hasInitializedMonths.current = true;
+      }
+    }
+    prevMonthsRef.current = new Set(sortedMonths);
+  }, [sortedMonths]);
+
+  const toggleMonth = useCallback((month: string) => {
+    setSelectedMonths((prev) => {
+      if (prev.includes(month)) return prev.filter((m) => m !== month);
+      return [...prev, month];
+    });
+  }, []);
+
+  const selectAllMonths = useCallback(
+    () => setSelectedMonths([...sortedMonths]),
+    [sortedMonths],
+  );
+  const clearSelectedMonths = useCallback(() => setSelectedMonths([]), []);
+  const selectMonths = useCallback(
+    (months: string[]) => setSelectedMonths([...months]),
+    [],
+  );
+  // range shortcuts (this fiscal year, last 2 quarters, ...) relative to the latest loaded month
+  const monthShortcuts = useMemo(
+    () => buildMonthRangeShortcuts(sortedMonths, fiscalStartMonth),
+    [sortedMonths, fiscalStartMonth],
+  );
+  // the quarter / fiscal year each month belongs to, shown next to the month in the selector
+  const monthPeriodLabels = useMemo(
+    () =>
+      timeUnit === "month"
+        ? {}
+        : Object.fromEntries(
+            sortedMonths.map((month) => [
+              month,
+              toPeriod(month, timeUnit, fiscalStartMonth),
+            ]),
+          ),
+    [sortedMonths, timeUnit, fiscalStartMonth],
+  );
+
+  const filteredMonths = useMemo(() => {
+    const term = monthFilter.trim().toLowerCase();
+    return sortedMonths.filter((m) =>
+      term === "" ? true : m.toLowerCase().includes(term),
+    );
+  }, [sortedMonths, monthFilter]);
+
+  return {
+    timeUnit,
+    setTimeUnit,
+    fiscalStartMonth,
+    setFiscalStartMonth,
+    // Do not fall back to all months when nothing is selected.
+    selectedMonths,
+    setSelectedMonths,
+    monthFilter,
+    setMonthFilter,
+    filteredMonths,
+    toggleMonth,
+    selectAllMonths,
+    clearSelectedMonths,
+    selectMonths,
+    monthShortcuts,
+    monthPeriodLabels,
+  };
+};
@@ -0,0 +1,161 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useLocalSetting } from "@/hooks/useLocalSetting";
+import {
+  findReplacements,
+  isReportReplacementList,
+  MAX_REPORT_REPLACEMENTS,
+  REPORT_REPLACEMENTS_STORAGE_KEY,
+} from "@/lib/dataHealth";
+import {
+  deleteReportStore,
+  isPersistenceEnabled,
+  isReportStoreAvailable,
+  loadStoredReports,
+  saveStoredReports,
+  setPersistenceEnabled,
+} from "@/lib/reportStore";
+import {
+  flattenReportsByMonth,
+  groupReportsByMonth,
+  type MonthlyReport,
+} from "@/lib/reports";
+
+/**
+ * 取り込んだレポート（月ごと・アカウントごと）と、IndexedDB への保存・復元、置き換えの記録。
+ */
+export const useReports = (onError: (message: string) => void) => {
+  // allow multiple reports per month (different AWS accounts)
+  const [reportsByMonth, setReportsByMonth] = useState<
+    Record<string, MonthlyReport[]>
+  >({});
+  const [isPersisting, setIsPersisting] = useState(false);
+  // 復元が終わるまでは保存しない（空の state で保存済みデータを上書きしないため）
+  const [hasRestoredReports, setHasRestoredReports] = useState(false);
+
+  // restore reports saved in IndexedDB on first load
+  useEffect(() => {
+    if (!isReportStoreAvailable() || !isPersistenceEnabled()) {
+      setHasRestoredReports(true);
+      return;
+    }
+    setIsPersisting(true);
+
+    let cancelled = false;
+    loadStoredReports()
+      .then((stored) => {
+        if (cancelled || stored.length === 0) return;
+        // 復元中にアップロードされたレポートを優先する
+        setReportsByMonth((prev) =>
+          groupReportsByMonth([...stored, ...flattenReportsByMonth(prev)]),
+        );
+      })
+      .catch((error: unknown) => {
+        if (cancelled) return;
+        onError(
+          `保存済みデータの復元に失敗しました: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      })
+      .finally(() => {
+        if (!cancelled) setHasRestoredReports(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [onError]);
+
+  // keep IndexedDB in sync with uploads and clearReports
+  useEffect(() => {
+    if (!hasRestoredReports || !isPersisting) return;
+    saveStoredReports(flattenReportsByMonth(reportsByMonth)).catch(
+      (error: unknown) => {
+        onError(
+          `ブラウザへの保存に失敗しました: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      },
+    );
+  }, [reportsByMonth, hasRestoredReports, isPersisting, onError]);
+
+  const forgetStoredReports = useCallback(async () => {
+    setIsPersisting(false);
+    setPersistenceEnabled(false);
+    try {
+      await deleteReportStore();
+    } catch (error) {
+      onError(
+        `保存データの削除に失敗しました: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }, [onError]);
+
+  const resumePersistence = useCallback(() => {
+    if (!isReportStoreAvailable()) return;
+    setPersistenceEnabled(true);
+    setIsPersisting(true);
+  }, []);
+
+  // 合計の異なるファイルでレポートを置き換えた記録（データの健全性パネルに差分を表示する）
+  const [reportReplacements, setReportReplacements] = useLocalSetting(
+    REPORT_REPLACEMENTS_STORAGE_KEY,
+    isReportReplacementList,
+    [],
+  );
+  const clearReportReplacements = useCallback(
+    () => setReportReplacements([]),
+    [setReportReplacements],
+  );
+
+  // 取り込みは Worker での解析をはさんで非同期に進むため、途中のクリア・削除・ほかの取り込みも反映した
+  // 最新のレポートと比べる（置き換えの記録・インポートログの状態と、保存されるレポートを一致させる）
+  const reportsByMonthRef = useRef(reportsByMonth);
+  useEffect(() => {
+    reportsByMonthRef.current = reportsByMonth;
+  }, [reportsByMonth]);
+
+  const addReports = useCallback(
+    (nextReports: MonthlyReport[]) => {
+      if (nextReports.length === 0) return;
+      const replacements = findReplacements(
+        reportsByMonthRef.current,
+        nextReports,
+        new Date(),
+      );
+      if (replacements.length > 0) {
+        setReportReplacements((prev) =>
+          [...replacements, ...prev].slice(0, MAX_REPORT_REPLACEMENTS),
+        );
+      }
+      // 同一アカウント・同一月のレポートは置き換える
+      const merge = (prev: Record<string, MonthlyReport[]>) =>
+        groupReportsByMonth([...flattenReportsByMonth(prev), ...nextReports]);
+      reportsByMonthRef.current = merge(reportsByMonthRef.current);
+      setReportsByMonth(merge);
+    },
+    [setReportReplacements],
+  );
+
+  const clearReports = useCallback(() => {
+    reportsByMonthRef.current = {};
+    setReportsByMonth({});
+    setReportReplacements([]);
+  }, [setReportReplacements]);
+
+  const sortedMonths = useMemo(
+    () => Object.keys(reportsByMonth).sort((a, b) => a.localeCompare(b)),
+    [reportsByMonth],
+  );
+
+  return {
+    reportsByMonth,
+    reportsByMonthRef,
+    sortedMonths,
+    hasRestoredReports,
+    isPersisting,
+    forgetStoredReports,
+    resumePersistence,
+    reportReplacements,
+    clearReportReplacements,
+    addReports,
+    clearReports,
+  };
+};
@@ -0,0 +1,65 @@
+import { useCallback, useMemo } from "react";
+import { useLocalSetting } from "@/hooks/useLocalSetting";
+import {
+  assignSeriesColors,
+  type ColorPaletteId,
+  DEFAULT_SERIES_COLOR_SETTINGS,
+  isSeriesColorSettings,
+  SERIES_COLORS_STORAGE_KEY,
+} from "@/lib/colors";
+import { OTHERS_SERIES, OTHERS_SERIES_COLOR } from "@/lib/topN";
+
+/**
+ * 系列の色。パレットと系列名（サービス名・アカウント ID など）に固定した色は localStorage に保存する。
+ */
+export const useSeriesColors = (series: string[]) => {
+  const [seriesColorSettings, setSeriesColorSettings] = useLocalSetting(
+    SERIES_COLORS_STORAGE_KEY,
+    isSeriesColorSettings,
+    DEFAULT_SERIES_COLOR_SETTINGS,
+  );
+
+  // "Others" is always drawn in a neutral gray unless the user pinned a color to it
+  const seriesColors = useMemo<Record<string, string>>(
+    () => ({
+      ...assignSeriesColors(
+        series.filter((name) => name !== OTHERS_SERIES),
+        seriesColorSettings,
+      ),
+      [OTHERS_SERIES]:
+        seriesColorSettings.customColors[OTHERS_SERIES] ?? OTHERS_SERIES_COLOR,
+    }),
+    [series, seriesColorSettings],
+  );
+
+  const setPalette = useCallback(
+    (palette: ColorPaletteId) =>
+      setSeriesColorSettings((prev) => ({ ...prev, palette })),
+    [setSeriesColorSettings],
+  );
+  const setSeriesColor = useCallback(
+    (name: string, color: string | null) =>
+      setSeriesColorSettings((prev) => {
+        const { [name]: _removed, ...customColors } = prev.customColors;
+        return {
+          ...prev,
+          customColors: color
+            ? { ...customColors, [name]: color }
+            : customColors,
+        };
+      }),
+    [setSeriesColorSettings],
+  );
+  const resetSeriesColors = useCallback(
+    () => setSeriesColorSettings((prev) => ({ ...prev, customColors: {} })),
+    [setSeriesColorSettings],
+  );
+
+  return {
+    seriesColorSettings,
+    seriesColors,
+    setPalette,
+    setSeriesColor,
+    resetSeriesColors,
+  };
+};
@@ -0,0 +1,237 @@
+import {
+  type RefObject,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { useLocalSetting } from "@/hooks/useLocalSetting";
+import { downloadText } from "@/lib/download";
+import type { MonthlyReport } from "@/lib/reports";
+import {
+  getServiceCategory,
+  isServiceCategoryMap,
+  listCategories,
+  parseServiceCategoriesCsv,
+  parseServiceCategoriesJson,
+  SERVICE_CATEGORIES_STORAGE_KEY,
+} from "@/lib/serviceCategories";
+
+/**
+ * サービスの選択と、サービスのカテゴリ（組み込みの対応表と上書き）、カテゴリによる絞り込み。
+ */
+export const useServices = ({
+  reportsByMonth,
+  selectedAccounts,
+  hasInitializedAccounts,
+  onError,
+}: {
+  reportsByMonth: Record<string, MonthlyReport[]>;
+  selectedAccounts: string[];
+  // アカウントが選ばれる前は、すべてのアカウントのサービスを数える
+  hasInitializedAccounts: RefObject<boolean>;
+  onError: (message: string) => void;
+}) => {
+  const services = useMemo(() => {
+    const totals = new Map<string, number>();
+    const allowed = new Set(selectedAccounts);
+
+    Object.values(reportsByMonth).forEach((arr) => {
+      (arr ?? []).forEach((report) => {
+        const key = report.accountId ?? report.fileName;
+        if (hasInitializedAccounts.current && !allowed.has(key)) return;
+        Object.entries(report.services).forEach(([service, cost]) => {
+          totals.set(service, (totals.get(service) ?? 0) + (cost as number));
+        });
+      });
+    });
+
+    return Array.from(totals.entries())
+      .sort((a, b) => b[1] - a[1])
+      .map(([service]) => service);
+  }, [reportsByMonth, selectedAccounts, hasInitializedAccounts]);
+
+  // every service in the loaded reports, regardless of the account selection (for shared view states)
+  const allServices = useMemo(() => {
+    const set = new Set<string>();
+    for (const arr of Object.values(reportsByMonth)) {
+      for (const report of arr) {
+        for (const service of Object.keys(report.services)) set.add(service);
+      }
+    }
+    return Array.from(set).sort();
+  }, [reportsByMonth]);
+
+  const [selectedServices, setSelectedServices] = useState<string[]>([]);
+  const [serviceFilter, setServiceFilter] = useState("");
+  // default: select all services when services first become available; auto-select newly added services
+  // allKnownServicesRef grows only (never shrinks) to avoid re-selecting services the user intentionally
+  // deselected when they temporarily disappear due to account filter changes.
+  const hasInitializedServices = useRef(false);
+  const allKnownServicesRef = useRef<Set<string>>(new Set());
+  useEffect(() => {
+    const newSvcs = services.filter((s) => !allKnownServicesRef.current.has(s));
+    if (newSvcs.length > 0) {
+      setSelectedServices((prev) => {
+        const prevSet = new Set(prev);
+        const toAdd = newSvcs.filter((s) => !prevSet.has(s));
+        return toAdd.length > 0 ? [...prev, ...toAdd] : prev;
+      });
+      for (const s of newSvcs) allKnownServicesRef.current.add(s);
+      if (!hasInitializedServices.current) {
+        hasInitializedServices.current = true;
+      }
+    }
+  }, [services]);
+
+  const toggleService = useCallback((service: string) => {
+    setSelectedServices((prev) => {
+      if (prev.includes(service)) {
+        return prev.filter((s) => s !== service);
+      }
+      return [...prev, service];
+    });
+  }, []);
+
+  const selectAllServices = useCallback(
+    () => setSelectedServices([...services]),
+    [services],
+  );
+  const clearSelectedServices = useCallback(() => setSelectedServices([]), []);
+
+  const filteredServices = useMemo(() => {
+    const term = serviceFilter.trim().toLowerCase();
+    return services.filter((s) =>
+      term === "" ? true : s.toLowerCase().includes(term),
+    );
+  }, [services, serviceFilter]);
+
+  // service categories: built-in AWS mapping plus user overrides stored in localStorage
+  const [categoryOverrides, setCategoryOverrides] = useLocalSetting(
+    SERVICE_CATEGORIES_STORAGE_KEY,
+    isServiceCategoryMap,
+    {},
+  );
+
+  const updateCategoryOverride = useCallback(
+    (service: string, category: string) => {
+      setCategoryOverrides((prev) => {
+        const next = { ...prev };
+        // 空欄は組み込みの対応表に戻す
+        if (category.trim() === "") delete next[service];
+        else next[service] = category;
+        return next;
+      });
+    },
+    [setCategoryOverrides],
+  );
+  const resetCategoryOverrides = useCallback(
+    () => setCategoryOverrides({}),
+    [setCategoryOverrides],
+  );
+  const importCategoryOverrides = useCallback(
+    async (file: File) => {
+      try {
+        const text = await file.text();
+        const imported = file.name.toLowerCase().endsWith(".json")
+          ? parseServiceCategoriesJson(text)
+          : parseServiceCategoriesCsv(text);
+        setCategoryOverrides((prev) => ({ ...prev, ...imported }));
+      } catch (error) {
+        onError(
+          `「${file.name}」のカテゴリ設定を読み込めませんでした: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    },
+    [setCategoryOverrides, onError],
+  );
+  const exportCategoryOverrides = useCallback(() => {
+    downloadText(
+      JSON.stringify(categoryOverrides, null, 2),
+      "pricing-chart-categories.json",
+      "application/json",
+    );
+  }, [categoryOverrides]);
+
+  const serviceCategories = useMemo(
+    () =>
+      Object.fromEntries(
+        services.map((svc) => [
+          svc,
+          getServiceCategory(categoryOverrides, svc),
+        ]),
+      ),
+    [services, categoryOverrides],
+  );
+  const categories = useMemo(
+    () => listCategories(categoryOverrides, services),
+    [categoryOverrides, services],
+  );
+
+  // categories follow the same auto-select rule as services: new ones start selected
+  const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
+  const allKnownCategoriesRef = useRef<Set<string>>(new Set());
+  useEffect(() => {
+    const newCategories = categories.filter(
+      (c) => !allKnownCategoriesRef.current.has(c),
+    );
+    if (newCategories.length === 0) return;
+    setSelectedCategories((prev) => [
+      ...prev,
+      ...newCategories.filter((c) => !prev.includes(c)),
+    ]);
+    for (const c of newCategories) allKnownCategoriesRef.current.add(c);
+  }, [categories]);
+
+  const toggleCategory = useCallback((category: string) => {
+    setSelectedCategories((prev) =>
+      prev.includes(category)
+        ? prev.filter((c) => c !== category)
+        : [...prev, category],
+    );
+  }, []);
+  const selectAllCategories = useCallback(
+    () => setSelectedCategories([...categories]),
+    [categories],
+  );
+  const clearSelectedCategories = useCallback(
+    () => setSelectedCategories([]),
+    [],
+  );
+
+  // services that pass both the service selector and the category filter.
+  // Do not fall back to all services when nothing is selected.
+  const effectiveServices = useMemo(() => {
+    const allowed = new Set(selectedCategories);
+    return selectedServices.filter((svc) =>
+      allowed.has(serviceCategories[svc]),
+    );
+  }, [selectedServices, selectedCategories, serviceCategories]);
+
+  return {
+    services,
+    allServices,
+    selectedServices,
+    setSelectedServices,
+    serviceFilter,
+    setServiceFilter,
+    filteredServices,
+    toggleService,
+    selectAllServices,
+    clearSelectedServices,
+    categoryOverrides,
+    updateCategoryOverride,
+    resetCategoryOverrides,
+    importCategoryOverrides,
+    exportCategoryOverrides,
+    serviceCategories,
+    categories,
+    selectedCategories,
+    setSelectedCategories,
+    toggleCategory,
+    selectAllCategories,
+    clearSelectedCategories,
+    effectiveServices,
+  };
+};
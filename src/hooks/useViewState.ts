@@ -0,0 +1,264 @@
+import { useCallback, useEffect, useState } from "react";
+import { useLocalSetting } from "@/hooks/useLocalSetting";
+import { downloadText } from "@/lib/download";
+import {
+  createPreset,
+  isViewPresetList,
+  mergePresets,
+  PRESETS_STORAGE_KEY,
+  parsePresetsJson,
+  serializePresets,
+  type ViewPreset,
+} from "@/lib/presets";
+import {
+  type CurrentViewState,
+  decodeViewState,
+  encodeViewState,
+  hasMissingViewItems,
+  type MissingViewItems,
+  resolveViewState,
+  toSharedViewState,
+  type ViewState,
+  type ViewStateAvailability,
+} from "@/lib/viewState";
+
+/**
+ * URL のハッシュで共有する表示条件と、名前付きのビュー（プリセット）。
+ * 共有・保存された条件は、データが読み込まれてから読み込み済みの項目だけに絞って apply に渡す。
+ * 呼び出し側の自動選択（新しい項目を選択する）より後に呼ぶと、共有された選択が優先される。
+ */
+export const useViewState = ({
+  isReady,
+  available,
+  groupsByDimension,
+  current,
+  apply,
+  onError,
+}: {
+  // 保存済みデータの復元が終わったか
+  isReady: boolean;
+  // groups は選択中の分類のグループ
+  available: ViewStateAvailability;
+  // 共有された条件が別の分類のグループを指すときに突き合わせる
+  groupsByDimension: Record<string, string[]>;
+  current: CurrentViewState;
+  apply: (state: ViewState) => void;
+  onError: (message: string) => void;
+}) => {
+  const {
+    accounts: availableAccounts,
+    months: availableMonths,
+    services: availableServices,
+    groups: availableGroups,
+    categories: availableCategories,
+  } = available;
+  const {
+    accounts: selectedAccounts,
+    months: selectedMonths,
+    services: selectedServices,
+    groups: selectedGroups,
+    categories: selectedCategories,
+    groupDimension,
+    groupBy,
+    timeUnit,
+    fiscalStartMonth,
+    chartType,
+    topN,
+  } = current;
+
+  // shareable view state in the URL hash (hash works with the static GitHub Pages export)
+  const [pendingViewState, setPendingViewState] = useState<ViewState | null>(
+    null,
+  );
+  const [missingViewItems, setMissingViewItems] =
+    useState<MissingViewItems | null>(null);
+  const dismissMissingViewItems = useCallback(
+    () => setMissingViewItems(null),
+    [],
+  );
+
+  useEffect(() => {
+    const readHash = () => {
+      const state = decodeViewState(window.location.hash);
+      if (state) setPendingViewState(state);
+    };
+    readHash();
+    window.addEventListener("hashchange", readHash);
+    return () => window.removeEventListener("hashchange", readHash);
+  }, []);
+
+  // apply the shared view state once data is present
+  useEffect(() => {
+    if (!pendingViewState || !isReady || availableMonths.length === 0) return;
+    const { missing, ...resolved } = resolveViewState(pendingViewState, {
+      accounts: availableAccounts,
+      months: availableMonths,
+      services: availableServices,
+      groups: pendingViewState.groupDimension
+        ? (groupsByDimension[pendingViewState.groupDimension] ?? [])
+        : availableGroups,
+      categories: availableCategories,
+    });
+    apply({ ...pendingViewState, ...resolved });
+    setMissingViewItems(hasMissingViewItems(missing) ? missing : null);
+    setPendingViewState(null);
+  }, [
+    pendingViewState,
+    isReady,
+    availableAccounts,
+    availableMonths,
+    availableServices,
+    availableGroups,
+    availableCategories,
+    groupsByDimension,
+    apply,
+  ]);
+
+  // keep the URL hash in sync with the current filters and modes
+  useEffect(() => {
+    if (pendingViewState || availableMonths.length === 0) return;
+    const encoded = encodeViewState(
+      toSharedViewState(
+        {
+          accounts: selectedAccounts,
+          months: selectedMonths,
+          services: selectedServices,
+          groups: selectedGroups,
+          categories: selectedCategories,
+          groupDimension,
+          groupBy,
+          timeUnit,
+          fiscalStartMonth,
+          chartType,
+          topN,
+        },
+        {
+          accounts: availableAccounts,
+          months: availableMonths,
+          services: availableServices,
+          groups: availableGroups,
+          categories: availableCategories,
+        },
+      ),
+    );
+    const nextUrl = `${window.location.pathname}${window.location.search}${encoded ? `#${encoded}` : ""}`;
+    window.history.replaceState(window.history.state, "", nextUrl);
+  }, [
+    pendingViewState,
+    selectedAccounts,
+    selectedMonths,
+    selectedServices,
+    selectedGroups,
+    selectedCategories,
+    groupDimension,
+    groupBy,
+    timeUnit,
+    fiscalStartMonth,
+    chartType,
+    topN,
+    availableAccounts,
+    availableMonths,
+    availableServices,
+    availableGroups,
+    availableCategories,
+  ]);
+
+  const copyShareLink = useCallback(async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+    } catch {
+      onError("リンクをクリップボードにコピーできませんでした。");
+    }
+  }, [onError]);
+
+  // named view presets, stored in localStorage and applied through the shared view-state path
+  const [presets, setPresets] = useLocalSetting(
+    PRESETS_STORAGE_KEY,
+    isViewPresetList,
+    [],
+  );
+
+  const savePreset = useCallback(
+    (name: string) => {
+      const preset = createPreset(name, {
+        accounts: selectedAccounts,
+        months: selectedMonths,
+        services: selectedServices,
+        groups: selectedGroups,
+        categories: selectedCategories,
+        groupDimension: groupDimension ?? undefined,
+        groupBy,
+        timeUnit,
+        fiscalStartMonth,
+        chartType,
+        topN,
+      });
+      // 同名のプリセットは上書きする
+      setPresets((prev) => mergePresets(prev, [preset]));
+    },
+    [
+      selectedAccounts,
+      selectedMonths,
+      selectedServices,
+      selectedGroups,
+      selectedCategories,
+      groupDimension,
+      groupBy,
+      timeUnit,
+      fiscalStartMonth,
+      chartType,
+      topN,
+      setPresets,
+    ],
+  );
+  const applyPreset = useCallback((preset: ViewPreset) => {
+    setPendingViewState(preset.state);
+  }, []);
+  const renamePreset = useCallback(
+    (id: string, name: string) => {
+      setPresets((prev) =>
+        prev.map((p) => (p.id === id ? { ...p, name: name.trim() } : p)),
+      );
+    },
+    [setPresets],
+  );
+  const deletePreset = useCallback(
+    (id: string) => {
+      setPresets((prev) => prev.filter((p) => p.id !== id));
+    },
+    [setPresets],
+  );
+  const importPresets = useCallback(
+    async (file: File) => {
+      try {
+        const imported = parsePresetsJson(await file.text());
+        setPresets((prev) => mergePresets(prev, imported));
+      } catch (error) {
+        onError(
+          `「${file.name}」のプリセットを読み込めませんでした: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    },
+    [setPresets, onError],
+  );
+  const exportPresets = useCallback(() => {
+    downloadText(
+      serializePresets(presets),
+      "pricing-chart-presets.json",
+      "application/json",
+    );
+  }, [presets]);
+
+  return {
+    missingViewItems,
+    dismissMissingViewItems,
+    copyShareLink,
+    presets,
+    savePreset,
+    applyPreset,
+    renamePreset,
+    deletePreset,
+    importPresets,
+    exportPresets,
+  };
+};
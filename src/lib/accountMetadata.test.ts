@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import {
+  getAccountGroup,
+  getAccountLabel,
+  listGroupDimensions,
+  listGroups,
+  mergeAccountMetadata,
+  parseAccountMetadataCsv,
+  parseAccountMetadataJson,
+  UNGROUPED,
+} from "./accountMetadata";
+
+const metadata = {
+  "123456789012": {
+    alias: "payments-prod",
+    groups: { environment: "prod", team: "payments" },
+  },
+  "999999999999": { groups: { environment: "sandbox" } },
+};
+
+describe("getAccountLabel", () => {
+  it("表示名があれば ID を併記する", () => {
+    expect(getAccountLabel(metadata, "123456789012")).toBe(
+      "payments-prod (123456789012)",
+    );
+  });
+
+  it("表示名がなければ ID を返す", () => {
+    expect(getAccountLabel(metadata, "999999999999")).toBe("999999999999");
+    expect(getAccountLabel(metadata, "111111111111")).toBe("111111111111");
+  });
+});
+
+describe("getAccountGroup / listGroups", () => {
+  it("分類に属さないアカウントは未分類になる", () => {
+    expect(getAccountGroup(metadata, "123456789012", "team")).toBe("payments");
+    expect(getAccountGroup(metadata, "999999999999", "team")).toBe(UNGROUPED);
+  });
+
+  it("グループを名前順に並べ、未分類を末尾に置く", () => {
+    expect(
+      listGroups(
+        metadata,
+        ["999999999999", "123456789012", "1"],
+        "environment",
+      ),
+    ).toEqual(["prod", "sandbox", UNGROUPED]);
+  });
+
+  it("登録済みの分類を列挙する", () => {
+    expect(listGroupDimensions(metadata)).toEqual(["environment", "team"]);
+  });
+});
+
+describe("parseAccountMetadataCsv", () => {
+  it("account_id・alias 以外の列を分類として読み込む", () => {
+    const csv = [
+      "account_id,alias,environment,team",
+      "123456789012,payments-prod,prod,payments",
+      "999999999999,,sandbox,",
+    ].join("\n");
+    expect(parseAccountMetadataCsv(csv)).toEqual({
+      "123456789012": {
+        alias: "payments-prod",
+        groups: { environment: "prod", team: "payments" },
+      },
+      "999999999999": { groups: { environment: "sandbox" } },
+    });
+  });
+
+  it("account_id 列がなければエラーにする", () => {
+    expect(() => parseAccountMetadataCsv("id,alias\n1,a")).toThrow(
+      "必須カラム（account_id）が見つかりません。",
+    );
+  });
+});
+
+describe("parseAccountMetadataJson", () => {
+  it("アカウント ID をキーにしたオブジェクトを読み込む", () => {
+    expect(parseAccountMetadataJson(JSON.stringify(metadata))).toEqual(
+      metadata,
+    );
+  });
+
+  it("配列形式を読み込む", () => {
+    const json = JSON.stringify([
+      {
+        accountId: "123456789012",
+        alias: " payments-prod ",
+        groups: { team: "payments" },
+      },
+    ]);
+    expect(parseAccountMetadataJson(json)).toEqual({
+      "123456789012": { alias: "payments-prod", groups: { team: "payments" } },
+    });
+  });
+
+  it("形式が不正な場合はエラーにする", () => {
+    expect(() => parseAccountMetadataJson("{")).toThrow(
+      "JSON として読み込めませんでした。",
+    );
+    expect(() =>
+      parseAccountMetadataJson(JSON.stringify([{ alias: "x" }])),
+    ).toThrow("1 件目のアカウント情報の形式が不正です。");
+  });
+});
+
+describe("mergeAccountMetadata", () => {
+  it("アカウント単位で表示名と分類を上書きする", () => {
+    const merged = mergeAccountMetadata(metadata, {
+      "123456789012": { groups: { team: "billing" } },
+      "111111111111": { alias: "new", groups: {} },
+    });
+    expect(merged["123456789012"]).toEqual({
+      alias: "payments-prod",
+      groups: { environment: "prod", team: "billing" },
+    });
+    expect(merged["111111111111"]).toEqual({ alias: "new", groups: {} });
+  });
+});
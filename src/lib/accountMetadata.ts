@@ -0,0 +1,183 @@
+import * as Papa from "papaparse";
+
+export type AccountMetadata = {
+  alias?: string;
+  // 分類（environment, team, cost center など）ごとのグループ名
+  groups: Record<string, string>;
+};
+
+// accountId（ファイル名でしか識別できないレポートはファイル名）-> メタデータ
+export type AccountMetadataMap = Record<string, AccountMetadata>;
+
+export const ACCOUNT_METADATA_STORAGE_KEY = "account-metadata";
+
+export const UNGROUPED = "(未分類)";
+
+const ACCOUNT_ID_COLUMNS = ["account_id", "accountId", "account"];
+const ALIAS_COLUMNS = ["alias", "name", "display_name"];
+
+const isStringRecord = (value: unknown): value is Record<string, string> =>
+  typeof value === "object" &&
+  value !== null &&
+  !Array.isArray(value) &&
+  Object.values(value).every((item) => typeof item === "string");
+
+const isAccountMetadata = (value: unknown): value is AccountMetadata => {
+  if (typeof value !== "object" || value === null) return false;
+  const candidate = value as Record<string, unknown>;
+  if (candidate.alias !== undefined && typeof candidate.alias !== "string")
+    return false;
+  return isStringRecord(candidate.groups);
+};
+
+export const isAccountMetadataMap = (
+  value: unknown,
+): value is AccountMetadataMap =>
+  typeof value === "object" &&
+  value !== null &&
+  !Array.isArray(value) &&
+  Object.values(value).every(isAccountMetadata);
+
+// 表示名がある場合も ID を併記し、同じ表示名のアカウントを区別できるようにする
+export const getAccountLabel = (
+  metadata: AccountMetadataMap,
+  accountId: string,
+): string => {
+  const alias = metadata[accountId]?.alias?.trim();
+  return alias ? `${alias} (${accountId})` : accountId;
+};
+
+export const getAccountGroup = (
+  metadata: AccountMetadataMap,
+  accountId: string,
+  dimension: string,
+): string => metadata[accountId]?.groups[dimension]?.trim() || UNGROUPED;
+
+export const listGroupDimensions = (metadata: AccountMetadataMap): string[] => {
+  const dimensions = new Set<string>();
+  for (const entry of Object.values(metadata)) {
+    for (const dimension of Object.keys(entry.groups))
+      dimensions.add(dimension);
+  }
+  return Array.from(dimensions).sort();
+};
+
+export const listGroups = (
+  metadata: AccountMetadataMap,
+  accounts: string[],
+  dimension: string,
+): string[] => {
+  const groups = new Set(
+    accounts.map((account) => getAccountGroup(metadata, account, dimension)),
+  );
+  // 未分類は常に末尾に置く
+  return Array.from(groups).sort((a, b) => {
+    if (a === UNGROUPED) return 1;
+    if (b === UNGROUPED) return -1;
+    return a.localeCompare(b);
+  });
+};
+
+const normalizeEntry = (entry: AccountMetadata): AccountMetadata => {
+  const groups: Record<string, string> = {};
+  for (const [dimension, group] of Object.entries(entry.groups)) {
+    const key = dimension.trim();
+    const value = group.trim();
+    if (key && value) groups[key] = value;
+  }
+  const alias = entry.alias?.trim();
+  return alias ? { alias, groups } : { groups };
+};
+
+/**
+ * account_id 列（必須）・alias/name 列（任意）を持つ CSV を読み込む。それ以外の列は分類として扱う。
+ */
+export const parseAccountMetadataCsv = (text: string): AccountMetadataMap => {
+  const { data, meta } = Papa.parse<Record<string, string>>(text, {
+    header: true,
+    skipEmptyLines: "greedy",
+    transformHeader: (header) => header.trim(),
+  });
+  const fields = meta.fields ?? [];
+  const idColumn = ACCOUNT_ID_COLUMNS.find((col) => fields.includes(col));
+  if (!idColumn) {
+    throw new Error("必須カラム（account_id）が見つかりません。");
+  }
+  const aliasColumn = ALIAS_COLUMNS.find((col) => fields.includes(col));
+  const groupColumns = fields.filter(
+    (col) => col !== idColumn && col !== aliasColumn && col !== "",
+  );
+
+  const metadata: AccountMetadataMap = {};
+  for (const row of data) {
+    const accountId = row[idColumn]?.trim();
+    if (!accountId) continue;
+    const groups: Record<string, string> = {};
+    for (const column of groupColumns) {
+      groups[column] = row[column] ?? "";
+    }
+    metadata[accountId] = normalizeEntry({
+      alias: aliasColumn ? row[aliasColumn] : undefined,
+      groups,
+    });
+  }
+  return metadata;
+};
+
+/**
+ * { [accountId]: { alias, groups } } 形式、または
+ * [{ accountId, alias, groups }] 形式の JSON を読み込む。
+ */
+export const parseAccountMetadataJson = (text: string): AccountMetadataMap => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("JSON として読み込めませんでした。");
+  }
+
+  if (Array.isArray(parsed)) {
+    const metadata: AccountMetadataMap = {};
+    parsed.forEach((item, index) => {
+      const candidate = item as Record<string, unknown> | null;
+      const accountId =
+        typeof candidate?.accountId === "string"
+          ? candidate.accountId.trim()
+          : "";
+      const entry = {
+        alias: candidate?.alias,
+        groups: candidate?.groups ?? {},
+      };
+      if (!accountId || !isAccountMetadata(entry)) {
+        throw new Error(`${index + 1} 件目のアカウント情報の形式が不正です。`);
+      }
+      metadata[accountId] = normalizeEntry(entry);
+    });
+    return metadata;
+  }
+
+  if (!isAccountMetadataMap(parsed)) {
+    throw new Error("アカウント情報の形式が不正です。");
+  }
+  return Object.fromEntries(
+    Object.entries(parsed).map(([id, entry]) => [
+      id.trim(),
+      normalizeEntry(entry),
+    ]),
+  );
+};
+
+// 取り込んだ内容はアカウント単位で既存の表示名・分類に上書きする
+export const mergeAccountMetadata = (
+  existing: AccountMetadataMap,
+  imported: AccountMetadataMap,
+): AccountMetadataMap => {
+  const merged: AccountMetadataMap = { ...existing };
+  for (const [accountId, entry] of Object.entries(imported)) {
+    const current = merged[accountId];
+    const alias = entry.alias ?? current?.alias;
+    const groups = { ...current?.groups, ...entry.groups };
+    merged[accountId] = alias ? { alias, groups } : { groups };
+  }
+  return merged;
+};
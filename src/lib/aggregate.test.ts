@@ -0,0 +1,366 @@
+import { describe, expect, it } from "vitest";
+import {
+  type AggregateOptions,
+  aggregate,
+  breakdownByAccountAndService,
+  breakdownByDescription,
+  breakdownByService,
+  relabelRows,
+  toPeriod,
+} from "./aggregate";
+import type { MonthlyReport } from "./reports";
+
+// tests/fixtures の 3 ファイル（2 アカウント × 2 ヶ月）と同じ内容
+const reportsByMonth: Record<string, MonthlyReport[]> = {
+  "2024-03": [
+    {
+      month: "2024-03",
+      services: {
+        "Amazon EC2": 1234.56,
+        "Amazon S3": 456.78,
+        "Amazon RDS": 789.01,
+        "AWS Lambda": 123.45,
+      },
+      total: 2603.8,
+      fileName: "monthly-report-2024-03-123456789012.csv",
+      accountId: "123456789012",
+    },
+    {
+      month: "2024-03",
+      services: {
+        "Amazon EC2": 2100,
+        "Amazon S3": 310,
+        "Amazon RDS": 640,
+        "AWS Lambda": 95,
+      },
+      descriptions: {
+        "Amazon EC2": { BoxUsage: 1800, EBS: 300 },
+        "Amazon S3": { Storage: 310 },
+        "Amazon RDS": { Database: 640 },
+        "AWS Lambda": { Serverless: 95 },
+      },
+      total: 3145,
+      fileName: "monthly-report-2024-03-999999999999.csv",
+      accountId: "999999999999",
+    },
+  ],
+  "2024-04": [
+    {
+      month: "2024-04",
+      services: {
+        "Amazon EC2": 1350,
+        "Amazon S3": 480,
+        "Amazon RDS": 810,
+        "AWS Lambda": 130,
+      },
+      descriptions: {
+        "Amazon EC2": { BoxUsage: 1000, EBS: 350 },
+        "Amazon S3": { Storage: 480 },
+        "Amazon RDS": { Database: 810 },
+        "AWS Lambda": { Serverless: 130 },
+      },
+      total: 2770,
+      fileName: "monthly-report-2024-04-123456789012.csv",
+      accountId: "123456789012",
+    },
+  ],
+};
+
+const allOptions: AggregateOptions = {
+  accounts: ["123456789012", "999999999999"],
+  months: ["2024-03", "2024-04"],
+  services: ["Amazon EC2", "Amazon S3", "Amazon RDS", "AWS Lambda"],
+  groupBy: "service",
+  timeUnit: "month",
+};
+
+const sumRows = (result: ReturnType<typeof aggregate>) =>
+  result.rows.reduce(
+    (sum, row) =>
+      sum +
+      result.series.reduce((acc, name) => acc + (row.services[name] ?? 0), 0),
+    0,
+  );
+
+describe("toPeriod", () => {
+  it("月次はそのままの年月を返す", () => {
+    expect(toPeriod("2024-03", "month")).toBe("2024-03");
+  });
+
+  it("年次は年を返す", () => {
+    expect(toPeriod("2024-03", "year")).toBe("2024");
+  });
+
+  it("年度は開始月の属する年で呼ぶ", () => {
+    expect(toPeriod("2024-03", "fiscalYear", 4)).toBe("FY2023");
+    expect(toPeriod("2024-04", "fiscalYear", 4)).toBe("FY2024");
+    expect(toPeriod("2024-12", "fiscalYear", 1)).toBe("FY2024");
+  });
+
+  it("四半期は年度の開始月から数える", () => {
+    expect(toPeriod("2024-04", "quarter", 4)).toBe("FY2024-Q1");
+    expect(toPeriod("2024-12", "quarter", 4)).toBe("FY2024-Q3");
+    expect(toPeriod("2025-03", "quarter", 4)).toBe("FY2024-Q4");
+    expect(toPeriod("2024-03", "quarter", 1)).toBe("FY2024-Q1");
+  });
+});
+
+describe("aggregate", () => {
+  it("サービス別・月次で月ごとのサービス合計を返す", () => {
+    const result = aggregate(reportsByMonth, allOptions);
+    expect(result.rows.map((row) => row.month)).toEqual(["2024-03", "2024-04"]);
+    expect(result.rows[0].services["Amazon EC2"]).toBeCloseTo(3334.56);
+    expect(result.rows[1].services["Amazon EC2"]).toBeCloseTo(1350);
+    expect(result.total).toBeCloseTo(8518.8);
+  });
+
+  it("アカウント別・月次でアカウントごとの合計を返す", () => {
+    const result = aggregate(reportsByMonth, {
+      ...allOptions,
+      groupBy: "account",
+    });
+    expect(result.series).toEqual(["123456789012", "999999999999"]);
+    expect(result.rows[0].services["123456789012"]).toBeCloseTo(2603.8);
+    expect(result.rows[0].services["999999999999"]).toBeCloseTo(3145);
+    expect(result.total).toBeCloseTo(8518.8);
+  });
+
+  it("年次では選択した月を年ごとにまとめる", () => {
+    const result = aggregate(reportsByMonth, {
+      ...allOptions,
+      timeUnit: "year",
+    });
+    expect(result.rows.map((row) => row.month)).toEqual(["2024"]);
+    expect(result.rows[0].services["Amazon S3"]).toBeCloseTo(1246.78);
+    expect(result.total).toBeCloseTo(8518.8);
+  });
+
+  it("年度では年度の開始月で期間を分ける", () => {
+    const result = aggregate(reportsByMonth, {
+      ...allOptions,
+      timeUnit: "fiscalYear",
+      fiscalStartMonth: 4,
+    });
+    expect(result.rows.map((row) => row.month)).toEqual(["FY2023", "FY2024"]);
+    expect(result.total).toBeCloseTo(8518.8);
+  });
+
+  it("アカウント別でもアカウントの選択を反映する", () => {
+    const result = aggregate(reportsByMonth, {
+      ...allOptions,
+      accounts: ["999999999999"],
+      groupBy: "account",
+    });
+    expect(result.rows[0].services).toEqual({ "999999999999": 3145 });
+    expect(result.rows[1].services).toEqual({});
+    expect(result.total).toBeCloseTo(3145);
+  });
+
+  it("アカウント別ではサービスの選択を金額に反映する", () => {
+    const result = aggregate(reportsByMonth, {
+      ...allOptions,
+      services: ["AWS Lambda"],
+      groupBy: "account",
+    });
+    expect(result.rows[0].services["123456789012"]).toBeCloseTo(123.45);
+    expect(result.total).toBeCloseTo(348.45);
+  });
+
+  it("選択されていない月は含めない", () => {
+    const result = aggregate(reportsByMonth, {
+      ...allOptions,
+      months: ["2024-04"],
+    });
+    expect(result.rows.map((row) => row.month)).toEqual(["2024-04"]);
+    expect(result.total).toBeCloseTo(2770);
+  });
+
+  it("データのない月は無視する", () => {
+    const result = aggregate(reportsByMonth, {
+      ...allOptions,
+      months: ["2024-01", "2024-04"],
+    });
+    expect(result.rows.map((row) => row.month)).toEqual(["2024-04"]);
+  });
+
+  it("いずれかの選択が空なら合計は 0 になる", () => {
+    expect(
+      aggregate(reportsByMonth, { ...allOptions, accounts: [] }).total,
+    ).toBe(0);
+    expect(
+      aggregate(reportsByMonth, { ...allOptions, services: [] }).total,
+    ).toBe(0);
+    expect(
+      aggregate(reportsByMonth, { ...allOptions, months: [] }).rows,
+    ).toEqual([]);
+  });
+
+  it("グループ別ではアカウントをグループ単位でまとめる", () => {
+    const result = aggregate(reportsByMonth, {
+      ...allOptions,
+      groupBy: "group",
+      groups: ["prod", "sandbox"],
+      accountGroups: { "123456789012": "prod", "999999999999": "sandbox" },
+    });
+    expect(result.series).toEqual(["prod", "sandbox"]);
+    expect(result.rows[0].services.prod).toBeCloseTo(2603.8);
+    expect(result.rows[0].services.sandbox).toBeCloseTo(3145);
+    expect(result.total).toBeCloseTo(8518.8);
+  });
+
+  it("選択されていないグループは合計に含めない", () => {
+    const result = aggregate(reportsByMonth, {
+      ...allOptions,
+      groupBy: "group",
+      groups: ["prod"],
+      accountGroups: { "123456789012": "prod", "999999999999": "sandbox" },
+    });
+    expect(result.total).toBeCloseTo(5373.8);
+  });
+
+  it("カテゴリ別ではサービスをカテゴリ単位でまとめる", () => {
+    const result = aggregate(reportsByMonth, {
+      ...allOptions,
+      groupBy: "category",
+      categories: ["Compute", "Database", "Storage"],
+      serviceCategories: {
+        "Amazon EC2": "Compute",
+        "AWS Lambda": "Compute",
+        "Amazon RDS": "Database",
+        "Amazon S3": "Storage",
+      },
+    });
+    expect(result.series).toEqual(["Compute", "Database", "Storage"]);
+    expect(result.rows[0].services.Compute).toBeCloseTo(3553.01);
+    expect(result.rows[1].services.Database).toBeCloseTo(810);
+    expect(result.total).toBeCloseTo(8518.8);
+  });
+
+  it("合計はチャートの各行の合計と常に一致する", () => {
+    const variants: AggregateOptions[] = [
+      allOptions,
+      { ...allOptions, groupBy: "account" },
+      { ...allOptions, timeUnit: "year", services: ["Amazon EC2"] },
+      {
+        ...allOptions,
+        groupBy: "account",
+        timeUnit: "year",
+        accounts: ["123456789012"],
+      },
+    ];
+    for (const options of variants) {
+      const result = aggregate(reportsByMonth, options);
+      expect(result.total).toBeCloseTo(sumRows(result));
+    }
+  });
+});
+
+describe("relabelRows", () => {
+  it("系列名を表示用ラベルに置き換える", () => {
+    const relabeled = relabelRows(
+      [{ month: "2024-03", services: { "123456789012": 10, other: 5 } }],
+      ["123456789012", "other"],
+      { "123456789012": "payments-prod (123456789012)" },
+    );
+    expect(relabeled.series).toEqual(["payments-prod (123456789012)", "other"]);
+    expect(relabeled.rows[0].services).toEqual({
+      "payments-prod (123456789012)": 10,
+      other: 5,
+    });
+  });
+});
+
+describe("breakdownByService", () => {
+  it("指定した期間のサービスを金額の降順で返す", () => {
+    const breakdown = breakdownByService(reportsByMonth, {
+      accounts: ["123456789012", "999999999999"],
+      months: ["2024-03", "2024-04"],
+      timeUnit: "month",
+      services: ["Amazon EC2", "AWS Lambda"],
+      period: "2024-03",
+    });
+    expect(breakdown.rows).toEqual([
+      { service: "Amazon EC2", cost: 3334.56 },
+      { service: "AWS Lambda", cost: 218.45 },
+    ]);
+    expect(breakdown.total).toBeCloseTo(3553.01);
+  });
+});
+
+describe("breakdownByAccountAndService", () => {
+  it("選択中の年月全体をアカウント × サービスで集計し、金額の降順で返す", () => {
+    const breakdown = breakdownByAccountAndService(reportsByMonth, {
+      ...allOptions,
+      services: ["Amazon EC2", "AWS Lambda"],
+    });
+    expect(breakdown.map((row) => row.account)).toEqual([
+      "123456789012",
+      "999999999999",
+    ]);
+    expect(breakdown[0].services).toEqual([
+      { service: "Amazon EC2", cost: 2584.56, series: "Amazon EC2" },
+      { service: "AWS Lambda", cost: 253.45, series: "AWS Lambda" },
+    ]);
+    expect(breakdown[0].total).toBeCloseTo(2838.01);
+    expect(breakdown[1].total).toBe(2195);
+  });
+
+  it("集計モードの系列の選択で絞り込み、各サービスに属する系列を付ける", () => {
+    const breakdown = breakdownByAccountAndService(reportsByMonth, {
+      ...allOptions,
+      months: ["2024-03"],
+      groupBy: "group",
+      groups: ["本番"],
+      accountGroups: { "999999999999": "本番", "123456789012": "開発" },
+    });
+    expect(breakdown).toHaveLength(1);
+    expect(breakdown[0].account).toBe("999999999999");
+    expect(breakdown[0].services.every((row) => row.series === "本番")).toBe(
+      true,
+    );
+    expect(breakdown[0].total).toBe(3145);
+  });
+});
+
+describe("breakdownByDescription", () => {
+  const base = {
+    accounts: ["999999999999"],
+    months: ["2024-03", "2024-04"],
+    timeUnit: "month" as const,
+    service: "Amazon EC2",
+  };
+
+  it("指定した月のサービスを明細別に金額の降順で返す", () => {
+    const breakdown = breakdownByDescription(reportsByMonth, {
+      ...base,
+      period: "2024-03",
+    });
+    expect(breakdown.rows).toEqual([
+      { description: "BoxUsage", cost: 1800 },
+      { description: "EBS", cost: 300 },
+    ]);
+    expect(breakdown.total).toBe(2100);
+    expect(breakdown.hasMissingDescriptions).toBe(false);
+  });
+
+  it("年次では同じ年の月を合算する", () => {
+    const breakdown = breakdownByDescription(reportsByMonth, {
+      ...base,
+      accounts: ["123456789012", "999999999999"],
+      timeUnit: "year",
+      period: "2024",
+    });
+    expect(breakdown.rows[0]).toEqual({ description: "BoxUsage", cost: 2800 });
+    expect(breakdown.rows[1]).toEqual({ description: "EBS", cost: 650 });
+  });
+
+  it("明細を持たないレポートがあればフラグを立てる", () => {
+    const breakdown = breakdownByDescription(reportsByMonth, {
+      ...base,
+      accounts: ["123456789012"],
+      period: "2024-03",
+    });
+    expect(breakdown.rows).toEqual([]);
+    expect(breakdown.hasMissingDescriptions).toBe(true);
+  });
+});
@@ -0,0 +1,360 @@
+import { getReportKey, type MonthlyReport } from "@/lib/reports";
+
+// group: アカウントを分類（team など）のグループ単位でまとめる
+// category: サービスをカテゴリ（Compute, Storage など）単位でまとめる
+export type GroupBy = "service" | "account" | "group" | "category";
+
+// quarter / fiscalYear は年度の開始月（fiscalStartMonth）から数える
+export type TimeUnit = "month" | "quarter" | "year" | "fiscalYear";
+
+export const TIME_UNITS: readonly TimeUnit[] = [
+  "month",
+  "quarter",
+  "year",
+  "fiscalYear",
+];
+
+// 年度の開始月（1〜12）。日本で多い 4 月始まりを既定にする
+export const DEFAULT_FISCAL_START_MONTH = 4;
+
+// month には期間ラベル（月次なら YYYY-MM、四半期なら FYYYYY-Qn、年次なら YYYY、年度なら FYYYYY）が入る
+export type ChartRow = {
+  month: string;
+  services: Record<string, number>;
+};
+
+export type AggregateOptions = {
+  accounts: string[];
+  months: string[];
+  services: string[];
+  groupBy: GroupBy;
+  timeUnit: TimeUnit;
+  // 四半期・年度の開始月（1〜12）
+  fiscalStartMonth?: number;
+  // groupBy が "group" のときの系列（選択中のグループ）と、アカウント -> グループの対応
+  groups?: string[];
+  accountGroups?: Record<string, string>;
+  // groupBy が "category" のときの系列（選択中のカテゴリ）と、サービス -> カテゴリの対応
+  categories?: string[];
+  serviceCategories?: Record<string, string>;
+};
+
+export type AggregateResult = {
+  rows: ChartRow[];
+  series: string[];
+  total: number;
+};
+
+/**
+ * 年月（YYYY-MM）を期間ラベルにする。年度は開始月の属する年で呼ぶ（4 月始まりなら 2024-04〜2025-03 が FY2024）。
+ * 四半期も年度の開始月から数える（4 月始まりなら 4〜6 月が Q1）。
+ */
+export const toPeriod = (
+  month: string,
+  timeUnit: TimeUnit,
+  fiscalStartMonth: number = DEFAULT_FISCAL_START_MONTH,
+): string => {
+  if (timeUnit === "month") return month;
+  const [year, mon] = month.split("-").map(Number);
+  if (timeUnit === "year") return String(year);
+  const fiscalYear = mon >= fiscalStartMonth ? year : year - 1;
+  if (timeUnit === "fiscalYear") return `FY${fiscalYear}`;
+  const quarter = Math.floor(((mon - fiscalStartMonth + 12) % 12) / 3) + 1;
+  return `FY${fiscalYear}-Q${quarter}`;
+};
+
+// サービスとアカウントの組み合わせが集計モードでどの系列に入るか（グループ・カテゴリ未設定なら空文字）
+export const getSeriesKey = (
+  groupBy: GroupBy,
+  service: string,
+  accountKey: string,
+  {
+    accountGroups = {},
+    serviceCategories = {},
+  }: Pick<AggregateOptions, "accountGroups" | "serviceCategories">,
+): string => {
+  if (groupBy === "service") return service;
+  if (groupBy === "account") return accountKey;
+  if (groupBy === "category") return serviceCategories[service] ?? "";
+  return accountGroups[accountKey] ?? "";
+};
+
+/**
+ * 選択中のアカウント・年月・サービスでレポートを絞り込み、期間 × 系列で集計する。
+ * 合計金額も同じ rows から算出するため、チャートと合計は常に一致する。
+ */
+export const aggregate = (
+  reportsByMonth: Record<string, MonthlyReport[]>,
+  {
+    accounts,
+    months,
+    services,
+    groupBy,
+    timeUnit,
+    fiscalStartMonth,
+    groups = [],
+    accountGroups = {},
+    categories = [],
+    serviceCategories = {},
+  }: AggregateOptions,
+): AggregateResult => {
+  const series = {
+    service: services,
+    account: accounts,
+    group: groups,
+    category: categories,
+  }[groupBy];
+  const allowedAccounts = new Set(accounts);
+  const allowedServices = new Set(services);
+  const toSeriesKey = (service: string, accountKey: string) =>
+    getSeriesKey(groupBy, service, accountKey, {
+      accountGroups,
+      serviceCategories,
+    });
+
+  const periods = new Map<string, Record<string, number>>();
+  for (const month of [...months].sort((a, b) => a.localeCompare(b))) {
+    const reports = reportsByMonth[month];
+    if (!reports) continue;
+
+    const period = toPeriod(month, timeUnit, fiscalStartMonth);
+    const values = periods.get(period) ?? {};
+    periods.set(period, values);
+
+    for (const report of reports) {
+      const key = getReportKey(report);
+      if (!allowedAccounts.has(key)) continue;
+
+      for (const [service, cost] of Object.entries(report.services)) {
+        if (!allowedServices.has(service)) continue;
+        const seriesKey = toSeriesKey(service, key);
+        values[seriesKey] = (values[seriesKey] ?? 0) + cost;
+      }
+    }
+  }
+
+  const rows = Array.from(periods.entries()).map(([month, values]) => ({
+    month,
+    services: values,
+  }));
+
+  let total = 0;
+  for (const row of rows) {
+    for (const name of series) {
+      total += row.services[name] ?? 0;
+    }
+  }
+
+  return { rows, series, total };
+};
+
+/**
+ * 系列名を表示用ラベル（アカウントの表示名など）に置き換える。エクスポート等の表示専用の出力に使う。
+ */
+export const relabelRows = (
+  rows: ChartRow[],
+  series: string[],
+  labels: Record<string, string>,
+): { rows: ChartRow[]; series: string[] } => {
+  const labelOf = (name: string) => labels[name] ?? name;
+  return {
+    rows: rows.map((row) => ({
+      month: row.month,
+      services: Object.fromEntries(
+        Object.entries(row.services).map(([name, value]) => [
+          labelOf(name),
+          value,
+        ]),
+      ),
+    })),
+    series: series.map(labelOf),
+  };
+};
+
+export type DescriptionBreakdownRow = {
+  description: string;
+  cost: number;
+};
+
+export type DescriptionBreakdown = {
+  rows: DescriptionBreakdownRow[];
+  total: number;
+  // descriptions を持たない（明細導入前に保存された）レポートが含まれていたか
+  hasMissingDescriptions: boolean;
+};
+
+/**
+ * 1 つのサービスを、指定した期間の明細（description）別に集計する。
+ * アカウント・年月の選択は aggregate() と同じ条件で適用する。
+ */
+export const breakdownByDescription = (
+  reportsByMonth: Record<string, MonthlyReport[]>,
+  {
+    accounts,
+    months,
+    timeUnit,
+    fiscalStartMonth,
+    service,
+    period,
+  }: Pick<
+    AggregateOptions,
+    "accounts" | "months" | "timeUnit" | "fiscalStartMonth"
+  > & {
+    service: string;
+    period: string;
+  },
+): DescriptionBreakdown => {
+  const allowedAccounts = new Set(accounts);
+  const costs = new Map<string, number>();
+  let hasMissingDescriptions = false;
+
+  for (const month of months) {
+    if (toPeriod(month, timeUnit, fiscalStartMonth) !== period) continue;
+
+    for (const report of reportsByMonth[month] ?? []) {
+      if (!allowedAccounts.has(getReportKey(report))) continue;
+      if (!report.services[service]) continue;
+
+      const byDescription = report.descriptions?.[service];
+      if (!byDescription) {
+        hasMissingDescriptions = true;
+        continue;
+      }
+      for (const [description, cost] of Object.entries(byDescription)) {
+        costs.set(description, (costs.get(description) ?? 0) + cost);
+      }
+    }
+  }
+
+  const rows = Array.from(costs.entries())
+    .map(([description, cost]) => ({ description, cost }))
+    .sort((a, b) => b.cost - a.cost);
+  const total = rows.reduce((sum, row) => sum + row.cost, 0);
+
+  return { rows, total, hasMissingDescriptions };
+};
+
+export type ServiceBreakdownRow = {
+  service: string;
+  cost: number;
+};
+
+/**
+ * 指定した期間のコストをサービス別に集計する（カテゴリ内のサービスへのドリルダウン用）。
+ * アカウント・年月の選択は aggregate() と同じ条件で適用する。
+ */
+export const breakdownByService = (
+  reportsByMonth: Record<string, MonthlyReport[]>,
+  {
+    accounts,
+    months,
+    timeUnit,
+    fiscalStartMonth,
+    services,
+    period,
+  }: Pick<
+    AggregateOptions,
+    "accounts" | "months" | "timeUnit" | "fiscalStartMonth" | "services"
+  > & {
+    period: string;
+  },
+): { rows: ServiceBreakdownRow[]; total: number } => {
+  const allowedAccounts = new Set(accounts);
+  const allowedServices = new Set(services);
+  const costs = new Map<string, number>();
+
+  for (const month of months) {
+    if (toPeriod(month, timeUnit, fiscalStartMonth) !== period) continue;
+
+    for (const report of reportsByMonth[month] ?? []) {
+      if (!allowedAccounts.has(getReportKey(report))) continue;
+      for (const [service, cost] of Object.entries(report.services)) {
+        if (!allowedServices.has(service)) continue;
+        costs.set(service, (costs.get(service) ?? 0) + cost);
+      }
+    }
+  }
+
+  const rows = Array.from(costs.entries())
+    .map(([service, cost]) => ({ service, cost }))
+    .sort((a, b) => b.cost - a.cost);
+  const total = rows.reduce((sum, row) => sum + row.cost, 0);
+
+  return { rows, total };
+};
+
+export type AccountServiceBreakdown = {
+  account: string;
+  total: number;
+  // 金額の降順。series はそのサービスが集計モードで入る系列（色分けに使う）
+  services: Array<ServiceBreakdownRow & { series: string }>;
+};
+
+/**
+ * 選択中の年月全体のコストをアカウント × サービスで集計する（ツリーマップ用）。
+ * アカウント・サービスに加え、集計モードの系列（グループ・カテゴリ）の選択も aggregate() と同じ条件で適用する。
+ */
+export const breakdownByAccountAndService = (
+  reportsByMonth: Record<string, MonthlyReport[]>,
+  {
+    accounts,
+    months,
+    services,
+    groupBy,
+    groups = [],
+    accountGroups = {},
+    categories = [],
+    serviceCategories = {},
+  }: Omit<AggregateOptions, "timeUnit" | "fiscalStartMonth">,
+): AccountServiceBreakdown[] => {
+  const allowedSeries = new Set(
+    {
+      service: services,
+      account: accounts,
+      group: groups,
+      category: categories,
+    }[groupBy],
+  );
+  const allowedAccounts = new Set(accounts);
+  const allowedServices = new Set(services);
+  const costs = new Map<string, Map<string, number>>();
+
+  for (const month of months) {
+    for (const report of reportsByMonth[month] ?? []) {
+      const account = getReportKey(report);
+      if (!allowedAccounts.has(account)) continue;
+      const byService = costs.get(account) ?? new Map<string, number>();
+      costs.set(account, byService);
+      for (const [service, cost] of Object.entries(report.services)) {
+        if (!allowedServices.has(service)) continue;
+        const series = getSeriesKey(groupBy, service, account, {
+          accountGroups,
+          serviceCategories,
+        });
+        if (!allowedSeries.has(series)) continue;
+        byService.set(service, (byService.get(service) ?? 0) + cost);
+      }
+    }
+  }
+
+  return Array.from(costs.entries())
+    .map(([account, byService]) => {
+      const rows = Array.from(byService.entries())
+        .map(([service, cost]) => ({
+          service,
+          cost,
+          series: getSeriesKey(groupBy, service, account, {
+            accountGroups,
+            serviceCategories,
+          }),
+        }))
+        .sort((a, b) => b.cost - a.cost);
+      return {
+        account,
+        total: rows.reduce((sum, row) => sum + row.cost, 0),
+        services: rows,
+      };
+    })
+    .filter((breakdown) => breakdown.services.length > 0)
+    .sort((a, b) => b.total - a.total);
+};
@@ -0,0 +1,180 @@
+import { readdirSync, readFileSync } from "node:fs";
+import path from "node:path";
+import * as Papa from "papaparse";
+import { describe, expect, it } from "vitest";
+import { aggregate, type ChartRow } from "./aggregate";
+import { DEFAULT_ANOMALY_RULE, detectAnomalies } from "./anomaly";
+import {
+  extractAccountFromFileName,
+  extractMonthFromFileName,
+  summarizeReportRows,
+} from "./csv";
+import { groupReportsByMonth, type MonthlyReport } from "./reports";
+
+const fixturesDir = path.resolve(__dirname, "../../tests/fixtures");
+
+// tests/fixtures の正規の月次レポートを page.tsx と同じ手順で取り込む
+const loadFixtureReports = (): MonthlyReport[] =>
+  readdirSync(fixturesDir).flatMap((fileName) => {
+    const month = extractMonthFromFileName(fileName);
+    if (!month) return [];
+    const { data, meta } = Papa.parse<Record<string, string>>(
+      readFileSync(path.join(fixturesDir, fileName), "utf8"),
+      { header: true, skipEmptyLines: "greedy" },
+    );
+    if (!meta.fields?.includes("product_name")) return [];
+    return [
+      {
+        month,
+        ...summarizeReportRows(data),
+        fileName,
+        accountId: extractAccountFromFileName(fileName) ?? undefined,
+      },
+    ];
+  });
+
+const reportsByMonth = groupReportsByMonth(loadFixtureReports());
+const services = ["Amazon EC2", "Amazon S3", "Amazon RDS", "AWS Lambda"];
+
+const monthlyRows = (accounts: string[]): ChartRow[] =>
+  aggregate(reportsByMonth, {
+    accounts,
+    months: Object.keys(reportsByMonth),
+    services,
+    groupBy: "service",
+    timeUnit: "month",
+  }).rows;
+
+describe("detectAnomalies", () => {
+  it("同じアカウントの緩やかな増加は検出しない", () => {
+    const rows = monthlyRows(["123456789012"]);
+    expect(rows.map((row) => row.month)).toEqual(["2024-03", "2024-04"]);
+    expect(detectAnomalies(rows, services, DEFAULT_ANOMALY_RULE)).toEqual([]);
+  });
+
+  it("急増した月とサービスを検出する", () => {
+    const rows: ChartRow[] = [
+      ...monthlyRows(["123456789012"]),
+      {
+        month: "2024-05",
+        services: {
+          "Amazon EC2": 4000,
+          "Amazon S3": 470,
+          "Amazon RDS": 800,
+          "AWS Lambda": 128,
+        },
+      },
+    ];
+    const anomalies = detectAnomalies(rows, services, DEFAULT_ANOMALY_RULE);
+    expect(anomalies).toHaveLength(1);
+    expect(anomalies[0].period).toBe("2024-05");
+    expect(anomalies[0].series).toBe("Amazon EC2");
+    // 直前 2 ヶ月（1234.56, 1350）の中央値との比較
+    expect(anomalies[0].expected).toBeCloseTo(1292.28);
+    expect(anomalies[0].ratio).toBeCloseTo((4000 - 1292.28) / 1292.28);
+  });
+
+  it("減少は includeDecreases を有効にしたときだけ検出する", () => {
+    // アカウント 999999999999 は 2024-04 のレポートがないため全サービスが減少する
+    const rows = monthlyRows(["123456789012", "999999999999"]);
+    expect(detectAnomalies(rows, services, DEFAULT_ANOMALY_RULE)).toEqual([]);
+
+    const anomalies = detectAnomalies(rows, services, {
+      ...DEFAULT_ANOMALY_RULE,
+      includeDecreases: true,
+    });
+    expect(anomalies.map((a) => a.series)).toEqual(["Amazon EC2"]);
+    expect(anomalies[0].deviation).toBeCloseTo(1350 - 3334.56);
+  });
+
+  it("閾値を下げると小さな変化も検出する", () => {
+    const rows = monthlyRows(["123456789012"]);
+    const anomalies = detectAnomalies(rows, services, {
+      ...DEFAULT_ANOMALY_RULE,
+      threshold: 0.05,
+    });
+    expect(anomalies.map((a) => a.series)).toEqual(["Amazon EC2", "Amazon S3"]);
+  });
+
+  it("乖離額が minAmount 未満なら検出しない", () => {
+    const rows = monthlyRows(["123456789012"]);
+    const anomalies = detectAnomalies(rows, services, {
+      ...DEFAULT_ANOMALY_RULE,
+      threshold: 0.05,
+      minAmount: 50,
+    });
+    expect(anomalies.map((a) => a.series)).toEqual(["Amazon EC2"]);
+  });
+
+  it("平均と中央値で基準値が変わる", () => {
+    const rows: ChartRow[] = [
+      { month: "2024-01", services: { "Amazon EC2": 100 } },
+      { month: "2024-02", services: { "Amazon EC2": 100 } },
+      { month: "2024-03", services: { "Amazon EC2": 400 } },
+      { month: "2024-04", services: { "Amazon EC2": 280 } },
+    ];
+    const byMedian = detectAnomalies(
+      rows,
+      ["Amazon EC2"],
+      DEFAULT_ANOMALY_RULE,
+    );
+    const byMean = detectAnomalies(rows, ["Amazon EC2"], {
+      ...DEFAULT_ANOMALY_RULE,
+      baseline: "mean",
+    });
+    expect(byMedian.map((a) => a.period)).toEqual(["2024-03", "2024-04"]);
+    expect(byMean.map((a) => a.period)).toEqual(["2024-03"]);
+  });
+
+  it("基準値が 0 の系列は乖離率を null にして検出する", () => {
+    const rows: ChartRow[] = [
+      { month: "2024-03", services: {} },
+      { month: "2024-04", services: { "AWS Lambda": 130 } },
+    ];
+    const [anomaly] = detectAnomalies(
+      rows,
+      ["AWS Lambda"],
+      DEFAULT_ANOMALY_RULE,
+    );
+    expect(anomaly.ratio).toBeNull();
+    expect(anomaly.deviation).toBe(130);
+  });
+});
+
+describe("detectAnomalies（選択した月・表示通貨）", () => {
+  const rule = { ...DEFAULT_ANOMALY_RULE, window: 2 };
+  const rowsOf = (values: Record<string, number>): ChartRow[] =>
+    Object.entries(values).map(([month, cost]) => ({
+      month,
+      services: { EC2: cost },
+    }));
+
+  it("間の空いた月どうしは比べない", () => {
+    const rows = rowsOf({ "2024-01": 100, "2024-02": 100, "2024-06": 400 });
+    expect(detectAnomalies(rows, ["EC2"], rule)).toEqual([]);
+  });
+
+  it("直前の月の比較は、間の空いた月の手前で打ち切る", () => {
+    const rows = rowsOf({
+      "2024-01": 1000,
+      "2024-03": 100,
+      "2024-04": 300,
+    });
+    expect(detectAnomalies(rows, ["EC2"], rule)).toMatchObject([
+      { period: "2024-04", expected: 100, deviation: 200 },
+    ]);
+  });
+
+  it("最小乖離額は月ごとのレートで表示通貨に換算する", () => {
+    // 1 USD = 150 JPY なら最小乖離額 10 USD は 1500 円
+    const rows = rowsOf({ "2024-01": 1000, "2024-02": 2000, "2024-03": 4000 });
+    const rates = { "2024-01": 150, "2024-02": 150, "2024-03": 150 };
+    expect(
+      detectAnomalies(rows, ["EC2"], rule, rates).map((a) => a.period),
+    ).toEqual(["2024-03"]);
+    expect(detectAnomalies(rows, ["EC2"], rule).map((a) => a.period)).toEqual([
+      "2024-03",
+      "2024-02",
+    ]);
+  });
+});
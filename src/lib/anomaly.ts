@@ -0,0 +1,113 @@
+import type { ChartRow } from "@/lib/aggregate";
+import { monthIndex } from "@/lib/periods";
+
+export type AnomalyBaseline = "mean" | "median";
+
+export type AnomalyRule = {
+  baseline: AnomalyBaseline;
+  // 比較に使う直前の期間数（直前に 1 期間もなければ判定しない。間の空いた月は直前とみなさない）
+  window: number;
+  // 基準値からの乖離率の閾値（0.5 なら ±50%）
+  threshold: number;
+  // 乖離額がこの金額（USD。表示通貨ではその月のレートで換算する）未満なら少額の揺れとして無視する
+  minAmount: number;
+  includeDecreases: boolean;
+};
+
+export type Anomaly = {
+  period: string;
+  series: string;
+  value: number;
+  expected: number;
+  deviation: number;
+  // 基準値が 0 の場合は乖離率を定義できないため null
+  ratio: number | null;
+};
+
+export const DEFAULT_ANOMALY_RULE: AnomalyRule = {
+  baseline: "median",
+  window: 3,
+  threshold: 0.5,
+  minAmount: 10,
+  includeDecreases: false,
+};
+
+const mean = (values: number[]) =>
+  values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[mid - 1] + sorted[mid]) / 2
+    : sorted[mid];
+};
+
+// rows[index] の直前に続く月（間の空いた月の手前では打ち切る）の数。最大 window
+const consecutiveHistoryLength = (
+  rows: ChartRow[],
+  index: number,
+  window: number,
+) => {
+  let length = 0;
+  while (
+    length < window &&
+    index - length - 1 >= 0 &&
+    monthIndex(rows[index - length].month) -
+      monthIndex(rows[index - length - 1].month) ===
+      1
+  ) {
+    length += 1;
+  }
+  return length;
+};
+
+/**
+ * 系列ごとの月次の時系列（rows は YYYY-MM の昇順）を直前 window ヶ月の平均または中央値と比べ、
+ * 閾値を超えて乖離した点を返す。結果は乖離額の絶対値の大きい順。
+ * 選択していない月を挟む場合は、間の空いた月どうしを比べない（直前の月がなければ判定しない）。
+ * rates（月 -> 1 USD あたりの表示通貨のレート）を渡すと、最小乖離額をその月のレートで換算する。
+ */
+export const detectAnomalies = (
+  rows: ChartRow[],
+  series: string[],
+  rule: AnomalyRule,
+  rates: Record<string, number> = {},
+): Anomaly[] => {
+  const window = Math.max(1, Math.floor(rule.window));
+  const anomalies: Anomaly[] = [];
+
+  for (const name of series) {
+    const values = rows.map((row) => row.services[name] ?? 0);
+
+    for (let index = 1; index < values.length; index += 1) {
+      const historyLength = consecutiveHistoryLength(rows, index, window);
+      if (historyLength === 0) continue;
+      const history = values.slice(index - historyLength, index);
+      const expected =
+        rule.baseline === "mean" ? mean(history) : median(history);
+      const value = values[index];
+      const deviation = value - expected;
+      const minAmount = rule.minAmount * (rates[rows[index].month] ?? 1);
+
+      if (deviation < 0 && !rule.includeDecreases) continue;
+      if (Math.abs(deviation) < minAmount) continue;
+
+      const ratio = expected === 0 ? null : deviation / Math.abs(expected);
+      if (ratio !== null && Math.abs(ratio) < rule.threshold) continue;
+
+      anomalies.push({
+        period: rows[index].month,
+        series: name,
+        value,
+        expected,
+        deviation,
+        ratio,
+      });
+    }
+  }
+
+  return anomalies.sort(
+    (a, b) => Math.abs(b.deviation) - Math.abs(a.deviation),
+  );
+};
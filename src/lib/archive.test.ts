@@ -0,0 +1,206 @@
+import { deflateRawSync, gzipSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import {
+  expandSourceFiles,
+  isImportableFileName,
+  readZipEntries,
+  toSourceFile,
+} from "./archive";
+
+type TestEntry = {
+  path: string;
+  content: string | Uint8Array;
+  method?: 0 | 8 | 12;
+  encrypted?: boolean;
+};
+
+// テスト用に最小限の ZIP（ローカルヘッダー・中央ディレクトリ・終端レコード）を組み立てる。CRC は検証しないので 0
+const buildZip = (entries: TestEntry[]): Uint8Array<ArrayBuffer> => {
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const method = entry.method ?? 8;
+    const name = encoder.encode(entry.path);
+    const raw =
+      typeof entry.content === "string"
+        ? encoder.encode(entry.content)
+        : entry.content;
+    const data = method === 8 ? new Uint8Array(deflateRawSync(raw)) : raw;
+    const flags = (entry.encrypted ? 0x1 : 0) | 0x800;
+
+    const local = new Uint8Array(30 + name.length + data.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(6, flags, true);
+    lv.setUint16(8, method, true);
+    lv.setUint32(18, data.length, true);
+    lv.setUint32(22, raw.length, true);
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+    local.set(data, 30 + name.length);
+
+    const central = new Uint8Array(46 + name.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(8, flags, true);
+    cv.setUint16(10, method, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, raw.length, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  }
+
+  const centralSize = centrals.reduce((sum, c) => sum + c.length, 0);
+  const eocd = new Uint8Array(22);
+  const ev = new DataView(eocd.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, entries.length, true);
+  ev.setUint16(10, entries.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  const parts = [...locals, ...centrals, eocd];
+  const zip = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    zip.set(part, position);
+    position += part.length;
+  }
+  return zip;
+};
+
+const CSV = "product_name,cost\nAmazon EC2,10\n";
+
+describe("isImportableFileName", () => {
+  it("CSV・ZIP・CSV の gzip を取り込み対象にする", () => {
+    expect(isImportableFileName("a.csv")).toBe(true);
+    expect(isImportableFileName("a.CSV")).toBe(true);
+    expect(isImportableFileName("a.zip")).toBe(true);
+    expect(isImportableFileName("a.csv.gz")).toBe(true);
+    expect(isImportableFileName("backup.tar.gz")).toBe(false);
+    expect(isImportableFileName("a.json.gz")).toBe(false);
+    expect(isImportableFileName(".DS_Store")).toBe(false);
+    expect(isImportableFileName("readme.txt")).toBe(false);
+  });
+});
+
+describe("readZipEntries", () => {
+  it("deflate と無圧縮のエントリを展開し、フォルダと macOS の付随ファイルは読み飛ばす", async () => {
+    const zip = buildZip([
+      { path: "2024/", content: "" },
+      { path: "2024/a.csv", content: CSV },
+      { path: "2024/b.csv", content: "x", method: 0 },
+      { path: "__MACOSX/2024/._a.csv", content: "meta" },
+    ]);
+    const { entries, failures } = await readZipEntries(zip.buffer);
+
+    expect(entries.map((entry) => entry.path)).toEqual([
+      "2024/a.csv",
+      "2024/b.csv",
+    ]);
+    expect(new TextDecoder().decode(entries[0].data)).toBe(CSV);
+    expect(new TextDecoder().decode(entries[1].data)).toBe("x");
+    expect(failures).toEqual([]);
+  });
+
+  it("展開できないエントリは failures に入れて残りを展開する", async () => {
+    const zip = buildZip([
+      { path: "secret.csv", content: CSV, encrypted: true },
+      { path: "bzip2.csv", content: CSV, method: 12 },
+      { path: "ok.csv", content: CSV },
+    ]);
+    const { entries, failures } = await readZipEntries(zip.buffer);
+
+    expect(entries.map((entry) => entry.path)).toEqual(["ok.csv"]);
+    expect(failures).toEqual([
+      { path: "secret.csv", message: "暗号化されたファイルは展開できません。" },
+      {
+        path: "bzip2.csv",
+        message: "圧縮方式（12）には対応していません。",
+      },
+    ]);
+  });
+
+  it("ZIP でなければエラーにする", async () => {
+    await expect(
+      readZipEntries(new TextEncoder().encode(CSV).buffer),
+    ).rejects.toThrow("ZIP ファイルとして読み込めませんでした。");
+  });
+});
+
+describe("expandSourceFiles", () => {
+  it("ZIP 内の CSV を「アーカイブ名/内部パス」付きで取り出す", async () => {
+    const zip = buildZip([
+      { path: "2024/monthly-report-2024-03-123456789012.csv", content: CSV },
+      { path: "2024/readme.txt", content: "skip" },
+    ]);
+    const { files, failures } = await expandSourceFiles([
+      toSourceFile(new File([zip], "reports.zip")),
+    ]);
+
+    expect(files.map(({ file, path }) => [file.name, path])).toEqual([
+      [
+        "monthly-report-2024-03-123456789012.csv",
+        "reports.zip/2024/monthly-report-2024-03-123456789012.csv",
+      ],
+    ]);
+    expect(await files[0].file.text()).toBe(CSV);
+    expect(failures).toEqual([]);
+  });
+
+  it(".csv.gz を展開し、拡張子 .gz を外したファイル名にする", async () => {
+    const gz = new Uint8Array(gzipSync(CSV));
+    const { files } = await expandSourceFiles([
+      toSourceFile(new File([gz], "monthly-report-2024-03-1.csv.gz")),
+    ]);
+
+    expect(files[0].file.name).toBe("monthly-report-2024-03-1.csv");
+    expect(files[0].path).toBe("monthly-report-2024-03-1.csv.gz");
+    expect(await files[0].file.text()).toBe(CSV);
+  });
+
+  it("ZIP 内の .csv.gz も展開する", async () => {
+    const gz = new Uint8Array(gzipSync(CSV));
+    const zip = buildZip([{ path: "a.csv.gz", content: gz, method: 0 }]);
+    const { files } = await expandSourceFiles([
+      toSourceFile(new File([zip], "reports.zip")),
+    ]);
+    expect(files.map(({ file, path }) => [file.name, path])).toEqual([
+      ["a.csv", "reports.zip/a.csv.gz"],
+    ]);
+  });
+
+  it("展開できないエントリとアーカイブはパス付きの failures にし、他のファイルはそのまま返す", async () => {
+    const zip = buildZip([
+      { path: "secret.csv", content: CSV, encrypted: true },
+    ]);
+    const csv = new File([CSV], "plain.csv");
+    const { files, failures } = await expandSourceFiles([
+      toSourceFile(new File([zip], "reports.zip")),
+      toSourceFile(new File(["not a zip"], "broken.zip")),
+      toSourceFile(csv),
+    ]);
+
+    expect(files).toEqual([{ file: csv, path: "plain.csv" }]);
+    expect(failures).toEqual([
+      {
+        path: "reports.zip/secret.csv",
+        message: "暗号化されたファイルは展開できません。",
+      },
+      { path: "reports.zip", message: "CSV ファイルが含まれていません。" },
+      {
+        path: "broken.zip",
+        message:
+          "アーカイブを展開できませんでした（ZIP ファイルとして読み込めませんでした。）。",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,198 @@
+// 取り込むファイルと、警告に表示するパス（アーカイブ内・フォルダ内のファイルは "reports.zip/2024/xxx.csv" など）
+export type SourceFile = {
+  file: File;
+  path: string;
+};
+
+export const toSourceFile = (file: File): SourceFile => ({
+  file,
+  path: file.name,
+});
+
+const lower = (name: string) => name.toLowerCase();
+
+export const isZipFileName = (name: string) => lower(name).endsWith(".zip");
+
+// gzip は CSV を圧縮したもの（CUR の .csv.gz）だけを対象にする
+export const isCsvGzipFileName = (name: string) =>
+  lower(name).endsWith(".csv.gz");
+
+export const isCsvFileName = (name: string) => lower(name).endsWith(".csv");
+
+// フォルダやアーカイブの中から取り込む対象にするファイル
+export const isImportableFileName = (name: string) =>
+  isCsvFileName(name) || isZipFileName(name) || isCsvGzipFileName(name);
+
+const baseName = (path: string) => path.split("/").pop() ?? path;
+
+const decompress = async (
+  data: Uint8Array<ArrayBuffer>,
+  format: "deflate-raw" | "gzip",
+): Promise<Uint8Array<ArrayBuffer>> =>
+  new Uint8Array(
+    await new Response(
+      new Blob([data]).stream().pipeThrough(new DecompressionStream(format)),
+    ).arrayBuffer(),
+  );
+
+export const gunzip = (data: Uint8Array<ArrayBuffer>) =>
+  decompress(data, "gzip");
+
+export type ZipEntry = {
+  path: string;
+  data: Uint8Array<ArrayBuffer>;
+};
+
+// 展開できなかったエントリ
+export type ZipEntryFailure = {
+  path: string;
+  message: string;
+};
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+// macOS の圧縮で入る付随ファイル
+const isMetadataEntry = (path: string) =>
+  path.startsWith("__MACOSX/") || baseName(path).startsWith("._");
+
+/**
+ * ZIP の中央ディレクトリを読み、ファイルを展開する（無圧縮と deflate のみ対応。ZIP64・暗号化は非対応）。
+ * 展開できないエントリは failures に入れ、残りのエントリは展開を続ける。
+ */
+export const readZipEntries = async (
+  buffer: ArrayBuffer,
+): Promise<{ entries: ZipEntry[]; failures: ZipEntryFailure[] }> => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  // 終端レコードは末尾から（最大 64KB のコメントを挟んで）探す
+  let eocd = -1;
+  const searchStart = Math.max(0, buffer.byteLength - 22 - 0xffff);
+  for (let i = buffer.byteLength - 22; i >= searchStart; i -= 1) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error("ZIP ファイルとして読み込めませんでした。");
+  }
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  if (count === 0xffff || offset === 0xffffffff) {
+    throw new Error("ZIP64 形式のアーカイブには対応していません。");
+  }
+
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  const failures: ZipEntryFailure[] = [];
+  for (let i = 0; i < count; i += 1) {
+    if (view.getUint32(offset, true) !== CENTRAL_SIGNATURE) {
+      throw new Error("ZIP ファイルの目次が壊れています。");
+    }
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const path = decoder.decode(
+      bytes.subarray(offset + 46, offset + 46 + nameLength),
+    );
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith("/") || isMetadataEntry(path)) continue;
+    if (flags & 0x1) {
+      failures.push({
+        path,
+        message: "暗号化されたファイルは展開できません。",
+      });
+      continue;
+    }
+    if (
+      localOffset + 30 > buffer.byteLength ||
+      view.getUint32(localOffset, true) !== LOCAL_SIGNATURE
+    ) {
+      failures.push({ path, message: "ファイルの位置が壊れています。" });
+      continue;
+    }
+    const dataStart =
+      localOffset +
+      30 +
+      view.getUint16(localOffset + 26, true) +
+      view.getUint16(localOffset + 28, true);
+    const raw = bytes.slice(dataStart, dataStart + compressedSize);
+
+    if (method === 0) {
+      entries.push({ path, data: raw });
+    } else if (method === 8) {
+      try {
+        entries.push({ path, data: await decompress(raw, "deflate-raw") });
+      } catch (error) {
+        failures.push({
+          path,
+          message: `展開に失敗しました（${error instanceof Error ? error.message : String(error)}）。`,
+        });
+      }
+    } else {
+      failures.push({
+        path,
+        message: `圧縮方式（${method}）には対応していません。`,
+      });
+    }
+  }
+  return { entries, failures };
+};
+
+/**
+ * ZIP と .csv.gz を展開し、中の CSV を取り込み対象のファイルにする（ZIP 内の ZIP・.csv.gz も展開する）。
+ * 展開できなかったアーカイブやエントリは「アーカイブ名/内部パス」を path にして failures に入れる。
+ */
+export const expandSourceFiles = async (
+  sources: SourceFile[],
+): Promise<{ files: SourceFile[]; failures: ZipEntryFailure[] }> => {
+  const files: SourceFile[] = [];
+  const failures: ZipEntryFailure[] = [];
+
+  for (const source of sources) {
+    const { file, path } = source;
+    try {
+      if (isZipFileName(file.name)) {
+        const zip = await readZipEntries(await file.arrayBuffer());
+        failures.push(
+          ...zip.failures.map((failure) => ({
+            path: `${path}/${failure.path}`,
+            message: failure.message,
+          })),
+        );
+        const inner = zip.entries
+          .filter((entry) => isImportableFileName(entry.path))
+          .map((entry) => ({
+            file: new File([entry.data], baseName(entry.path)),
+            path: `${path}/${entry.path}`,
+          }));
+        if (inner.length === 0) {
+          failures.push({ path, message: "CSV ファイルが含まれていません。" });
+        }
+        const expanded = await expandSourceFiles(inner);
+        files.push(...expanded.files);
+        failures.push(...expanded.failures);
+      } else if (isCsvGzipFileName(file.name)) {
+        const data = await gunzip(new Uint8Array(await file.arrayBuffer()));
+        const name = file.name.replace(/\.gz$/i, "");
+        files.push({ file: new File([data], name), path });
+      } else {
+        files.push(source);
+      }
+    } catch (error) {
+      failures.push({
+        path,
+        message: `アーカイブを展開できませんでした（${error instanceof Error ? error.message : String(error)}）。`,
+      });
+    }
+  }
+  return { files, failures };
+};
@@ -0,0 +1,259 @@
+import * as Papa from "papaparse";
+import { describe, expect, it } from "vitest";
+import {
+  classmethodFormat,
+  costExplorerFormat,
+  curFormat,
+  detectBillingFormat,
+  toMonth,
+} from "./billingFormats";
+import { NO_DESCRIPTION } from "./csv";
+
+const parseCsv = (text: string) => {
+  const { data, meta } = Papa.parse<Record<string, string>>(text, {
+    header: true,
+    skipEmptyLines: "greedy",
+  });
+  return { rows: data, fields: meta.fields ?? [] };
+};
+
+const CUR_CSV = [
+  "identity/LineItemId,bill/BillingPeriodStartDate,lineItem/UsageAccountId,lineItem/LineItemType,lineItem/UsageStartDate,lineItem/ProductCode,product/ProductName,lineItem/UnblendedCost,lineItem/LineItemDescription",
+  "a,2024-03-01T00:00:00Z,111111111111,Usage,2024-03-05T00:00:00Z,AmazonEC2,Amazon Elastic Compute Cloud,10.5,t3.micro",
+  "b,2024-03-01T00:00:00Z,111111111111,Usage,2024-03-06T00:00:00Z,AmazonEC2,Amazon Elastic Compute Cloud,4.5,t3.micro",
+  "c,2024-03-01T00:00:00Z,222222222222,Usage,2024-03-01T00:00:00Z,AmazonS3,,2,",
+  "d,2024-04-01T00:00:00Z,111111111111,Usage,2024-04-01T00:00:00Z,AmazonEC2,Amazon Elastic Compute Cloud,0,t3.micro",
+  "e,2024-04-01T00:00:00Z,111111111111,Tax,2024-04-01T00:00:00Z,AmazonEC2,Amazon Elastic Compute Cloud,1.25,Tax",
+].join("\n");
+
+const COST_EXPLORER_CSV = [
+  '"Service","EC2-Instances($)","S3($)","Total costs($)"',
+  '"Service total","150","30","180"',
+  '"2024-03-01","100","10","110"',
+  '"2024-04-01","50","20","70"',
+].join("\n");
+
+describe("detectBillingFormat", () => {
+  it("product_name と cost があり、ファイル名から年月を取れれば Classmethod 月次レポートと判定する", () => {
+    expect(
+      detectBillingFormat(
+        ["product_name", "description", "cost"],
+        "monthly-report-2024-03-123456789012.csv",
+      )?.id,
+    ).toBe("classmethod");
+    expect(
+      detectBillingFormat(["product_name", "cost"], "renamed.csv"),
+    ).toBeNull();
+  });
+
+  it("CUR の従来形式と CUR 2.0 のカラム名を判定する", () => {
+    expect(detectBillingFormat(parseCsv(CUR_CSV).fields, "cur.csv")?.id).toBe(
+      "cur",
+    );
+    expect(
+      detectBillingFormat(
+        [
+          "line_item_usage_account_id",
+          "line_item_usage_start_date",
+          "line_item_product_code",
+          "line_item_unblended_cost",
+        ],
+        "export.csv",
+      )?.id,
+    ).toBe("cur");
+  });
+
+  it("Cost Explorer の CSV を判定する", () => {
+    expect(
+      detectBillingFormat(parseCsv(COST_EXPLORER_CSV).fields, "costs.csv")?.id,
+    ).toBe("costExplorer");
+  });
+
+  it("どの形式にも当てはまらなければ null を返す", () => {
+    expect(detectBillingFormat(["date", "amount"], "costs.csv")).toBeNull();
+  });
+
+  it("渡した形式の一覧から判定する", () => {
+    expect(
+      detectBillingFormat(
+        ["product_name", "cost"],
+        "monthly-report-2024-03-1.csv",
+        [curFormat],
+      ),
+    ).toBeNull();
+  });
+});
+
+describe("toMonth", () => {
+  it("日付や日時から年月を取り出す", () => {
+    expect(toMonth("2024-03-01T00:00:00Z")).toBe("2024-03");
+    expect(toMonth("2024/3/15")).toBe("2024-03");
+    expect(toMonth("2024-12")).toBe("2024-12");
+  });
+
+  it("日付でなければ null を返す", () => {
+    expect(toMonth("Service total")).toBeNull();
+    expect(toMonth("2024-13-01")).toBeNull();
+    expect(toMonth(undefined)).toBeNull();
+  });
+});
+
+describe("classmethodFormat", () => {
+  it("ファイル名から年月とアカウント ID を取り出す", () => {
+    const [report] = classmethodFormat.parse(
+      [{ product_name: "Amazon EC2", cost: "$1,200.50" }],
+      {
+        fileName: "monthly-report-2024-03-123456789012.csv",
+        fields: ["product_name", "cost"],
+      },
+    );
+    expect(report).toMatchObject({
+      month: "2024-03",
+      accountId: "123456789012",
+      services: { "Amazon EC2": 1200.5 },
+      total: 1200.5,
+    });
+  });
+
+  it("ファイル名から年月を取れなければエラーにする", () => {
+    expect(() =>
+      classmethodFormat.parse([], {
+        fileName: "report.csv",
+        fields: ["product_name", "cost"],
+      }),
+    ).toThrow("ファイル名から月を特定できませんでした");
+  });
+});
+
+describe("curFormat", () => {
+  it("行の利用開始日とアカウント ID で月・アカウントごとのレポートにまとめる", () => {
+    const { rows, fields } = parseCsv(CUR_CSV);
+    const reports = curFormat.parse(rows, { fileName: "cur.csv", fields });
+
+    expect(
+      reports.map(({ month, accountId, services, total }) => ({
+        month,
+        accountId,
+        services,
+        total,
+      })),
+    ).toEqual([
+      {
+        month: "2024-03",
+        accountId: "111111111111",
+        services: { "Amazon Elastic Compute Cloud": 15 },
+        total: 15,
+      },
+      {
+        month: "2024-03",
+        accountId: "222222222222",
+        services: { AmazonS3: 2 },
+        total: 2,
+      },
+      {
+        month: "2024-04",
+        accountId: "111111111111",
+        services: { "Amazon Elastic Compute Cloud": 1.25 },
+        total: 1.25,
+      },
+    ]);
+    expect(reports[0].descriptions).toEqual({
+      "Amazon Elastic Compute Cloud": { "t3.micro": 15 },
+    });
+    expect(reports[1].descriptions).toEqual({
+      AmazonS3: { [NO_DESCRIPTION]: 2 },
+    });
+    expect(reports.every((report) => report.fileName === "cur.csv")).toBe(true);
+  });
+
+  it("CUR 2.0 のカラム名でも読み込む", () => {
+    const reports = curFormat.parse(
+      [
+        {
+          line_item_usage_account_id: "111111111111",
+          line_item_usage_start_date: "2024-05-02 00:00:00",
+          line_item_product_code: "AmazonRDS",
+          line_item_unblended_cost: "3.5",
+        },
+      ],
+      { fileName: "export.csv", fields: [] },
+    );
+    expect(reports).toMatchObject([
+      {
+        month: "2024-05",
+        accountId: "111111111111",
+        services: { AmazonRDS: 3.5 },
+      },
+    ]);
+  });
+
+  it("利用開始日から年月を取れない行はエラーにする", () => {
+    expect(() =>
+      curFormat.parse(
+        [
+          {
+            "lineItem/UsageAccountId": "111111111111",
+            "lineItem/UsageStartDate": "",
+            "lineItem/ProductCode": "AmazonEC2",
+            "lineItem/UnblendedCost": "1",
+          },
+        ],
+        { fileName: "cur.csv", fields: [] },
+      ),
+    ).toThrow("2 行目の利用開始日から年月を特定できませんでした。");
+  });
+});
+
+describe("costExplorerFormat", () => {
+  it("期間の行とサービスの列から月ごとのレポートにまとめ、合計行・合計列は読み飛ばす", () => {
+    const { rows, fields } = parseCsv(COST_EXPLORER_CSV);
+    const reports = costExplorerFormat.parse(rows, {
+      fileName: "costs-123456789012.csv",
+      fields,
+    });
+
+    expect(
+      reports.map(({ month, accountId, services, total }) => ({
+        month,
+        accountId,
+        services,
+        total,
+      })),
+    ).toEqual([
+      {
+        month: "2024-03",
+        accountId: "123456789012",
+        services: { "EC2-Instances": 100, S3: 10 },
+        total: 110,
+      },
+      {
+        month: "2024-04",
+        accountId: "123456789012",
+        services: { "EC2-Instances": 50, S3: 20 },
+        total: 70,
+      },
+    ]);
+  });
+
+  it("日次の行は月に合算し、ファイル名にアカウント ID がなければ未設定にする", () => {
+    const { rows, fields } = parseCsv(
+      [
+        '"Service","S3($)","Total costs($)"',
+        '"Service total","3","3"',
+        '"2024-03-01","1","1"',
+        '"2024-03-02","2","2"',
+      ].join("\n"),
+    );
+    const reports = costExplorerFormat.parse(rows, {
+      fileName: "costs.csv",
+      fields,
+    });
+    expect(reports).toHaveLength(1);
+    expect(reports[0]).toMatchObject({
+      month: "2024-03",
+      services: { S3: 3 },
+      total: 3,
+    });
+    expect(reports[0].accountId).toBeUndefined();
+  });
+});
@@ -0,0 +1,242 @@
+import {
+  extractAccountFromFileName,
+  extractMonthFromFileName,
+  NO_DESCRIPTION,
+  normalizeCost,
+  type ParseStats,
+  summarizeReportRows,
+} from "@/lib/csv";
+import type { MonthlyReport } from "@/lib/reports";
+
+export type CsvRow = Record<string, string | undefined>;
+
+/**
+ * 請求 CSV の形式。ヘッダーで判定し、行を MonthlyReport に正規化する。
+ * 1 ファイルに複数の月・アカウントが含まれる形式もあるため、レポートの配列を返す。
+ * エラーのメッセージにはファイル名を含めない（呼び出し側でアーカイブ内のパスなどを付ける）。
+ */
+export type BillingFormat = {
+  id: string;
+  label: string;
+  detect: (fields: string[], context: { fileName: string }) => boolean;
+  // 1 回の出力が複数のファイルに分かれる形式（CUR の -1.csv.gz, -2.csv.gz …）。
+  // 同じ取り込みのファイルどうしは、同じ月・アカウントのレポートを置き換えずに合算する
+  splitsIntoParts?: boolean;
+  // 大きなファイルは分割して読み込むため、rowOffset はこの rows より前に読んだ行数（エラーの行番号用）。
+  // stats を渡すと、コスト 0 で読み飛ばした明細の数を加算する
+  parse: (
+    rows: CsvRow[],
+    context: {
+      fileName: string;
+      fields: string[];
+      rowOffset?: number;
+      stats?: ParseStats;
+    },
+  ) => MonthlyReport[];
+};
+
+// 正規化前の 1 明細
+type BillingEntry = {
+  month: string;
+  accountId?: string;
+  service: string;
+  description: string;
+  cost: number;
+};
+
+// 月・アカウントごとに明細を合計する。コスト 0 の明細は読み飛ばす
+const buildReports = (
+  entries: BillingEntry[],
+  fileName: string,
+  stats?: ParseStats,
+): MonthlyReport[] => {
+  const reports = new Map<string, MonthlyReport>();
+  for (const entry of entries) {
+    if (entry.cost === 0) {
+      if (stats) stats.zeroCostRows += 1;
+      continue;
+    }
+    const key = `${entry.month}\u0000${entry.accountId ?? ""}`;
+    const report = reports.get(key) ?? {
+      month: entry.month,
+      services: {},
+      descriptions: {},
+      total: 0,
+      fileName,
+      accountId: entry.accountId,
+    };
+    const descriptions = report.descriptions ?? {};
+    const byDescription = descriptions[entry.service] ?? {};
+    byDescription[entry.description] =
+      (byDescription[entry.description] ?? 0) + entry.cost;
+    descriptions[entry.service] = byDescription;
+    report.descriptions = descriptions;
+    report.services[entry.service] =
+      (report.services[entry.service] ?? 0) + entry.cost;
+    report.total += entry.cost;
+    reports.set(key, report);
+  }
+  return [...reports.values()].sort((a, b) => a.month.localeCompare(b.month));
+};
+
+// "2024-03-01T00:00:00Z" や "2024/3/1" などの日付から YYYY-MM を取り出す
+export const toMonth = (value: string | undefined): string | null => {
+  const match = value?.trim().match(/^(\d{4})[-/](\d{1,2})(?:\D|$)/);
+  if (!match) return null;
+  const mon = Number(match[2]);
+  if (mon < 1 || mon > 12) return null;
+  return `${match[1]}-${String(mon).padStart(2, "0")}`;
+};
+
+const firstPresent = (fields: string[], candidates: readonly string[]) =>
+  candidates.find((candidate) => fields.includes(candidate));
+
+/**
+ * Classmethod の月次レポート（monthly-report-YYYY-MM-ACCOUNTID.csv）。
+ * 年月とアカウント ID はファイル名から取るため、ファイル名から年月を取れなければこの形式とはみなさない。
+ */
+export const classmethodFormat: BillingFormat = {
+  id: "classmethod",
+  label: "Classmethod 月次レポート",
+  detect: (fields, { fileName }) =>
+    fields.includes("product_name") &&
+    fields.includes("cost") &&
+    extractMonthFromFileName(fileName) !== null,
+  parse: (rows, { fileName, stats }) => {
+    const month = extractMonthFromFileName(fileName);
+    if (!month) {
+      throw new Error("ファイル名から月を特定できませんでした。");
+    }
+    return [
+      {
+        month,
+        ...summarizeReportRows(rows, undefined, stats),
+        fileName,
+        accountId: extractAccountFromFileName(fileName) ?? undefined,
+      },
+    ];
+  },
+};
+
+// CUR（従来形式）と CUR 2.0（Data Exports）のカラム名
+const CUR_COLUMNS = {
+  account: ["lineItem/UsageAccountId", "line_item_usage_account_id"],
+  usageStart: ["lineItem/UsageStartDate", "line_item_usage_start_date"],
+  billingPeriod: [
+    "bill/BillingPeriodStartDate",
+    "bill_billing_period_start_date",
+  ],
+  service: [
+    "product/ProductName",
+    "product_product_name",
+    "lineItem/ProductCode",
+    "line_item_product_code",
+  ],
+  cost: ["lineItem/UnblendedCost", "line_item_unblended_cost"],
+  description: [
+    "lineItem/LineItemDescription",
+    "line_item_line_item_description",
+  ],
+} as const;
+
+/**
+ * AWS Cost and Usage Report。年月は lineItem/UsageStartDate（なければ請求期間の開始日）、
+ * アカウントは lineItem/UsageAccountId から行ごとに取る。サービス名は製品名を優先する。
+ */
+export const curFormat: BillingFormat = {
+  id: "cur",
+  label: "AWS Cost and Usage Report",
+  splitsIntoParts: true,
+  detect: (fields) =>
+    firstPresent(fields, CUR_COLUMNS.account) !== undefined &&
+    firstPresent(fields, CUR_COLUMNS.usageStart) !== undefined &&
+    firstPresent(fields, CUR_COLUMNS.cost) !== undefined,
+  parse: (rows, { fileName, rowOffset = 0, stats }) => {
+    const column = (row: CsvRow, candidates: readonly string[]) =>
+      candidates.map((name) => row[name]?.trim()).find(Boolean);
+
+    return buildReports(
+      rows.flatMap((row, index): BillingEntry[] => {
+        const month =
+          toMonth(column(row, CUR_COLUMNS.usageStart)) ??
+          toMonth(column(row, CUR_COLUMNS.billingPeriod));
+        const service = column(row, CUR_COLUMNS.service);
+        if (!service) return [];
+        if (!month) {
+          throw new Error(
+            `${rowOffset + index + 2} 行目の利用開始日から年月を特定できませんでした。`,
+          );
+        }
+        return [
+          {
+            month,
+            accountId: column(row, CUR_COLUMNS.account),
+            service,
+            description: column(row, CUR_COLUMNS.description) || NO_DESCRIPTION,
+            cost: normalizeCost(column(row, CUR_COLUMNS.cost)),
+          },
+        ];
+      }),
+      fileName,
+      stats,
+    );
+  },
+};
+
+const COST_EXPLORER_SERVICE_HEADERS = ["Service", "サービス"];
+const COST_EXPLORER_COST_SUFFIX = /\s*\(\$\)$/;
+const COST_EXPLORER_TOTAL_COLUMNS = ["Total costs", "合計コスト"];
+
+/**
+ * Cost Explorer の CSV ダウンロード（サービスでグループ化）。
+ * 1 列目が期間（"Service total" 行は読み飛ばす）、以降の列がサービスごとのコスト（"EC2-Instances($)" など）。
+ * データにアカウントが含まれないため、ファイル名に 12 桁のアカウント ID があればそれを使う。
+ */
+export const costExplorerFormat: BillingFormat = {
+  id: "costExplorer",
+  label: "Cost Explorer CSV",
+  detect: (fields) =>
+    COST_EXPLORER_SERVICE_HEADERS.includes(fields[0] ?? "") &&
+    fields.slice(1).some((field) => COST_EXPLORER_COST_SUFFIX.test(field)),
+  parse: (rows, { fileName, fields, stats }) => {
+    const [periodColumn, ...costColumns] = fields;
+    const serviceColumns = costColumns.filter((column) => {
+      const name = column.replace(COST_EXPLORER_COST_SUFFIX, "");
+      return (
+        COST_EXPLORER_COST_SUFFIX.test(column) &&
+        !COST_EXPLORER_TOTAL_COLUMNS.includes(name)
+      );
+    });
+    const accountId = fileName.match(/(?:^|\D)(\d{12})(?:\D|$)/)?.[1];
+
+    return buildReports(
+      rows.flatMap((row) => {
+        const month = toMonth(row[periodColumn ?? ""]);
+        if (!month) return [];
+        return serviceColumns.map((column) => ({
+          month,
+          accountId,
+          service: column.replace(COST_EXPLORER_COST_SUFFIX, ""),
+          description: NO_DESCRIPTION,
+          cost: normalizeCost(row[column]),
+        }));
+      }),
+      fileName,
+      stats,
+    );
+  },
+};
+
+// 先頭から順に判定する。形式を追加するときはここに登録する
+export const BILLING_FORMATS: readonly BillingFormat[] = [
+  classmethodFormat,
+  curFormat,
+  costExplorerFormat,
+];
+
+export const detectBillingFormat = (
+  fields: string[],
+  fileName: string,
+  formats: readonly BillingFormat[] = BILLING_FORMATS,
+): BillingFormat | null =>
+  formats.find((format) => format.detect(fields, { fileName })) ?? null;
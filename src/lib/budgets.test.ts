@@ -0,0 +1,219 @@
+import { describe, expect, it } from "vitest";
+import {
+  type Budget,
+  createBudget,
+  evaluateBudgets,
+  mergeBudgets,
+  parseBudgetsCsv,
+  selectBudgetLines,
+  toBudgetsCsv,
+} from "./budgets";
+import type { MonthlyReport } from "./reports";
+
+const report = (
+  month: string,
+  accountId: string,
+  services: Record<string, number>,
+): MonthlyReport => ({
+  month,
+  services,
+  total: Object.values(services).reduce((sum, cost) => sum + cost, 0),
+  fileName: `monthly-report-${month}-${accountId}.csv`,
+  accountId,
+});
+
+const reportsByMonth: Record<string, MonthlyReport[]> = {
+  "2024-03": [
+    report("2024-03", "123456789012", { "Amazon EC2": 1000, "Amazon S3": 400 }),
+    report("2024-03", "999999999999", { "Amazon EC2": 2000, "Amazon S3": 300 }),
+  ],
+  "2024-04": [
+    report("2024-04", "123456789012", { "Amazon EC2": 1300, "Amazon S3": 500 }),
+  ],
+};
+
+const budget = (input: Partial<Omit<Budget, "id">>): Budget =>
+  createBudget({
+    scope: "total",
+    dimension: "",
+    target: "",
+    period: "2024-03",
+    amount: 0,
+    currency: "USD",
+    ...input,
+  });
+
+const groupOf = (account: string) =>
+  account === "123456789012" ? "payments" : "sandbox";
+
+describe("evaluateBudgets", () => {
+  it("対象と期間ごとに実績を集計し、超過を判定する", () => {
+    const [total, account, service, group] = evaluateBudgets(
+      [
+        budget({ amount: 5000 }),
+        budget({ scope: "account", target: "123456789012", amount: 1200 }),
+        budget({
+          scope: "service",
+          target: "Amazon S3",
+          period: "2024",
+          amount: 1000,
+        }),
+        budget({
+          scope: "group",
+          dimension: "team",
+          target: "sandbox",
+          amount: 3000,
+        }),
+      ],
+      reportsByMonth,
+      { currency: "USD", groupOf },
+    );
+    expect(total.actual).toBe(3700);
+    expect(total.isOver).toBe(false);
+    expect(account.actual).toBe(1400);
+    expect(account.isOver).toBe(true);
+    expect(account.ratio).toBeCloseTo(1400 / 1200);
+    expect(service.actual).toBe(1200);
+    expect(service.isOver).toBe(true);
+    expect(group.actual).toBe(2300);
+  });
+
+  it("通貨が異なる予算は比較しない", () => {
+    const [status] = evaluateBudgets(
+      [budget({ amount: 100, currency: "JPY" })],
+      reportsByMonth,
+      { currency: "USD", groupOf },
+    );
+    expect(status.ratio).toBeNull();
+    expect(status.isOver).toBe(false);
+  });
+
+  it("年度の予算は年度の開始月から 12 か月の実績と比べる", () => {
+    const [previousYear, currentYear] = evaluateBudgets(
+      [
+        budget({ period: "FY2023", amount: 1000 }),
+        budget({ period: "FY2024", amount: 1000 }),
+      ],
+      reportsByMonth,
+      { currency: "USD", groupOf, fiscalStartMonth: 4 },
+    );
+    expect(previousYear.actual).toBe(3700);
+    expect(currentYear.actual).toBe(1800);
+  });
+
+  it("四半期の予算は年度の四半期の実績と比べる", () => {
+    const [status] = evaluateBudgets(
+      [budget({ period: "FY2024-Q1", amount: 1000 })],
+      reportsByMonth,
+      { currency: "USD", groupOf, fiscalStartMonth: 4 },
+    );
+    expect(status.actual).toBe(1800);
+    expect(status.isOver).toBe(true);
+  });
+
+  it("データのない期間は hasData が false になる", () => {
+    const [status] = evaluateBudgets(
+      [budget({ period: "2024-05", amount: 100 })],
+      reportsByMonth,
+      { currency: "USD", groupOf },
+    );
+    expect(status.hasData).toBe(false);
+    expect(status.actual).toBe(0);
+  });
+});
+
+describe("selectBudgetLines", () => {
+  const budgets = [
+    budget({ amount: 5000 }),
+    budget({ scope: "service", target: "Amazon S3", amount: 500 }),
+    budget({ scope: "account", target: "123456789012", amount: 1200 }),
+    budget({ period: "2024", amount: 9000 }),
+  ];
+
+  it("時間軸と集計モードが一致する予算だけを返す", () => {
+    const lines = selectBudgetLines(budgets, {
+      groupBy: "service",
+      timeUnit: "month",
+      series: ["Amazon EC2", "Amazon S3"],
+      periods: ["2024-03", "2024-04"],
+      currency: "USD",
+      groupDimension: null,
+    });
+    expect(lines).toEqual([
+      { period: "2024-03", series: null, amount: 5000 },
+      { period: "2024-03", series: "Amazon S3", amount: 500 },
+    ]);
+  });
+
+  it("年次では年次予算を返す", () => {
+    const lines = selectBudgetLines(budgets, {
+      groupBy: "account",
+      timeUnit: "year",
+      series: ["123456789012"],
+      periods: ["2024"],
+      currency: "USD",
+      groupDimension: null,
+    });
+    expect(lines.map((line) => line.amount)).toEqual([9000]);
+  });
+});
+
+describe("parseBudgetsCsv / toBudgetsCsv", () => {
+  it("書き出した CSV を読み戻せる", () => {
+    const budgets = [
+      budget({ amount: 5000 }),
+      budget({
+        scope: "group",
+        dimension: "team",
+        target: "payments",
+        period: "2024",
+        amount: 12000,
+        currency: "JPY",
+      }),
+    ];
+    const parsed = parseBudgetsCsv(toBudgetsCsv(budgets), "USD");
+    expect(parsed.map(({ id: _, ...rest }) => rest)).toEqual(
+      budgets.map(({ id: _, ...rest }) => rest),
+    );
+  });
+
+  it("currency 列がなければ指定した通貨を使う", () => {
+    const [parsed] = parseBudgetsCsv(
+      'scope,target,period,amount\nservice,Amazon EC2,2024-03,"1,500"\n',
+      "JPY",
+    );
+    expect(parsed).toMatchObject({
+      scope: "service",
+      target: "Amazon EC2",
+      amount: 1500,
+      currency: "JPY",
+    });
+  });
+
+  it("不正な行があればエラーにする", () => {
+    expect(() => parseBudgetsCsv("scope,target,period\n", "USD")).toThrow(
+      "必須カラム（amount）",
+    );
+    expect(() =>
+      parseBudgetsCsv("scope,target,period,amount\nteam,x,2024-03,1\n", "USD"),
+    ).toThrow("2 行目の scope");
+    expect(() =>
+      parseBudgetsCsv("scope,target,period,amount\ntotal,,2024-13,1\n", "USD"),
+    ).toThrow("2 行目の period");
+    expect(() =>
+      parseBudgetsCsv("scope,target,period,amount\ngroup,x,2024,1\n", "USD"),
+    ).toThrow("dimension");
+  });
+});
+
+describe("mergeBudgets", () => {
+  it("同じ対象・期間の予算は置き換える", () => {
+    const existing = [budget({ amount: 100 })];
+    const merged = mergeBudgets(existing, [
+      budget({ amount: 200 }),
+      budget({ period: "2024-04", amount: 300 }),
+    ]);
+    expect(merged.map((b) => b.amount)).toEqual([200, 300]);
+    expect(merged[0].id).toBe(existing[0].id);
+  });
+});
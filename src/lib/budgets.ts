@@ -0,0 +1,331 @@
+import * as Papa from "papaparse";
+import {
+  type ChartRow,
+  type GroupBy,
+  type TimeUnit,
+  toPeriod,
+} from "@/lib/aggregate";
+import { getReportKey, type MonthlyReport } from "@/lib/reports";
+
+// total: 全アカウント・全サービスの合計に対する予算
+export type BudgetScope = "total" | "account" | "service" | "group";
+
+export type Budget = {
+  id: string;
+  scope: BudgetScope;
+  // scope が "group" のときの分類名（team など）。それ以外は空文字
+  dimension: string;
+  // アカウント ID・サービス名・グループ名。scope が "total" のときは空文字
+  target: string;
+  // 月次予算は YYYY-MM、四半期予算は FYYYYY-Qn、年次予算は YYYY、年度予算は FYYYYY
+  period: string;
+  amount: number;
+  currency: string;
+};
+
+export type BudgetStatus = {
+  budget: Budget;
+  actual: number;
+  // actual / amount。通貨が表示通貨と異なり比較できない場合は null
+  ratio: number | null;
+  isOver: boolean;
+  // 予算期間の月が 1 つも読み込まれていないか
+  hasData: boolean;
+};
+
+export const BUDGETS_STORAGE_KEY = "budgets";
+
+export const BUDGET_SCOPES: readonly BudgetScope[] = [
+  "total",
+  "account",
+  "service",
+  "group",
+];
+
+const MONTH_PERIOD = /^\d{4}-(0[1-9]|1[0-2])$/;
+const QUARTER_PERIOD = /^FY\d{4}-Q[1-4]$/;
+const YEAR_PERIOD = /^\d{4}$/;
+const FISCAL_YEAR_PERIOD = /^FY\d{4}$/;
+
+export const getBudgetTimeUnit = (period: string): TimeUnit | null => {
+  if (MONTH_PERIOD.test(period)) return "month";
+  if (QUARTER_PERIOD.test(period)) return "quarter";
+  if (YEAR_PERIOD.test(period)) return "year";
+  if (FISCAL_YEAR_PERIOD.test(period)) return "fiscalYear";
+  return null;
+};
+
+const isBudgetScope = (value: unknown): value is BudgetScope =>
+  BUDGET_SCOPES.includes(value as BudgetScope);
+
+export const isBudget = (value: unknown): value is Budget => {
+  if (typeof value !== "object" || value === null) return false;
+  const candidate = value as Record<string, unknown>;
+  return (
+    typeof candidate.id === "string" &&
+    isBudgetScope(candidate.scope) &&
+    typeof candidate.dimension === "string" &&
+    typeof candidate.target === "string" &&
+    typeof candidate.period === "string" &&
+    getBudgetTimeUnit(candidate.period) !== null &&
+    typeof candidate.amount === "number" &&
+    Number.isFinite(candidate.amount) &&
+    candidate.amount >= 0 &&
+    typeof candidate.currency === "string"
+  );
+};
+
+export const isBudgetList = (value: unknown): value is Budget[] =>
+  Array.isArray(value) && value.every(isBudget);
+
+export const createBudget = (input: Omit<Budget, "id">): Budget => ({
+  id: crypto.randomUUID(),
+  ...input,
+  dimension: input.scope === "group" ? input.dimension.trim() : "",
+  target: input.scope === "total" ? "" : input.target.trim(),
+  period: input.period.trim(),
+});
+
+const budgetKey = (budget: Budget) =>
+  [budget.scope, budget.dimension, budget.target, budget.period].join("\u0000");
+
+// 同じ対象・期間の予算は置き換え、それ以外は末尾に追加する
+export const mergeBudgets = (
+  existing: Budget[],
+  imported: Budget[],
+): Budget[] => {
+  const merged = [...existing];
+  for (const budget of imported) {
+    const index = merged.findIndex((b) => budgetKey(b) === budgetKey(budget));
+    if (index >= 0) {
+      merged[index] = { ...budget, id: merged[index].id };
+    } else {
+      merged.push(budget);
+    }
+  }
+  return merged;
+};
+
+export const describeBudgetTarget = (
+  budget: Budget,
+  accountLabels: Record<string, string> = {},
+): string => {
+  if (budget.scope === "total") return "全体";
+  if (budget.scope === "account")
+    return accountLabels[budget.target] ?? budget.target;
+  if (budget.scope === "group") return `${budget.dimension}: ${budget.target}`;
+  return budget.target;
+};
+
+/**
+ * 予算ごとに、予算期間の実績を読み込み済みの全データから集計する（画面の絞り込みには影響されない）。
+ * 金額は reportsByMonth と同じ通貨（表示通貨）で比較し、通貨の異なる予算は比較しない。
+ */
+export const evaluateBudgets = (
+  budgets: Budget[],
+  reportsByMonth: Record<string, MonthlyReport[]>,
+  {
+    currency,
+    groupOf,
+    fiscalStartMonth,
+  }: {
+    currency: string;
+    // アカウントの分類ごとのグループ名
+    groupOf: (account: string, dimension: string) => string;
+    // 四半期・年度の予算の期間を決める年度の開始月
+    fiscalStartMonth?: number;
+  },
+): BudgetStatus[] =>
+  budgets.map((budget) => {
+    const timeUnit = getBudgetTimeUnit(budget.period) ?? "month";
+    const months = Object.keys(reportsByMonth).filter(
+      (month) => toPeriod(month, timeUnit, fiscalStartMonth) === budget.period,
+    );
+
+    let actual = 0;
+    for (const month of months) {
+      for (const report of reportsByMonth[month] ?? []) {
+        const account = getReportKey(report);
+        if (budget.scope === "account" && account !== budget.target) continue;
+        if (
+          budget.scope === "group" &&
+          groupOf(account, budget.dimension) !== budget.target
+        )
+          continue;
+        for (const [service, cost] of Object.entries(report.services)) {
+          if (budget.scope === "service" && service !== budget.target) continue;
+          actual += cost;
+        }
+      }
+    }
+
+    const comparable = budget.currency === currency;
+    const ratio =
+      !comparable || budget.amount === 0 ? null : actual / budget.amount;
+    return {
+      budget,
+      actual,
+      ratio,
+      isOver: comparable && actual > budget.amount,
+      hasData: months.length > 0,
+    };
+  });
+
+export type BudgetLine = {
+  period: string;
+  // 系列の予算なら系列名（その系列の積み上げ部分の下端から描く）。全体予算は null
+  series: string | null;
+  amount: number;
+};
+
+// 系列の予算線は、その系列の積み上げ部分の下端を起点に描く（上端が線を超えていれば超過）
+export const budgetLineBase = (
+  row: ChartRow,
+  series: string[],
+  line: BudgetLine,
+): number => {
+  if (line.series === null) return 0;
+  let base = 0;
+  for (const name of series.slice(0, series.indexOf(line.series))) {
+    base += Math.max(0, row.services[name] ?? 0);
+  }
+  return base;
+};
+
+// 予算線と比べる実績（全体予算は正の値の合計、系列の予算はその系列の金額）
+export const budgetLineActual = (
+  row: ChartRow,
+  series: string[],
+  line: BudgetLine,
+): number =>
+  line.series === null
+    ? series.reduce(
+        (sum, name) => sum + Math.max(0, row.services[name] ?? 0),
+        0,
+      )
+    : (row.services[line.series] ?? 0);
+
+/**
+ * チャートに描く予算線。時間軸が一致し、通貨が表示通貨と同じ予算のうち、
+ * 全体予算と、表示中の系列（集計モードと対象の種類が一致するもの）に対する予算を返す。
+ */
+export const selectBudgetLines = (
+  budgets: Budget[],
+  {
+    groupBy,
+    timeUnit,
+    series,
+    periods,
+    currency,
+    groupDimension,
+  }: {
+    groupBy: GroupBy;
+    timeUnit: TimeUnit;
+    series: string[];
+    periods: string[];
+    currency: string;
+    groupDimension: string | null;
+  },
+): BudgetLine[] =>
+  budgets
+    .filter(
+      (budget) =>
+        budget.currency === currency &&
+        getBudgetTimeUnit(budget.period) === timeUnit &&
+        periods.includes(budget.period),
+    )
+    .flatMap((budget): BudgetLine[] => {
+      if (budget.scope === "total") {
+        return [
+          {
+            period: budget.period,
+            series: null,
+            amount: budget.amount,
+          },
+        ];
+      }
+      const matchesMode =
+        budget.scope === groupBy &&
+        (budget.scope !== "group" || budget.dimension === groupDimension);
+      if (!matchesMode || !series.includes(budget.target)) return [];
+      return [
+        {
+          period: budget.period,
+          series: budget.target,
+          amount: budget.amount,
+        },
+      ];
+    });
+
+const CSV_FIELDS = [
+  "scope",
+  "dimension",
+  "target",
+  "period",
+  "amount",
+  "currency",
+] as const;
+
+export const toBudgetsCsv = (budgets: Budget[]): string =>
+  Papa.unparse({
+    fields: [...CSV_FIELDS],
+    data: budgets.map((budget) => CSV_FIELDS.map((field) => budget[field])),
+  });
+
+/**
+ * scope・target・period・amount 列（任意で dimension・currency 列）を持つ CSV を読み込む。
+ * currency 列がなければ defaultCurrency の予算とする。
+ */
+export const parseBudgetsCsv = (
+  text: string,
+  defaultCurrency: string,
+): Budget[] => {
+  const { data, meta } = Papa.parse<Record<string, string>>(text, {
+    header: true,
+    skipEmptyLines: "greedy",
+    transformHeader: (header) => header.trim(),
+  });
+  const fields = meta.fields ?? [];
+  const missing = ["scope", "target", "period", "amount"].filter(
+    (field) => !fields.includes(field),
+  );
+  if (missing.length > 0) {
+    throw new Error(`必須カラム（${missing.join(", ")}）が見つかりません。`);
+  }
+
+  return data.map((row, index) => {
+    const line = index + 2;
+    const scope = row.scope?.trim();
+    const period = row.period?.trim() ?? "";
+    const amount = Number(String(row.amount ?? "").replace(/,/g, ""));
+    if (!isBudgetScope(scope)) {
+      throw new Error(
+        `${line} 行目の scope が不正です（${BUDGET_SCOPES.join(" / ")}）。`,
+      );
+    }
+    if (getBudgetTimeUnit(period) === null) {
+      throw new Error(
+        `${line} 行目の period は YYYY-MM・FYYYYY-Qn・YYYY・FYYYYY のいずれかで指定してください。`,
+      );
+    }
+    if (!Number.isFinite(amount) || amount < 0) {
+      throw new Error(`${line} 行目の amount が不正です。`);
+    }
+    const target = row.target?.trim() ?? "";
+    const dimension = row.dimension?.trim() ?? "";
+    if (scope !== "total" && target === "") {
+      throw new Error(`${line} 行目の target が空です。`);
+    }
+    if (scope === "group" && dimension === "") {
+      throw new Error(`${line} 行目の dimension が空です。`);
+    }
+    return createBudget({
+      scope,
+      dimension,
+      target,
+      period,
+      amount,
+      currency: (row.currency?.trim() || defaultCurrency).toUpperCase(),
+    });
+  });
+};
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import type { ChartRow } from "./aggregate";
+import { niceStep, renderStackedBarSvg } from "./chartSvg";
+
+const data: ChartRow[] = [
+  {
+    month: "2024-03",
+    services: { "Amazon EC2": 3334.56, "Amazon S3": 766.78 },
+  },
+  { month: "2024-04", services: { "Amazon EC2": 1350, "Amazon S3": 480 } },
+];
+
+const render = (
+  overrides: Partial<Parameters<typeof renderStackedBarSvg>[0]> = {},
+) =>
+  renderStackedBarSvg({
+    data,
+    series: ["Amazon EC2", "Amazon S3"],
+    colors: ["hsl(0 70% 52%)", "hsl(59 70% 52%)"],
+    title: "サービス別の月次料金",
+    subtitle: "期間: 2024-03〜2024-04（2 ヶ月）",
+    formatValue: (value) => `$${value.toFixed(2)}`,
+    ...overrides,
+  });
+
+describe("niceStep", () => {
+  it("1, 2, 5 × 10^n の刻みに切り上げる", () => {
+    expect(niceStep(4101.34, 5)).toBe(1000);
+    expect(niceStep(900, 5)).toBe(200);
+    expect(niceStep(12, 5)).toBe(5);
+  });
+
+  it("範囲が 0 以下なら 1 を返す", () => {
+    expect(niceStep(0, 5)).toBe(1);
+  });
+});
+
+describe("renderStackedBarSvg", () => {
+  it("タイトル・サブタイトル・凡例を含む", () => {
+    const svg = render();
+    expect(svg.startsWith("<svg")).toBe(true);
+    expect(svg).toContain("サービス別の月次料金");
+    expect(svg).toContain("期間: 2024-03〜2024-04（2 ヶ月）");
+    expect(svg.match(/>Amazon S3</g)).toHaveLength(1);
+  });
+
+  it("期間ごとの合計と各系列の棒を描画する", () => {
+    const svg = render();
+    expect(svg).toContain(">$4101.34<");
+    expect(svg).toContain(">$1830.00<");
+    expect(svg.match(/<rect [^>]*><title>/g)).toHaveLength(4);
+  });
+
+  it("予算線を描き、超過した予算線は赤にする", () => {
+    const svg = render({
+      budgetLines: [
+        { period: "2024-03", series: null, amount: 5000 },
+        { period: "2024-04", series: "Amazon S3", amount: 400 },
+      ],
+    });
+    const lines = svg.match(/<line [^>]*stroke-dasharray[^>]*>/g) ?? [];
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toContain('stroke="#475569"');
+    expect(lines[1]).toContain('stroke="#f87171"');
+    expect(svg).toContain("予算（Amazon S3）: $400.00");
+  });
+
+  it("予算線が棒より上にあっても縦軸に収める", () => {
+    const svg = render({
+      budgetLines: [{ period: "2024-04", series: null, amount: 9000 }],
+    });
+    expect(svg).toContain(">$10000.00<");
+  });
+
+  it("一部の月しか含まない期間の軸ラベルに「*」を付ける", () => {
+    const svg = render({ incompletePeriods: ["2024-04"] });
+    expect(svg).toContain(">2024-04 *<");
+    expect(svg).not.toContain(">2024-03 *<");
+  });
+
+  it("テキストを XML エスケープする", () => {
+    const svg = render({ title: "A & B <test>" });
+    expect(svg).toContain("A &amp; B &lt;test&gt;");
+  });
+
+  it("値が 0 の系列は棒を描画しない", () => {
+    const svg = render({
+      data: [{ month: "2024", services: { "Amazon EC2": 10 } }],
+    });
+    expect(svg.match(/<rect [^>]*><title>/g)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,203 @@
+import type { ChartRow } from "@/lib/aggregate";
+import {
+  type BudgetLine,
+  budgetLineActual,
+  budgetLineBase,
+} from "@/lib/budgets";
+
+export type SvgChartInput = {
+  data: ChartRow[];
+  series: string[];
+  colors: string[];
+  title: string;
+  subtitle: string;
+  formatValue: (value: number) => string;
+  // 一部の月しか含まない期間（軸ラベルに「*」を付ける）
+  incompletePeriods?: string[];
+  // 系列名は series と同じ表示名にしておく
+  budgetLines?: BudgetLine[];
+  width?: number;
+  height?: number;
+};
+
+const FONT_FAMILY = "Inter, ui-sans-serif, system-ui, sans-serif";
+const TEXT_COLOR = "#0f172a";
+const MUTED_COLOR = "#475569";
+const GRID_COLOR = "#e2e8f0";
+const BUDGET_COLOR = "#475569";
+const OVER_BUDGET_COLOR = "#f87171";
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+// 目盛りが 1, 2, 5 × 10^n 刻みになるよう切り上げる
+export const niceStep = (range: number, tickCount: number): number => {
+  if (range <= 0) return 1;
+  const rough = range / tickCount;
+  const magnitude = 10 ** Math.floor(Math.log10(rough));
+  const residual = rough / magnitude;
+  const nice = residual <= 1 ? 1 : residual <= 2 ? 2 : residual <= 5 ? 5 : 10;
+  return nice * magnitude;
+};
+
+// 凡例の文字幅は概算（全角を 1em、半角を 0.6em）で見積もる
+const estimateTextWidth = (text: string, fontSize: number) =>
+  Array.from(text).reduce(
+    (width, char) =>
+      width + (char.charCodeAt(0) > 0xff ? fontSize : fontSize * 0.6),
+    0,
+  );
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * 積み上げ棒グラフを SVG 文字列として描画する（タイトル・フィルター条件・合計・凡例付き）。
+ * 正の値は 0 から上へ、負の値（クレジット等）は 0 から下へ積み上げる。
+ * 予算線（超過していれば赤）と、一部の月しか含まない期間の「*」は PNG 書き出しと同じように描く。
+ */
+export const renderStackedBarSvg = ({
+  data,
+  series,
+  colors,
+  title,
+  subtitle,
+  formatValue,
+  incompletePeriods = [],
+  budgetLines = [],
+  width = 1280,
+  height = 720,
+}: SvgChartInput): string => {
+  const padding = 24;
+  const legendFontSize = 12;
+  const legendItemGap = 16;
+
+  // 凡例を下端から行単位で折り返して配置する
+  const legendRows: Array<Array<{ name: string; color: string; x: number }>> = [
+    [],
+  ];
+  let cursorX = padding;
+  series.forEach((name, index) => {
+    const itemWidth = 16 + estimateTextWidth(name, legendFontSize);
+    if (cursorX + itemWidth > width - padding && cursorX > padding) {
+      legendRows.push([]);
+      cursorX = padding;
+    }
+    legendRows[legendRows.length - 1].push({
+      name,
+      color: colors[index] ?? "#94a3b8",
+      x: cursorX,
+    });
+    cursorX += itemWidth + legendItemGap;
+  });
+  const legendHeight = series.length === 0 ? 0 : legendRows.length * 20;
+
+  const plotTop = padding + 64;
+  const plotBottom = height - padding - legendHeight - 36;
+  const plotLeft = padding + 88;
+  const plotRight = width - padding;
+  const plotHeight = Math.max(1, plotBottom - plotTop);
+  const plotWidth = Math.max(1, plotRight - plotLeft);
+
+  const stacks = data.map((row) => {
+    let positive = 0;
+    let negative = 0;
+    for (const name of series) {
+      const value = row.services[name] ?? 0;
+      if (value >= 0) positive += value;
+      else negative += value;
+    }
+    return { positive, negative };
+  });
+  // 予算線が棒より上にあっても見切れないよう、縦軸の最大値に含める
+  const budgetTops = budgetLines.flatMap((line) => {
+    const row = data.find((candidate) => candidate.month === line.period);
+    return row ? [budgetLineBase(row, series, line) + line.amount] : [];
+  });
+  const rawMax = Math.max(0, ...stacks.map((s) => s.positive), ...budgetTops);
+  const rawMin = Math.min(0, ...stacks.map((s) => s.negative));
+  const step = niceStep(rawMax - rawMin, 5);
+  const yMax = Math.max(step, Math.ceil(rawMax / step) * step);
+  const yMin = Math.floor(rawMin / step) * step;
+  const toY = (value: number) =>
+    round(plotBottom - ((value - yMin) / (yMax - yMin)) * plotHeight);
+
+  const parts: string[] = [];
+  parts.push(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${FONT_FAMILY}">`,
+    `<rect width="${width}" height="${height}" fill="#ffffff"/>`,
+    `<text x="${width / 2}" y="${padding + 18}" text-anchor="middle" font-size="18" font-weight="700" fill="${TEXT_COLOR}">${escapeXml(title)}</text>`,
+    `<text x="${width / 2}" y="${padding + 42}" text-anchor="middle" font-size="12" fill="${MUTED_COLOR}">${escapeXml(subtitle)}</text>`,
+  );
+
+  for (let value = yMin; value <= yMax + step / 2; value += step) {
+    const y = toY(value);
+    parts.push(
+      `<line x1="${plotLeft}" y1="${y}" x2="${plotRight}" y2="${y}" stroke="${GRID_COLOR}" stroke-width="1"/>`,
+      `<text x="${plotLeft - 8}" y="${y}" text-anchor="end" dominant-baseline="middle" font-size="11" fill="${MUTED_COLOR}">${escapeXml(formatValue(value))}</text>`,
+    );
+  }
+
+  const bandWidth = data.length === 0 ? plotWidth : plotWidth / data.length;
+  const barWidth = round(bandWidth * 0.6);
+
+  data.forEach((row, rowIndex) => {
+    const x = round(
+      plotLeft + bandWidth * rowIndex + (bandWidth - barWidth) / 2,
+    );
+    let positiveBase = 0;
+    let negativeBase = 0;
+
+    series.forEach((name, seriesIndex) => {
+      const value = row.services[name] ?? 0;
+      if (value === 0) return;
+      const from = value > 0 ? positiveBase : negativeBase;
+      const to = from + value;
+      if (value > 0) positiveBase = to;
+      else negativeBase = to;
+      const y = Math.min(toY(from), toY(to));
+      const barHeight = round(Math.abs(toY(to) - toY(from)));
+      parts.push(
+        `<rect x="${x}" y="${y}" width="${barWidth}" height="${barHeight}" fill="${colors[seriesIndex] ?? "#94a3b8"}"><title>${escapeXml(`${name}: ${formatValue(value)}`)}</title></rect>`,
+      );
+    });
+
+    for (const line of budgetLines) {
+      if (line.period !== row.month) continue;
+      if (line.series !== null && !series.includes(line.series)) continue;
+      const y = toY(budgetLineBase(row, series, line) + line.amount);
+      const overhang = line.series === null ? 6 : 2;
+      const isOver = budgetLineActual(row, series, line) > line.amount;
+      parts.push(
+        `<line x1="${round(x - overhang)}" y1="${y}" x2="${round(x + barWidth + overhang)}" y2="${y}" stroke="${isOver ? OVER_BUDGET_COLOR : BUDGET_COLOR}" stroke-width="${line.series === null ? 2 : 1.5}" stroke-dasharray="${line.series === null ? "6 3" : "3 3"}"><title>${escapeXml(`予算${line.series === null ? "" : `（${line.series}）`}: ${formatValue(line.amount)}`)}</title></line>`,
+      );
+    }
+
+    const centerX = round(x + barWidth / 2);
+    const total = stacks[rowIndex].positive + stacks[rowIndex].negative;
+    const label = incompletePeriods.includes(row.month)
+      ? `${row.month} *`
+      : row.month;
+    parts.push(
+      `<text x="${centerX}" y="${toY(stacks[rowIndex].positive) - 6}" text-anchor="middle" font-size="12" font-weight="600" fill="${TEXT_COLOR}">${escapeXml(formatValue(total))}</text>`,
+      `<text x="${centerX}" y="${plotBottom + 18}" text-anchor="middle" font-size="11" fill="${MUTED_COLOR}">${escapeXml(label)}</text>`,
+    );
+  });
+
+  legendRows.forEach((items, rowIndex) => {
+    const y = height - padding - legendHeight + rowIndex * 20 + 10;
+    for (const item of items) {
+      parts.push(
+        `<rect x="${round(item.x)}" y="${y - 6}" width="12" height="12" fill="${item.color}"/>`,
+        `<text x="${round(item.x + 16)}" y="${y}" dominant-baseline="middle" font-size="${legendFontSize}" fill="${TEXT_COLOR}">${escapeXml(item.name)}</text>`,
+      );
+    }
+  });
+
+  parts.push("</svg>");
+  return parts.join("\n");
+};
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import type { ChartRow } from "./aggregate";
+import { getComposition, toShareRows } from "./chartViews";
+
+const rows: ChartRow[] = [
+  { month: "2024-03", services: { EC2: 300, S3: 100, Credit: -50 } },
+  { month: "2024-04", services: { EC2: 0, S3: 0 } },
+];
+
+describe("toShareRows", () => {
+  it("期間ごとにプラスの金額の合計を 1 とした割合にする", () => {
+    const [march] = toShareRows(rows, ["EC2", "S3", "Credit"]);
+    expect(march.services).toEqual({ EC2: 0.75, S3: 0.25, Credit: 0 });
+  });
+
+  it("合計が 0 の期間はすべて 0 にする", () => {
+    const [, april] = toShareRows(rows, ["EC2", "S3"]);
+    expect(april.services).toEqual({ EC2: 0, S3: 0 });
+  });
+});
+
+describe("getComposition", () => {
+  it("プラスの金額の系列だけを系列の順に割合付きで返す", () => {
+    expect(getComposition(rows[0], ["S3", "EC2", "Credit"])).toEqual([
+      { series: "S3", value: 100, share: 0.25 },
+      { series: "EC2", value: 300, share: 0.75 },
+    ]);
+  });
+
+  it("期間が見つからなければ空にする", () => {
+    expect(getComposition(undefined, ["EC2"])).toEqual([]);
+  });
+});
@@ -0,0 +1,64 @@
+import type { ChartRow } from "@/lib/aggregate";
+
+// stacked: 積み上げ棒（既定） / line: 系列ごとの折れ線 / share: 100% 積み上げの構成比 /
+// donut: 1 期間の内訳 / treemap: アカウント × サービス
+export type ChartType = "stacked" | "line" | "share" | "donut" | "treemap";
+
+export const CHART_TYPES: readonly ChartType[] = [
+  "stacked",
+  "line",
+  "share",
+  "donut",
+  "treemap",
+];
+
+export const CHART_TYPE_LABELS: Record<ChartType, string> = {
+  stacked: "積み上げ棒",
+  line: "折れ線",
+  share: "構成比（100%）",
+  donut: "ドーナツ",
+  treemap: "ツリーマップ",
+};
+
+/**
+ * 期間ごとに、系列の金額を期間の合計に対する割合（0〜1）にする。
+ * マイナス（クレジット）は積み上げられないため 0 とし、プラスの合計を 100% にする。
+ */
+export const toShareRows = (rows: ChartRow[], series: string[]): ChartRow[] =>
+  rows.map((row) => {
+    const total = series.reduce(
+      (sum, name) => sum + Math.max(row.services[name] ?? 0, 0),
+      0,
+    );
+    return {
+      month: row.month,
+      services: Object.fromEntries(
+        series.map((name) => [
+          name,
+          total > 0 ? Math.max(row.services[name] ?? 0, 0) / total : 0,
+        ]),
+      ),
+    };
+  });
+
+export type CompositionSlice = {
+  series: string;
+  value: number;
+  // プラスの金額の合計に対する割合
+  share: number;
+};
+
+/**
+ * 1 期間の系列ごとの内訳（ドーナツ用）。金額がプラスの系列だけを series の順に返す。
+ */
+export const getComposition = (
+  row: ChartRow | undefined,
+  series: string[],
+): CompositionSlice[] => {
+  if (!row) return [];
+  const positive = series
+    .map((name) => ({ series: name, value: row.services[name] ?? 0 }))
+    .filter((slice) => slice.value > 0);
+  const total = positive.reduce((sum, slice) => sum + slice.value, 0);
+  return positive.map((slice) => ({ ...slice, share: slice.value / total }));
+};
@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import {
+  assignSeriesColors,
+  COLOR_PALETTES,
+  DEFAULT_SERIES_COLOR_SETTINGS,
+  isSeriesColorSettings,
+  withAlpha,
+} from "./colors";
+
+const services = [
+  "Amazon EC2",
+  "Amazon S3",
+  "Amazon RDS",
+  "AWS Lambda",
+  "Amazon CloudFront",
+  "Amazon DynamoDB",
+];
+
+describe("assignSeriesColors", () => {
+  it("系列の並び順や選択に関係なく、同じ名前には同じ色を割り当てる", () => {
+    const all = assignSeriesColors(services, DEFAULT_SERIES_COLOR_SETTINGS);
+    const reversed = assignSeriesColors(
+      [...services].reverse(),
+      DEFAULT_SERIES_COLOR_SETTINGS,
+    );
+    expect(reversed).toEqual(all);
+  });
+
+  it("名前順で後ろの系列の選択を外しても、前の系列の色は変わらない", () => {
+    for (const palette of ["standard", "okabeIto"] as const) {
+      const settings = { palette, customColors: {} };
+      const sorted = [...services].sort((a, b) => a.localeCompare(b));
+      const all = assignSeriesColors(services, settings);
+      const rest = sorted.slice(0, -2);
+      const colors = assignSeriesColors(rest, settings);
+      for (const name of rest) {
+        expect(colors[name]).toBe(all[name]);
+      }
+    }
+  });
+
+  it("よく使う 10〜15 サービスにはすべて異なる色を割り当てる", () => {
+    const common = [
+      "Amazon EC2",
+      "Amazon S3",
+      "Amazon RDS",
+      "AWS Lambda",
+      "Amazon CloudFront",
+      "Amazon DynamoDB",
+      "Amazon VPC",
+      "Amazon CloudWatch",
+      "Amazon Route 53",
+      "AWS Key Management Service",
+      "Amazon Elastic Container Service",
+      "Amazon ElastiCache",
+      "Amazon Simple Queue Service",
+      "AWS Config",
+      "Amazon GuardDuty",
+    ];
+    for (const palette of ["standard", "okabeIto", "tolBright"] as const) {
+      for (const size of [10, 15]) {
+        const colors = assignSeriesColors(common.slice(0, size), {
+          palette,
+          customColors: {},
+        });
+        expect(new Set(Object.values(colors)).size).toBe(size);
+      }
+    }
+  });
+
+  it("パレットの色だけを割り当てる", () => {
+    const colors = assignSeriesColors(services, {
+      palette: "okabeIto",
+      customColors: {},
+    });
+    for (const color of Object.values(colors)) {
+      expect(COLOR_PALETTES.okabeIto.colors).toContain(color);
+    }
+  });
+
+  it("固定した色はその系列だけに使い、ほかの系列の色は変えない", () => {
+    const settings = { palette: "tolBright" as const, customColors: {} };
+    const before = assignSeriesColors(services, settings);
+    const colors = assignSeriesColors(services, {
+      ...settings,
+      customColors: { "Amazon EC2": "#123456" },
+    });
+    expect(colors["Amazon EC2"]).toBe("#123456");
+    for (const name of services.filter((name) => name !== "Amazon EC2")) {
+      expect(colors[name]).toBe(before[name]);
+    }
+  });
+
+  it("Object のプロパティ名と同じ系列名も扱える", () => {
+    const colors = assignSeriesColors(
+      ["constructor", "toString"],
+      DEFAULT_SERIES_COLOR_SETTINGS,
+    );
+    expect(colors.constructor).toMatch(/^#[0-9a-f]{6}$/);
+    expect(colors.toString).toMatch(/^#[0-9a-f]{6}$/);
+  });
+});
+
+describe("isSeriesColorSettings", () => {
+  it("既知のパレットと #rrggbb の固定色だけを受け付ける", () => {
+    expect(
+      isSeriesColorSettings({
+        palette: "okabeIto",
+        customColors: { "Amazon EC2": "#112233" },
+      }),
+    ).toBe(true);
+    expect(
+      isSeriesColorSettings({ palette: "rainbow", customColors: {} }),
+    ).toBe(false);
+    expect(
+      isSeriesColorSettings({
+        palette: "standard",
+        customColors: { "Amazon EC2": "red" },
+      }),
+    ).toBe(false);
+    expect(isSeriesColorSettings(null)).toBe(false);
+  });
+});
+
+describe("withAlpha", () => {
+  it("#rrggbb と hsl() に透明度を付ける", () => {
+    expect(withAlpha("#336699", 0.5)).toBe("#33669980");
+    expect(withAlpha("hsl(120 70% 52%)", 0.3)).toBe("hsl(120 70% 52% / 0.3)");
+  });
+});
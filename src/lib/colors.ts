@@ -0,0 +1,210 @@
+export type ColorPaletteId = "standard" | "okabeIto" | "tolBright" | "tolMuted";
+
+export type ColorPalette = {
+  label: string;
+  // 色覚の多様性（P 型・D 型など）に配慮した配色か
+  colorblindSafe: boolean;
+  colors: string[];
+};
+
+export const DEFAULT_COLOR_PALETTE: ColorPaletteId = "standard";
+
+export const COLOR_PALETTES: Record<ColorPaletteId, ColorPalette> = {
+  // Tableau 20 を濃い 10 色 → 淡い 10 色の順に並べ替えたもの（隣り合う色の色相が離れるように）
+  standard: {
+    label: "標準（20 色）",
+    colorblindSafe: false,
+    colors: [
+      "#4e79a7",
+      "#f28e2b",
+      "#e15759",
+      "#76b7b2",
+      "#59a14f",
+      "#edc948",
+      "#b07aa1",
+      "#ff9da7",
+      "#9c755f",
+      "#bab0ac",
+      "#a0cbe8",
+      "#ffbe7d",
+      "#ff9d9a",
+      "#86bcb6",
+      "#8cd17d",
+      "#f1ce63",
+      "#d4a6c8",
+      "#fabfd2",
+      "#d7b5a6",
+      "#79706e",
+    ],
+  },
+  // Okabe & Ito (2008)。黒は暗い背景で見えないため灰色に置き換えている
+  okabeIto: {
+    label: "Okabe-Ito（8 色）",
+    colorblindSafe: true,
+    colors: [
+      "#e69f00",
+      "#56b4e9",
+      "#009e73",
+      "#f0e442",
+      "#0072b2",
+      "#d55e00",
+      "#cc79a7",
+      "#999999",
+    ],
+  },
+  // Paul Tol の qualitative 配色
+  tolBright: {
+    label: "Tol bright（7 色）",
+    colorblindSafe: true,
+    colors: [
+      "#4477aa",
+      "#ee6677",
+      "#228833",
+      "#ccbb44",
+      "#66ccee",
+      "#aa3377",
+      "#bbbbbb",
+    ],
+  },
+  tolMuted: {
+    label: "Tol muted（9 色）",
+    colorblindSafe: true,
+    colors: [
+      "#cc6677",
+      "#332288",
+      "#ddcc77",
+      "#117733",
+      "#88ccee",
+      "#882255",
+      "#44aa99",
+      "#999933",
+      "#aa4499",
+    ],
+  },
+};
+
+export const COLOR_PALETTE_IDS = Object.keys(
+  COLOR_PALETTES,
+) as ColorPaletteId[];
+
+export type SeriesColorSettings = {
+  palette: ColorPaletteId;
+  // 系列名（サービス名・アカウント ID など）ごとに固定した色（#rrggbb）
+  customColors: Record<string, string>;
+};
+
+export const SERIES_COLORS_STORAGE_KEY = "series-colors";
+
+export const DEFAULT_SERIES_COLOR_SETTINGS: SeriesColorSettings = {
+  palette: DEFAULT_COLOR_PALETTE,
+  customColors: {},
+};
+
+export const isHexColor = (value: unknown): value is string =>
+  typeof value === "string" && /^#[0-9a-f]{6}$/i.test(value);
+
+export const isSeriesColorSettings = (
+  value: unknown,
+): value is SeriesColorSettings => {
+  if (typeof value !== "object" || value === null) return false;
+  const { palette, customColors } = value as Record<string, unknown>;
+  return (
+    typeof palette === "string" &&
+    palette in COLOR_PALETTES &&
+    typeof customColors === "object" &&
+    customColors !== null &&
+    !Array.isArray(customColors) &&
+    Object.values(customColors).every(isHexColor)
+  );
+};
+
+// 系列名の 32bit FNV-1a ハッシュ。同じ名前には常に同じ値を返す
+const hashName = (name: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < name.length; i++) {
+    hash ^= name.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const toHex = (value: number) =>
+  Math.round(value * 255)
+    .toString(16)
+    .padStart(2, "0");
+
+// パレットの色を使い切ったときの予備の色。名前のハッシュから色相を決める
+const hashToColor = (hash: number): string => {
+  const hue = hash % 360;
+  const saturation = 0.55;
+  const lightness = 0.6;
+  const chroma = (1 - Math.abs(2 * lightness - 1)) * saturation;
+  const x = chroma * (1 - Math.abs(((hue / 60) % 2) - 1));
+  const m = lightness - chroma / 2;
+  const [r, g, b] =
+    hue < 60
+      ? [chroma, x, 0]
+      : hue < 120
+        ? [x, chroma, 0]
+        : hue < 180
+          ? [0, chroma, x]
+          : hue < 240
+            ? [0, x, chroma]
+            : hue < 300
+              ? [x, 0, chroma]
+              : [chroma, 0, x];
+  return `#${toHex(r + m)}${toHex(g + m)}${toHex(b + m)}`;
+};
+
+/**
+ * 系列名から色を決める。並び順に左右されないよう、名前のハッシュでパレットの色を選び、
+ * 同じグラフの中で色が重なったときだけ（名前順に）パレットの次の空いている色へずらす。
+ * 固定した色（customColors）を優先し、パレットを使い切った系列にはハッシュから作った色を使う。
+ */
+export const assignSeriesColors = (
+  series: string[],
+  { palette, customColors }: SeriesColorSettings,
+): Record<string, string> => {
+  const colors = COLOR_PALETTES[palette].colors;
+  const result: Record<string, string> = {};
+  const used = new Set<string>();
+
+  for (const name of series) {
+    const custom = Object.hasOwn(customColors, name)
+      ? customColors[name]
+      : undefined;
+    if (custom && isHexColor(custom)) {
+      result[name] = custom;
+      used.add(custom.toLowerCase());
+    }
+  }
+
+  const rest = [...new Set(series)]
+    .filter((name) => !Object.hasOwn(result, name))
+    .sort((a, b) => a.localeCompare(b));
+  for (const name of rest) {
+    const hash = hashName(name);
+    const start = hash % colors.length;
+    let color: string | undefined;
+    for (let offset = 0; offset < colors.length; offset++) {
+      const candidate = colors[(start + offset) % colors.length];
+      if (!used.has(candidate)) {
+        color = candidate;
+        break;
+      }
+    }
+    result[name] = color ?? hashToColor(hash);
+    used.add(result[name]);
+  }
+  return result;
+};
+
+// 予測など補助的な表示に使う半透明色（hsl()/rgb() の空白区切り記法と #rrggbb に対応）
+export const withAlpha = (color: string, alpha: number) => {
+  if (/^#[0-9a-f]{6}$/i.test(color)) {
+    return `${color}${Math.round(alpha * 255)
+      .toString(16)
+      .padStart(2, "0")}`;
+  }
+  return color.replace(/\)$/, ` / ${alpha})`);
+};
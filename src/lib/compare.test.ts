@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { computeDeltas, getBaselinePeriod, sortDeltas } from "./compare";
+
+describe("getBaselinePeriod", () => {
+  it("月次の前期比は前月を返す", () => {
+    expect(getBaselinePeriod("2024-04", "month", "previous")).toBe("2024-03");
+  });
+
+  it("1 月の前月は前年 12 月になる", () => {
+    expect(getBaselinePeriod("2024-01", "month", "previous")).toBe("2023-12");
+  });
+
+  it("月次の前年同期比は前年の同じ月を返す", () => {
+    expect(getBaselinePeriod("2024-04", "month", "yearAgo")).toBe("2023-04");
+  });
+
+  it("年次はどちらも前年を返す", () => {
+    expect(getBaselinePeriod("2024", "year", "previous")).toBe("2023");
+    expect(getBaselinePeriod("2024", "year", "yearAgo")).toBe("2023");
+  });
+
+  it("四半期の前期比は前四半期、前年同期比は前年度の同じ四半期を返す", () => {
+    expect(getBaselinePeriod("FY2024-Q1", "quarter", "previous", 4)).toBe(
+      "FY2023-Q4",
+    );
+    expect(getBaselinePeriod("FY2024-Q1", "quarter", "yearAgo", 4)).toBe(
+      "FY2023-Q1",
+    );
+  });
+
+  it("年度はどちらも前年度を返す", () => {
+    expect(getBaselinePeriod("FY2024", "fiscalYear", "previous", 4)).toBe(
+      "FY2023",
+    );
+    expect(getBaselinePeriod("FY2024", "fiscalYear", "yearAgo", 4)).toBe(
+      "FY2023",
+    );
+  });
+});
+
+describe("computeDeltas", () => {
+  // tests/fixtures のアカウント 123456789012 の 2024-03 → 2024-04
+  const march = {
+    "Amazon EC2": 1234.56,
+    "Amazon S3": 456.78,
+    "Amazon RDS": 789.01,
+  };
+  const april = { "Amazon EC2": 1350, "Amazon S3": 480, "AWS Lambda": 130 };
+
+  it("系列ごとの増減額と増減率を返す", () => {
+    const [ec2] = computeDeltas(april, march, ["Amazon EC2"]);
+    expect(ec2.baseline).toBe(1234.56);
+    expect(ec2.current).toBe(1350);
+    expect(ec2.delta).toBeCloseTo(115.44);
+    expect(ec2.percent).toBeCloseTo(115.44 / 1234.56);
+  });
+
+  it("比較元にない系列は増減率を null にする", () => {
+    const [lambda] = computeDeltas(april, march, ["AWS Lambda"]);
+    expect(lambda.delta).toBe(130);
+    expect(lambda.percent).toBeNull();
+  });
+
+  it("比較先にない系列は全額減少として扱う", () => {
+    const [rds] = computeDeltas(april, march, ["Amazon RDS"]);
+    expect(rds.delta).toBeCloseTo(-789.01);
+    expect(rds.percent).toBe(-1);
+  });
+});
+
+describe("sortDeltas", () => {
+  const rows = computeDeltas({ a: 150, b: 50, c: 10 }, { a: 100, b: 100 }, [
+    "a",
+    "b",
+    "c",
+  ]);
+
+  it("増減額の降順に並べる", () => {
+    expect(sortDeltas(rows, "delta", "desc").map((r) => r.series)).toEqual([
+      "a",
+      "c",
+      "b",
+    ]);
+  });
+
+  it("増減率で並べると null は末尾に置く", () => {
+    expect(sortDeltas(rows, "percent", "asc").map((r) => r.series)).toEqual([
+      "b",
+      "a",
+      "c",
+    ]);
+    expect(sortDeltas(rows, "percent", "desc").map((r) => r.series)).toEqual([
+      "a",
+      "b",
+      "c",
+    ]);
+  });
+
+  it("系列名で並べる", () => {
+    expect(sortDeltas(rows, "series", "desc").map((r) => r.series)).toEqual([
+      "c",
+      "b",
+      "a",
+    ]);
+  });
+});
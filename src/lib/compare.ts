@@ -0,0 +1,74 @@
+import type { TimeUnit } from "@/lib/aggregate";
+import { MONTHS_PER_PERIOD, shiftPeriod } from "@/lib/periods";
+
+// none: 比較しない / previous: 前期（前月・前四半期・前年）比 / yearAgo: 前年同期比
+export type ComparisonMode = "none" | "previous" | "yearAgo";
+
+export type DeltaRow = {
+  series: string;
+  baseline: number;
+  current: number;
+  delta: number;
+  // 比較元が 0 の場合は増減率を定義できないため null
+  percent: number | null;
+};
+
+export type DeltaSortKey =
+  | "series"
+  | "baseline"
+  | "current"
+  | "delta"
+  | "percent";
+
+/**
+ * 比較元となる期間を返す。前期比は 1 つ前の期間、前年同期比は 1 年前の同じ期間
+ * （年次・年度ではどちらも前年・前年度）になる。
+ */
+export const getBaselinePeriod = (
+  period: string,
+  timeUnit: TimeUnit,
+  mode: Exclude<ComparisonMode, "none">,
+  fiscalStartMonth?: number,
+): string =>
+  shiftPeriod(
+    period,
+    timeUnit,
+    mode === "previous" ? -1 : -(12 / MONTHS_PER_PERIOD[timeUnit]),
+    fiscalStartMonth,
+  );
+
+export const computeDeltas = (
+  current: Record<string, number>,
+  baseline: Record<string, number>,
+  series: string[],
+): DeltaRow[] =>
+  series.map((name) => {
+    const currentValue = current[name] ?? 0;
+    const baselineValue = baseline[name] ?? 0;
+    const delta = currentValue - baselineValue;
+    return {
+      series: name,
+      baseline: baselineValue,
+      current: currentValue,
+      delta,
+      percent: baselineValue === 0 ? null : delta / Math.abs(baselineValue),
+    };
+  });
+
+export const sortDeltas = (
+  rows: DeltaRow[],
+  key: DeltaSortKey,
+  direction: "asc" | "desc",
+): DeltaRow[] => {
+  const sign = direction === "asc" ? 1 : -1;
+  return [...rows].sort((a, b) => {
+    if (key === "series") return sign * a.series.localeCompare(b.series);
+    // 増減率が null（新規）の行は並び順に関わらず末尾に置く
+    const av = a[key];
+    const bv = b[key];
+    if (av === null && bv === null) return 0;
+    if (av === null) return 1;
+    if (bv === null) return -1;
+    return sign * (av - bv);
+  });
+};
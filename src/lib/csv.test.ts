@@ -2,7 +2,9 @@ import { describe, expect, it } from "vitest";
 import {
   extractAccountFromFileName,
   extractMonthFromFileName,
+  NO_DESCRIPTION,
   normalizeCost,
+  summarizeReportRows,
 } from "./csv";
 
 describe("extractMonthFromFileName", () => {
@@ -82,3 +84,66 @@ describe("normalizeCost", () => {
     expect(normalizeCost("$0.00")).toBe(0);
   });
 });
+
+describe("summarizeReportRows", () => {
+  it("サービス別・明細別に合計する", () => {
+    const summary = summarizeReportRows([
+      { product_name: "Amazon EC2", cost: "100.00", description: "BoxUsage" },
+      { product_name: "Amazon EC2", cost: "$50.00", description: "EBS" },
+      { product_name: "Amazon EC2", cost: "25.00", description: "BoxUsage" },
+      { product_name: "Amazon S3", cost: "10.00", description: "Storage" },
+    ]);
+    expect(summary.services).toEqual({ "Amazon EC2": 175, "Amazon S3": 10 });
+    expect(summary.descriptions["Amazon EC2"]).toEqual({
+      BoxUsage: 125,
+      EBS: 50,
+    });
+    expect(summary.total).toBe(185);
+  });
+
+  it("description が空の行は「説明なし」にまとめる", () => {
+    const summary = summarizeReportRows([
+      { product_name: "Amazon S3", cost: "1.00" },
+      { product_name: "Amazon S3", cost: "2.00", description: " " },
+    ]);
+    expect(summary.descriptions["Amazon S3"]).toEqual({ [NO_DESCRIPTION]: 3 });
+  });
+
+  it("サービス名が空の行とコスト 0 の行は読み飛ばす", () => {
+    const summary = summarizeReportRows([
+      { product_name: "", cost: "100.00" },
+      { product_name: "Amazon S3", cost: "0" },
+    ]);
+    expect(summary).toEqual({ services: {}, descriptions: {}, total: 0 });
+  });
+
+  it("stats を渡すとコスト 0 で読み飛ばした行を数える", () => {
+    const stats = { zeroCostRows: 1 };
+    summarizeReportRows(
+      [
+        { product_name: "", cost: "0" },
+        { product_name: "Amazon S3", cost: "0" },
+        { product_name: "Amazon S3", cost: "$0.00" },
+        { product_name: "Amazon S3", cost: "1" },
+      ],
+      undefined,
+      stats,
+    );
+    expect(stats.zeroCostRows).toBe(3);
+  });
+
+  it("指定したカラムをサービス名・金額・明細として使う", () => {
+    const summary = summarizeReportRows(
+      [
+        { サービス: "Amazon EC2", 金額: "1,000", 明細: "BoxUsage" },
+        { サービス: "Amazon EC2", 金額: "500" },
+      ],
+      { service: "サービス", cost: "金額", description: "明細" },
+    );
+    expect(summary.services).toEqual({ "Amazon EC2": 1500 });
+    expect(summary.descriptions["Amazon EC2"]).toEqual({
+      BoxUsage: 1000,
+      [NO_DESCRIPTION]: 500,
+    });
+  });
+});
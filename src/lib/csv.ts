@@ -16,3 +16,67 @@ export const normalizeCost = (value: string | undefined): number => {
   const parsed = Number.parseFloat(normalized);
   return Number.isFinite(parsed) ? parsed : 0;
 };
+
+export const NO_DESCRIPTION = "(説明なし)";
+
+export type ReportSummary = {
+  services: Record<string, number>;
+  descriptions: Record<string, Record<string, number>>;
+  total: number;
+};
+
+// 解析中に数える件数（インポートログに表示する）。集計関数に渡すと加算する
+export type ParseStats = {
+  // コスト 0 のため読み飛ばした明細の数
+  zeroCostRows: number;
+};
+
+// サービス名・金額・明細に使うカラム。取り込み設定で任意のカラムを割り当てられる
+export type ReportColumns = {
+  service: string;
+  cost: string;
+  // 空文字なら明細は「(説明なし)」にまとめる
+  description: string;
+};
+
+export const DEFAULT_REPORT_COLUMNS: ReportColumns = {
+  service: "product_name",
+  cost: "cost",
+  description: "description",
+};
+
+// CSV の各行をサービス別・明細（description）別に合計する。コスト 0 の行は読み飛ばす
+export const summarizeReportRows = (
+  rows: Array<Record<string, string | undefined>>,
+  columns: ReportColumns = DEFAULT_REPORT_COLUMNS,
+  stats?: ParseStats,
+): ReportSummary => {
+  const services: Record<string, number> = {};
+  const descriptions: Record<string, Record<string, number>> = {};
+  let total = 0;
+
+  for (const row of rows) {
+    const service = row[columns.service]?.trim();
+    if (!service) {
+      continue;
+    }
+
+    const cost = normalizeCost(row[columns.cost]);
+    if (cost === 0) {
+      if (stats) stats.zeroCostRows += 1;
+      continue;
+    }
+
+    const description =
+      (columns.description && row[columns.description]?.trim()) ||
+      NO_DESCRIPTION;
+    const byDescription = descriptions[service] ?? {};
+    byDescription[description] = (byDescription[description] ?? 0) + cost;
+    descriptions[service] = byDescription;
+
+    services[service] = (services[service] ?? 0) + cost;
+    total += cost;
+  }
+
+  return { services, descriptions, total };
+};
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import {
+  convertReports,
+  getCurrencyFormatter,
+  mergeExchangeRates,
+  parseExchangeRatesCsv,
+  resolveMonthlyRates,
+  toExchangeRatesCsv,
+} from "./currency";
+import type { MonthlyReport } from "./reports";
+
+describe("resolveMonthlyRates", () => {
+  const rates = { JPY: { "2024-03": 150, "2024-06": 160 } };
+
+  it("基準通貨は常にレート 1 になる", () => {
+    expect(resolveMonthlyRates(["2024-03"], "USD", {})).toEqual({
+      "2024-03": { rate: 1, sourceMonth: null },
+    });
+  });
+
+  it("入力した月はそのレート、未入力の月は最も近い月のレートを使う", () => {
+    const applied = resolveMonthlyRates(
+      ["2024-02", "2024-03", "2024-04", "2024-05", "2025-01"],
+      "JPY",
+      rates,
+    );
+    expect(applied?.["2024-02"]).toEqual({ rate: 150, sourceMonth: "2024-03" });
+    expect(applied?.["2024-03"]).toEqual({ rate: 150, sourceMonth: "2024-03" });
+    expect(applied?.["2024-04"]).toEqual({ rate: 150, sourceMonth: "2024-03" });
+    expect(applied?.["2024-05"]).toEqual({ rate: 160, sourceMonth: "2024-06" });
+    expect(applied?.["2025-01"]).toEqual({ rate: 160, sourceMonth: "2024-06" });
+  });
+
+  it("同じ距離なら前の月のレートを使う", () => {
+    expect(
+      resolveMonthlyRates(["2024-04"], "JPY", {
+        JPY: { "2024-03": 150, "2024-05": 155 },
+      })?.["2024-04"].sourceMonth,
+    ).toBe("2024-03");
+  });
+
+  it("レートが 1 件もなければ null を返す", () => {
+    expect(resolveMonthlyRates(["2024-03"], "EUR", rates)).toBeNull();
+  });
+});
+
+describe("convertReports", () => {
+  it("サービス・明細・合計を月ごとのレートで換算する", () => {
+    const report: MonthlyReport = {
+      month: "2024-03",
+      services: { "Amazon EC2": 10 },
+      descriptions: { "Amazon EC2": { BoxUsage: 10 } },
+      total: 10,
+      fileName: "monthly-report-2024-03-123456789012.csv",
+      accountId: "123456789012",
+    };
+    const converted = convertReports(
+      { "2024-03": [report] },
+      { "2024-03": { rate: 150, sourceMonth: "2024-03" } },
+    );
+    expect(converted["2024-03"][0].services["Amazon EC2"]).toBe(1500);
+    expect(converted["2024-03"][0].descriptions?.["Amazon EC2"].BoxUsage).toBe(
+      1500,
+    );
+    expect(converted["2024-03"][0].total).toBe(1500);
+    expect(report.total).toBe(10);
+  });
+});
+
+describe("getCurrencyFormatter", () => {
+  it("通貨の小数桁に合わせて書式化する", () => {
+    expect(getCurrencyFormatter("USD").format(1234.5)).toBe("$1,234.50");
+    expect(getCurrencyFormatter("JPY").format(1234.5)).toBe("¥1,235");
+    expect(getCurrencyFormatter("USD", true).format(5)).toBe("+$5.00");
+  });
+});
+
+describe("parseExchangeRatesCsv", () => {
+  it("currency 列がなければ指定した通貨のレートとして読み込む", () => {
+    const csv = 'month,rate\n2024/4,151.2\n2024-05,"1,350.5"\n';
+    expect(parseExchangeRatesCsv(csv, "KRW")).toEqual({
+      KRW: { "2024-04": 151.2, "2024-05": 1350.5 },
+    });
+  });
+
+  it("currency 列があれば通貨ごとに読み込む", () => {
+    const csv = "currency,month,rate\njpy,2024-03,150\nEUR,2024-03,0.92\n";
+    expect(parseExchangeRatesCsv(csv, "JPY")).toEqual({
+      JPY: { "2024-03": 150 },
+      EUR: { "2024-03": 0.92 },
+    });
+  });
+
+  it("不正な行があればエラーにする", () => {
+    expect(() =>
+      parseExchangeRatesCsv("month,rate\n2024-13,150\n", "JPY"),
+    ).toThrow("2 行目");
+    expect(() => parseExchangeRatesCsv("date,value\n", "JPY")).toThrow(
+      "必須カラム",
+    );
+  });
+
+  it("書き出した CSV を読み戻せる", () => {
+    const rates = mergeExchangeRates(
+      { JPY: { "2024-03": 150 } },
+      { JPY: { "2024-04": 151 }, EUR: { "2024-03": 0.92 } },
+    );
+    expect(parseExchangeRatesCsv(toExchangeRatesCsv(rates), "USD")).toEqual(
+      rates,
+    );
+  });
+});
@@ -0,0 +1,226 @@
+import * as Papa from "papaparse";
+import { monthIndex } from "@/lib/periods";
+import type { MonthlyReport } from "@/lib/reports";
+
+// CSV の金額はすべて USD。表示通貨へは月ごとの為替レート（1 USD あたりの金額）で換算する
+export const BASE_CURRENCY = "USD";
+
+export const DISPLAY_CURRENCIES = [
+  "USD",
+  "JPY",
+  "EUR",
+  "GBP",
+  "AUD",
+  "CAD",
+  "CNY",
+  "KRW",
+  "SGD",
+  "TWD",
+  "HKD",
+  "INR",
+];
+
+// 通貨コード -> 年月（YYYY-MM）-> 1 USD あたりのレート
+export type ExchangeRateTable = Record<string, Record<string, number>>;
+
+export type CurrencySettings = {
+  currency: string;
+  rates: ExchangeRateTable;
+};
+
+export const CURRENCY_SETTINGS_STORAGE_KEY = "currency-settings";
+
+export const DEFAULT_CURRENCY_SETTINGS: CurrencySettings = {
+  currency: BASE_CURRENCY,
+  rates: {},
+};
+
+// sourceMonth はレートを入力した月。その月のレートがなければ最も近い月のレートを使う
+export type AppliedRate = {
+  rate: number;
+  sourceMonth: string | null;
+};
+
+const MONTH_PATTERN = /^\d{4}-\d{2}$/;
+
+const isPositiveNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value > 0;
+
+export const isCurrencySettings = (
+  value: unknown,
+): value is CurrencySettings => {
+  if (typeof value !== "object" || value === null) return false;
+  const candidate = value as Record<string, unknown>;
+  if (typeof candidate.currency !== "string") return false;
+  const rates = candidate.rates;
+  if (typeof rates !== "object" || rates === null || Array.isArray(rates))
+    return false;
+  return Object.values(rates).every(
+    (byMonth) =>
+      typeof byMonth === "object" &&
+      byMonth !== null &&
+      Object.entries(byMonth).every(
+        ([month, rate]) => MONTH_PATTERN.test(month) && isPositiveNumber(rate),
+      ),
+  );
+};
+
+const formatterCache = new Map<string, Intl.NumberFormat>();
+
+/**
+ * 通貨ごとの金額フォーマッター。小数桁は通貨の慣習に従う（USD は 2 桁、JPY は 0 桁）。
+ */
+export const getCurrencyFormatter = (
+  currency: string,
+  signed = false,
+): Intl.NumberFormat => {
+  const key = `${currency}:${signed}`;
+  const cached = formatterCache.get(key);
+  if (cached) return cached;
+  const digits =
+    new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency,
+    }).resolvedOptions().maximumFractionDigits ?? 2;
+  const formatter = new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency,
+    signDisplay: signed ? "exceptZero" : "auto",
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  });
+  formatterCache.set(key, formatter);
+  return formatter;
+};
+
+/**
+ * 各月に適用するレートを決める。レート未入力の月は最も近い月（同じ距離なら前の月）のレートを使う。
+ * 基準通貨は常に 1、レートが 1 件もなければ null を返す。
+ */
+export const resolveMonthlyRates = (
+  months: string[],
+  currency: string,
+  rates: ExchangeRateTable,
+): Record<string, AppliedRate> | null => {
+  if (currency === BASE_CURRENCY) {
+    return Object.fromEntries(
+      months.map((month) => [month, { rate: 1, sourceMonth: null }]),
+    );
+  }
+  const entries = Object.entries(rates[currency] ?? {}).filter(([, rate]) =>
+    isPositiveNumber(rate),
+  );
+  if (entries.length === 0) return null;
+
+  return Object.fromEntries(
+    months.map((month) => {
+      const target = monthIndex(month);
+      let best = entries[0];
+      for (const entry of entries) {
+        const distance = Math.abs(monthIndex(entry[0]) - target);
+        const bestDistance = Math.abs(monthIndex(best[0]) - target);
+        if (
+          distance < bestDistance ||
+          (distance === bestDistance && entry[0] < best[0])
+        ) {
+          best = entry;
+        }
+      }
+      return [month, { rate: best[1], sourceMonth: best[0] }];
+    }),
+  );
+};
+
+const scaleRecord = (record: Record<string, number>, rate: number) =>
+  Object.fromEntries(
+    Object.entries(record).map(([name, cost]) => [name, cost * rate]),
+  );
+
+/**
+ * レポートの金額を月ごとのレートで表示通貨に換算する。レートのない月はそのまま返す。
+ */
+export const convertReports = (
+  reportsByMonth: Record<string, MonthlyReport[]>,
+  appliedRates: Record<string, AppliedRate>,
+): Record<string, MonthlyReport[]> =>
+  Object.fromEntries(
+    Object.entries(reportsByMonth).map(([month, reports]) => {
+      const rate = appliedRates[month]?.rate ?? 1;
+      if (rate === 1) return [month, reports];
+      return [
+        month,
+        reports.map((report) => ({
+          ...report,
+          services: scaleRecord(report.services, rate),
+          descriptions: report.descriptions
+            ? Object.fromEntries(
+                Object.entries(report.descriptions).map(([service, byDesc]) => [
+                  service,
+                  scaleRecord(byDesc, rate),
+                ]),
+              )
+            : undefined,
+          total: report.total * rate,
+        })),
+      ];
+    }),
+  );
+
+const normalizeMonth = (value: string): string | null => {
+  const match = value.trim().match(/^(\d{4})[-/](\d{1,2})$/);
+  if (!match) return null;
+  const mon = Number(match[2]);
+  if (mon < 1 || mon > 12) return null;
+  return `${match[1]}-${String(mon).padStart(2, "0")}`;
+};
+
+/**
+ * month・rate 列（任意で currency 列）を持つ CSV を読み込む。currency 列がなければ defaultCurrency のレートとする。
+ */
+export const parseExchangeRatesCsv = (
+  text: string,
+  defaultCurrency: string,
+): ExchangeRateTable => {
+  const { data, meta } = Papa.parse<Record<string, string>>(text, {
+    header: true,
+    skipEmptyLines: "greedy",
+    transformHeader: (header) => header.trim(),
+  });
+  const fields = meta.fields ?? [];
+  if (!fields.includes("month") || !fields.includes("rate")) {
+    throw new Error("必須カラム（month, rate）が見つかりません。");
+  }
+
+  const table: ExchangeRateTable = {};
+  data.forEach((row, index) => {
+    const month = normalizeMonth(row.month ?? "");
+    const rate = Number(String(row.rate ?? "").replace(/,/g, ""));
+    const currency = (row.currency?.trim() || defaultCurrency).toUpperCase();
+    if (!month || !isPositiveNumber(rate)) {
+      throw new Error(`${index + 2} 行目の年月またはレートが不正です。`);
+    }
+    table[currency] = { ...table[currency], [month]: rate };
+  });
+  return table;
+};
+
+export const toExchangeRatesCsv = (rates: ExchangeRateTable): string =>
+  Papa.unparse({
+    fields: ["currency", "month", "rate"],
+    data: Object.entries(rates).flatMap(([currency, byMonth]) =>
+      Object.entries(byMonth)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([month, rate]) => [currency, month, rate]),
+    ),
+  });
+
+export const mergeExchangeRates = (
+  existing: ExchangeRateTable,
+  imported: ExchangeRateTable,
+): ExchangeRateTable => {
+  const merged: ExchangeRateTable = { ...existing };
+  for (const [currency, byMonth] of Object.entries(imported)) {
+    merged[currency] = { ...merged[currency], ...byMonth };
+  }
+  return merged;
+};
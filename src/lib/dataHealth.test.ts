@@ -0,0 +1,254 @@
+import { describe, expect, it } from "vitest";
+import {
+  checkDataHealth,
+  diffReports,
+  findMissingMonths,
+  findNegativeServices,
+  findReplacements,
+  findUnusualRowCounts,
+  isReportReplacementList,
+  rowCountsFromImportLog,
+} from "./dataHealth";
+import { createImportLogEntry } from "./importLog";
+import { groupReportsByMonth, type MonthlyReport } from "./reports";
+
+const report = (
+  month: string,
+  accountId: string,
+  services: Record<string, number>,
+  descriptions?: Record<string, Record<string, number>>,
+): MonthlyReport => ({
+  month,
+  services,
+  descriptions,
+  total: Object.values(services).reduce((sum, cost) => sum + cost, 0),
+  fileName: `monthly-report-${month}-${accountId}.csv`,
+  accountId,
+});
+
+const replacedAt = new Date("2024-05-01T00:00:00Z");
+
+describe("findMissingMonths", () => {
+  it("アカウントの最初の月から全体の最新月までで、レポートのない月を返す", () => {
+    const reportsByMonth = groupReportsByMonth([
+      report("2024-01", "111", { EC2: 1 }),
+      report("2024-02", "111", { EC2: 1 }),
+      report("2024-04", "111", { EC2: 1 }),
+      report("2024-03", "222", { EC2: 1 }),
+      report("2024-04", "222", { EC2: 1 }),
+      report("2023-11", "333", { EC2: 1 }),
+    ]);
+
+    expect(findMissingMonths(reportsByMonth)).toEqual([
+      { kind: "missingMonths", account: "111", months: ["2024-03"] },
+      {
+        kind: "missingMonths",
+        account: "333",
+        months: ["2023-12", "2024-01", "2024-02", "2024-03", "2024-04"],
+      },
+    ]);
+  });
+
+  it("データがなければ空", () => {
+    expect(findMissingMonths({})).toEqual([]);
+  });
+});
+
+describe("diffReports / findReplacements", () => {
+  it("サービスごとの差を差の大きい順に返す", () => {
+    expect(
+      diffReports(
+        report("2024-03", "111", { EC2: 100, S3: 10, RDS: 5 }),
+        report("2024-03", "111", { EC2: 90, S3: 10, Lambda: 30 }),
+      ),
+    ).toEqual([
+      { service: "Lambda", previous: 0, current: 30, delta: 30 },
+      { service: "EC2", previous: 100, current: 90, delta: -10 },
+      { service: "RDS", previous: 5, current: 0, delta: -5 },
+    ]);
+  });
+
+  it("合計の異なる置き換えだけを記録し、同じ取り込み内の置き換えも対象にする", () => {
+    const existing = groupReportsByMonth([
+      report("2024-03", "111", { EC2: 100 }),
+      report("2024-03", "222", { EC2: 50 }),
+    ]);
+    const replacements = findReplacements(
+      existing,
+      [
+        report("2024-03", "111", { EC2: 120 }),
+        report("2024-03", "222", { EC2: 50 }),
+        report("2024-04", "111", { EC2: 1 }),
+        report("2024-04", "111", { EC2: 2 }),
+      ],
+      replacedAt,
+    );
+
+    expect(
+      replacements.map(({ month, account, previousTotal, total }) => [
+        month,
+        account,
+        previousTotal,
+        total,
+      ]),
+    ).toEqual([
+      ["2024-03", "111", 100, 120],
+      ["2024-04", "111", 1, 2],
+    ]);
+    expect(replacements[0]).toMatchObject({
+      replacedAt: "2024-05-01T00:00:00.000Z",
+      previousFileName: "monthly-report-2024-03-111.csv",
+      fileName: "monthly-report-2024-03-111.csv",
+      changes: [{ service: "EC2", previous: 100, current: 120, delta: 20 }],
+    });
+    expect(isReportReplacementList(replacements)).toBe(true);
+    expect(isReportReplacementList([{ ...replacements[0], changes: 1 }])).toBe(
+      false,
+    );
+  });
+});
+
+describe("findNegativeServices", () => {
+  it("合計がマイナスのサービスを返し、明細がすべてマイナスならクレジットのみとする", () => {
+    const reportsByMonth = groupReportsByMonth([
+      report(
+        "2024-03",
+        "111",
+        { EC2: 100, Support: -20, Credits: -5 },
+        {
+          EC2: { BoxUsage: 100 },
+          Support: { Fee: 10, Refund: -30 },
+          Credits: { Promo: -5 },
+        },
+      ),
+      report("2024-04", "222", { S3: -1 }),
+    ]);
+
+    expect(findNegativeServices(reportsByMonth)).toEqual([
+      {
+        kind: "negativeService",
+        account: "111",
+        month: "2024-03",
+        service: "Credits",
+        amount: -5,
+        creditOnly: true,
+      },
+      {
+        kind: "negativeService",
+        account: "111",
+        month: "2024-03",
+        service: "Support",
+        amount: -20,
+        creditOnly: false,
+      },
+      {
+        kind: "negativeService",
+        account: "222",
+        month: "2024-04",
+        service: "S3",
+        amount: -1,
+        creditOnly: false,
+      },
+    ]);
+  });
+});
+
+describe("rowCountsFromImportLog / findUnusualRowCounts", () => {
+  const at = new Date("2024-05-01T00:00:00Z");
+  const entry = (
+    month: string,
+    accountId: string,
+    rowCount: number,
+    status: "imported" | "replaced" | "failed" = "imported",
+  ) =>
+    createImportLogEntry(
+      {
+        path: `${month}-${accountId}.csv`,
+        status,
+        rowCount,
+        reports: [report(month, accountId, { EC2: 1 })],
+      },
+      at,
+    );
+
+  it("1 アカウント・1 か月のファイルの最新の行数を使う", () => {
+    const multiMonth = createImportLogEntry(
+      {
+        path: "cur.csv",
+        status: "imported",
+        rowCount: 5000,
+        reports: [
+          report("2024-01", "111", { EC2: 1 }),
+          report("2024-02", "111", { EC2: 1 }),
+        ],
+      },
+      at,
+    );
+    // ログは新しい順
+    expect(
+      rowCountsFromImportLog([
+        entry("2024-01", "111", 120, "replaced"),
+        entry("2024-01", "111", 10),
+        entry("2024-02", "111", 99, "failed"),
+        multiMonth,
+      ]),
+    ).toEqual([{ account: "111", month: "2024-01", rowCount: 120 }]);
+  });
+
+  it("同じアカウントのほかの月の中央値と比べて極端に多い・少ない月を返す", () => {
+    const records = [
+      { account: "111", month: "2024-01", rowCount: 100 },
+      { account: "111", month: "2024-02", rowCount: 110 },
+      { account: "111", month: "2024-03", rowCount: 20 },
+      { account: "111", month: "2024-04", rowCount: 400 },
+      { account: "111", month: "2024-05", rowCount: 105 },
+      // ほかの月が少ないアカウントは判定しない
+      { account: "222", month: "2024-01", rowCount: 1 },
+      { account: "222", month: "2024-02", rowCount: 1000 },
+    ];
+
+    expect(findUnusualRowCounts(records)).toEqual([
+      {
+        kind: "unusualRowCount",
+        account: "111",
+        month: "2024-03",
+        rowCount: 20,
+        typical: 107.5,
+      },
+      {
+        kind: "unusualRowCount",
+        account: "111",
+        month: "2024-04",
+        rowCount: 400,
+        typical: 102.5,
+      },
+    ]);
+  });
+});
+
+describe("checkDataHealth", () => {
+  it("欠落 → 置き換え → マイナス → 行数の順にまとめ、残っていないアカウント・月の記録は除く", () => {
+    const reportsByMonth = groupReportsByMonth([
+      report("2024-01", "111", { EC2: 1 }),
+      report("2024-03", "111", { EC2: -1 }),
+    ]);
+    const replacements = [
+      ...findReplacements(
+        groupReportsByMonth([report("2024-01", "111", { EC2: 5 })]),
+        [report("2024-01", "111", { EC2: 1 })],
+        replacedAt,
+      ),
+      ...findReplacements(
+        groupReportsByMonth([report("2023-12", "111", { EC2: 5 })]),
+        [report("2023-12", "111", { EC2: 1 })],
+        replacedAt,
+      ),
+    ];
+
+    expect(
+      checkDataHealth({ reportsByMonth, replacements, rowCounts: [] }).map(
+        (finding) => finding.kind,
+      ),
+    ).toEqual(["missingMonths", "replaced", "negativeService"]);
+  });
+});
@@ -0,0 +1,347 @@
+import type { ImportLogEntry } from "@/lib/importLog";
+import { monthIndex, nextMonths } from "@/lib/periods";
+import { getReportKey, type MonthlyReport } from "@/lib/reports";
+
+// 金額の差はこの値未満なら同じとみなす（浮動小数点の誤差を無視する）
+const AMOUNT_EPSILON = 0.005;
+
+export type ServiceChange = {
+  service: string;
+  previous: number;
+  current: number;
+  delta: number;
+};
+
+/**
+ * 同一アカウント・同一月のレポートを、合計の異なるファイルで置き換えた記録。
+ * 置き換えたあとは元のレポートが残らないため、取り込み時に差分を保存しておく。
+ */
+export type ReportReplacement = {
+  id: string;
+  // ISO 8601
+  replacedAt: string;
+  month: string;
+  // アカウント ID（なければファイル名）
+  account: string;
+  previousFileName: string;
+  fileName: string;
+  previousTotal: number;
+  total: number;
+  // 金額の変わったサービス（差の絶対値の大きい順）
+  changes: ServiceChange[];
+};
+
+export const REPORT_REPLACEMENTS_STORAGE_KEY = "report-replacements";
+
+export const MAX_REPORT_REPLACEMENTS = 200;
+
+const isServiceChange = (value: unknown): value is ServiceChange => {
+  if (typeof value !== "object" || value === null) return false;
+  const candidate = value as Record<string, unknown>;
+  return (
+    typeof candidate.service === "string" &&
+    typeof candidate.previous === "number" &&
+    typeof candidate.current === "number" &&
+    typeof candidate.delta === "number"
+  );
+};
+
+export const isReportReplacement = (
+  value: unknown,
+): value is ReportReplacement => {
+  if (typeof value !== "object" || value === null) return false;
+  const candidate = value as Record<string, unknown>;
+  return (
+    typeof candidate.id === "string" &&
+    typeof candidate.replacedAt === "string" &&
+    typeof candidate.month === "string" &&
+    typeof candidate.account === "string" &&
+    typeof candidate.previousFileName === "string" &&
+    typeof candidate.fileName === "string" &&
+    typeof candidate.previousTotal === "number" &&
+    typeof candidate.total === "number" &&
+    Array.isArray(candidate.changes) &&
+    candidate.changes.every(isServiceChange)
+  );
+};
+
+export const isReportReplacementList = (
+  value: unknown,
+): value is ReportReplacement[] =>
+  Array.isArray(value) && value.every(isReportReplacement);
+
+// サービスごとの金額の差。差のないサービスは含めない
+export const diffReports = (
+  previous: MonthlyReport,
+  current: MonthlyReport,
+): ServiceChange[] => {
+  const services = new Set([
+    ...Object.keys(previous.services),
+    ...Object.keys(current.services),
+  ]);
+  return [...services]
+    .map((service) => {
+      const before = previous.services[service] ?? 0;
+      const after = current.services[service] ?? 0;
+      return {
+        service,
+        previous: before,
+        current: after,
+        delta: after - before,
+      };
+    })
+    .filter((change) => Math.abs(change.delta) >= AMOUNT_EPSILON)
+    .sort(
+      (a, b) =>
+        Math.abs(b.delta) - Math.abs(a.delta) ||
+        a.service.localeCompare(b.service),
+    );
+};
+
+/**
+ * 取り込むレポートのうち、既存のレポート（または同じ取り込みで先に追加したレポート）を
+ * 合計の異なる内容で置き換えるものを返す。合計が同じなら再アップロードとみなして記録しない。
+ */
+export const findReplacements = (
+  existing: Record<string, MonthlyReport[]>,
+  nextReports: MonthlyReport[],
+  replacedAt: Date,
+): ReportReplacement[] => {
+  const current = new Map<string, MonthlyReport>();
+  const toKey = (report: MonthlyReport) =>
+    `${report.month}\u0000${getReportKey(report)}`;
+  for (const report of Object.values(existing).flat()) {
+    current.set(toKey(report), report);
+  }
+
+  const replacements: ReportReplacement[] = [];
+  for (const report of nextReports) {
+    const key = toKey(report);
+    const previous = current.get(key);
+    current.set(key, report);
+    if (!previous || Math.abs(report.total - previous.total) < AMOUNT_EPSILON) {
+      continue;
+    }
+    replacements.push({
+      id: crypto.randomUUID(),
+      replacedAt: replacedAt.toISOString(),
+      month: report.month,
+      account: getReportKey(report),
+      previousFileName: previous.fileName,
+      fileName: report.fileName,
+      previousTotal: previous.total,
+      total: report.total,
+      changes: diffReports(previous, report),
+    });
+  }
+  return replacements;
+};
+
+export type HealthFinding =
+  | { kind: "missingMonths"; account: string; months: string[] }
+  | { kind: "replaced"; replacement: ReportReplacement }
+  | {
+      kind: "negativeService";
+      account: string;
+      month: string;
+      service: string;
+      amount: number;
+      // 明細がすべてマイナス（クレジットだけのサービス）
+      creditOnly: boolean;
+    }
+  | {
+      kind: "unusualRowCount";
+      account: string;
+      month: string;
+      rowCount: number;
+      // 同じアカウントのほかの月の行数の中央値
+      typical: number;
+    };
+
+/**
+ * アカウントごとに、最初のレポートの月からデータ全体の最新月までで、レポートのない月を返す。
+ * 途中で止まったアカウント（最新月が欠けている）も欠落として扱う。
+ */
+export const findMissingMonths = (
+  reportsByMonth: Record<string, MonthlyReport[]>,
+): HealthFinding[] => {
+  const monthsByAccount = new Map<string, Set<string>>();
+  const allMonths = Object.keys(reportsByMonth).filter(
+    (month) => (reportsByMonth[month] ?? []).length > 0,
+  );
+  for (const month of allMonths) {
+    for (const report of reportsByMonth[month] ?? []) {
+      const account = getReportKey(report);
+      const months = monthsByAccount.get(account) ?? new Set<string>();
+      months.add(month);
+      monthsByAccount.set(account, months);
+    }
+  }
+  const latest = allMonths.sort((a, b) => a.localeCompare(b)).at(-1);
+  if (!latest) return [];
+
+  const findings: HealthFinding[] = [];
+  for (const [account, months] of [...monthsByAccount].sort(([a], [b]) =>
+    a.localeCompare(b),
+  )) {
+    const first = [...months].sort((a, b) => a.localeCompare(b))[0];
+    if (!first) continue;
+    const span = monthIndex(latest) - monthIndex(first);
+    const missing = nextMonths(first, span).filter(
+      (month) => !months.has(month),
+    );
+    if (missing.length > 0) {
+      findings.push({ kind: "missingMonths", account, months: missing });
+    }
+  }
+  return findings;
+};
+
+// 合計がマイナスのサービス（クレジット・返金が利用額を上回った、またはクレジットだけ）
+export const findNegativeServices = (
+  reportsByMonth: Record<string, MonthlyReport[]>,
+): HealthFinding[] =>
+  Object.keys(reportsByMonth)
+    .sort((a, b) => a.localeCompare(b))
+    .flatMap((month) =>
+      (reportsByMonth[month] ?? []).flatMap((report): HealthFinding[] =>
+        Object.entries(report.services)
+          .filter(([, amount]) => amount <= -AMOUNT_EPSILON)
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([service, amount]) => {
+            const lines = Object.values(report.descriptions?.[service] ?? {});
+            return {
+              kind: "negativeService",
+              account: getReportKey(report),
+              month,
+              service,
+              amount,
+              creditOnly: lines.length > 0 && lines.every((cost) => cost < 0),
+            };
+          }),
+      ),
+    );
+
+export type RowCountRecord = {
+  account: string;
+  month: string;
+  rowCount: number;
+};
+
+/**
+ * インポートログから、1 アカウント・1 か月分のファイルの行数を取り出す（同じ月は最新の取り込みを使う）。
+ * CUR など複数の月・アカウントを含むファイルは月ごとの行数がわからないため使わない。
+ */
+export const rowCountsFromImportLog = (
+  log: ImportLogEntry[],
+): RowCountRecord[] => {
+  const records = new Map<string, RowCountRecord>();
+  // ログは新しい順に並んでいる
+  for (const entry of log) {
+    if (entry.status !== "imported" && entry.status !== "replaced") continue;
+    const [account] = entry.accounts;
+    const [month] = entry.months;
+    if (entry.accounts.length !== 1 || entry.months.length !== 1) continue;
+    if (account === undefined || month === undefined) continue;
+    const key = `${month}\u0000${account}`;
+    if (!records.has(key)) {
+      records.set(key, { account, month, rowCount: entry.rowCount });
+    }
+  }
+  return [...records.values()];
+};
+
+// 行数がほかの月の中央値のこの倍率以上、または 1/倍率以下なら通常と異なるとみなす
+export const UNUSUAL_ROW_COUNT_RATIO = 3;
+
+// 比較に使うほかの月の最小数（少なすぎると中央値が当てにならない）
+const MIN_ROW_COUNT_SAMPLES = 2;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[mid - 1] + sorted[mid]) / 2
+    : sorted[mid];
+};
+
+/**
+ * 同じアカウントのほかの月と比べて、行数が極端に多い・少ないファイルを返す。
+ * 取り込み漏れ（途中で切れたファイル）や、別のアカウントのデータの混入を見つけるため。
+ */
+export const findUnusualRowCounts = (
+  records: RowCountRecord[],
+  ratio: number = UNUSUAL_ROW_COUNT_RATIO,
+): HealthFinding[] => {
+  const byAccount = new Map<string, RowCountRecord[]>();
+  for (const record of records) {
+    byAccount.set(record.account, [
+      ...(byAccount.get(record.account) ?? []),
+      record,
+    ]);
+  }
+
+  const findings: HealthFinding[] = [];
+  for (const [account, accountRecords] of [...byAccount].sort(([a], [b]) =>
+    a.localeCompare(b),
+  )) {
+    if (accountRecords.length <= MIN_ROW_COUNT_SAMPLES) continue;
+    for (const record of [...accountRecords].sort((a, b) =>
+      a.month.localeCompare(b.month),
+    )) {
+      const typical = median(
+        accountRecords
+          .filter((other) => other !== record)
+          .map((other) => other.rowCount),
+      );
+      if (typical <= 0) continue;
+      if (
+        record.rowCount >= typical * ratio ||
+        record.rowCount <= typical / ratio
+      ) {
+        findings.push({
+          kind: "unusualRowCount",
+          account,
+          month: record.month,
+          rowCount: record.rowCount,
+          typical,
+        });
+      }
+    }
+  }
+  return findings;
+};
+
+/**
+ * 取り込んだデータの問題を一覧にする（月の欠落 → 合計の変わった置き換え → マイナスのサービス → 行数の異常）。
+ * 置き換えは現在も残っているアカウント・月のものだけを対象にする。
+ */
+export const checkDataHealth = ({
+  reportsByMonth,
+  replacements,
+  rowCounts,
+}: {
+  reportsByMonth: Record<string, MonthlyReport[]>;
+  replacements: ReportReplacement[];
+  rowCounts: RowCountRecord[];
+}): HealthFinding[] => {
+  const present = new Set(
+    Object.values(reportsByMonth)
+      .flat()
+      .map((report) => `${report.month}\u0000${getReportKey(report)}`),
+  );
+  return [
+    ...findMissingMonths(reportsByMonth),
+    ...replacements
+      .filter((replacement) =>
+        present.has(`${replacement.month}\u0000${replacement.account}`),
+      )
+      .map((replacement): HealthFinding => ({ kind: "replaced", replacement })),
+    ...findNegativeServices(reportsByMonth),
+    ...findUnusualRowCounts(
+      rowCounts.filter((record) =>
+        present.has(`${record.month}\u0000${record.account}`),
+      ),
+    ),
+  ];
+};
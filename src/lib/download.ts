@@ -0,0 +1,20 @@
+// ブラウザ内で生成したデータをファイルとして保存させる（サーバーへは送信しない）
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = fileName;
+  document.body.appendChild(anchor);
+  anchor.click();
+  anchor.remove();
+  // クリック直後に revoke すると一部ブラウザでダウンロードが中断されるため遅らせる
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const downloadText = (
+  content: string,
+  fileName: string,
+  mimeType: string,
+): void => {
+  downloadBlob(new Blob([content], { type: mimeType }), fileName);
+};
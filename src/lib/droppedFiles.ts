@@ -0,0 +1,104 @@
+import {
+  isImportableFileName,
+  type SourceFile,
+  toSourceFile,
+} from "@/lib/archive";
+
+const readFileEntry = (entry: FileSystemFileEntry): Promise<File> =>
+  new Promise((resolve, reject) => entry.file(resolve, reject));
+
+// readEntries は一度に最大 100 件ほどしか返さないため、空になるまで繰り返す
+const readAllEntries = async (
+  directory: FileSystemDirectoryEntry,
+): Promise<FileSystemEntry[]> => {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+      reader.readEntries(resolve, reject),
+    );
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+};
+
+// 読み取れなかったファイル・フォルダ（ドロップ後に移動・削除された、権限がないなど）
+export type DroppedFileFailure = {
+  path: string;
+  message: string;
+};
+
+type CollectedFiles = {
+  files: SourceFile[];
+  failures: DroppedFileFailure[];
+};
+
+const mergeCollected = (groups: CollectedFiles[]): CollectedFiles => ({
+  files: groups.flatMap((group) => group.files),
+  failures: groups.flatMap((group) => group.failures),
+});
+
+// 読み取れないエントリは failures に入れ、ほかのエントリの読み込みは続ける
+const collectEntry = async (
+  entry: FileSystemEntry,
+  inDirectory: boolean,
+): Promise<CollectedFiles> => {
+  const path = entry.fullPath.replace(/^\//, "") || entry.name;
+  try {
+    if (entry.isFile) {
+      // フォルダ内の CSV・アーカイブ以外（.DS_Store など）は読み飛ばす
+      if (inDirectory && !isImportableFileName(entry.name)) {
+        return { files: [], failures: [] };
+      }
+      const file = await readFileEntry(entry as FileSystemFileEntry);
+      return { files: [{ file, path }], failures: [] };
+    }
+    if (entry.isDirectory) {
+      const children = await readAllEntries(entry as FileSystemDirectoryEntry);
+      return mergeCollected(
+        await Promise.all(children.map((child) => collectEntry(child, true))),
+      );
+    }
+  } catch (error) {
+    return {
+      files: [],
+      failures: [
+        {
+          path,
+          message: `読み込めませんでした（${error instanceof Error ? error.message : String(error)}）。`,
+        },
+      ],
+    };
+  }
+  return { files: [], failures: [] };
+};
+
+/**
+ * ドロップされたファイルとフォルダ（中のファイルを再帰的に）を集める。
+ * 読み取れなかったファイル・フォルダはパスとともに failures に入れ、残りのファイルは取り込めるように返す。
+ * webkitGetAsEntry はイベントハンドラーの同期処理中にしか使えないため、非同期処理の前にすべて取得する。
+ */
+export const collectDroppedFiles = async (
+  dataTransfer: DataTransfer,
+): Promise<CollectedFiles> => {
+  const items = Array.from(dataTransfer.items ?? []).filter(
+    (item) => item.kind === "file",
+  );
+  if (items.length === 0) {
+    return {
+      files: Array.from(dataTransfer.files ?? []).map(toSourceFile),
+      failures: [],
+    };
+  }
+
+  const pending = items.map((item) => {
+    const entry = item.webkitGetAsEntry?.();
+    if (entry) return collectEntry(entry, false);
+    const file = item.getAsFile();
+    return Promise.resolve({
+      files: file ? [toSourceFile(file)] : [],
+      failures: [],
+    });
+  });
+  return mergeCollected(await Promise.all(pending));
+};
@@ -0,0 +1,157 @@
+import { describe, expect, it } from "vitest";
+import type { ChartRow } from "./aggregate";
+import {
+  buildExportFileName,
+  describeChartTitle,
+  describeFilters,
+  type ExportFilters,
+  toPivotCsv,
+  toTidyCsv,
+  UTF8_BOM,
+  withBom,
+} from "./export";
+
+const rows: ChartRow[] = [
+  {
+    month: "2024-03",
+    services: { "Amazon EC2": 3334.56, "Amazon S3": 766.78 },
+  },
+  { month: "2024-04", services: { "Amazon EC2": 1350 } },
+];
+const series = ["Amazon EC2", "Amazon S3"];
+
+const filters: ExportFilters = {
+  groupBy: "service",
+  timeUnit: "month",
+  accounts: ["123456789012", "999999999999"],
+  months: ["2024-04", "2024-03"],
+  services: series,
+  currency: "USD",
+  availableAccounts: 2,
+  availableServices: 4,
+  topN: null,
+};
+
+const topN = { enabled: true, count: 5, rankBy: "latest" as const };
+
+describe("toTidyCsv", () => {
+  it("期間 × 系列ごとに 1 行を出力する", () => {
+    expect(toTidyCsv(rows, series).split("\r\n")).toEqual([
+      "period,series,cost",
+      "2024-03,Amazon EC2,3334.56",
+      "2024-03,Amazon S3,766.78",
+      "2024-04,Amazon EC2,1350",
+      "2024-04,Amazon S3,0",
+    ]);
+  });
+
+  it("カンマを含む系列名はクォートする", () => {
+    const csv = toTidyCsv([{ month: "2024", services: { "a,b": 1 } }], ["a,b"]);
+    expect(csv.split("\r\n")[1]).toBe('2024,"a,b",1');
+  });
+
+  it("浮動小数点の誤差を丸める", () => {
+    const csv = toTidyCsv(
+      [{ month: "2024", services: { x: 0.1 + 0.2 } }],
+      ["x"],
+    );
+    expect(csv.split("\r\n")[1]).toBe("2024,x,0.3");
+  });
+});
+
+describe("toPivotCsv", () => {
+  it("期間を行、系列を列にして合計列を付ける", () => {
+    expect(toPivotCsv(rows, series).split("\r\n")).toEqual([
+      "period,Amazon EC2,Amazon S3,total",
+      "2024-03,3334.56,766.78,4101.34",
+      "2024-04,1350,0,1350",
+    ]);
+  });
+});
+
+describe("withBom", () => {
+  it("指定時のみ先頭に BOM を付ける", () => {
+    expect(withBom("a", true)).toBe(`${UTF8_BOM}a`);
+    expect(withBom("a", false)).toBe("a");
+  });
+});
+
+describe("buildExportFileName", () => {
+  it("集計モード・期間・選択状況をファイル名に含める", () => {
+    expect(buildExportFileName(filters, "pivot", "csv")).toBe(
+      "pricing-chart_service_month_2024-03_2024-04_acc-all_svc-2_pivot.csv",
+    );
+  });
+
+  it("単一選択は名前を、単月は年月だけを含める", () => {
+    expect(
+      buildExportFileName(
+        {
+          ...filters,
+          groupBy: "account",
+          months: ["2024-03"],
+          accounts: ["123456789012"],
+          services: ["Amazon EC2"],
+        },
+        "tidy",
+        "csv",
+      ),
+    ).toBe(
+      "pricing-chart_account_month_2024-03_acc-123456789012_svc-amazon-ec2_tidy.csv",
+    );
+  });
+
+  it("基準通貨以外は通貨コードを含める", () => {
+    expect(
+      buildExportFileName({ ...filters, currency: "JPY" }, "pivot", "csv"),
+    ).toBe(
+      "pricing-chart_service_month_2024-03_2024-04_acc-all_svc-2_jpy_pivot.csv",
+    );
+  });
+
+  it("上位のみ表示中は選択状況の代わりに件数を含める", () => {
+    expect(buildExportFileName({ ...filters, topN }, "chart", "svg")).toBe(
+      "pricing-chart_service_month_2024-03_2024-04_top5_chart.svg",
+    );
+  });
+});
+
+describe("describeChartTitle", () => {
+  it("集計モードと時間軸からタイトルを作る", () => {
+    expect(describeChartTitle(filters)).toBe("サービス別の月次料金");
+    expect(describeChartTitle({ groupBy: "account", timeUnit: "year" })).toBe(
+      "アカウント別の年次料金",
+    );
+  });
+});
+
+describe("describeFilters", () => {
+  it("期間・アカウント・サービスの選択を要約する", () => {
+    expect(describeFilters(filters)).toBe(
+      "期間: 2024-03〜2024-04（2 ヶ月） / アカウント: すべて（2 件） / サービス: Amazon EC2, Amazon S3",
+    );
+  });
+
+  it("多数選択時は件数で表す", () => {
+    expect(
+      describeFilters({
+        ...filters,
+        months: [],
+        services: ["a", "b", "c", "d"],
+        availableServices: 10,
+      }),
+    ).toBe("期間: なし / アカウント: すべて（2 件） / サービス: 4 / 10 件");
+  });
+
+  it("基準通貨以外は通貨を含める", () => {
+    expect(describeFilters({ ...filters, currency: "JPY" })).toMatch(
+      / \/ 通貨: JPY$/,
+    );
+  });
+
+  it("上位のみ表示中は選択状況の代わりに件数と順位の基準を示す", () => {
+    expect(describeFilters({ ...filters, topN })).toBe(
+      "期間: 2024-03〜2024-04（2 ヶ月） / 上位 5 + その他（最新の期間の順、すべてのアカウント・サービスを含む）",
+    );
+  });
+});
@@ -0,0 +1,174 @@
+import * as Papa from "papaparse";
+import type { ChartRow, GroupBy, TimeUnit } from "@/lib/aggregate";
+import { BASE_CURRENCY } from "@/lib/currency";
+import { TIME_UNIT_LABELS } from "@/lib/periods";
+import { TOP_N_RANKING_LABELS, type TopNOptions } from "@/lib/topN";
+
+export type ExportLayout = "tidy" | "pivot";
+
+export type ExportFilters = {
+  groupBy: GroupBy;
+  timeUnit: TimeUnit;
+  accounts: string[];
+  months: string[];
+  services: string[];
+  // 金額の通貨（表示通貨）。基準通貨以外のときはファイル名と条件の要約に含める
+  currency: string;
+  // 「すべて選択中」をファイル名で判別するための読み込み済み件数
+  availableAccounts: number;
+  availableServices: number;
+  // 上位のみ表示が有効なときの設定（無効なら null）。その他にはすべてのアカウント・サービスが入るため、
+  // アカウント・サービスの選択状況の代わりに含める
+  topN: TopNOptions | null;
+};
+
+// 日本語版 Excel が UTF-8 と判別できるよう先頭に付ける
+export const UTF8_BOM = "\uFEFF";
+
+// 浮動小数点の誤差（0.1 + 0.2 など）を CSV に持ち込まない
+const roundCost = (value: number) => Math.round(value * 1e6) / 1e6;
+
+/**
+ * 期間 × 系列ごとに 1 行の縦持ち CSV。値がない組み合わせも 0 として出力する。
+ */
+export const toTidyCsv = (rows: ChartRow[], series: string[]): string =>
+  Papa.unparse({
+    fields: ["period", "series", "cost"],
+    data: rows.flatMap((row) =>
+      series.map((name) => [
+        row.month,
+        name,
+        roundCost(row.services[name] ?? 0),
+      ]),
+    ),
+  });
+
+/**
+ * 期間を行、系列を列にしたピボット形式の CSV。末尾に期間ごとの合計列を付ける。
+ */
+export const toPivotCsv = (rows: ChartRow[], series: string[]): string =>
+  Papa.unparse({
+    fields: ["period", ...series, "total"],
+    data: rows.map((row) => {
+      const values = series.map((name) => row.services[name] ?? 0);
+      const total = values.reduce((sum, value) => sum + value, 0);
+      return [row.month, ...values.map(roundCost), roundCost(total)];
+    }),
+  });
+
+export const withBom = (content: string, bom: boolean): string =>
+  bom ? `${UTF8_BOM}${content}` : content;
+
+const slugify = (value: string) =>
+  value
+    .replace(/[^0-9A-Za-z-]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .toLowerCase();
+
+const describeSelection = (
+  selected: string[],
+  available: number,
+  prefix: string,
+) => {
+  if (selected.length > 0 && selected.length === available) {
+    return `${prefix}-all`;
+  }
+  if (selected.length === 1) {
+    return `${prefix}-${slugify(selected[0]) || "1"}`;
+  }
+  return `${prefix}-${selected.length}`;
+};
+
+const describeMonths = (months: string[]) => {
+  if (months.length === 0) return "no-months";
+  const sorted = [...months].sort((a, b) => a.localeCompare(b));
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+  return first === last ? first : `${first}_${last}`;
+};
+
+/**
+ * 有効なフィルターをファイル名に埋め込む。
+ * 例: pricing-chart_service_month_2024-03_2024-04_acc-all_svc-4_pivot.csv
+ */
+export const buildExportFileName = (
+  filters: ExportFilters,
+  suffix: string,
+  extension: string,
+): string => {
+  const parts = [
+    "pricing-chart",
+    filters.groupBy,
+    filters.timeUnit,
+    describeMonths(filters.months),
+    ...(filters.topN
+      ? [`top${filters.topN.count}`]
+      : [
+          describeSelection(filters.accounts, filters.availableAccounts, "acc"),
+          describeSelection(filters.services, filters.availableServices, "svc"),
+        ]),
+    ...(filters.currency === BASE_CURRENCY
+      ? []
+      : [filters.currency.toLowerCase()]),
+    suffix,
+  ];
+  return `${parts.join("_")}.${extension}`;
+};
+
+const GROUP_BY_LABELS: Record<GroupBy, string> = {
+  service: "サービス別",
+  account: "アカウント別",
+  group: "グループ別",
+  category: "カテゴリ別",
+};
+
+export const describeChartTitle = ({
+  groupBy,
+  timeUnit,
+}: Pick<ExportFilters, "groupBy" | "timeUnit">): string =>
+  `${GROUP_BY_LABELS[groupBy]}の${TIME_UNIT_LABELS[timeUnit]}料金`;
+
+const summarizeSelection = (
+  label: string,
+  selected: string[],
+  available: number,
+) => {
+  if (selected.length > 0 && selected.length === available) {
+    return `${label}: すべて（${available} 件）`;
+  }
+  if (selected.length <= 3) {
+    return `${label}: ${selected.length === 0 ? "なし" : selected.join(", ")}`;
+  }
+  return `${label}: ${selected.length} / ${available} 件`;
+};
+
+// 書き出し画像のサブタイトルに使うフィルター条件の要約
+export const describeFilters = (filters: ExportFilters): string => {
+  const sorted = [...filters.months].sort((a, b) => a.localeCompare(b));
+  const period =
+    sorted.length === 0
+      ? "期間: なし"
+      : `期間: ${sorted[0]}〜${sorted[sorted.length - 1]}（${sorted.length} ヶ月）`;
+  return [
+    period,
+    ...(filters.topN
+      ? [
+          `上位 ${filters.topN.count} + その他（${TOP_N_RANKING_LABELS[filters.topN.rankBy]}の順、すべてのアカウント・サービスを含む）`,
+        ]
+      : [
+          summarizeSelection(
+            "アカウント",
+            filters.accounts,
+            filters.availableAccounts,
+          ),
+          summarizeSelection(
+            "サービス",
+            filters.services,
+            filters.availableServices,
+          ),
+        ]),
+    ...(filters.currency === BASE_CURRENCY
+      ? []
+      : [`通貨: ${filters.currency}`]),
+  ].join(" / ");
+};
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import {
+  forecastLinear,
+  forecastMovingAverage,
+  forecastRows,
+  Z_95,
+} from "./forecast";
+
+describe("forecastLinear", () => {
+  it("直線上の系列は誤差 0 で延長する", () => {
+    const points = [0, 1, 2, 3, 4].map((x) => ({ x, y: 100 + 10 * x }));
+    const [a, b] = forecastLinear(points, [5, 6]);
+    expect(a.value).toBeCloseTo(150);
+    expect(b.value).toBeCloseTo(160);
+    expect(a.stdError).toBeCloseTo(0);
+  });
+
+  it("最小二乗の傾き・切片と予測区間の標準誤差を求める", () => {
+    // y = 1.1 + 1.1x、残差平方和 2.7（分散 1.35）、Sxx = 5
+    const points = [1, 3, 2, 5].map((y, x) => ({ x, y }));
+    const [point] = forecastLinear(points, [4]);
+    expect(point.value).toBeCloseTo(5.5);
+    expect(point.stdError).toBeCloseTo(
+      Math.sqrt(1.35 * (1 + 1 / 4 + 6.25 / 5)),
+    );
+  });
+
+  it("点が 2 つなら誤差を推定せずに直線で延長する", () => {
+    const [point] = forecastLinear(
+      [
+        { x: 0, y: 10 },
+        { x: 1, y: 20 },
+      ],
+      [2],
+    );
+    expect(point).toEqual({ value: 30, stdError: 0 });
+  });
+});
+
+describe("forecastMovingAverage", () => {
+  it("直近 window 件の平均を横ばいで予測する", () => {
+    const points = forecastMovingAverage([10, 20, 30, 40], 3, 2);
+    expect(points).toHaveLength(2);
+    expect(points[0].value).toBeCloseTo(30);
+    expect(points[1].value).toBeCloseTo(30);
+    // 標本分散 100、√(100 × (1 + 1/3))
+    expect(points[0].stdError).toBeCloseTo(Math.sqrt(100 * (4 / 3)));
+  });
+});
+
+describe("forecastRows", () => {
+  it("月の抜けがあっても月の位置で回帰する", () => {
+    const result = forecastRows(
+      [
+        { month: "2024-01", services: { EC2: 100 } },
+        { month: "2024-03", services: { EC2: 120 } },
+      ],
+      ["EC2"],
+      { method: "linear", horizon: 2, window: 3 },
+    );
+    expect(result.rows.map((row) => row.month)).toEqual(["2024-04", "2024-05"]);
+    expect(result.rows[0].services.EC2).toBeCloseTo(130);
+    expect(result.rows[1].services.EC2).toBeCloseTo(140);
+  });
+
+  it("予測値と信頼区間の下限は 0 未満にしない", () => {
+    const result = forecastRows(
+      [
+        { month: "2024-01", services: { S3: 30 } },
+        { month: "2024-02", services: { S3: 20 } },
+        { month: "2024-03", services: { S3: 10 } },
+      ],
+      ["S3"],
+      { method: "linear", horizon: 2, window: 3 },
+    );
+    expect(result.rows[0].services.S3).toBeCloseTo(0);
+    expect(result.rows[1].services.S3).toBe(0);
+    expect(result.bands["2024-05"].lower).toBe(0);
+  });
+
+  it("合計の信頼区間は系列の誤差を独立とみなして合成する", () => {
+    const rows = [10, 20, 30, 40].map((value, i) => ({
+      month: `2024-0${i + 1}`,
+      services: { A: value, B: 50 },
+    }));
+    const result = forecastRows(rows, ["A", "B"], {
+      method: "movingAverage",
+      horizon: 1,
+      window: 3,
+    });
+    const band = result.bands["2024-05"];
+    const total = 30 + 50;
+    const margin = Z_95 * Math.sqrt(100 * (4 / 3));
+    expect(band.lower).toBeCloseTo(total - margin);
+    expect(band.upper).toBeCloseTo(total + margin);
+  });
+
+  it("2 ヶ月未満のデータでは予測しない", () => {
+    expect(
+      forecastRows([{ month: "2024-01", services: { A: 1 } }], ["A"], {
+        method: "linear",
+        horizon: 3,
+        window: 3,
+      }),
+    ).toEqual({ rows: [], bands: {} });
+  });
+});
@@ -0,0 +1,150 @@
+import type { ChartRow } from "@/lib/aggregate";
+import { monthIndex, nextMonths } from "@/lib/periods";
+
+export type ForecastMethod = "linear" | "movingAverage";
+
+export type ForecastOptions = {
+  method: ForecastMethod;
+  // 予測する月数
+  horizon: number;
+  // 移動平均に使う直近の月数
+  window: number;
+};
+
+export const DEFAULT_FORECAST_OPTIONS: ForecastOptions = {
+  method: "linear",
+  horizon: 3,
+  window: 3,
+};
+
+export type ForecastPoint = {
+  value: number;
+  // 予測値の標準誤差。信頼区間は value ± Z_95 × stdError
+  stdError: number;
+};
+
+export type ForecastBand = { lower: number; upper: number };
+
+export type ForecastResult = {
+  // 予測期間の行（系列ごとの予測値）
+  rows: ChartRow[];
+  // 予測期間ごとの合計の 95% 信頼区間
+  bands: Record<string, ForecastBand>;
+};
+
+export const Z_95 = 1.959963984540054;
+
+const mean = (values: number[]) =>
+  values.reduce((sum, value) => sum + value, 0) / values.length;
+
+/**
+ * 最小二乗法で直線を当てはめ、xs の位置を予測する。
+ * 標準誤差は予測区間のもの（残差の分散 × (1 + 1/n + (x - x̄)² / Sxx)）。
+ * 点が 2 つ以下のときは残差の分散を推定できないため 0 とする。
+ */
+export const forecastLinear = (
+  points: Array<{ x: number; y: number }>,
+  xs: number[],
+): ForecastPoint[] => {
+  const n = points.length;
+  if (n === 0) return [];
+  const xMean = mean(points.map((p) => p.x));
+  const yMean = mean(points.map((p) => p.y));
+  const sxx = points.reduce((sum, p) => sum + (p.x - xMean) ** 2, 0);
+  const slope =
+    sxx === 0
+      ? 0
+      : points.reduce((sum, p) => sum + (p.x - xMean) * (p.y - yMean), 0) / sxx;
+  const intercept = yMean - slope * xMean;
+  const residualVariance =
+    n > 2
+      ? points.reduce(
+          (sum, p) => sum + (p.y - (intercept + slope * p.x)) ** 2,
+          0,
+        ) /
+        (n - 2)
+      : 0;
+
+  return xs.map((x) => ({
+    value: intercept + slope * x,
+    stdError: Math.sqrt(
+      residualVariance * (1 + 1 / n + (sxx === 0 ? 0 : (x - xMean) ** 2 / sxx)),
+    ),
+  }));
+};
+
+/**
+ * 直近 window 件の平均を、以降のすべての月の予測値とする。
+ * 標準誤差は直近 window 件の標本標準偏差 × √(1 + 1/window)。
+ */
+export const forecastMovingAverage = (
+  values: number[],
+  window: number,
+  horizon: number,
+): ForecastPoint[] => {
+  const recent = values.slice(-Math.max(1, window));
+  if (recent.length === 0) return [];
+  const average = mean(recent);
+  const variance =
+    recent.length > 1
+      ? recent.reduce((sum, value) => sum + (value - average) ** 2, 0) /
+        (recent.length - 1)
+      : 0;
+  const stdError = Math.sqrt(variance * (1 + 1 / recent.length));
+  return Array.from({ length: horizon }, () => ({ value: average, stdError }));
+};
+
+/**
+ * 月次の集計結果から、系列ごとに horizon ヶ月先までを予測する。
+ * 月の抜け（選択していない月）があっても月の位置で回帰する。予測値は 0 未満にしない。
+ * 合計の信頼区間は系列の予測誤差を独立とみなして合成する。
+ */
+export const forecastRows = (
+  rows: ChartRow[],
+  series: string[],
+  { method, horizon, window }: ForecastOptions,
+): ForecastResult => {
+  const sorted = [...rows].sort((a, b) => a.month.localeCompare(b.month));
+  if (sorted.length < 2 || horizon < 1 || series.length === 0) {
+    return { rows: [], bands: {} };
+  }
+
+  const lastMonth = sorted[sorted.length - 1].month;
+  const months = nextMonths(lastMonth, horizon);
+  const forecasts = series.map((name) => {
+    const points = sorted.map((row) => ({
+      x: monthIndex(row.month),
+      y: row.services[name] ?? 0,
+    }));
+    return method === "linear"
+      ? forecastLinear(points, months.map(monthIndex))
+      : forecastMovingAverage(
+          points.map((p) => p.y),
+          window,
+          horizon,
+        );
+  });
+
+  const forecastRowsResult: ChartRow[] = [];
+  const bands: Record<string, ForecastBand> = {};
+  months.forEach((month, i) => {
+    const values: Record<string, number> = {};
+    let total = 0;
+    let variance = 0;
+    series.forEach((name, s) => {
+      const point = forecasts[s][i];
+      const value = Math.max(0, point.value);
+      values[name] = value;
+      total += value;
+      variance += point.stdError ** 2;
+    });
+    const margin = Z_95 * Math.sqrt(variance);
+    forecastRowsResult.push({ month, services: values });
+    bands[month] = {
+      lower: Math.max(0, total - margin),
+      upper: total + margin,
+    };
+  });
+
+  return { rows: forecastRowsResult, bands };
+};
@@ -0,0 +1,249 @@
+import * as Papa from "papaparse";
+import { describe, expect, it } from "vitest";
+import {
+  appendImportLog,
+  classifyImportedFiles,
+  createImportLogEntry,
+  describeImportLogIssues,
+  filterImportLog,
+  type ImportLogEntry,
+  isImportLogList,
+  MAX_IMPORT_LOG_ISSUES,
+  toImportLogCsv,
+  toImportLogJson,
+} from "./importLog";
+import type { MonthlyReport } from "./reports";
+
+const report = (
+  month: string,
+  accountId: string | undefined,
+  total: number,
+  fileName = `monthly-report-${month}-${accountId ?? "x"}.csv`,
+): MonthlyReport => ({
+  month,
+  services: { "Amazon EC2": total },
+  total,
+  fileName,
+  accountId,
+});
+
+const importedAt = new Date("2024-05-01T09:00:00Z");
+
+describe("createImportLogEntry", () => {
+  it("レポートから合計・月・アカウントをまとめる", () => {
+    const entry = createImportLogEntry(
+      {
+        path: "cur.zip/cur.csv",
+        status: "imported",
+        rowCount: 120,
+        zeroCostRows: 3,
+        reports: [
+          report("2024-04", "111", 10),
+          report("2024-03", "111", 5),
+          report("2024-03", undefined, 1, "other.csv"),
+        ],
+        issues: ["「cur.zip/cur.csv」行 3: Too many fields"],
+      },
+      importedAt,
+    );
+
+    expect(entry).toEqual({
+      id: expect.any(String),
+      importedAt: "2024-05-01T09:00:00.000Z",
+      path: "cur.zip/cur.csv",
+      status: "imported",
+      rowCount: 120,
+      zeroCostRows: 3,
+      total: 16,
+      months: ["2024-03", "2024-04"],
+      accounts: ["111", "other.csv"],
+      issues: ["「cur.zip/cur.csv」行 3: Too many fields"],
+      omittedIssues: 0,
+    });
+  });
+
+  it("警告・エラーは先頭の上限件数だけを保存し、残りは件数を残す", () => {
+    const issues = Array.from(
+      { length: MAX_IMPORT_LOG_ISSUES + 5 },
+      (_, index) => `行 ${index + 2}: Too many fields`,
+    );
+    const entry = createImportLogEntry(
+      { path: "a.csv", status: "imported", issues },
+      importedAt,
+    );
+    expect(entry.issues).toEqual(issues.slice(0, MAX_IMPORT_LOG_ISSUES));
+    expect(entry.omittedIssues).toBe(5);
+    expect(describeImportLogIssues(entry).at(-1)).toBe(
+      "ほか 5 件の警告・エラー",
+    );
+  });
+
+  it("省略した件数は 0、レポートと警告は空にする", () => {
+    const entry = createImportLogEntry(
+      { path: "a.csv", status: "skipped" },
+      importedAt,
+    );
+    expect(entry).toMatchObject({
+      rowCount: 0,
+      zeroCostRows: 0,
+      total: 0,
+      months: [],
+      accounts: [],
+      issues: [],
+    });
+  });
+});
+
+describe("classifyImportedFiles", () => {
+  it("取り込み済み、または同じ取り込みで先に追加したレポートと重なれば replaced にする", () => {
+    const existing = { "2024-03": [report("2024-03", "111", 1)] };
+
+    expect(
+      classifyImportedFiles(existing, [
+        [report("2024-03", "111", 2)],
+        [report("2024-03", "222", 3)],
+        [report("2024-04", "222", 4), report("2024-03", "222", 5)],
+        [],
+      ]),
+    ).toEqual(["replaced", "imported", "replaced", "imported"]);
+  });
+
+  it("同じエクスポートの分割ファイルどうしが重なっても replaced にしない", () => {
+    const existing = { "2024-03": [report("2024-03", "111", 1)] };
+
+    expect(
+      classifyImportedFiles(
+        existing,
+        [
+          [report("2024-04", "111", 2, "cur-1.csv.gz")],
+          [report("2024-04", "111", 3, "cur-2.csv.gz")],
+          [report("2024-03", "111", 4, "cur-3.csv.gz")],
+        ],
+        ["cur/v1", "cur/v1", "cur/v1"],
+      ),
+    ).toEqual(["imported", "imported", "replaced"]);
+  });
+
+  it("別のエクスポートの分割ファイルと重なれば replaced にする", () => {
+    expect(
+      classifyImportedFiles(
+        {},
+        [
+          [report("2024-04", "111", 2, "cur-1.csv.gz")],
+          [report("2024-04", "111", 3, "cur-1.csv.gz")],
+        ],
+        ["cur/v1", "cur/v2"],
+      ),
+    ).toEqual(["imported", "replaced"]);
+  });
+});
+
+const entries: ImportLogEntry[] = [
+  createImportLogEntry(
+    {
+      path: "reports.zip/a.csv",
+      status: "imported",
+      rowCount: 2,
+      reports: [report("2024-03", "111", 10)],
+    },
+    importedAt,
+  ),
+  createImportLogEntry(
+    {
+      path: "broken.csv",
+      status: "failed",
+      rowCount: 1,
+      issues: [
+        "「broken.csv」: 2 行目の利用開始日から年月を特定できませんでした。",
+      ],
+    },
+    importedAt,
+  ),
+];
+
+describe("appendImportLog", () => {
+  it("新しい取り込みを先頭に追加し、上限を超えた古いものを捨てる", () => {
+    const [first, second] = entries;
+    if (!first || !second) throw new Error("entries");
+    expect(appendImportLog([first], [second])).toEqual([second, first]);
+    expect(appendImportLog([first], [second], 1)).toEqual([second]);
+  });
+});
+
+describe("filterImportLog", () => {
+  it("状態とキーワード（パス・月・アカウント・警告）で絞り込む", () => {
+    const paths = (filtered: ImportLogEntry[]) => filtered.map((e) => e.path);
+
+    expect(
+      paths(filterImportLog(entries, { status: "all", query: "" })),
+    ).toEqual(["reports.zip/a.csv", "broken.csv"]);
+    expect(
+      paths(filterImportLog(entries, { status: "failed", query: "" })),
+    ).toEqual(["broken.csv"]);
+    expect(
+      paths(filterImportLog(entries, { status: "all", query: "REPORTS" })),
+    ).toEqual(["reports.zip/a.csv"]);
+    expect(
+      paths(filterImportLog(entries, { status: "all", query: "年月" })),
+    ).toEqual(["broken.csv"]);
+    expect(
+      paths(filterImportLog(entries, { status: "all", query: "111" })),
+    ).toEqual(["reports.zip/a.csv"]);
+    expect(filterImportLog(entries, { status: "skipped", query: "" })).toEqual(
+      [],
+    );
+  });
+});
+
+describe("toImportLogCsv / toImportLogJson", () => {
+  it("1 ファイル 1 行の CSV と、そのまま読み戻せる JSON にする", () => {
+    const { data } = Papa.parse<Record<string, string>>(
+      toImportLogCsv(entries),
+      { header: true },
+    );
+    expect(data).toEqual([
+      {
+        importedAt: "2024-05-01T09:00:00.000Z",
+        path: "reports.zip/a.csv",
+        status: "imported",
+        rowCount: "2",
+        zeroCostRows: "0",
+        total: "10",
+        months: "2024-03",
+        accounts: "111",
+        issues: "",
+      },
+      {
+        importedAt: "2024-05-01T09:00:00.000Z",
+        path: "broken.csv",
+        status: "failed",
+        rowCount: "1",
+        zeroCostRows: "0",
+        total: "0",
+        months: "",
+        accounts: "",
+        issues:
+          "「broken.csv」: 2 行目の利用開始日から年月を特定できませんでした。",
+      },
+    ]);
+
+    const json: unknown = JSON.parse(toImportLogJson(entries));
+    expect(json).toEqual(entries);
+    expect(isImportLogList(json)).toBe(true);
+  });
+});
+
+describe("isImportLogList", () => {
+  it("保存済みのログを検証する", () => {
+    expect(isImportLogList(entries)).toBe(true);
+    expect(isImportLogList([{ ...entries[0], status: "unknown" }])).toBe(false);
+    expect(isImportLogList([{ ...entries[0], issues: "a" }])).toBe(false);
+    expect(isImportLogList([{ ...entries[0], omittedIssues: undefined }])).toBe(
+      true,
+    );
+    expect(isImportLogList([{ ...entries[0], omittedIssues: "3" }])).toBe(
+      false,
+    );
+    expect(isImportLogList({})).toBe(false);
+  });
+});
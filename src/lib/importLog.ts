@@ -0,0 +1,201 @@
+import * as Papa from "papaparse";
+import { getReportKey, type MonthlyReport } from "@/lib/reports";
+
+export type ImportLogStatus = "imported" | "replaced" | "skipped" | "failed";
+
+export const IMPORT_LOG_STATUS_LABELS: Record<ImportLogStatus, string> = {
+  imported: "取り込み",
+  replaced: "置き換え",
+  skipped: "スキップ",
+  failed: "失敗",
+};
+
+/**
+ * インポートログの 1 件（1 ファイル）。アップロードをまたいで localStorage に残す。
+ */
+export type ImportLogEntry = {
+  id: string;
+  // ISO 8601
+  importedAt: string;
+  // アーカイブ・フォルダ内のパス
+  path: string;
+  status: ImportLogStatus;
+  // 読み込んだデータ行の数
+  rowCount: number;
+  // コスト 0 のため読み飛ばした明細の数
+  zeroCostRows: number;
+  // 取り込んだレポートの合計（USD）
+  total: number;
+  months: string[];
+  // アカウント ID（なければファイル名）
+  accounts: string[];
+  // CSV の警告・エラー（先頭の MAX_IMPORT_LOG_ISSUES 件）
+  issues: string[];
+  // 保存しなかった警告・エラーの件数（以前のログにはない）
+  omittedIssues?: number;
+};
+
+export const IMPORT_LOG_STORAGE_KEY = "import-log";
+
+export const IMPORT_LOG_SAVE_FAILED_WARNING =
+  "インポートログをブラウザに保存できませんでした（容量不足など）。ページを再読み込みすると今回のログは消えるため、必要なら CSV・JSON でダウンロードするか、ログを消去してください。";
+
+// localStorage の容量を超えないよう、古いものから捨てる
+export const MAX_IMPORT_LOG_ENTRIES = 200;
+
+// 1 ファイルの警告・エラーは先頭のこの件数だけ保存し、残りは件数だけを残す
+export const MAX_IMPORT_LOG_ISSUES = 20;
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+export const isImportLogEntry = (value: unknown): value is ImportLogEntry => {
+  if (typeof value !== "object" || value === null) return false;
+  const candidate = value as Record<string, unknown>;
+  return (
+    typeof candidate.id === "string" &&
+    typeof candidate.importedAt === "string" &&
+    typeof candidate.path === "string" &&
+    typeof candidate.status === "string" &&
+    Object.keys(IMPORT_LOG_STATUS_LABELS).includes(candidate.status) &&
+    typeof candidate.rowCount === "number" &&
+    typeof candidate.zeroCostRows === "number" &&
+    typeof candidate.total === "number" &&
+    isStringArray(candidate.months) &&
+    isStringArray(candidate.accounts) &&
+    isStringArray(candidate.issues) &&
+    (candidate.omittedIssues === undefined ||
+      typeof candidate.omittedIssues === "number")
+  );
+};
+
+export const isImportLogList = (value: unknown): value is ImportLogEntry[] =>
+  Array.isArray(value) && value.every(isImportLogEntry);
+
+export const createImportLogEntry = (
+  {
+    path,
+    status,
+    rowCount = 0,
+    zeroCostRows = 0,
+    reports = [],
+    issues = [],
+  }: {
+    path: string;
+    status: ImportLogStatus;
+    rowCount?: number;
+    zeroCostRows?: number;
+    reports?: MonthlyReport[];
+    issues?: string[];
+  },
+  importedAt: Date,
+): ImportLogEntry => ({
+  id: crypto.randomUUID(),
+  importedAt: importedAt.toISOString(),
+  path,
+  status,
+  rowCount,
+  zeroCostRows,
+  total: reports.reduce((sum, report) => sum + report.total, 0),
+  months: [...new Set(reports.map((report) => report.month))].sort(),
+  accounts: [...new Set(reports.map(getReportKey))],
+  issues: issues.slice(0, MAX_IMPORT_LOG_ISSUES),
+  omittedIssues: Math.max(issues.length - MAX_IMPORT_LOG_ISSUES, 0),
+});
+
+// 保存しなかった警告・エラーがあれば、その件数を末尾に足した一覧
+export const describeImportLogIssues = (entry: ImportLogEntry): string[] =>
+  entry.omittedIssues
+    ? [...entry.issues, `ほか ${entry.omittedIssues} 件の警告・エラー`]
+    : entry.issues;
+
+/**
+ * ファイルごとに、取り込み済みのレポート（または同じ取り込みで先に追加したレポート）を
+ * 置き換えるかを判定する。同一アカウント・同一月のレポートが 1 件でもあれば replaced。
+ * parts[i] は CUR の分割などのファイルが属するエクスポート（分割でなければ null）で、
+ * 同じエクスポートの分割どうしは合算するため、重なっても replaced にしない。
+ */
+export const classifyImportedFiles = (
+  existing: Record<string, MonthlyReport[]>,
+  files: MonthlyReport[][],
+  parts: Array<string | null> = [],
+): Array<"imported" | "replaced"> => {
+  const toKey = (report: MonthlyReport) =>
+    `${report.month}\u0000${getReportKey(report)}`;
+  const seen = new Set(Object.values(existing).flat().map(toKey));
+  // 分割ファイルのレポート -> エクスポート
+  const partKeys = new Map<string, string>();
+  return files.map((reports, index) => {
+    const part = parts[index] ?? null;
+    const keys = reports.map(toKey);
+    const replaced = keys.some(
+      (key) =>
+        seen.has(key) || (partKeys.has(key) && partKeys.get(key) !== part),
+    );
+    for (const key of keys) {
+      if (part === null) seen.add(key);
+      else partKeys.set(key, part);
+    }
+    return replaced ? "replaced" : "imported";
+  });
+};
+
+// 新しい取り込みを先頭に追加し、上限を超えた古いものを捨てる
+export const appendImportLog = (
+  log: ImportLogEntry[],
+  entries: ImportLogEntry[],
+  limit: number = MAX_IMPORT_LOG_ENTRIES,
+): ImportLogEntry[] => [...entries, ...log].slice(0, limit);
+
+export type ImportLogFilter = {
+  status: ImportLogStatus | "all";
+  // パス・月・アカウント・警告の部分一致（大文字・小文字は区別しない）
+  query: string;
+};
+
+export const filterImportLog = (
+  log: ImportLogEntry[],
+  { status, query }: ImportLogFilter,
+): ImportLogEntry[] => {
+  const needle = query.trim().toLowerCase();
+  return log.filter(
+    (entry) =>
+      (status === "all" || entry.status === status) &&
+      (needle === "" ||
+        [entry.path, ...entry.months, ...entry.accounts, ...entry.issues].some(
+          (text) => text.toLowerCase().includes(needle),
+        )),
+  );
+};
+
+const CSV_FIELDS = [
+  "importedAt",
+  "path",
+  "status",
+  "rowCount",
+  "zeroCostRows",
+  "total",
+  "months",
+  "accounts",
+  "issues",
+] as const;
+
+// 月・アカウントは空白区切り、警告は改行区切りで 1 セルにまとめる
+export const toImportLogCsv = (entries: ImportLogEntry[]): string =>
+  Papa.unparse({
+    fields: [...CSV_FIELDS],
+    data: entries.map((entry) => [
+      entry.importedAt,
+      entry.path,
+      entry.status,
+      entry.rowCount,
+      entry.zeroCostRows,
+      entry.total,
+      entry.months.join(" "),
+      entry.accounts.join(" "),
+      describeImportLogIssues(entry).join("\n"),
+    ]),
+  });
+
+export const toImportLogJson = (entries: ImportLogEntry[]): string =>
+  JSON.stringify(entries, null, 2);
@@ -0,0 +1,168 @@
+import { describe, expect, it } from "vitest";
+import { NO_DESCRIPTION } from "./csv";
+import {
+  applyImportMapping,
+  findImportMapping,
+  guessReportColumns,
+  type ImportMapping,
+  isImportMappingList,
+  matchFileNamePattern,
+  type PendingImport,
+  saveImportMapping,
+} from "./importMappings";
+
+const pending: PendingImport = {
+  path: "downloads.zip/請求_202403_123456789012.csv",
+  fileName: "請求_202403_123456789012.csv",
+  fields: ["サービス名", "利用料金", "明細"],
+  rows: [
+    { サービス名: "Amazon EC2", 利用料金: "100", 明細: "BoxUsage" },
+    { サービス名: "Amazon EC2", 利用料金: "50" },
+    { サービス名: "Amazon S3", 利用料金: "0" },
+  ],
+};
+
+const columns = {
+  service: "サービス名",
+  cost: "利用料金",
+  description: "明細",
+};
+
+const mapping: ImportMapping = {
+  id: "m1",
+  headers: ["サービス名", "利用料金", "明細"],
+  columns,
+  fileNamePattern: "請求_{YYYY}{MM}_{ACCOUNT}.csv",
+};
+
+describe("matchFileNamePattern", () => {
+  it("パターンからファイル名の年月とアカウント ID を取り出す", () => {
+    expect(
+      matchFileNamePattern(mapping.fileNamePattern, pending.fileName),
+    ).toEqual({ month: "2024-03", accountId: "123456789012" });
+    expect(
+      matchFileNamePattern("*-{YYYY}-{MM}.CSV", "costs-export-2024-3.csv"),
+    ).toEqual({ month: "2024-03", accountId: null });
+  });
+
+  it("記号はそのままの文字として扱う", () => {
+    expect(matchFileNamePattern("report(1).csv", "report(1).csv")).toEqual({
+      month: null,
+      accountId: null,
+    });
+    expect(matchFileNamePattern("report.csv", "reportXcsv")).toBeNull();
+  });
+
+  it("一致しない・パターンが空・月が不正な場合", () => {
+    expect(matchFileNamePattern("bill_{YYYY}{MM}.csv", "other.csv")).toBeNull();
+    expect(matchFileNamePattern(" ", "other.csv")).toBeNull();
+    expect(matchFileNamePattern("{YYYY}-{MM}.csv", "2024-13.csv")).toEqual({
+      month: null,
+      accountId: null,
+    });
+  });
+});
+
+describe("guessReportColumns", () => {
+  it("英語・日本語のよくあるヘッダー名からカラムを推測する", () => {
+    expect(guessReportColumns(["Service", "Amount", "Detail"])).toEqual({
+      service: "Service",
+      cost: "Amount",
+      description: "Detail",
+    });
+    expect(guessReportColumns(pending.fields)).toEqual(columns);
+    expect(guessReportColumns(["a", "b"])).toEqual({
+      service: "",
+      cost: "",
+      description: "",
+    });
+  });
+});
+
+describe("applyImportMapping", () => {
+  it("指定したカラムとパターンでレポートにする", () => {
+    expect(applyImportMapping(pending, mapping)).toEqual({
+      month: "2024-03",
+      services: { "Amazon EC2": 150 },
+      descriptions: {
+        "Amazon EC2": { BoxUsage: 100, [NO_DESCRIPTION]: 50 },
+      },
+      total: 150,
+      fileName: pending.fileName,
+      accountId: "123456789012",
+    });
+  });
+
+  it("パターンで取れない年月・アカウントは手入力の値を使う", () => {
+    const report = applyImportMapping(
+      pending,
+      { columns, fileNamePattern: "" },
+      { month: "2024-05", accountId: " 999 " },
+    );
+    expect(report.month).toBe("2024-05");
+    expect(report.accountId).toBe("999");
+  });
+
+  it("アカウントが決まらなければ未設定にする", () => {
+    const report = applyImportMapping(
+      pending,
+      { columns, fileNamePattern: "" },
+      { month: "2024-05", accountId: "" },
+    );
+    expect(report.accountId).toBeUndefined();
+  });
+
+  it("年月が決まらない・カラムが存在しない場合はエラーにする", () => {
+    expect(() =>
+      applyImportMapping(pending, { columns, fileNamePattern: "" }),
+    ).toThrow("年月（YYYY-MM）を特定できませんでした。");
+    expect(() =>
+      applyImportMapping(
+        pending,
+        { columns: { ...columns, cost: "cost" }, fileNamePattern: "" },
+        { month: "2024-05", accountId: "" },
+      ),
+    ).toThrow("サービス名と金額のカラムを指定してください。");
+  });
+});
+
+describe("findImportMapping / saveImportMapping", () => {
+  it("ヘッダーの並び順を問わず一致する設定を探す", () => {
+    expect(
+      findImportMapping([mapping], ["明細", "利用料金", "サービス名"]),
+    ).toBe(mapping);
+    expect(findImportMapping([mapping], ["サービス名", "利用料金"])).toBeNull();
+  });
+
+  it("同じヘッダーの設定は ID を保ったまま置き換え、それ以外は追加する", () => {
+    const replaced = saveImportMapping([mapping], {
+      headers: ["明細", "サービス名", "利用料金"],
+      columns,
+      fileNamePattern: "",
+    });
+    expect(replaced).toEqual([
+      {
+        ...mapping,
+        headers: ["明細", "サービス名", "利用料金"],
+        fileNamePattern: "",
+      },
+    ]);
+
+    const added = saveImportMapping([mapping], {
+      headers: ["Service", "Amount"],
+      columns: { service: "Service", cost: "Amount", description: "" },
+      fileNamePattern: "",
+    });
+    expect(added).toHaveLength(2);
+    expect(added[1].headers).toEqual(["Service", "Amount"]);
+  });
+});
+
+describe("isImportMappingList", () => {
+  it("保存済みの設定を検証する", () => {
+    expect(isImportMappingList([mapping])).toBe(true);
+    expect(isImportMappingList([{ ...mapping, columns: null }])).toBe(false);
+    expect(isImportMappingList([{ ...mapping, headers: "a" }])).toBe(false);
+    expect(isImportMappingList({})).toBe(false);
+  });
+});
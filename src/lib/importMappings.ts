@@ -0,0 +1,181 @@
+import {
+  type ParseStats,
+  type ReportColumns,
+  summarizeReportRows,
+} from "@/lib/csv";
+import type { MonthlyReport } from "@/lib/reports";
+
+/**
+ * 形式を判定できなかったファイルの取り込み設定。同じヘッダーのファイルには次回以降も自動で適用する。
+ */
+export type ImportMapping = {
+  id: string;
+  // この設定を適用するファイルのヘッダー
+  headers: string[];
+  columns: ReportColumns;
+  // ファイル名から年月・アカウント ID を取り出すパターン（空文字なら使わない）
+  fileNamePattern: string;
+};
+
+export const IMPORT_MAPPINGS_STORAGE_KEY = "import-mappings";
+
+// 取り込み設定のダイアログで列と年月を指定してもらうファイル
+export type PendingImport = {
+  path: string;
+  fileName: string;
+  fields: string[];
+  rows: Array<Record<string, string | undefined>>;
+  // 解析時の CSV の警告（インポートログに残す）
+  warnings?: string[];
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+export const isImportMapping = (value: unknown): value is ImportMapping => {
+  if (typeof value !== "object" || value === null) return false;
+  const candidate = value as Record<string, unknown>;
+  const columns = candidate.columns as Record<string, unknown> | null;
+  return (
+    typeof candidate.id === "string" &&
+    isStringArray(candidate.headers) &&
+    typeof columns === "object" &&
+    columns !== null &&
+    typeof columns.service === "string" &&
+    typeof columns.cost === "string" &&
+    typeof columns.description === "string" &&
+    typeof candidate.fileNamePattern === "string"
+  );
+};
+
+export const isImportMappingList = (value: unknown): value is ImportMapping[] =>
+  Array.isArray(value) && value.every(isImportMapping);
+
+const headerKey = (headers: string[]) => [...headers].sort().join("\u0000");
+
+// ヘッダーの並び順は問わない
+export const matchesImportHeaders = (
+  mapping: Pick<ImportMapping, "headers">,
+  fields: string[],
+): boolean => headerKey(mapping.headers) === headerKey(fields);
+
+export const findImportMapping = (
+  mappings: ImportMapping[],
+  fields: string[],
+): ImportMapping | null =>
+  mappings.find((mapping) => matchesImportHeaders(mapping, fields)) ?? null;
+
+// 同じヘッダーの設定は置き換え、それ以外は末尾に追加する
+export const saveImportMapping = (
+  mappings: ImportMapping[],
+  mapping: Omit<ImportMapping, "id">,
+): ImportMapping[] => {
+  const existing = findImportMapping(mappings, mapping.headers);
+  if (existing) {
+    return mappings.map((m) =>
+      m.id === existing.id ? { ...mapping, id: existing.id } : m,
+    );
+  }
+  return [...mappings, { ...mapping, id: crypto.randomUUID() }];
+};
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+
+const PATTERN_TOKENS: Record<string, string> = {
+  "{YYYY}": "(?<year>\\d{4})",
+  "{MM}": "(?<month>\\d{1,2})",
+  "{ACCOUNT}": "(?<account>[^/]+?)",
+  "*": ".*?",
+};
+
+/**
+ * ファイル名のパターンからファイル名全体に一致する正規表現を作る。
+ * {YYYY}・{MM} が年月、{ACCOUNT} がアカウント ID、* が任意の文字列。大文字・小文字は区別しない。
+ */
+export const compileFileNamePattern = (pattern: string): RegExp =>
+  new RegExp(
+    `^${pattern
+      .split(/(\{YYYY\}|\{MM\}|\{ACCOUNT\}|\*)/)
+      .map((part) => PATTERN_TOKENS[part] ?? escapeRegExp(part))
+      .join("")}$`,
+    "i",
+  );
+
+/**
+ * パターンでファイル名から年月・アカウント ID を取り出す。一致しなければ null。
+ * パターンに含まれない項目や月の値が不正な場合は、その項目だけ null にする。
+ */
+export const matchFileNamePattern = (
+  pattern: string,
+  fileName: string,
+): { month: string | null; accountId: string | null } | null => {
+  if (pattern.trim() === "") return null;
+  const match = fileName.match(compileFileNamePattern(pattern.trim()));
+  if (!match) return null;
+  const groups = match.groups ?? {};
+  const mon = Number(groups.month);
+  const month =
+    groups.year && mon >= 1 && mon <= 12
+      ? `${groups.year}-${String(mon).padStart(2, "0")}`
+      : null;
+  return { month, accountId: groups.account ?? null };
+};
+
+// ヘッダー名からサービス名・金額・明細のカラムを推測する（英語・日本語の一般的な名前）
+const COLUMN_CANDIDATES: Record<keyof ReportColumns, string[]> = {
+  service: [
+    "product_name",
+    "service",
+    "service_name",
+    "product",
+    "サービス",
+    "サービス名",
+    "製品名",
+  ],
+  cost: ["cost", "amount", "total", "金額", "コスト", "料金", "利用料金"],
+  description: ["description", "detail", "明細", "説明", "内容", "摘要"],
+};
+
+export const guessReportColumns = (fields: string[]): ReportColumns => {
+  const guess = (key: keyof ReportColumns) =>
+    fields.find((field) =>
+      COLUMN_CANDIDATES[key].includes(field.trim().toLowerCase()),
+    ) ?? "";
+  return {
+    service: guess("service"),
+    cost: guess("cost"),
+    description: guess("description"),
+  };
+};
+
+/**
+ * 取り込み設定で 1 ファイルをレポートにする。年月・アカウント ID はパターンの結果を優先し、
+ * 取れなければ手入力の値を使う。年月が決まらなければエラーにする。
+ */
+export const applyImportMapping = (
+  pending: PendingImport,
+  mapping: Pick<ImportMapping, "columns" | "fileNamePattern">,
+  manual: { month: string; accountId: string } = { month: "", accountId: "" },
+  stats?: ParseStats,
+): MonthlyReport => {
+  const { fields, fileName, rows } = pending;
+  if (
+    !fields.includes(mapping.columns.service) ||
+    !fields.includes(mapping.columns.cost)
+  ) {
+    throw new Error("サービス名と金額のカラムを指定してください。");
+  }
+  const matched = matchFileNamePattern(mapping.fileNamePattern, fileName);
+  const month = matched?.month ?? manual.month.trim();
+  if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(month)) {
+    throw new Error("年月（YYYY-MM）を特定できませんでした。");
+  }
+  const accountId = matched?.accountId ?? manual.accountId.trim();
+  return {
+    month,
+    ...summarizeReportRows(rows, mapping.columns, stats),
+    fileName,
+    accountId: accountId || undefined,
+  };
+};
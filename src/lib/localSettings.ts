@@ -0,0 +1,32 @@
+// 設定類（プリセット等の小さなデータ）はブラウザの localStorage にだけ保存する
+const KEY_PREFIX = "classmethod-pricing-chart:";
+
+/**
+ * localStorage から JSON を読み出す。未保存・破損・検証失敗のときは fallback を返す。
+ */
+export const readLocalJson = <T>(
+  key: string,
+  validate: (value: unknown) => value is T,
+  fallback: T,
+): T => {
+  try {
+    const raw = localStorage.getItem(`${KEY_PREFIX}${key}`);
+    if (raw === null) return fallback;
+    const parsed: unknown = JSON.parse(raw);
+    return validate(parsed) ? parsed : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+/**
+ * localStorage に JSON を書き込む。localStorage が使えない（容量超過・プライベートモード等）場合は保存せず false を返す。
+ */
+export const writeLocalJson = (key: string, value: unknown): boolean => {
+  try {
+    localStorage.setItem(`${KEY_PREFIX}${key}`, JSON.stringify(value));
+    return true;
+  } catch {
+    return false;
+  }
+};
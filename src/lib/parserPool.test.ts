@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import {
+  type FileProgress,
+  getParserConcurrency,
+  runWithConcurrency,
+  summarizeFileProgress,
+} from "./parserPool";
+import { isAbortError } from "./reportParsing";
+
+const delay = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("runWithConcurrency", () => {
+  it("同時に実行する数を limit までに抑え、結果を入力の順に返す", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const lanes = new Set<number>();
+
+    const results = await runWithConcurrency(
+      [5, 1, 4, 2, 3],
+      2,
+      async (item, _index, lane) => {
+        running += 1;
+        maxRunning = Math.max(maxRunning, running);
+        lanes.add(lane);
+        for (let i = 0; i < item; i += 1) await delay();
+        running -= 1;
+        return item * 10;
+      },
+    );
+
+    expect(results).toEqual([50, 10, 40, 20, 30]);
+    expect(maxRunning).toBe(2);
+    expect([...lanes].sort()).toEqual([0, 1]);
+  });
+
+  it("中止されたら新しい項目を始めず AbortError で reject する", async () => {
+    const controller = new AbortController();
+    const started: number[] = [];
+
+    const promise = runWithConcurrency(
+      [1, 2, 3, 4],
+      1,
+      async (item) => {
+        started.push(item);
+        if (item === 2) controller.abort();
+        await delay();
+        return item;
+      },
+      controller.signal,
+    );
+
+    await expect(promise).rejects.toSatisfy(isAbortError);
+    expect(started).toEqual([1, 2]);
+  });
+
+  it("項目がなければ空の配列を返す", async () => {
+    expect(await runWithConcurrency([], 4, async () => 1)).toEqual([]);
+  });
+});
+
+describe("getParserConcurrency", () => {
+  it("1 コアをメインスレッドに残し、1〜4 の範囲にする", () => {
+    expect(getParserConcurrency(undefined)).toBe(1);
+    expect(getParserConcurrency(1)).toBe(1);
+    expect(getParserConcurrency(4)).toBe(3);
+    expect(getParserConcurrency(16)).toBe(4);
+  });
+});
+
+describe("summarizeFileProgress", () => {
+  it("読み込んだバイト数と完了・失敗したファイル数を数える", () => {
+    const files: FileProgress[] = [
+      { path: "a.csv", loaded: 100, total: 100, status: "done" },
+      { path: "b.csv", loaded: 50, total: 200, status: "parsing" },
+      { path: "c.csv", loaded: 10, total: 10, status: "failed" },
+      { path: "d.csv", loaded: 0, total: 40, status: "waiting" },
+    ];
+    expect(summarizeFileProgress(files)).toEqual({
+      loaded: 160,
+      total: 350,
+      settled: 2,
+      failed: 1,
+    });
+  });
+});
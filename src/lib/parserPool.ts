@@ -0,0 +1,189 @@
+import type { SourceFile } from "@/lib/archive";
+import type { ImportMapping } from "@/lib/importMappings";
+import {
+  createAbortError,
+  type ParseOutcome,
+  type ParseProgress,
+  parseReportFile,
+} from "@/lib/reportParsing";
+
+// メインスレッドから Worker へ
+export type ParseRequest = {
+  id: number;
+  source: SourceFile;
+  importMappings: ImportMapping[];
+};
+
+// Worker からメインスレッドへ
+export type ParseResponse =
+  | ({ type: "progress"; id: number } & ParseProgress)
+  | { type: "done"; id: number; outcome: ParseOutcome };
+
+export type FileProgressStatus = "waiting" | "parsing" | "done" | "failed";
+
+// 取り込み中の 1 ファイルの進捗（UploadPanel に表示する）
+export type FileProgress = {
+  path: string;
+  loaded: number;
+  total: number;
+  status: FileProgressStatus;
+};
+
+// 同時に解析するファイル数。メインスレッドの分として 1 コア残し、多すぎないよう最大 4 にする
+export const getParserConcurrency = (
+  hardwareConcurrency: number | undefined,
+): number => Math.min(Math.max((hardwareConcurrency ?? 2) - 1, 1), 4);
+
+/**
+ * items を最大 limit 件ずつ並行して run する。lane は 0〜limit-1 の実行枠の番号で、
+ * 枠ごとに Worker を使い回すために渡す。中止されたら新しい項目を始めず AbortError で reject する。
+ */
+export const runWithConcurrency = async <T, R>(
+  items: readonly T[],
+  limit: number,
+  run: (item: T, index: number, lane: number) => Promise<R>,
+  signal?: AbortSignal,
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let stopped = false;
+
+  const runLane = async (lane: number) => {
+    while (next < items.length) {
+      if (stopped) return;
+      if (signal?.aborted) throw createAbortError();
+      const index = next;
+      next += 1;
+      try {
+        results[index] = await run(items[index] as T, index, lane);
+      } catch (error) {
+        stopped = true;
+        throw error;
+      }
+    }
+  };
+
+  const lanes = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: lanes }, (_, lane) => runLane(lane)));
+  if (signal?.aborted) throw createAbortError();
+  return results;
+};
+
+export const summarizeFileProgress = (files: FileProgress[]) => ({
+  loaded: files.reduce((sum, file) => sum + file.loaded, 0),
+  total: files.reduce((sum, file) => sum + file.total, 0),
+  settled: files.filter(
+    (file) => file.status === "done" || file.status === "failed",
+  ).length,
+  failed: files.filter((file) => file.status === "failed").length,
+});
+
+const createParserWorker = (): Worker | null =>
+  typeof Worker === "undefined"
+    ? null
+    : new Worker(new URL("./reportParser.worker.ts", import.meta.url), {
+        type: "module",
+      });
+
+// 1 ファイルを Worker で解析する。中止されたら Worker を止めて AbortError で reject する
+const parseInWorker = (
+  worker: Worker,
+  request: ParseRequest,
+  onProgress: (progress: ParseProgress) => void,
+  signal: AbortSignal,
+): Promise<ParseOutcome> =>
+  new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const cleanup = () => {
+      worker.onmessage = null;
+      worker.onerror = null;
+      signal.removeEventListener("abort", handleAbort);
+    };
+    const handleAbort = () => {
+      cleanup();
+      worker.terminate();
+      reject(createAbortError());
+    };
+    worker.onmessage = ({ data }: MessageEvent<ParseResponse>) => {
+      if (data.id !== request.id) return;
+      if (data.type === "progress") {
+        onProgress(data);
+        return;
+      }
+      cleanup();
+      resolve(data.outcome);
+    };
+    worker.onerror = (event) => {
+      event.preventDefault();
+      cleanup();
+      resolve({
+        status: "failed",
+        message: `「${request.source.path}」の読み込みに失敗しました: ${event.message}`,
+        rowCount: 0,
+        warnings: [],
+      });
+    };
+    signal.addEventListener("abort", handleAbort);
+    worker.postMessage(request);
+  });
+
+/**
+ * ファイルを Web Worker のプールで解析する。Worker は実行枠ごとに作って使い回し、終わったら止める。
+ * Worker を使えない環境ではメインスレッドで 1 件ずつ解析する。
+ * 結果は files と同じ順に返し、中止されたら AbortError で reject する。
+ */
+export const parseFilesInWorkers = async (
+  files: SourceFile[],
+  importMappings: ImportMapping[],
+  {
+    signal,
+    onProgress,
+    onSettled,
+  }: {
+    signal: AbortSignal;
+    onProgress: (index: number, progress: ParseProgress) => void;
+    onSettled: (index: number, outcome: ParseOutcome) => void;
+  },
+): Promise<ParseOutcome[]> => {
+  const workers: Array<Worker | null> = [];
+  const concurrency =
+    typeof Worker === "undefined"
+      ? 1
+      : getParserConcurrency(globalThis.navigator?.hardwareConcurrency);
+
+  try {
+    return await runWithConcurrency(
+      files,
+      concurrency,
+      async (source, index, lane) => {
+        if (workers[lane] === undefined) {
+          workers[lane] = createParserWorker();
+        }
+        const worker = workers[lane];
+        const handleProgress = (progress: ParseProgress) =>
+          onProgress(index, progress);
+        const outcome = worker
+          ? await parseInWorker(
+              worker,
+              { id: index, source, importMappings },
+              handleProgress,
+              signal,
+            )
+          : await parseReportFile(source, importMappings, {
+              onProgress: handleProgress,
+              signal,
+            });
+        onSettled(index, outcome);
+        return outcome;
+      },
+      signal,
+    );
+  } finally {
+    for (const worker of workers) {
+      worker?.terminate();
+    }
+  }
+};
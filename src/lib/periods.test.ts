@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildMonthRangeShortcuts,
+  findIncompletePeriods,
+  getPeriodMonths,
+  getPeriodStart,
+  isFiscalStartMonth,
+  monthIndex,
+  nextMonths,
+  shiftPeriod,
+} from "./periods";
+
+describe("nextMonths", () => {
+  it("年をまたいで続く月を返す", () => {
+    expect(nextMonths("2024-11", 3)).toEqual(["2024-12", "2025-01", "2025-02"]);
+  });
+});
+
+describe("monthIndex", () => {
+  it("年をまたいでも月の差が求まる", () => {
+    expect(monthIndex("2025-01") - monthIndex("2024-11")).toBe(2);
+  });
+});
+
+describe("getPeriodMonths", () => {
+  it("四半期は年度の開始月から数えた 3 か月を返す", () => {
+    expect(getPeriodMonths("FY2024-Q4", "quarter", 4)).toEqual([
+      "2025-01",
+      "2025-02",
+      "2025-03",
+    ]);
+  });
+
+  it("年度は開始月から 12 か月を返す", () => {
+    const months = getPeriodMonths("FY2024", "fiscalYear", 4);
+    expect(months).toHaveLength(12);
+    expect(months[0]).toBe("2024-04");
+    expect(months[11]).toBe("2025-03");
+  });
+
+  it("年次は 1 月から 12 月を返す", () => {
+    expect(getPeriodMonths("2024", "year", 4).at(-1)).toBe("2024-12");
+  });
+
+  it("時間軸と形式の合わない期間は空にする", () => {
+    expect(getPeriodMonths("2024", "fiscalYear", 4)).toEqual([]);
+    expect(getPeriodStart("FY2024-Q5", "quarter", 4)).toBeNull();
+  });
+});
+
+describe("shiftPeriod", () => {
+  it("年度をまたいで四半期をずらす", () => {
+    expect(shiftPeriod("FY2024-Q1", "quarter", -1, 4)).toBe("FY2023-Q4");
+    expect(shiftPeriod("FY2024-Q4", "quarter", 1, 4)).toBe("FY2025-Q1");
+  });
+
+  it("月次は年をまたいでずらす", () => {
+    expect(shiftPeriod("2024-01", "month", -1)).toBe("2023-12");
+  });
+
+  it("解釈できない期間はエラーにする", () => {
+    expect(() => shiftPeriod("FY2024", "year", -1)).toThrow("FY2024");
+  });
+});
+
+describe("findIncompletePeriods", () => {
+  it("一部の月しか含まない期間を月数とともに返す", () => {
+    expect(
+      findIncompletePeriods(
+        ["FY2024-Q1", "FY2024-Q2"],
+        ["2024-04", "2024-05", "2024-06", "2024-07"],
+        "quarter",
+        4,
+      ),
+    ).toEqual([{ period: "FY2024-Q2", expected: 3, months: ["2024-07"] }]);
+  });
+
+  it("月次では常に空を返す", () => {
+    expect(findIncompletePeriods(["2024-04"], [], "month", 4)).toEqual([]);
+  });
+});
+
+describe("buildMonthRangeShortcuts", () => {
+  const months = [
+    "2023-02",
+    "2023-03",
+    "2023-04",
+    "2024-01",
+    "2024-02",
+    "2024-03",
+    "2024-04",
+    "2024-05",
+  ];
+
+  it("データの最新月を基準に今年度・前年度・直近の四半期を選ぶ", () => {
+    const shortcuts = Object.fromEntries(
+      buildMonthRangeShortcuts(months, 4).map(({ label, months }) => [
+        label,
+        months,
+      ]),
+    );
+    expect(shortcuts.今年度).toEqual(["2024-04", "2024-05"]);
+    expect(shortcuts.前年度).toEqual([
+      "2023-04",
+      "2024-01",
+      "2024-02",
+      "2024-03",
+    ]);
+    expect(shortcuts["直近 2 四半期"]).toEqual([
+      "2024-01",
+      "2024-02",
+      "2024-03",
+      "2024-04",
+      "2024-05",
+    ]);
+    expect(shortcuts["直近 12 か月"]).toEqual(months.slice(3));
+  });
+
+  it("年度の開始月に合わせて範囲が変わる", () => {
+    const [thisYear] = buildMonthRangeShortcuts(months, 1);
+    expect(thisYear.months).toEqual(months.slice(3));
+  });
+
+  it("データがなければ空を返す", () => {
+    expect(buildMonthRangeShortcuts([], 4)).toEqual([]);
+  });
+});
+
+describe("isFiscalStartMonth", () => {
+  it("1〜12 の整数だけを受け付ける", () => {
+    expect(isFiscalStartMonth(4)).toBe(true);
+    expect(isFiscalStartMonth(0)).toBe(false);
+    expect(isFiscalStartMonth(13)).toBe(false);
+    expect(isFiscalStartMonth(4.5)).toBe(false);
+    expect(isFiscalStartMonth("4")).toBe(false);
+  });
+});
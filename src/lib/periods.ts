@@ -0,0 +1,193 @@
+import {
+  DEFAULT_FISCAL_START_MONTH,
+  type TimeUnit,
+  toPeriod,
+} from "@/lib/aggregate";
+
+export const TIME_UNIT_LABELS: Record<TimeUnit, string> = {
+  month: "月次",
+  quarter: "四半期",
+  year: "年次",
+  fiscalYear: "年度",
+};
+
+// 前期比の表示名
+export const PREVIOUS_PERIOD_LABELS: Record<TimeUnit, string> = {
+  month: "前月比",
+  quarter: "前四半期比",
+  year: "前年比",
+  fiscalYear: "前年度比",
+};
+
+export const FISCAL_START_MONTH_STORAGE_KEY = "fiscal-start-month";
+
+export const isFiscalStartMonth = (value: unknown): value is number =>
+  typeof value === "number" &&
+  Number.isInteger(value) &&
+  value >= 1 &&
+  value <= 12;
+
+export const MONTHS_PER_PERIOD: Record<TimeUnit, number> = {
+  month: 1,
+  quarter: 3,
+  year: 12,
+  fiscalYear: 12,
+};
+
+// 年月（YYYY-MM）を通し番号にする。月の差や隣の月はこの番号の差で求める
+export const monthIndex = (month: string): number => {
+  const [year, mon] = month.split("-").map(Number);
+  return year * 12 + mon - 1;
+};
+
+export const fromMonthIndex = (index: number): string =>
+  `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, "0")}`;
+
+// lastMonth の次の月から count か月分
+export const nextMonths = (lastMonth: string, count: number): string[] =>
+  Array.from({ length: count }, (_, i) =>
+    fromMonthIndex(monthIndex(lastMonth) + i + 1),
+  );
+
+const MONTH_PERIOD = /^\d{4}-(0[1-9]|1[0-2])$/;
+const QUARTER_PERIOD = /^FY(\d{4})-Q([1-4])$/;
+const YEAR_PERIOD = /^(\d{4})$/;
+const FISCAL_YEAR_PERIOD = /^FY(\d{4})$/;
+
+const toMonth = (year: string, month: number) =>
+  `${year}-${String(month).padStart(2, "0")}`;
+
+// 期間ラベル（toPeriod の戻り値）の最初の月。解釈できなければ null
+export const getPeriodStart = (
+  period: string,
+  timeUnit: TimeUnit,
+  fiscalStartMonth: number = DEFAULT_FISCAL_START_MONTH,
+): string | null => {
+  if (timeUnit === "month") return MONTH_PERIOD.test(period) ? period : null;
+  if (timeUnit === "year") {
+    const match = YEAR_PERIOD.exec(period);
+    return match ? toMonth(match[1], 1) : null;
+  }
+  if (timeUnit === "fiscalYear") {
+    const match = FISCAL_YEAR_PERIOD.exec(period);
+    return match ? toMonth(match[1], fiscalStartMonth) : null;
+  }
+  const match = QUARTER_PERIOD.exec(period);
+  if (!match) return null;
+  return fromMonthIndex(
+    monthIndex(toMonth(match[1], fiscalStartMonth)) +
+      (Number(match[2]) - 1) * 3,
+  );
+};
+
+// 期間に含まれるすべての月（データの有無によらない）
+export const getPeriodMonths = (
+  period: string,
+  timeUnit: TimeUnit,
+  fiscalStartMonth: number = DEFAULT_FISCAL_START_MONTH,
+): string[] => {
+  const start = getPeriodStart(period, timeUnit, fiscalStartMonth);
+  if (start === null) return [];
+  const first = monthIndex(start);
+  return Array.from({ length: MONTHS_PER_PERIOD[timeUnit] }, (_, i) =>
+    fromMonthIndex(first + i),
+  );
+};
+
+// 期間を count 個ずらす（マイナスなら前の期間）
+export const shiftPeriod = (
+  period: string,
+  timeUnit: TimeUnit,
+  count: number,
+  fiscalStartMonth: number = DEFAULT_FISCAL_START_MONTH,
+): string => {
+  const start = getPeriodStart(period, timeUnit, fiscalStartMonth);
+  if (start === null) {
+    throw new Error(`期間「${period}」を解釈できません。`);
+  }
+  return toPeriod(
+    fromMonthIndex(monthIndex(start) + count * MONTHS_PER_PERIOD[timeUnit]),
+    timeUnit,
+    fiscalStartMonth,
+  );
+};
+
+export type PeriodCoverage = {
+  period: string;
+  // 期間に含まれる月の数
+  expected: number;
+  // 集計に含まれた月（選択中かつデータのある月）
+  months: string[];
+};
+
+/**
+ * 期間のうち、集計に含まれた月が一部だけのもの（年度の途中・月の選択漏れ・データの欠落）を返す。
+ * 月次では常に空。
+ */
+export const findIncompletePeriods = (
+  periods: string[],
+  months: string[],
+  timeUnit: TimeUnit,
+  fiscalStartMonth: number = DEFAULT_FISCAL_START_MONTH,
+): PeriodCoverage[] => {
+  if (timeUnit === "month") return [];
+  const included = new Set(months);
+  return periods.flatMap((period) => {
+    const expected = getPeriodMonths(period, timeUnit, fiscalStartMonth);
+    const present = expected.filter((month) => included.has(month));
+    return present.length < expected.length
+      ? [{ period, expected: expected.length, months: present }]
+      : [];
+  });
+};
+
+export type MonthRangeShortcut = {
+  label: string;
+  // 読み込み済みの月のうち、範囲に含まれるもの
+  months: string[];
+};
+
+/**
+ * 年月の選択のショートカット。「今年度」などはデータの最新月を基準にする
+ * （古いデータだけを読み込んだときも空にならないように）。
+ */
+export const buildMonthRangeShortcuts = (
+  months: string[],
+  fiscalStartMonth: number = DEFAULT_FISCAL_START_MONTH,
+): MonthRangeShortcut[] => {
+  const sorted = [...months].sort((a, b) => a.localeCompare(b));
+  const latest = sorted.at(-1);
+  if (!latest) return [];
+
+  const available = new Set(sorted);
+  const pick = (candidates: string[]) =>
+    candidates.filter((month) => available.has(month));
+  const lastPeriods = (timeUnit: TimeUnit, count: number) => {
+    const current = toPeriod(latest, timeUnit, fiscalStartMonth);
+    return pick(
+      Array.from({ length: count }, (_, i) =>
+        shiftPeriod(current, timeUnit, i - count + 1, fiscalStartMonth),
+      ).flatMap((period) =>
+        getPeriodMonths(period, timeUnit, fiscalStartMonth),
+      ),
+    );
+  };
+  const thisFiscalYear = toPeriod(latest, "fiscalYear", fiscalStartMonth);
+
+  return [
+    { label: "今年度", months: lastPeriods("fiscalYear", 1) },
+    {
+      label: "前年度",
+      months: pick(
+        getPeriodMonths(
+          shiftPeriod(thisFiscalYear, "fiscalYear", -1, fiscalStartMonth),
+          "fiscalYear",
+          fiscalStartMonth,
+        ),
+      ),
+    },
+    { label: "直近 2 四半期", months: lastPeriods("quarter", 2) },
+    { label: "直近 4 四半期", months: lastPeriods("quarter", 4) },
+    { label: "直近 12 か月", months: lastPeriods("month", 12) },
+  ];
+};
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import type { ChartRow } from "./aggregate";
+import {
+  buildPivotTable,
+  getHeatmapIntensity,
+  sortPivotRows,
+  toPivotCellValue,
+} from "./pivot";
+
+const chartRows: ChartRow[] = [
+  { month: "2024-03", services: { "Amazon EC2": 300, "Amazon S3": 100 } },
+  {
+    month: "2024-04",
+    services: { "Amazon EC2": 200, "Amazon S3": 150, "AWS Lambda": 50 },
+  },
+];
+
+describe("buildPivotTable", () => {
+  it("系列を行・期間を列にし、行と列の合計を求める", () => {
+    const table = buildPivotTable(chartRows, ["Amazon EC2", "Amazon S3"]);
+    expect(table.periods).toEqual(["2024-03", "2024-04"]);
+    expect(table.rows).toEqual([
+      {
+        series: "Amazon EC2",
+        values: { "2024-03": 300, "2024-04": 200 },
+        total: 500,
+      },
+      {
+        series: "Amazon S3",
+        values: { "2024-03": 100, "2024-04": 150 },
+        total: 250,
+      },
+    ]);
+    expect(table.periodTotals).toEqual({ "2024-03": 400, "2024-04": 350 });
+    expect(table.total).toBe(750);
+    expect(table.maxValue).toBe(300);
+  });
+
+  it("データのない期間は 0 にする", () => {
+    const table = buildPivotTable(chartRows, ["AWS Lambda"]);
+    expect(table.rows[0].values).toEqual({ "2024-03": 0, "2024-04": 50 });
+  });
+});
+
+describe("sortPivotRows", () => {
+  const { rows } = buildPivotTable(chartRows, [
+    "Amazon EC2",
+    "Amazon S3",
+    "AWS Lambda",
+  ]);
+
+  it("期間の列で並べ替える", () => {
+    expect(
+      sortPivotRows(rows, "2024-04", "asc").map((row) => row.series),
+    ).toEqual(["AWS Lambda", "Amazon S3", "Amazon EC2"]);
+  });
+
+  it("合計で降順に並べ、同じ金額は表示名の順にする", () => {
+    const tied = rows.map((row) => ({ ...row, total: 100 }));
+    expect(
+      sortPivotRows(tied, "total", "desc", (name) =>
+        name === "AWS Lambda" ? "0 Lambda" : name,
+      ).map((row) => row.series),
+    ).toEqual(["AWS Lambda", "Amazon EC2", "Amazon S3"]);
+  });
+
+  it("系列名は表示名で並べ替える", () => {
+    expect(
+      sortPivotRows(rows, "series", "desc").map((row) => row.series),
+    ).toEqual(["AWS Lambda", "Amazon S3", "Amazon EC2"]);
+  });
+});
+
+describe("toPivotCellValue", () => {
+  it("割合は期間または全体の合計で割る", () => {
+    const totals = { periodTotal: 400, total: 1000 };
+    expect(toPivotCellValue(100, "amount", totals)).toBe(100);
+    expect(toPivotCellValue(100, "periodShare", totals)).toBe(0.25);
+    expect(toPivotCellValue(100, "totalShare", totals)).toBe(0.1);
+  });
+
+  it("分母が 0 の割合は null を返す", () => {
+    expect(
+      toPivotCellValue(0, "periodShare", { periodTotal: 0, total: 10 }),
+    ).toBeNull();
+  });
+});
+
+describe("getHeatmapIntensity", () => {
+  it("最大値に対する比率を 0〜1 に収める", () => {
+    expect(getHeatmapIntensity(150, 300)).toBe(0.5);
+    expect(getHeatmapIntensity(-20, 300)).toBe(0);
+    expect(getHeatmapIntensity(10, 0)).toBe(0);
+  });
+});
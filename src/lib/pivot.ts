@@ -0,0 +1,97 @@
+import type { ChartRow } from "@/lib/aggregate";
+
+export type PivotRow = {
+  series: string;
+  // 期間ごとの金額（データのない期間は 0）
+  values: Record<string, number>;
+  total: number;
+};
+
+export type PivotTable = {
+  periods: string[];
+  rows: PivotRow[];
+  periodTotals: Record<string, number>;
+  total: number;
+  // ヒートマップの基準にするセルの最大値（合計の行・列は含めない）
+  maxValue: number;
+};
+
+// amount: 金額 / periodShare: 期間（列）の合計に対する割合 / totalShare: 全体の合計に対する割合
+export type PivotValueMode = "amount" | "periodShare" | "totalShare";
+
+// "series"（系列名）・"total"（行の合計）か、期間ラベル（その期間の列）
+export type PivotSortKey = string;
+
+/**
+ * aggregate() の行（期間 × 系列）を、系列を行・期間を列にした表にする。
+ * 合計は series に含まれる系列だけで計算するため、aggregate() の total と一致する。
+ */
+export const buildPivotTable = (
+  chartRows: ChartRow[],
+  series: string[],
+): PivotTable => {
+  const periods = chartRows.map((row) => row.month);
+  const rows = series.map((name) => {
+    const values = Object.fromEntries(
+      chartRows.map((row) => [row.month, row.services[name] ?? 0]),
+    );
+    return {
+      series: name,
+      values,
+      total: Object.values(values).reduce((sum, value) => sum + value, 0),
+    };
+  });
+  const periodTotals = Object.fromEntries(
+    periods.map((period) => [
+      period,
+      rows.reduce((sum, row) => sum + (row.values[period] ?? 0), 0),
+    ]),
+  );
+  return {
+    periods,
+    rows,
+    periodTotals,
+    total: rows.reduce((sum, row) => sum + row.total, 0),
+    maxValue: Math.max(
+      0,
+      ...rows.flatMap((row) => periods.map((period) => row.values[period])),
+    ),
+  };
+};
+
+/**
+ * 系列の行を並べ替える。系列名は表示名（labelOf）で比べ、金額が同じ行は表示名の順にする。
+ */
+export const sortPivotRows = (
+  rows: PivotRow[],
+  key: PivotSortKey,
+  direction: "asc" | "desc",
+  labelOf: (series: string) => string = (series) => series,
+): PivotRow[] => {
+  const sign = direction === "asc" ? 1 : -1;
+  const byLabel = (a: PivotRow, b: PivotRow) =>
+    labelOf(a.series).localeCompare(labelOf(b.series));
+  const amountOf = (row: PivotRow) =>
+    key === "total" ? row.total : (row.values[key] ?? 0);
+  return [...rows].sort((a, b) => {
+    if (key === "series") return sign * byLabel(a, b);
+    return sign * (amountOf(a) - amountOf(b)) || byLabel(a, b);
+  });
+};
+
+/**
+ * セルに表示する値。割合は分母が 0 のとき定義できないため null を返す。
+ */
+export const toPivotCellValue = (
+  value: number,
+  mode: PivotValueMode,
+  { periodTotal, total }: { periodTotal: number; total: number },
+): number | null => {
+  if (mode === "amount") return value;
+  const denominator = mode === "periodShare" ? periodTotal : total;
+  return denominator === 0 ? null : value / denominator;
+};
+
+// ヒートマップの濃さ（0〜1）。マイナス（クレジット）のセルは 0 とする
+export const getHeatmapIntensity = (value: number, maxValue: number): number =>
+  maxValue > 0 ? Math.min(Math.max(value / maxValue, 0), 1) : 0;
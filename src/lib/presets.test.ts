@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import {
+  createPreset,
+  isViewPreset,
+  mergePresets,
+  parsePresetsJson,
+  serializePresets,
+} from "./presets";
+
+const state = {
+  accounts: ["123456789012"],
+  months: ["2024-03", "2024-04"],
+  services: ["Amazon EC2", "Amazon RDS"],
+  groups: ["platform"],
+  categories: ["Compute", "Database"],
+  groupDimension: "team",
+  groupBy: "service" as const,
+  timeUnit: "month" as const,
+  fiscalStartMonth: 10,
+  chartType: "line" as const,
+  topN: { enabled: true, count: 5, rankBy: "latest" as const },
+};
+
+describe("createPreset", () => {
+  it("名前の前後の空白を除いて ID を振る", () => {
+    const preset = createPreset("  prod / compute ", state);
+    expect(preset.name).toBe("prod / compute");
+    expect(preset.id).not.toBe("");
+    expect(isViewPreset(preset)).toBe(true);
+  });
+});
+
+describe("serializePresets / parsePresetsJson", () => {
+  it("往復しても同じプリセットに戻る", () => {
+    const presets = [createPreset("a", state), createPreset("b", state)];
+    expect(parsePresetsJson(serializePresets(presets))).toEqual(presets);
+  });
+
+  it("配列だけの JSON も読み込める", () => {
+    const presets = [createPreset("a", state)];
+    expect(parsePresetsJson(JSON.stringify(presets))).toEqual(presets);
+  });
+
+  it("JSON でない場合はエラーにする", () => {
+    expect(() => parsePresetsJson("not json")).toThrow(
+      "JSON として読み込めませんでした。",
+    );
+  });
+
+  it("形式が不正なプリセットがあればエラーにする", () => {
+    const invalid = JSON.stringify({
+      presets: [
+        createPreset("a", state),
+        { id: "x", name: "b", state: { ...state, groupBy: "team" } },
+      ],
+    });
+    expect(() => parsePresetsJson(invalid)).toThrow(
+      "2 件目のプリセットの形式が不正です。",
+    );
+  });
+
+  it("グループ・カテゴリ・年度の開始月・グラフの種類・上位のみ表示を含まない以前のプリセットも読み込み、不正な値はエラーにする", () => {
+    const {
+      groups: _groups,
+      categories: _categories,
+      groupDimension: _groupDimension,
+      fiscalStartMonth: _fiscalStartMonth,
+      chartType: _chartType,
+      topN: _topN,
+      ...legacy
+    } = state;
+    const presets = [{ id: "old", name: "old", state: legacy }];
+    expect(parsePresetsJson(JSON.stringify(presets))).toEqual(presets);
+    expect(
+      isViewPreset({
+        id: "x",
+        name: "x",
+        state: { ...state, topN: { enabled: true, count: 0, rankBy: "total" } },
+      }),
+    ).toBe(false);
+    expect(
+      isViewPreset({
+        id: "x",
+        name: "x",
+        state: { ...state, chartType: "pie" },
+      }),
+    ).toBe(false);
+    expect(
+      isViewPreset({ id: "x", name: "x", state: { ...state, groups: "a" } }),
+    ).toBe(false);
+    expect(
+      isViewPreset({
+        id: "x",
+        name: "x",
+        state: { ...state, fiscalStartMonth: 0 },
+      }),
+    ).toBe(false);
+  });
+});
+
+describe("mergePresets", () => {
+  it("同名のプリセットは置き換え、既存の ID を保つ", () => {
+    const existing = [createPreset("prod", state)];
+    const imported = [
+      createPreset("prod", { ...state, timeUnit: "year" }),
+      createPreset("sandbox", state),
+    ];
+    const merged = mergePresets(existing, imported);
+    expect(merged.map((p) => p.name)).toEqual(["prod", "sandbox"]);
+    expect(merged[0].id).toBe(existing[0].id);
+    expect(merged[0].state.timeUnit).toBe("year");
+  });
+
+  it("ID が重複する別名のプリセットには新しい ID を振る", () => {
+    const existing = [createPreset("prod", state)];
+    const imported = [{ ...existing[0], name: "copy" }];
+    const merged = mergePresets(existing, imported);
+    expect(merged).toHaveLength(2);
+    expect(merged[1].id).not.toBe(existing[0].id);
+  });
+});
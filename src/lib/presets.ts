@@ -0,0 +1,126 @@
+import { type GroupBy, TIME_UNITS, type TimeUnit } from "@/lib/aggregate";
+import { CHART_TYPES, type ChartType } from "@/lib/chartViews";
+import { isFiscalStartMonth } from "@/lib/periods";
+import { isTopNOptions } from "@/lib/topN";
+import type { ViewState } from "@/lib/viewState";
+
+// アカウント・年月・サービスの選択と集計モード・時間軸より後に加えた項目は、
+// それ以前に保存したプリセットには含まれない
+type LaterPresetKeys =
+  | "groups"
+  | "categories"
+  | "groupDimension"
+  | "fiscalStartMonth"
+  | "chartType"
+  | "topN";
+
+export type ViewPresetState = Required<Omit<ViewState, LaterPresetKeys>> &
+  Pick<ViewState, LaterPresetKeys>;
+
+export type ViewPreset = {
+  id: string;
+  name: string;
+  state: ViewPresetState;
+};
+
+export const PRESETS_STORAGE_KEY = "view-presets";
+
+const PRESETS_FILE_VERSION = 1;
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+const isGroupBy = (value: unknown): value is GroupBy =>
+  value === "service" ||
+  value === "account" ||
+  value === "group" ||
+  value === "category";
+
+const isTimeUnit = (value: unknown): value is TimeUnit =>
+  TIME_UNITS.includes(value as TimeUnit);
+
+const isChartType = (value: unknown): value is ChartType =>
+  CHART_TYPES.includes(value as ChartType);
+
+export const isViewPreset = (value: unknown): value is ViewPreset => {
+  if (typeof value !== "object" || value === null) return false;
+  const candidate = value as Record<string, unknown>;
+  if (typeof candidate.id !== "string") return false;
+  if (typeof candidate.name !== "string" || candidate.name.trim() === "")
+    return false;
+  const state = candidate.state as Record<string, unknown> | null;
+  if (typeof state !== "object" || state === null) return false;
+  return (
+    isStringArray(state.accounts) &&
+    isStringArray(state.months) &&
+    isStringArray(state.services) &&
+    isGroupBy(state.groupBy) &&
+    isTimeUnit(state.timeUnit) &&
+    (state.groups === undefined || isStringArray(state.groups)) &&
+    (state.categories === undefined || isStringArray(state.categories)) &&
+    (state.groupDimension === undefined ||
+      typeof state.groupDimension === "string") &&
+    (state.fiscalStartMonth === undefined ||
+      isFiscalStartMonth(state.fiscalStartMonth)) &&
+    (state.chartType === undefined || isChartType(state.chartType)) &&
+    (state.topN === undefined || isTopNOptions(state.topN))
+  );
+};
+
+export const isViewPresetList = (value: unknown): value is ViewPreset[] =>
+  Array.isArray(value) && value.every(isViewPreset);
+
+export const createPreset = (
+  name: string,
+  state: ViewPresetState,
+): ViewPreset => ({
+  id: crypto.randomUUID(),
+  name: name.trim(),
+  state,
+});
+
+export const serializePresets = (presets: ViewPreset[]): string =>
+  JSON.stringify({ version: PRESETS_FILE_VERSION, presets }, null, 2);
+
+/**
+ * エクスポートした JSON を読み込む。形式が不正な場合は Error を投げる。
+ */
+export const parsePresetsJson = (text: string): ViewPreset[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("JSON として読み込めませんでした。");
+  }
+  const presets =
+    typeof parsed === "object" && parsed !== null && "presets" in parsed
+      ? (parsed as { presets: unknown }).presets
+      : parsed;
+  if (!Array.isArray(presets)) {
+    throw new Error("プリセットの一覧が見つかりません。");
+  }
+  const invalidIndex = presets.findIndex((preset) => !isViewPreset(preset));
+  if (invalidIndex >= 0) {
+    throw new Error(`${invalidIndex + 1} 件目のプリセットの形式が不正です。`);
+  }
+  return presets as ViewPreset[];
+};
+
+// 取り込んだプリセットは同名の既存プリセットを置き換え、それ以外は末尾に追加する
+export const mergePresets = (
+  existing: ViewPreset[],
+  imported: ViewPreset[],
+): ViewPreset[] => {
+  const merged = [...existing];
+  for (const preset of imported) {
+    const index = merged.findIndex((p) => p.name === preset.name);
+    if (index >= 0) {
+      merged[index] = { ...preset, id: merged[index].id };
+    } else if (merged.some((p) => p.id === preset.id)) {
+      merged.push({ ...preset, id: crypto.randomUUID() });
+    } else {
+      merged.push(preset);
+    }
+  }
+  return merged;
+};
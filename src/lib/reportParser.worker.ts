@@ -0,0 +1,17 @@
+import type { ParseRequest, ParseResponse } from "@/lib/parserPool";
+import { parseReportFile } from "@/lib/reportParsing";
+
+// CSV の解析と集計を行う Web Worker。parserPool から 1 ファイルずつ依頼を受け取る
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<ParseRequest>) => void) | null;
+  postMessage: (message: ParseResponse) => void;
+};
+
+scope.onmessage = async ({ data }) => {
+  const { id, source, importMappings } = data;
+  const outcome = await parseReportFile(source, importMappings, {
+    onProgress: (progress) =>
+      scope.postMessage({ type: "progress", id, ...progress }),
+  });
+  scope.postMessage({ type: "done", id, outcome });
+};
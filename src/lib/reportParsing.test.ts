@@ -0,0 +1,274 @@
+import * as Papa from "papaparse";
+import { describe, expect, it } from "vitest";
+import type { CsvRow } from "./billingFormats";
+import { NO_DESCRIPTION } from "./csv";
+import type { ImportMapping } from "./importMappings";
+import {
+  combineImportedReports,
+  createReportAccumulator,
+  mergeReportChunks,
+  type ParseOutcome,
+} from "./reportParsing";
+
+// 文字列を chunkSize ごとに分割して読み込み、集計結果を返す
+const accumulate = (
+  text: string,
+  fileName: string,
+  chunkSize: number,
+  importMappings: ImportMapping[] = [],
+): ParseOutcome => {
+  const accumulator = createReportAccumulator(
+    { fileName, path: `archive.zip/${fileName}` },
+    importMappings,
+  );
+  Papa.parse<CsvRow>(text, {
+    header: true,
+    skipEmptyLines: "greedy",
+    chunkSize,
+    chunk: (results: Papa.ParseResult<CsvRow>) =>
+      accumulator.addChunk(
+        results.data,
+        results.meta.fields ?? [],
+        results.errors,
+      ),
+    complete: () => {},
+  });
+  return accumulator.finish();
+};
+
+const CLASSMETHOD_CSV = [
+  "product_name,description,cost",
+  ...Array.from({ length: 40 }, (_, i) =>
+    i % 2 === 0 ? "Amazon EC2,BoxUsage,1.5" : "Amazon S3,,0.25",
+  ),
+].join("\n");
+
+describe("createReportAccumulator", () => {
+  it("分割して読み込んでも 1 ファイル分のレポートに合算する", () => {
+    const whole = accumulate(
+      CLASSMETHOD_CSV,
+      "monthly-report-2024-03-123456789012.csv",
+      1024 * 1024,
+    );
+    const chunked = accumulate(
+      CLASSMETHOD_CSV,
+      "monthly-report-2024-03-123456789012.csv",
+      64,
+    );
+
+    expect(chunked).toEqual(whole);
+    expect(chunked).toEqual({
+      status: "parsed",
+      reports: [
+        {
+          month: "2024-03",
+          services: { "Amazon EC2": 30, "Amazon S3": 5 },
+          descriptions: {
+            "Amazon EC2": { BoxUsage: 30 },
+            "Amazon S3": { [NO_DESCRIPTION]: 5 },
+          },
+          total: 35,
+          fileName: "monthly-report-2024-03-123456789012.csv",
+          accountId: "123456789012",
+        },
+      ],
+      zeroCostRows: 0,
+      isPart: false,
+      rowCount: 40,
+      warnings: [],
+    });
+  });
+
+  it("形式のエラーの行番号はファイル全体の行で数える", () => {
+    const csv = [
+      "lineItem/UsageAccountId,lineItem/UsageStartDate,product/ProductName,lineItem/UnblendedCost",
+      ...Array.from(
+        { length: 10 },
+        () => "111111111111,2024-03-01T00:00:00Z,Amazon EC2,1",
+      ),
+      "111111111111,unknown,Amazon EC2,1",
+    ].join("\n");
+
+    expect(() => accumulate(csv, "cur.csv", 64)).toThrow(
+      "12 行目の利用開始日から年月を特定できませんでした。",
+    );
+  });
+
+  it("CUR は分割ファイル（isPart）として解析する", () => {
+    const csv = [
+      "lineItem/UsageAccountId,lineItem/UsageStartDate,product/ProductName,lineItem/UnblendedCost",
+      "111111111111,2024-03-01T00:00:00Z,Amazon EC2,1",
+    ].join("\n");
+    const outcome = accumulate(csv, "cur-00001.csv", 64);
+    expect(outcome.status === "parsed" && outcome.isPart).toBe(true);
+  });
+
+  it("形式を判定できなければ行を保持してダイアログに回し、取り込み設定があれば適用する", () => {
+    const csv = "Service,Amount\nAmazon EC2,10\nAmazon S3,5\n";
+    const outcome = accumulate(csv, "bill_202403.csv", 64);
+    expect(outcome).toEqual({
+      status: "unrecognized",
+      pending: {
+        path: "archive.zip/bill_202403.csv",
+        fileName: "bill_202403.csv",
+        fields: ["Service", "Amount"],
+        rows: [
+          { Service: "Amazon EC2", Amount: "10" },
+          { Service: "Amazon S3", Amount: "5" },
+        ],
+      },
+      rowCount: 2,
+      warnings: [],
+    });
+
+    const mapping: ImportMapping = {
+      id: "m1",
+      headers: ["Amount", "Service"],
+      columns: { service: "Service", cost: "Amount", description: "" },
+      fileNamePattern: "bill_{YYYY}{MM}.csv",
+    };
+    const mapped = accumulate(csv, "bill_202403.csv", 64, [mapping]);
+    expect(mapped.status === "parsed" && mapped.reports[0]?.total).toBe(15);
+    expect(accumulate(csv, "bill.csv", 16, [mapping]).status).toBe(
+      "unrecognized",
+    );
+  });
+
+  it("CSV の警告はパスと行番号付きですべて残し、コスト 0 の明細を数える", () => {
+    const csv = [
+      "product_name,cost",
+      ...Array.from({ length: 8 }, () => "Amazon EC2,1,extra"),
+      "Amazon S3,0",
+      "Amazon S3,$0.00",
+    ].join("\n");
+    const outcome = accumulate(csv, "monthly-report-2024-03-1.csv", 32);
+
+    expect(outcome.status).toBe("parsed");
+    if (outcome.status !== "parsed") return;
+    expect(outcome.warnings).toHaveLength(8);
+    expect(outcome.warnings[0]).toMatch(
+      /^「archive\.zip\/monthly-report-2024-03-1\.csv」行 0: /,
+    );
+    expect(outcome.warnings[7]).toMatch(/行 7: /);
+    expect(outcome.rowCount).toBe(10);
+    expect(outcome.zeroCostRows).toBe(2);
+  });
+});
+
+describe("mergeReportChunks", () => {
+  it("同じ月・アカウントのレポートだけを合算し、月の順に並べる", () => {
+    const merged = mergeReportChunks([
+      {
+        month: "2024-04",
+        services: { EC2: 1 },
+        descriptions: { EC2: { a: 1 } },
+        total: 1,
+        fileName: "cur.csv",
+        accountId: "1",
+      },
+      {
+        month: "2024-03",
+        services: { S3: 2 },
+        total: 2,
+        fileName: "cur.csv",
+        accountId: "1",
+      },
+      {
+        month: "2024-04",
+        services: { EC2: 2, S3: 3 },
+        descriptions: { EC2: { a: 1, b: 1 }, S3: { c: 3 } },
+        total: 5,
+        fileName: "cur.csv",
+        accountId: "1",
+      },
+      {
+        month: "2024-04",
+        services: { EC2: 7 },
+        total: 7,
+        fileName: "cur.csv",
+        accountId: "2",
+      },
+    ]);
+
+    expect(merged.map((r) => [r.month, r.accountId, r.total])).toEqual([
+      ["2024-03", "1", 2],
+      ["2024-04", "1", 6],
+      ["2024-04", "2", 7],
+    ]);
+    expect(merged[1]?.services).toEqual({ EC2: 3, S3: 3 });
+    expect(merged[1]?.descriptions).toEqual({
+      EC2: { a: 2, b: 1 },
+      S3: { c: 3 },
+    });
+  });
+});
+
+describe("combineImportedReports", () => {
+  const part = (fileName: string, cost: number, month = "2024-03") => ({
+    month,
+    services: { EC2: cost },
+    total: cost,
+    fileName,
+    accountId: "1",
+  });
+
+  it("同じエクスポートの分割ファイルの同じ月・アカウントのレポートは置き換えずに合算する", () => {
+    const { reports, warnings } = combineImportedReports([
+      {
+        path: "cur.zip/cur/v1/cur-1.csv.gz",
+        reports: [part("cur-1.csv.gz", 1)],
+        isPart: true,
+      },
+      {
+        path: "cur.zip/cur/v1/cur-2.csv.gz",
+        reports: [part("cur-2.csv.gz", 2)],
+        isPart: true,
+      },
+      {
+        path: "cur.zip/cur/v1/cur-3.csv.gz",
+        reports: [part("cur-3.csv.gz", 4)],
+        isPart: true,
+      },
+    ]);
+    expect(reports).toHaveLength(1);
+    expect(reports[0]?.total).toBe(7);
+    expect(reports[0]?.services).toEqual({ EC2: 7 });
+    expect(warnings).toEqual([]);
+  });
+
+  it("分割でないファイルのレポートは合算しない", () => {
+    const { reports } = combineImportedReports([
+      { path: "a.csv", reports: [part("a.csv", 1)], isPart: false },
+      { path: "b.csv", reports: [part("b.csv", 2)], isPart: false },
+    ]);
+    expect(reports.map((report) => report.total)).toEqual([1, 2]);
+  });
+
+  it("同じ月の 2 つのバージョン（別のエクスポート）は合算せず、後のものを使って警告する", () => {
+    const { reports, warnings } = combineImportedReports([
+      {
+        path: "cur.zip/20240301-20240401/aaa/cur-1.csv.gz",
+        reports: [part("cur-1.csv.gz", 1), part("cur-1.csv.gz", 8, "2024-02")],
+        isPart: true,
+      },
+      {
+        path: "cur.zip/20240301-20240401/aaa/cur-2.csv.gz",
+        reports: [part("cur-2.csv.gz", 2)],
+        isPart: true,
+      },
+      {
+        path: "cur.zip/20240301-20240401/bbb/cur-1.csv.gz",
+        reports: [part("cur-1.csv.gz", 5)],
+        isPart: true,
+      },
+    ]);
+    expect(reports.map(({ month, total }) => ({ month, total }))).toEqual([
+      { month: "2024-02", total: 8 },
+      { month: "2024-03", total: 5 },
+    ]);
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toContain("cur.zip/20240301-20240401/aaa");
+    expect(warnings[0]).toContain("cur.zip/20240301-20240401/bbb");
+    expect(warnings[0]).toContain("2024-03");
+  });
+});
@@ -0,0 +1,305 @@
+import * as Papa from "papaparse";
+import type { SourceFile } from "@/lib/archive";
+import {
+  type BillingFormat,
+  type CsvRow,
+  detectBillingFormat,
+} from "@/lib/billingFormats";
+import type { ParseStats } from "@/lib/csv";
+import {
+  applyImportMapping,
+  findImportMapping,
+  type ImportMapping,
+  type PendingImport,
+} from "@/lib/importMappings";
+import { getReportKey, type MonthlyReport } from "@/lib/reports";
+
+/**
+ * 1 ファイルの解析結果。rowCount は読み込んだデータ行の数、warnings は CSV の警告（すべて）。
+ * - parsed: レポートにできた（CUR など 1 ファイルに複数の月・アカウントを含む形式があるため複数になりうる）。
+ *   isPart は分割して出力される形式のファイルで、同じ取り込み・同じエクスポートのほかの分割と合算する
+ * - unrecognized: 形式を判定できず、保存済みの取り込み設定も適用できなかった（ダイアログで設定してもらう）
+ * - failed: 読み込み・解析に失敗した（message にはパスを含める）
+ */
+export type ParseOutcome = (
+  | {
+      status: "parsed";
+      reports: MonthlyReport[];
+      zeroCostRows: number;
+      isPart: boolean;
+    }
+  | { status: "unrecognized"; pending: PendingImport }
+  | { status: "failed"; message: string }
+) & { rowCount: number; warnings: string[] };
+
+export type ParseProgress = { loaded: number; total: number };
+
+// 1 回に読み込むバイト数。大きな CUR でも行をすべて保持せず、分割ごとに集計する
+export const PARSE_CHUNK_SIZE = 1024 * 1024;
+
+export const createAbortError = () =>
+  new DOMException("取り込みを中止しました。", "AbortError");
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === "AbortError";
+
+// 分割して集計したレポートのうち、同じ月・アカウントのものを合算する
+export const mergeReportChunks = (
+  reports: MonthlyReport[],
+): MonthlyReport[] => {
+  const merged = new Map<string, MonthlyReport>();
+  for (const report of reports) {
+    const key = `${report.month}\u0000${getReportKey(report)}`;
+    const existing = merged.get(key);
+    if (!existing) {
+      merged.set(key, report);
+      continue;
+    }
+    const services = { ...existing.services };
+    for (const [service, cost] of Object.entries(report.services)) {
+      services[service] = (services[service] ?? 0) + cost;
+    }
+    const descriptions = { ...existing.descriptions };
+    for (const [service, byDescription] of Object.entries(
+      report.descriptions ?? {},
+    )) {
+      const combined = { ...descriptions[service] };
+      for (const [description, cost] of Object.entries(byDescription)) {
+        combined[description] = (combined[description] ?? 0) + cost;
+      }
+      descriptions[service] = combined;
+    }
+    merged.set(key, {
+      ...existing,
+      services,
+      descriptions,
+      total: existing.total + report.total,
+    });
+  }
+  return [...merged.values()].sort((a, b) => a.month.localeCompare(b.month));
+};
+
+// 分割ファイルが属するエクスポート。CUR は 1 回のエクスポートの分割を同じフォルダー（assembly ID など）に出力する
+export const getPartExportKey = (path: string): string => {
+  const index = path.lastIndexOf("/");
+  return index >= 0 ? path.slice(0, index) : "";
+};
+
+/**
+ * 1 回の取り込みで追加するレポート。分割ファイル（isPart）のレポートは同じエクスポート（getPartExportKey）の
+ * 同じ月・アカウントどうしを合算し、ほかのファイルのレポートの後に置く（同じ月・アカウントのレポートはそのまま後のもので置き換わる）。
+ * 別のエクスポート（再出力された CUR の別バージョンなど）に同じ月・アカウントがあれば合算せず、後に読み込んだ方を使って警告する。
+ */
+export const combineImportedReports = (
+  files: Array<{ path: string; reports: MonthlyReport[]; isPart: boolean }>,
+): { reports: MonthlyReport[]; warnings: string[] } => {
+  const exports = new Map<string, MonthlyReport[]>();
+  for (const file of files) {
+    if (!file.isPart) continue;
+    const exportKey = getPartExportKey(file.path);
+    exports.set(exportKey, [
+      ...(exports.get(exportKey) ?? []),
+      ...file.reports,
+    ]);
+  }
+
+  const latest = new Map<
+    string,
+    { exportKey: string; report: MonthlyReport }
+  >();
+  // 置き換えたエクスポートの組ごとの月
+  const duplicates = new Map<
+    string,
+    { previous: string; next: string; months: Set<string> }
+  >();
+  for (const [exportKey, reports] of exports) {
+    for (const report of mergeReportChunks(reports)) {
+      const key = `${report.month}\u0000${getReportKey(report)}`;
+      const previous = latest.get(key);
+      if (previous) {
+        const pair = `${previous.exportKey}\u0000${exportKey}`;
+        const duplicate = duplicates.get(pair) ?? {
+          previous: previous.exportKey,
+          next: exportKey,
+          months: new Set<string>(),
+        };
+        duplicate.months.add(report.month);
+        duplicates.set(pair, duplicate);
+      }
+      latest.set(key, { exportKey, report });
+    }
+  }
+
+  const folderLabel = (exportKey: string) => exportKey || "（最上位）";
+  return {
+    reports: [
+      ...files.flatMap((file) => (file.isPart ? [] : file.reports)),
+      ...[...latest.values()]
+        .map(({ report }) => report)
+        .sort((a, b) => a.month.localeCompare(b.month)),
+    ],
+    warnings: [...duplicates.values()].map(
+      ({ previous, next, months }) =>
+        `「${folderLabel(previous)}」と「${folderLabel(next)}」の CUR に同じ月・アカウント（${[...months].sort().join("、")}）が含まれています。別のエクスポートとみなして合算せず、後に読み込んだ「${folderLabel(next)}」を使います。`,
+    ),
+  };
+};
+
+/**
+ * 分割して読み込んだ行を順に集計する。形式は最初の分割のヘッダーで判定し、
+ * 判定できた形式は分割ごとにレポートにして行を捨てる。判定できなければ行を保持し、
+ * 最後に保存済みの取り込み設定を試す（適用できなければダイアログ行き）。
+ * 形式の parse が投げたエラーは addChunk からそのまま投げる（fail でそれまでの件数付きの結果にする）。
+ */
+export const createReportAccumulator = (
+  { fileName, path }: { fileName: string; path: string },
+  importMappings: ImportMapping[],
+) => {
+  let fields: string[] | null = null;
+  let format: BillingFormat | null = null;
+  let rowOffset = 0;
+  const reports: MonthlyReport[] = [];
+  const pendingRows: CsvRow[] = [];
+  const warnings: string[] = [];
+  const stats: ParseStats = { zeroCostRows: 0 };
+
+  return {
+    addChunk: (
+      rows: CsvRow[],
+      chunkFields: string[],
+      errors: Papa.ParseError[] = [],
+    ) => {
+      // ヘッダーが最初の分割に収まらなければ、ヘッダーを読み終えるまで行は来ない
+      if (fields === null) {
+        if (chunkFields.length === 0) return;
+        fields = chunkFields;
+        format = detectBillingFormat(fields, fileName);
+      }
+      // Papa Parse のエラーの行番号は分割をまたいでファイル全体で数えている
+      for (const error of errors) {
+        const rowLabel =
+          typeof error.row === "number" ? `行 ${error.row}` : "不明な行";
+        warnings.push(`「${path}」${rowLabel}: ${error.message}`);
+      }
+      if (format) {
+        reports.push(
+          ...format.parse(rows, { fileName, fields, rowOffset, stats }),
+        );
+      } else {
+        pendingRows.push(...rows);
+      }
+      rowOffset += rows.length;
+    },
+    fail: (message: string): ParseOutcome => ({
+      status: "failed",
+      message,
+      rowCount: rowOffset,
+      warnings,
+    }),
+    finish: (): ParseOutcome => {
+      if (format) {
+        return {
+          status: "parsed",
+          reports: mergeReportChunks(reports),
+          zeroCostRows: stats.zeroCostRows,
+          isPart: format.splitsIntoParts ?? false,
+          rowCount: rowOffset,
+          warnings,
+        };
+      }
+      const pending: PendingImport = {
+        path,
+        fileName,
+        fields: fields ?? [],
+        rows: pendingRows,
+      };
+      // 同じヘッダーの取り込み設定が保存されていれば、ファイル名のパターンで年月が取れる限り自動で適用する
+      const mapping = findImportMapping(importMappings, pending.fields);
+      if (mapping) {
+        try {
+          const report = applyImportMapping(pending, mapping, undefined, stats);
+          return {
+            status: "parsed",
+            reports: [report],
+            zeroCostRows: stats.zeroCostRows,
+            isPart: false,
+            rowCount: rowOffset,
+            warnings,
+          };
+        } catch {
+          // 年月を取れなければダイアログで設定してもらう
+        }
+      }
+      return { status: "unrecognized", pending, rowCount: rowOffset, warnings };
+    },
+  };
+};
+
+/**
+ * 1 ファイルを PARSE_CHUNK_SIZE ごとに読み込んで集計する。Web Worker 内でも、
+ * Worker を使えない環境ではメインスレッドでも動く。中止されたら AbortError で reject する。
+ */
+export const parseReportFile = (
+  { file, path }: SourceFile,
+  importMappings: ImportMapping[],
+  {
+    onProgress,
+    signal,
+  }: {
+    onProgress?: (progress: ParseProgress) => void;
+    signal?: AbortSignal;
+  } = {},
+): Promise<ParseOutcome> =>
+  new Promise((resolve, reject) => {
+    const accumulator = createReportAccumulator(
+      { fileName: file.name, path },
+      importMappings,
+    );
+    let chunkCount = 0;
+    let failure: string | null = null;
+
+    Papa.parse<CsvRow>(file, {
+      header: true,
+      skipEmptyLines: "greedy",
+      transformHeader: (header) => header.trim(),
+      chunkSize: PARSE_CHUNK_SIZE,
+      chunk: (results, parser) => {
+        if (signal?.aborted) {
+          parser.abort();
+          return;
+        }
+        try {
+          accumulator.addChunk(
+            results.data,
+            results.meta.fields ?? [],
+            results.errors,
+          );
+        } catch (error) {
+          failure = `「${path}」: ${error instanceof Error ? error.message : String(error)}`;
+          parser.abort();
+          return;
+        }
+        chunkCount += 1;
+        onProgress?.({
+          loaded: Math.min(chunkCount * PARSE_CHUNK_SIZE, file.size),
+          total: file.size,
+        });
+      },
+      complete: () => {
+        if (signal?.aborted) {
+          reject(createAbortError());
+        } else if (failure) {
+          resolve(accumulator.fail(failure));
+        } else {
+          resolve(accumulator.finish());
+        }
+      },
+      error: (error: Error) => {
+        resolve(
+          accumulator.fail(
+            `「${path}」の読み込みに失敗しました: ${error.message}`,
+          ),
+        );
+      },
+    });
+  });
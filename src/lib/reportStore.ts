@@ -0,0 +1,103 @@
+import {
+  getReportKey,
+  isMonthlyReport,
+  type MonthlyReport,
+} from "@/lib/reports";
+
+// パース済みレポートをブラウザの IndexedDB にだけ保存する（外部送信はしない）
+const DB_NAME = "classmethod-pricing-chart";
+const DB_VERSION = 1;
+const REPORTS_STORE = "reports";
+
+const PERSISTENCE_KEY = "classmethod-pricing-chart:persist-reports";
+
+export const isReportStoreAvailable = (): boolean =>
+  typeof indexedDB !== "undefined";
+
+const toStoreKey = (report: MonthlyReport) =>
+  `${report.month}/${getReportKey(report)}`;
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(REPORTS_STORE)) {
+        db.createObjectStore(REPORTS_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () =>
+      reject(new Error("他のタブがデータベースを使用中です。"));
+  });
+
+export const loadStoredReports = async (): Promise<MonthlyReport[]> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise((resolve, reject) => {
+      const request = db
+        .transaction(REPORTS_STORE, "readonly")
+        .objectStore(REPORTS_STORE)
+        .getAll();
+      // 壊れたレコードや旧形式のレコードは読み飛ばす
+      request.onsuccess = () =>
+        resolve((request.result as unknown[]).filter(isMonthlyReport));
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+// 現在のレポート一覧でストアを丸ごと置き換える（アップロード・クリアの両方をこれで同期する）
+export const saveStoredReports = async (
+  reports: MonthlyReport[],
+): Promise<void> => {
+  const db = await openDatabase();
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(REPORTS_STORE, "readwrite");
+      const store = tx.objectStore(REPORTS_STORE);
+      store.clear();
+      for (const report of reports) {
+        store.put(report, toStoreKey(report));
+      }
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const deleteReportStore = (): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(DB_NAME);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+    request.onblocked = () =>
+      reject(new Error("他のタブがデータベースを使用中です。"));
+  });
+
+// 「保存データを削除」後はリロードしても保存を再開しないよう、設定だけ localStorage に残す
+export const isPersistenceEnabled = (): boolean => {
+  try {
+    return localStorage.getItem(PERSISTENCE_KEY) !== "off";
+  } catch {
+    return true;
+  }
+};
+
+export const setPersistenceEnabled = (enabled: boolean): void => {
+  try {
+    if (enabled) {
+      localStorage.removeItem(PERSISTENCE_KEY);
+    } else {
+      localStorage.setItem(PERSISTENCE_KEY, "off");
+    }
+  } catch {
+    // localStorage が使えない環境では設定を保持しない
+  }
+};
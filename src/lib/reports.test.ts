@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import {
+  flattenReportsByMonth,
+  getReportKey,
+  groupReportsByMonth,
+  isMonthlyReport,
+  type MonthlyReport,
+} from "./reports";
+
+const report = (overrides: Partial<MonthlyReport> = {}): MonthlyReport => ({
+  month: "2024-03",
+  services: { "Amazon EC2": 1234.56 },
+  total: 1234.56,
+  fileName: "monthly-report-2024-03-123456789012.csv",
+  accountId: "123456789012",
+  ...overrides,
+});
+
+describe("getReportKey", () => {
+  it("アカウント ID があればそれを返す", () => {
+    expect(getReportKey(report())).toBe("123456789012");
+  });
+
+  it("アカウント ID がなければファイル名を返す", () => {
+    expect(getReportKey(report({ accountId: undefined }))).toBe(
+      "monthly-report-2024-03-123456789012.csv",
+    );
+  });
+});
+
+describe("groupReportsByMonth", () => {
+  it("月ごとにレポートをまとめる", () => {
+    const grouped = groupReportsByMonth([
+      report(),
+      report({ accountId: "999999999999" }),
+      report({ month: "2024-04" }),
+    ]);
+    expect(Object.keys(grouped).sort()).toEqual(["2024-03", "2024-04"]);
+    expect(grouped["2024-03"]).toHaveLength(2);
+    expect(grouped["2024-04"]).toHaveLength(1);
+  });
+
+  it("同一アカウント・同一月は後のレポートで上書きする", () => {
+    const grouped = groupReportsByMonth([
+      report({ total: 1 }),
+      report({ total: 2 }),
+    ]);
+    expect(grouped["2024-03"]).toHaveLength(1);
+    expect(grouped["2024-03"][0].total).toBe(2);
+  });
+});
+
+describe("flattenReportsByMonth", () => {
+  it("月の昇順で平坦化する", () => {
+    const flattened = flattenReportsByMonth({
+      "2024-04": [report({ month: "2024-04" })],
+      "2024-03": [report()],
+    });
+    expect(flattened.map((r) => r.month)).toEqual(["2024-03", "2024-04"]);
+  });
+
+  it("groupReportsByMonth と往復できる", () => {
+    const grouped = groupReportsByMonth([
+      report(),
+      report({ month: "2024-04" }),
+    ]);
+    expect(groupReportsByMonth(flattenReportsByMonth(grouped))).toEqual(
+      grouped,
+    );
+  });
+});
+
+describe("isMonthlyReport", () => {
+  it("正しい形式のレポートを受け入れる", () => {
+    expect(isMonthlyReport(report())).toBe(true);
+    expect(isMonthlyReport(report({ accountId: undefined }))).toBe(true);
+  });
+
+  it("null やプリミティブは拒否する", () => {
+    expect(isMonthlyReport(null)).toBe(false);
+    expect(isMonthlyReport("2024-03")).toBe(false);
+  });
+
+  it("月の形式が不正なら拒否する", () => {
+    expect(isMonthlyReport(report({ month: "2024/03" }))).toBe(false);
+  });
+
+  it("サービスのコストが数値でなければ拒否する", () => {
+    expect(
+      isMonthlyReport({ ...report(), services: { "Amazon EC2": "12" } }),
+    ).toBe(false);
+  });
+});
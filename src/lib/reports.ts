@@ -0,0 +1,65 @@
+export type MonthlyReport = {
+  month: string;
+  services: Record<string, number>;
+  // service -> description -> cost。保存済みの旧データには存在しない
+  descriptions?: Record<string, Record<string, number>>;
+  total: number;
+  fileName: string;
+  accountId?: string;
+};
+
+// accountId が取れないファイルはファイル名で識別する
+export const getReportKey = (report: MonthlyReport): string =>
+  report.accountId ?? report.fileName;
+
+export const groupReportsByMonth = (
+  reports: MonthlyReport[],
+): Record<string, MonthlyReport[]> => {
+  const grouped: Record<string, MonthlyReport[]> = {};
+  for (const report of reports) {
+    const arr = grouped[report.month] ?? [];
+    const key = getReportKey(report);
+    const existingIndex = arr.findIndex((r) => getReportKey(r) === key);
+    if (existingIndex >= 0) {
+      arr[existingIndex] = report;
+    } else {
+      arr.push(report);
+    }
+    grouped[report.month] = arr;
+  }
+  return grouped;
+};
+
+export const flattenReportsByMonth = (
+  reportsByMonth: Record<string, MonthlyReport[]>,
+): MonthlyReport[] =>
+  Object.keys(reportsByMonth)
+    .sort((a, b) => a.localeCompare(b))
+    .flatMap((month) => reportsByMonth[month] ?? []);
+
+const isCostRecord = (value: unknown): value is Record<string, number> =>
+  typeof value === "object" &&
+  value !== null &&
+  Object.values(value).every(
+    (cost) => typeof cost === "number" && Number.isFinite(cost),
+  );
+
+// IndexedDB から復元した値など、型が保証されない入力の検証に使う
+export const isMonthlyReport = (value: unknown): value is MonthlyReport => {
+  if (typeof value !== "object" || value === null) return false;
+  const candidate = value as Record<string, unknown>;
+  if (typeof candidate.month !== "string") return false;
+  if (!/^\d{4}-\d{2}$/.test(candidate.month)) return false;
+  if (typeof candidate.fileName !== "string") return false;
+  if (typeof candidate.total !== "number") return false;
+  if (
+    candidate.accountId !== undefined &&
+    typeof candidate.accountId !== "string"
+  )
+    return false;
+  if (!isCostRecord(candidate.services)) return false;
+  const descriptions = candidate.descriptions;
+  if (descriptions === undefined) return true;
+  if (typeof descriptions !== "object" || descriptions === null) return false;
+  return Object.values(descriptions).every(isCostRecord);
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import {
+  getServiceCategory,
+  listCategories,
+  OTHER_CATEGORY,
+  parseServiceCategoriesCsv,
+  parseServiceCategoriesJson,
+} from "./serviceCategories";
+
+describe("getServiceCategory", () => {
+  it("組み込みの対応表でカテゴリを決める", () => {
+    expect(getServiceCategory({}, "Amazon EC2")).toBe("Compute");
+    expect(getServiceCategory({}, "Amazon Simple Storage Service")).toBe(
+      "Storage",
+    );
+    expect(getServiceCategory({}, "amazon rds")).toBe("Database");
+  });
+
+  it("対応表にないサービスは Other になる", () => {
+    expect(getServiceCategory({}, "Some Marketplace Product")).toBe(
+      OTHER_CATEGORY,
+    );
+  });
+
+  it("ユーザー設定は組み込みの対応表より優先する", () => {
+    const overrides = {
+      "Amazon EC2": "Platform",
+      "Some Marketplace Product": "SaaS",
+    };
+    expect(getServiceCategory(overrides, "Amazon EC2")).toBe("Platform");
+    expect(getServiceCategory(overrides, "Some Marketplace Product")).toBe(
+      "SaaS",
+    );
+    expect(getServiceCategory({ "Amazon EC2": " " }, "Amazon EC2")).toBe(
+      "Compute",
+    );
+  });
+});
+
+describe("listCategories", () => {
+  it("カテゴリを名前順に並べ、Other を末尾に置く", () => {
+    expect(
+      listCategories({}, ["Unknown", "Amazon S3", "AWS Lambda", "Amazon EC2"]),
+    ).toEqual(["Compute", "Storage", OTHER_CATEGORY]);
+  });
+});
+
+describe("parseServiceCategoriesCsv", () => {
+  it("service 列と category 列を読み込む", () => {
+    const csv = "product_name,category\nAmazon EC2,Platform\nEmpty,\n";
+    expect(parseServiceCategoriesCsv(csv)).toEqual({
+      "Amazon EC2": "Platform",
+    });
+  });
+
+  it("必須カラムがなければエラーにする", () => {
+    expect(() => parseServiceCategoriesCsv("service,group\na,b\n")).toThrow(
+      "必須カラム",
+    );
+  });
+});
+
+describe("parseServiceCategoriesJson", () => {
+  it("サービス名 -> カテゴリ名のオブジェクトを読み込む", () => {
+    expect(
+      parseServiceCategoriesJson('{" Amazon EC2 ":"Platform","x":""}'),
+    ).toEqual({ "Amazon EC2": "Platform" });
+  });
+
+  it("形式が不正ならエラーにする", () => {
+    expect(() => parseServiceCategoriesJson('{"a":1}')).toThrow("形式が不正");
+    expect(() => parseServiceCategoriesJson("{")).toThrow("JSON");
+  });
+});
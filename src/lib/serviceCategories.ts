@@ -0,0 +1,245 @@
+import * as Papa from "papaparse";
+
+// サービス名（product_name）-> カテゴリ。ユーザーが上書き・追加した分だけを保存する
+export type ServiceCategoryMap = Record<string, string>;
+
+export const SERVICE_CATEGORIES_STORAGE_KEY = "service-categories";
+
+export const OTHER_CATEGORY = "Other";
+
+const CATEGORY_SERVICES: Record<string, string[]> = {
+  Compute: [
+    "Amazon EC2",
+    "Amazon Elastic Compute Cloud",
+    "Amazon Elastic Compute Cloud - Compute",
+    "EC2 - Other",
+    "AWS Lambda",
+    "Amazon Lightsail",
+    "AWS Batch",
+    "AWS Elastic Beanstalk",
+    "AWS Outposts",
+    "Savings Plans for AWS Compute usage",
+  ],
+  Containers: [
+    "Amazon Elastic Container Service",
+    "Amazon ECS",
+    "Amazon Elastic Container Service for Kubernetes",
+    "Amazon Elastic Kubernetes Service",
+    "Amazon EKS",
+    "Amazon EC2 Container Registry (ECR)",
+    "Amazon Elastic Container Registry",
+    "AWS Fargate",
+    "AWS App Runner",
+  ],
+  Storage: [
+    "Amazon S3",
+    "Amazon Simple Storage Service",
+    "Amazon S3 Glacier",
+    "Amazon Glacier",
+    "Amazon Elastic Block Store",
+    "Amazon EBS",
+    "Amazon Elastic File System",
+    "Amazon EFS",
+    "Amazon FSx",
+    "AWS Backup",
+    "AWS Storage Gateway",
+  ],
+  Database: [
+    "Amazon RDS",
+    "Amazon Relational Database Service",
+    "Amazon Aurora",
+    "Amazon DynamoDB",
+    "Amazon DocumentDB (with MongoDB compatibility)",
+    "Amazon ElastiCache",
+    "Amazon MemoryDB",
+    "Amazon Neptune",
+    "Amazon Redshift",
+    "Amazon Keyspaces (for Apache Cassandra)",
+    "Amazon Timestream",
+    "AWS Database Migration Service",
+  ],
+  Network: [
+    "Amazon Virtual Private Cloud",
+    "Amazon VPC",
+    "Amazon CloudFront",
+    "Amazon Route 53",
+    "Elastic Load Balancing",
+    "Amazon API Gateway",
+    "AWS Direct Connect",
+    "AWS Transit Gateway",
+    "AWS Global Accelerator",
+    "AWS Data Transfer",
+    "AWS PrivateLink",
+    "AWS Network Firewall",
+  ],
+  Analytics: [
+    "Amazon Athena",
+    "AWS Glue",
+    "Amazon EMR",
+    "Amazon Elastic MapReduce",
+    "Amazon Kinesis",
+    "Amazon Kinesis Firehose",
+    "Amazon OpenSearch Service",
+    "Amazon Elasticsearch Service",
+    "Amazon QuickSight",
+    "Amazon Managed Streaming for Apache Kafka",
+    "AWS Lake Formation",
+  ],
+  "AI/ML": [
+    "Amazon SageMaker",
+    "Amazon Bedrock",
+    "Amazon Rekognition",
+    "Amazon Comprehend",
+    "Amazon Textract",
+    "Amazon Transcribe",
+    "Amazon Translate",
+    "Amazon Polly",
+    "Amazon Lex",
+  ],
+  Security: [
+    "AWS WAF",
+    "AWS Shield",
+    "Amazon GuardDuty",
+    "AWS Security Hub",
+    "Amazon Inspector",
+    "Amazon Macie",
+    "AWS Key Management Service",
+    "AWS Secrets Manager",
+    "AWS Certificate Manager",
+    "Amazon Cognito",
+    "AWS IAM Access Analyzer",
+    "AWS Firewall Manager",
+  ],
+  Management: [
+    "AmazonCloudWatch",
+    "Amazon CloudWatch",
+    "AWS CloudTrail",
+    "AWS Config",
+    "AWS Systems Manager",
+    "AWS CloudFormation",
+    "AWS Organizations",
+    "AWS Control Tower",
+    "AWS X-Ray",
+    "AWS Cost Explorer",
+    "AWS Service Catalog",
+  ],
+  "Application Integration": [
+    "Amazon Simple Queue Service",
+    "Amazon SQS",
+    "Amazon Simple Notification Service",
+    "Amazon SNS",
+    "Amazon EventBridge",
+    "AWS Step Functions",
+    "Amazon MQ",
+    "Amazon Simple Email Service",
+    "Amazon SES",
+    "AWS AppSync",
+  ],
+  "Developer Tools": [
+    "AWS CodeBuild",
+    "AWS CodePipeline",
+    "AWS CodeCommit",
+    "AWS CodeDeploy",
+    "AWS CodeArtifact",
+    "AWS Amplify",
+    "AWS Cloud9",
+  ],
+  Support: [
+    "AWS Support (Business)",
+    "AWS Support (Developer)",
+    "AWS Support (Enterprise)",
+    "AWS Premium Support",
+  ],
+};
+
+// 大文字・小文字と前後の空白の違いは同じサービスとみなす
+const normalizeServiceName = (service: string) => service.trim().toLowerCase();
+
+const BUILTIN_CATEGORIES = new Map<string, string>(
+  Object.entries(CATEGORY_SERVICES).flatMap(([category, services]) =>
+    services.map(
+      (service) => [normalizeServiceName(service), category] as const,
+    ),
+  ),
+);
+
+export const BUILTIN_CATEGORY_NAMES = [
+  ...Object.keys(CATEGORY_SERVICES),
+  OTHER_CATEGORY,
+];
+
+export const getBuiltinServiceCategory = (service: string): string =>
+  BUILTIN_CATEGORIES.get(normalizeServiceName(service)) ?? OTHER_CATEGORY;
+
+export const getServiceCategory = (
+  overrides: ServiceCategoryMap,
+  service: string,
+): string => overrides[service]?.trim() || getBuiltinServiceCategory(service);
+
+export const listCategories = (
+  overrides: ServiceCategoryMap,
+  services: string[],
+): string[] => {
+  const categories = new Set(
+    services.map((service) => getServiceCategory(overrides, service)),
+  );
+  // Other は常に末尾に置く
+  return Array.from(categories).sort((a, b) => {
+    if (a === OTHER_CATEGORY) return 1;
+    if (b === OTHER_CATEGORY) return -1;
+    return a.localeCompare(b);
+  });
+};
+
+export const isServiceCategoryMap = (
+  value: unknown,
+): value is ServiceCategoryMap =>
+  typeof value === "object" &&
+  value !== null &&
+  !Array.isArray(value) &&
+  Object.values(value).every((item) => typeof item === "string");
+
+const SERVICE_COLUMNS = ["service", "product_name", "service_name"];
+
+/**
+ * service（または product_name）列と category 列を持つ CSV を読み込む。
+ */
+export const parseServiceCategoriesCsv = (text: string): ServiceCategoryMap => {
+  const { data, meta } = Papa.parse<Record<string, string>>(text, {
+    header: true,
+    skipEmptyLines: "greedy",
+    transformHeader: (header) => header.trim(),
+  });
+  const fields = meta.fields ?? [];
+  const serviceColumn = SERVICE_COLUMNS.find((col) => fields.includes(col));
+  if (!serviceColumn || !fields.includes("category")) {
+    throw new Error("必須カラム（service, category）が見つかりません。");
+  }
+
+  const overrides: ServiceCategoryMap = {};
+  for (const row of data) {
+    const service = row[serviceColumn]?.trim();
+    const category = row.category?.trim();
+    if (service && category) overrides[service] = category;
+  }
+  return overrides;
+};
+
+export const parseServiceCategoriesJson = (
+  text: string,
+): ServiceCategoryMap => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("JSON として読み込めませんでした。");
+  }
+  if (!isServiceCategoryMap(parsed)) {
+    throw new Error("サービスのカテゴリ設定の形式が不正です。");
+  }
+  return Object.fromEntries(
+    Object.entries(parsed)
+      .map(([service, category]) => [service.trim(), category.trim()])
+      .filter(([service, category]) => service && category),
+  );
+};
@@ -0,0 +1,207 @@
+import { describe, expect, it } from "vitest";
+import { type AggregateResult, aggregate, type GroupBy } from "./aggregate";
+import type { MonthlyReport } from "./reports";
+import {
+  collapseToSeries,
+  collapseToTopN,
+  OTHERS_SERIES,
+  rankSeries,
+} from "./topN";
+
+const result: AggregateResult = {
+  rows: [
+    { month: "2024-03", services: { EC2: 100, S3: 50, RDS: 10, Lambda: 5 } },
+    { month: "2024-04", services: { EC2: 90, S3: 20, RDS: 80, Lambda: -3 } },
+  ],
+  series: ["Lambda", "RDS", "S3", "EC2"],
+  total: 352,
+};
+
+const stackHeights = ({ rows, series }: AggregateResult) =>
+  rows.map((row) =>
+    series.reduce((sum, name) => sum + (row.services[name] ?? 0), 0),
+  );
+
+describe("rankSeries", () => {
+  it("期間の合計の降順に並べる", () => {
+    expect(rankSeries(result.rows, result.series, "total")).toEqual([
+      "EC2",
+      "RDS",
+      "S3",
+      "Lambda",
+    ]);
+  });
+
+  it("最新の期間の金額の降順に並べる", () => {
+    expect(rankSeries(result.rows, result.series, "latest")).toEqual([
+      "EC2",
+      "RDS",
+      "S3",
+      "Lambda",
+    ]);
+    expect(
+      rankSeries(result.rows.slice(0, 1), result.series, "latest"),
+    ).toEqual(["EC2", "S3", "RDS", "Lambda"]);
+  });
+
+  it("同じ金額なら合計、さらに名前の順にする", () => {
+    const rows = [
+      { month: "2024-03", services: { A: 10, B: 30, C: 10 } },
+      { month: "2024-04", services: { A: 5, B: 5, C: 5 } },
+    ];
+    expect(rankSeries(rows, ["C", "A", "B"], "latest")).toEqual([
+      "B",
+      "A",
+      "C",
+    ]);
+  });
+});
+
+describe("collapseToTopN", () => {
+  it("上位 N 件を順位の順に残し、残りを「その他」に合算する", () => {
+    const collapsed = collapseToTopN(result, { count: 2, rankBy: "total" });
+    expect(collapsed.series).toEqual(["EC2", "RDS", OTHERS_SERIES]);
+    expect(collapsed.others).toEqual(["S3", "Lambda"]);
+    expect(collapsed.rows).toEqual([
+      {
+        month: "2024-03",
+        services: { EC2: 100, RDS: 10, [OTHERS_SERIES]: 55 },
+      },
+      { month: "2024-04", services: { EC2: 90, RDS: 80, [OTHERS_SERIES]: 17 } },
+    ]);
+  });
+
+  it("積み上げの高さと合計は上位に絞る前と変わらない", () => {
+    const collapsed = collapseToTopN(result, { count: 1, rankBy: "latest" });
+    expect(stackHeights(collapsed)).toEqual(stackHeights(result));
+    expect(collapsed.total).toBe(result.total);
+  });
+
+  it("系列が N 件以下ならそのまま返す", () => {
+    const collapsed = collapseToTopN(result, { count: 4, rankBy: "total" });
+    expect(collapsed.series).toEqual(result.series);
+    expect(collapsed.rows).toBe(result.rows);
+    expect(collapsed.others).toEqual([]);
+  });
+});
+
+const report = (
+  month: string,
+  accountId: string,
+  services: Record<string, number>,
+): MonthlyReport => ({
+  month,
+  accountId,
+  services,
+  total: Object.values(services).reduce((sum, cost) => sum + cost, 0),
+  fileName: `${accountId}-${month}.csv`,
+});
+
+const reportsByMonth: Record<string, MonthlyReport[]> = {
+  "2024-03": [
+    report("2024-03", "111", { EC2: 100, S3: 40, RDS: 20 }),
+    report("2024-03", "222", { EC2: 50, S3: 5, Lambda: 7 }),
+    report("2024-03", "333", { EC2: 30, RDS: 3 }),
+  ],
+  "2024-04": [
+    report("2024-04", "111", { EC2: 90, S3: 30, RDS: 25 }),
+    report("2024-04", "222", { EC2: 60, S3: 6, Lambda: 8 }),
+    report("2024-04", "333", { EC2: 35, RDS: 4 }),
+  ],
+};
+
+const collapseSelection = (
+  groupBy: GroupBy,
+  selection: { accounts: string[]; services: string[] },
+  count: number,
+) => {
+  const options = {
+    months: ["2024-03", "2024-04"],
+    groupBy,
+    timeUnit: "month" as const,
+  };
+  return collapseToTopN(
+    aggregate(reportsByMonth, { ...options, ...selection }),
+    { count, rankBy: "total" },
+    aggregate(reportsByMonth, {
+      ...options,
+      accounts: ["111", "222", "333"],
+      services: ["EC2", "S3", "RDS", "Lambda"],
+    }),
+  );
+};
+
+describe("collapseToTopN（選択から外した系列を含む全体を渡す）", () => {
+  const fullHeights = [255, 258];
+
+  it("サービス別: 選択から外したサービス・アカウントは「その他」に入り、積み上げの高さは全体と一致する", () => {
+    const collapsed = collapseSelection(
+      "service",
+      { accounts: ["111", "222"], services: ["EC2", "S3", "RDS"] },
+      2,
+    );
+    expect(collapsed.series).toEqual(["EC2", "S3", OTHERS_SERIES]);
+    expect(collapsed.rows[0].services).toEqual({
+      EC2: 150,
+      S3: 45,
+      [OTHERS_SERIES]: 60,
+    });
+    expect(collapsed.others).toEqual(["RDS", "Lambda"]);
+    expect(stackHeights(collapsed)).toEqual(fullHeights);
+    expect(collapsed.total).toBe(513);
+  });
+
+  it("アカウント別: 選択から外したアカウント・サービスは「その他」に入り、積み上げの高さは全体と一致する", () => {
+    const collapsed = collapseSelection(
+      "account",
+      { accounts: ["111", "222"], services: ["EC2", "S3"] },
+      1,
+    );
+    expect(collapsed.series).toEqual(["111", OTHERS_SERIES]);
+    expect(collapsed.rows[0].services).toEqual({
+      "111": 140,
+      [OTHERS_SERIES]: 115,
+    });
+    expect(collapsed.others).toEqual(["222", "333"]);
+    expect(stackHeights(collapsed)).toEqual(fullHeights);
+  });
+
+  it("選択中の系列が N 件以下でも選択から外した系列は名前付きにせず、「その他」に入れる", () => {
+    for (const groupBy of ["service", "account"] as const) {
+      const selection =
+        groupBy === "service"
+          ? { accounts: ["111", "222", "333"], services: ["S3"] }
+          : { accounts: ["222"], services: ["EC2", "S3", "RDS", "Lambda"] };
+      const collapsed = collapseSelection(groupBy, selection, 10);
+      expect(collapsed.series).toEqual([
+        groupBy === "service" ? "S3" : "222",
+        OTHERS_SERIES,
+      ]);
+      expect(stackHeights(collapsed)).toEqual(fullHeights);
+    }
+  });
+
+  it("すべて選択中で N 件以下なら「その他」を作らない", () => {
+    const collapsed = collapseSelection(
+      "account",
+      {
+        accounts: ["111", "222", "333"],
+        services: ["EC2", "S3", "RDS", "Lambda"],
+      },
+      3,
+    );
+    expect(collapsed.series).toEqual(["111", "222", "333"]);
+    expect(collapsed.others).toEqual([]);
+  });
+});
+
+describe("collapseToSeries", () => {
+  it("指定した系列を名前付きで残し、それ以外を「その他」に合算する", () => {
+    const collapsed = collapseToSeries(result, ["S3"]);
+    expect(collapsed.series).toEqual(["S3", OTHERS_SERIES]);
+    expect(collapsed.rows[1].services).toEqual({
+      S3: 20,
+      [OTHERS_SERIES]: 167,
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import type { AggregateResult, ChartRow, GroupBy } from "@/lib/aggregate";
+
+// total: 表示中の全期間の合計 / latest: 最新の期間の金額
+export type TopNRanking = "total" | "latest";
+
+export type TopNOptions = {
+  enabled: boolean;
+  count: number;
+  rankBy: TopNRanking;
+};
+
+export const DEFAULT_TOP_N_OPTIONS: TopNOptions = {
+  enabled: false,
+  count: 10,
+  rankBy: "total",
+};
+
+export const TOP_N_RANKING_LABELS: Record<TopNRanking, string> = {
+  total: "期間の合計",
+  latest: "最新の期間",
+};
+
+export const MAX_TOP_N_COUNT = 50;
+
+export const isTopNRanking = (value: unknown): value is TopNRanking =>
+  value === "total" || value === "latest";
+
+export const isTopNCount = (value: unknown): value is number =>
+  typeof value === "number" &&
+  Number.isInteger(value) &&
+  value >= 1 &&
+  value <= MAX_TOP_N_COUNT;
+
+export const isTopNOptions = (value: unknown): value is TopNOptions => {
+  if (typeof value !== "object" || value === null) return false;
+  const { enabled, count, rankBy } = value as Record<string, unknown>;
+  return (
+    typeof enabled === "boolean" && isTopNCount(count) && isTopNRanking(rankBy)
+  );
+};
+
+// 上位 N 件以外をまとめる系列。サービス名・アカウント ID と重ならないキーにし、表示名は別に持つ
+export const OTHERS_SERIES = "__others__";
+export const OTHERS_SERIES_LABEL = "その他";
+export const OTHERS_SERIES_COLOR = "#64748b";
+
+// 「その他」にまとめられる集計モード
+export const TOP_N_GROUP_BYS: readonly GroupBy[] = ["service", "account"];
+
+const sumSeries = (rows: ChartRow[], series: string) =>
+  rows.reduce((sum, row) => sum + (row.services[series] ?? 0), 0);
+
+/**
+ * 系列を金額の降順に並べる。latest は最後の期間の金額で比べ、同額なら合計、さらに名前の順。
+ */
+export const rankSeries = (
+  rows: ChartRow[],
+  series: string[],
+  rankBy: TopNRanking,
+): string[] => {
+  const latest = rows[rows.length - 1];
+  const totals = new Map(series.map((name) => [name, sumSeries(rows, name)]));
+  const scoreOf = (name: string) =>
+    rankBy === "latest"
+      ? (latest?.services[name] ?? 0)
+      : (totals.get(name) ?? 0);
+  return [...series].sort(
+    (a, b) =>
+      scoreOf(b) - scoreOf(a) ||
+      (totals.get(b) ?? 0) - (totals.get(a) ?? 0) ||
+      a.localeCompare(b),
+  );
+};
+
+export type TopNResult = AggregateResult & {
+  // 「その他」にまとめた系列（まとめていなければ空）
+  others: string[];
+};
+
+/**
+ * top の系列を名前付きで残し、それ以外を「その他」（OTHERS_SERIES）の 1 系列に合算する。
+ * 名前付きの系列の金額は selection（選択中の条件での集計）から取る。full（選択によらない全体の集計）を渡すと、
+ * 期間ごとの全体の金額から名前付きの系列を除いた残り（選択から外したアカウント・サービスを含む）を「その他」にする。
+ * 「その他」に入るものがなければ selection をそのまま返す。
+ */
+export const collapseToSeries = (
+  selection: AggregateResult,
+  top: string[],
+  full?: AggregateResult,
+): TopNResult => {
+  const named = new Set(top);
+  const others = rankSeries(
+    (full ?? selection).rows,
+    [...new Set([...selection.series, ...(full?.series ?? [])])].filter(
+      (name) => !named.has(name),
+    ),
+    "total",
+  );
+  const selectedRows = new Map(
+    selection.rows.map((row) => [row.month, row.services]),
+  );
+  const rows = (full ?? selection).rows.map((row) => {
+    const selected = selectedRows.get(row.month) ?? {};
+    const values = Object.fromEntries(
+      top.map((name) => [name, selected[name] ?? 0]),
+    );
+    const othersValue = full
+      ? full.series.reduce((sum, name) => sum + (row.services[name] ?? 0), 0) -
+        top.reduce((sum, name) => sum + values[name], 0)
+      : others.reduce((sum, name) => sum + (row.services[name] ?? 0), 0);
+    return { month: row.month, values, othersValue };
+  });
+  // 浮動小数点の誤差で残った端数は「その他」とみなさない
+  const hasOthers =
+    others.length > 0 ||
+    rows.some(({ othersValue }) => Math.abs(othersValue) > 1e-9);
+  if (!hasOthers) return { ...selection, others: [] };
+
+  return {
+    rows: rows.map(({ month, values, othersValue }) => ({
+      month,
+      services: { ...values, [OTHERS_SERIES]: othersValue },
+    })),
+    series: [...top, OTHERS_SERIES],
+    total: (full ?? selection).total,
+    others,
+  };
+};
+
+/**
+ * 選択中の系列を順位付けし、上位 count 件を順位の順に残して、それ以外を「その他」に合算する（collapseToSeries）。
+ * full を渡すと選択から外した系列も「その他」に入り、積み上げの高さは期間ごとの全体の金額と一致する。
+ * 渡さなければ選択中の系列の合計と一致し、系列が count 件以下なら何もしない。
+ */
+export const collapseToTopN = (
+  selection: AggregateResult,
+  { count, rankBy }: Pick<TopNOptions, "count" | "rankBy">,
+  full?: AggregateResult,
+): TopNResult =>
+  collapseToSeries(
+    selection,
+    rankSeries(selection.rows, selection.series, rankBy).slice(
+      0,
+      Math.max(count, 0),
+    ),
+    full,
+  );
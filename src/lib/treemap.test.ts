@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { squarify } from "./treemap";
+
+const rect = { x: 10, y: 20, width: 600, height: 400 };
+const items = [
+  { name: "a", value: 6 },
+  { name: "b", value: 6 },
+  { name: "c", value: 4 },
+  { name: "d", value: 3 },
+  { name: "e", value: 2 },
+  { name: "f", value: 2 },
+  { name: "g", value: 1 },
+];
+
+describe("squarify", () => {
+  it("value に比例した面積のタイルを value の降順で返す", () => {
+    const tiles = squarify(items, rect);
+    const total = 24;
+    expect(tiles.map((tile) => tile.name)).toEqual([
+      "a",
+      "b",
+      "c",
+      "d",
+      "e",
+      "f",
+      "g",
+    ]);
+    for (const tile of tiles) {
+      expect(tile.width * tile.height).toBeCloseTo(
+        (rect.width * rect.height * tile.value) / total,
+      );
+    }
+  });
+
+  it("タイルは領域の内側に収まり、重ならない", () => {
+    const tiles = squarify(items, rect);
+    const epsilon = 1e-9;
+    for (const tile of tiles) {
+      expect(tile.x).toBeGreaterThanOrEqual(rect.x - epsilon);
+      expect(tile.y).toBeGreaterThanOrEqual(rect.y - epsilon);
+      expect(tile.x + tile.width).toBeLessThanOrEqual(
+        rect.x + rect.width + epsilon,
+      );
+      expect(tile.y + tile.height).toBeLessThanOrEqual(
+        rect.y + rect.height + epsilon,
+      );
+    }
+    for (const [i, a] of tiles.entries()) {
+      for (const b of tiles.slice(i + 1)) {
+        const overlapX =
+          Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+        const overlapY =
+          Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+        expect(overlapX <= epsilon || overlapY <= epsilon).toBe(true);
+      }
+    }
+  });
+
+  it("value が 0 以下の項目は除く", () => {
+    const tiles = squarify(
+      [
+        { name: "a", value: 5 },
+        { name: "credit", value: -3 },
+        { name: "zero", value: 0 },
+      ],
+      rect,
+    );
+    expect(tiles).toEqual([{ name: "a", value: 5, ...rect }]);
+  });
+
+  it("描ける項目がなければ空にする", () => {
+    expect(squarify([{ value: 0 }], rect)).toEqual([]);
+    expect(squarify([{ value: 1 }], { ...rect, width: 0 })).toEqual([]);
+  });
+});
@@ -0,0 +1,104 @@
+export type TreemapRect = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+const sumOf = (values: number[]) =>
+  values.reduce((sum, value) => sum + value, 0);
+
+/**
+ * 並べた 1 列の中で、最も細長いタイルの縦横比（1 に近いほど正方形）。
+ */
+const worstAspectRatio = (areas: number[], side: number): number => {
+  const total = sumOf(areas);
+  const max = Math.max(...areas);
+  const min = Math.min(...areas);
+  return Math.max(
+    (side * side * max) / (total * total),
+    (total * total) / (side * side * min),
+  );
+};
+
+/**
+ * squarified treemap のレイアウト。value に比例する面積のタイルを rect の中に敷き詰め、
+ * なるべく正方形に近づける。value が 0 以下の項目は描けないため除き、value の降順で返す。
+ */
+export const squarify = <T extends { value: number }>(
+  items: T[],
+  rect: TreemapRect,
+): Array<T & TreemapRect> => {
+  const sorted = items
+    .filter((item) => item.value > 0)
+    .sort((a, b) => b.value - a.value);
+  const total = sumOf(sorted.map((item) => item.value));
+  if (total <= 0 || rect.width <= 0 || rect.height <= 0) return [];
+
+  const scale = (rect.width * rect.height) / total;
+  const result: Array<T & TreemapRect> = [];
+  let remaining = { ...rect };
+
+  // 短い辺に沿って 1 列を並べ、残りの領域を返す
+  const layoutRow = (row: T[]): TreemapRect => {
+    const area = sumOf(row.map((item) => item.value * scale));
+    if (remaining.width >= remaining.height) {
+      const thickness = area / remaining.height;
+      let offset = remaining.y;
+      for (const item of row) {
+        const height = (item.value * scale) / thickness;
+        result.push({
+          ...item,
+          x: remaining.x,
+          y: offset,
+          width: thickness,
+          height,
+        });
+        offset += height;
+      }
+      return {
+        x: remaining.x + thickness,
+        y: remaining.y,
+        width: remaining.width - thickness,
+        height: remaining.height,
+      };
+    }
+    const thickness = area / remaining.width;
+    let offset = remaining.x;
+    for (const item of row) {
+      const width = (item.value * scale) / thickness;
+      result.push({
+        ...item,
+        x: offset,
+        y: remaining.y,
+        width,
+        height: thickness,
+      });
+      offset += width;
+    }
+    return {
+      x: remaining.x,
+      y: remaining.y + thickness,
+      width: remaining.width,
+      height: remaining.height - thickness,
+    };
+  };
+
+  let row: T[] = [];
+  for (const item of sorted) {
+    const side = Math.min(remaining.width, remaining.height);
+    const areas = row.map((current) => current.value * scale);
+    if (
+      row.length === 0 ||
+      worstAspectRatio([...areas, item.value * scale], side) <=
+        worstAspectRatio(areas, side)
+    ) {
+      row.push(item);
+      continue;
+    }
+    remaining = layoutRow(row);
+    row = [item];
+  }
+  if (row.length > 0) layoutRow(row);
+  return result;
+};
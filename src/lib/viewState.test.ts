@@ -0,0 +1,208 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_TOP_N_OPTIONS } from "./topN";
+import {
+  decodeViewState,
+  encodeViewState,
+  hasMissingViewItems,
+  resolveViewState,
+  toSharedViewState,
+} from "./viewState";
+
+const available = {
+  accounts: ["123456789012", "999999999999"],
+  months: ["2024-03", "2024-04"],
+  services: ["Amazon EC2", "Amazon S3", "Amazon RDS", "AWS Lambda"],
+  groups: ["platform", "data"],
+  categories: ["Compute", "Storage", "Database"],
+};
+
+const defaults = {
+  ...available,
+  groupDimension: "team",
+  groupBy: "service" as const,
+  timeUnit: "month" as const,
+  fiscalStartMonth: 4,
+  chartType: "stacked" as const,
+  topN: DEFAULT_TOP_N_OPTIONS,
+};
+
+describe("encodeViewState / decodeViewState", () => {
+  it("往復しても同じ表示条件に戻る", () => {
+    const state = {
+      accounts: ["123456789012"],
+      months: ["2024-04"],
+      services: ["Amazon EC2", "Amazon S3"],
+      groupBy: "account" as const,
+      timeUnit: "year" as const,
+    };
+    expect(decodeViewState(`#${encodeViewState(state)}`)).toEqual(state);
+  });
+
+  it("グループ・カテゴリの絞り込みと分類、年度の開始月を往復できる", () => {
+    const state = {
+      groups: ["platform"],
+      categories: [],
+      groupDimension: "team",
+      fiscalStartMonth: 1,
+    };
+    expect(decodeViewState(encodeViewState(state))).toEqual(state);
+  });
+
+  it("不正な年度の開始月は無視する", () => {
+    expect(decodeViewState("#f=13")).toBeNull();
+    expect(decodeViewState("#f=abc&t=year")).toEqual({ timeUnit: "year" });
+  });
+
+  it("カンマや記号を含むサービス名を保持する", () => {
+    const state = {
+      services: ["Amazon Elastic Compute Cloud - Compute, Linux & Co"],
+    };
+    expect(decodeViewState(encodeViewState(state))).toEqual(state);
+  });
+
+  it("空のリストと省略したリストを区別する", () => {
+    const decoded = decodeViewState(encodeViewState({ services: [] }));
+    expect(decoded).toEqual({ services: [] });
+    expect(decoded?.accounts).toBeUndefined();
+  });
+
+  it("条件を含まないハッシュは null を返す", () => {
+    expect(decodeViewState("")).toBeNull();
+    expect(decodeViewState("#section")).toBeNull();
+  });
+
+  it("グラフの種類と上位のみ表示を往復でき、件数が空なら上位のみ表示をオフにする", () => {
+    const state = {
+      chartType: "treemap" as const,
+      topN: { enabled: true, count: 7, rankBy: "latest" as const },
+    };
+    expect(decodeViewState(encodeViewState(state))).toEqual(state);
+    expect(
+      decodeViewState(
+        encodeViewState({
+          topN: { enabled: false, count: 7, rankBy: "total" },
+        }),
+      ),
+    ).toEqual({ topN: { enabled: false, count: 10, rankBy: "total" } });
+    expect(decodeViewState("#c=pie&n=0")).toEqual({
+      topN: { enabled: false, count: 10, rankBy: "total" },
+    });
+  });
+
+  it("不正な集計モード・時間軸は無視する", () => {
+    expect(decodeViewState("#g=team&t=week")).toBeNull();
+    expect(decodeViewState("#g=account&t=week")).toEqual({
+      groupBy: "account",
+    });
+  });
+});
+
+describe("resolveViewState", () => {
+  it("読み込み済みの項目だけを選択し、存在しない項目を報告する", () => {
+    const resolved = resolveViewState(
+      {
+        accounts: ["123456789012", "111111111111"],
+        months: ["2024-04", "2024-06"],
+        services: ["Amazon EC2"],
+      },
+      available,
+    );
+    expect(resolved.accounts).toEqual(["123456789012"]);
+    expect(resolved.months).toEqual(["2024-04"]);
+    expect(resolved.services).toEqual(["Amazon EC2"]);
+    expect(resolved.missing).toEqual({
+      accounts: ["111111111111"],
+      months: ["2024-06"],
+      services: [],
+      groups: [],
+      categories: [],
+    });
+    expect(hasMissingViewItems(resolved.missing)).toBe(true);
+  });
+
+  it("グループ・カテゴリも読み込み済みの項目だけを選択する", () => {
+    const resolved = resolveViewState(
+      { groups: ["platform", "sales"], categories: ["Compute", "Analytics"] },
+      available,
+    );
+    expect(resolved.groups).toEqual(["platform"]);
+    expect(resolved.categories).toEqual(["Compute"]);
+    expect(resolved.missing.groups).toEqual(["sales"]);
+    expect(resolved.missing.categories).toEqual(["Analytics"]);
+  });
+
+  it("省略されたリストは変更しない", () => {
+    const resolved = resolveViewState({ groupBy: "account" }, available);
+    expect(resolved.accounts).toBeUndefined();
+    expect(hasMissingViewItems(resolved.missing)).toBe(false);
+  });
+});
+
+describe("toSharedViewState", () => {
+  it("既定値と同じ項目は省略する", () => {
+    expect(toSharedViewState(defaults, available)).toEqual({});
+  });
+
+  it("絞り込んだ項目と既定以外のモードだけを含める", () => {
+    expect(
+      toSharedViewState(
+        { ...defaults, services: ["Amazon EC2"], timeUnit: "year" },
+        available,
+      ),
+    ).toEqual({ services: ["Amazon EC2"], timeUnit: "year" });
+  });
+
+  it("グラフの種類と、オンのときの上位のみ表示を含める", () => {
+    const topN = { enabled: true, count: 5, rankBy: "total" as const };
+    expect(
+      toSharedViewState({ ...defaults, chartType: "donut", topN }, available),
+    ).toEqual({ chartType: "donut", topN });
+  });
+
+  it("グループ・カテゴリの絞り込みと既定以外の年度の開始月を含め、分類はグループに関わるときだけ含める", () => {
+    expect(
+      toSharedViewState(
+        {
+          ...defaults,
+          groups: ["data"],
+          categories: ["Compute"],
+          fiscalStartMonth: 10,
+        },
+        available,
+      ),
+    ).toEqual({
+      groups: ["data"],
+      categories: ["Compute"],
+      groupDimension: "team",
+      fiscalStartMonth: 10,
+    });
+    expect(
+      toSharedViewState({ ...defaults, groupBy: "group" }, available),
+    ).toEqual({ groupDimension: "team", groupBy: "group" });
+    expect(
+      toSharedViewState(
+        { ...defaults, groupDimension: null, groupBy: "group" },
+        available,
+      ),
+    ).toEqual({ groupBy: "group" });
+  });
+
+  it("共有した条件を読み込むと同じ表示条件に戻る", () => {
+    const current = {
+      ...defaults,
+      accounts: ["999999999999"],
+      groups: ["platform"],
+      categories: ["Storage", "Database"],
+      groupBy: "group" as const,
+      timeUnit: "fiscalYear" as const,
+      fiscalStartMonth: 7,
+    };
+    const decoded = decodeViewState(
+      encodeViewState(toSharedViewState(current, available)),
+    );
+    expect(decoded).not.toBeNull();
+    const { missing, ...resolved } = resolveViewState(decoded ?? {}, available);
+    expect({ ...defaults, ...decoded, ...resolved }).toEqual(current);
+    expect(hasMissingViewItems(missing)).toBe(false);
+  });
+});
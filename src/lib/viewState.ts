@@ -0,0 +1,232 @@
+import {
+  DEFAULT_FISCAL_START_MONTH,
+  type GroupBy,
+  TIME_UNITS,
+  type TimeUnit,
+} from "@/lib/aggregate";
+import { CHART_TYPES, type ChartType } from "@/lib/chartViews";
+import { isFiscalStartMonth } from "@/lib/periods";
+import {
+  DEFAULT_TOP_N_OPTIONS,
+  isTopNCount,
+  isTopNRanking,
+  type TopNOptions,
+} from "@/lib/topN";
+
+/**
+ * URL（ハッシュ）で共有する表示条件。
+ * 選択リストが undefined の場合は「すべて選択」、空配列は「何も選択しない」を表す。
+ * groups は groupDimension（省略時は開いた側で選択中の分類）のグループを表す。
+ */
+export type ViewState = {
+  accounts?: string[];
+  months?: string[];
+  services?: string[];
+  groups?: string[];
+  categories?: string[];
+  groupDimension?: string;
+  groupBy?: GroupBy;
+  timeUnit?: TimeUnit;
+  fiscalStartMonth?: number;
+  chartType?: ChartType;
+  topN?: TopNOptions;
+};
+
+// 現在の表示条件（グループの分類がなければ groupDimension は null）
+export type CurrentViewState = Required<Omit<ViewState, "groupDimension">> & {
+  groupDimension: string | null;
+};
+
+export type ViewStateAvailability = {
+  accounts: string[];
+  months: string[];
+  services: string[];
+  groups: string[];
+  categories: string[];
+};
+
+export type MissingViewItems = ViewStateAvailability;
+
+export type ResolvedViewState = {
+  accounts?: string[];
+  months?: string[];
+  services?: string[];
+  groups?: string[];
+  categories?: string[];
+  missing: MissingViewItems;
+};
+
+const PARAM_KEYS = {
+  accounts: "a",
+  months: "m",
+  services: "s",
+  groups: "gr",
+  categories: "ct",
+  groupDimension: "gd",
+  groupBy: "g",
+  timeUnit: "t",
+  fiscalStartMonth: "f",
+  chartType: "c",
+  // 上位のみ表示の件数と順位の基準（件数がなければ上位のみ表示はオフ）
+  topNCount: "n",
+  topNRankBy: "r",
+} as const;
+
+const LIST_KEYS = [
+  "accounts",
+  "months",
+  "services",
+  "groups",
+  "categories",
+] as const;
+
+const GROUP_BY_VALUES: readonly GroupBy[] = [
+  "service",
+  "account",
+  "group",
+  "category",
+];
+
+const isOneOf = <T extends string>(
+  values: readonly T[],
+  value: string | null,
+): value is T =>
+  value !== null && (values as readonly string[]).includes(value);
+
+// サービス名にはカンマが含まれうるため、リストは同じキーを繰り返して表す（空リストは空文字 1 つ）
+export const encodeViewState = (state: ViewState): string => {
+  const params = new URLSearchParams();
+  for (const key of LIST_KEYS) {
+    const values = state[key];
+    if (!values) continue;
+    if (values.length === 0) {
+      params.append(PARAM_KEYS[key], "");
+      continue;
+    }
+    for (const value of values) params.append(PARAM_KEYS[key], value);
+  }
+  if (state.groupDimension)
+    params.set(PARAM_KEYS.groupDimension, state.groupDimension);
+  if (state.groupBy) params.set(PARAM_KEYS.groupBy, state.groupBy);
+  if (state.timeUnit) params.set(PARAM_KEYS.timeUnit, state.timeUnit);
+  if (state.fiscalStartMonth)
+    params.set(PARAM_KEYS.fiscalStartMonth, String(state.fiscalStartMonth));
+  if (state.chartType) params.set(PARAM_KEYS.chartType, state.chartType);
+  if (state.topN) {
+    params.set(
+      PARAM_KEYS.topNCount,
+      state.topN.enabled ? String(state.topN.count) : "",
+    );
+    params.set(PARAM_KEYS.topNRankBy, state.topN.rankBy);
+  }
+  return params.toString();
+};
+
+/**
+ * location.hash（先頭の # は任意）から表示条件を読み取る。条件が含まれなければ null を返す。
+ */
+export const decodeViewState = (hash: string): ViewState | null => {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  const state: ViewState = {};
+  let found = false;
+
+  for (const key of LIST_KEYS) {
+    if (!params.has(PARAM_KEYS[key])) continue;
+    state[key] = params.getAll(PARAM_KEYS[key]).filter((value) => value !== "");
+    found = true;
+  }
+
+  const groupDimension = params.get(PARAM_KEYS.groupDimension);
+  if (groupDimension) {
+    state.groupDimension = groupDimension;
+    found = true;
+  }
+  const groupBy = params.get(PARAM_KEYS.groupBy);
+  if (isOneOf(GROUP_BY_VALUES, groupBy)) {
+    state.groupBy = groupBy;
+    found = true;
+  }
+  const timeUnit = params.get(PARAM_KEYS.timeUnit);
+  if (isOneOf(TIME_UNITS, timeUnit)) {
+    state.timeUnit = timeUnit;
+    found = true;
+  }
+  const fiscalStartMonth = Number(params.get(PARAM_KEYS.fiscalStartMonth));
+  if (isFiscalStartMonth(fiscalStartMonth)) {
+    state.fiscalStartMonth = fiscalStartMonth;
+    found = true;
+  }
+  const chartType = params.get(PARAM_KEYS.chartType);
+  if (isOneOf(CHART_TYPES, chartType)) {
+    state.chartType = chartType;
+    found = true;
+  }
+  // 件数が空なら上位のみ表示をオフにする
+  if (params.has(PARAM_KEYS.topNCount)) {
+    const count = Number(params.get(PARAM_KEYS.topNCount) || Number.NaN);
+    const rankBy = params.get(PARAM_KEYS.topNRankBy);
+    state.topN = {
+      enabled: isTopNCount(count),
+      count: isTopNCount(count) ? count : DEFAULT_TOP_N_OPTIONS.count,
+      rankBy: isTopNRanking(rankBy) ? rankBy : DEFAULT_TOP_N_OPTIONS.rankBy,
+    };
+    found = true;
+  }
+
+  return found ? state : null;
+};
+
+/**
+ * 共有された表示条件を読み込み済みデータと突き合わせ、存在する項目だけの選択と、
+ * 読み込まれていない項目の一覧を返す。
+ */
+export const resolveViewState = (
+  state: ViewState,
+  available: ViewStateAvailability,
+): ResolvedViewState => {
+  const resolved: ResolvedViewState = {
+    missing: {
+      accounts: [],
+      months: [],
+      services: [],
+      groups: [],
+      categories: [],
+    },
+  };
+  for (const key of LIST_KEYS) {
+    const values = state[key];
+    if (!values) continue;
+    const availableSet = new Set(available[key]);
+    resolved[key] = values.filter((value) => availableSet.has(value));
+    resolved.missing[key] = values.filter((value) => !availableSet.has(value));
+  }
+  return resolved;
+};
+
+export const hasMissingViewItems = (missing: MissingViewItems): boolean =>
+  LIST_KEYS.some((key) => missing[key].length > 0);
+
+// 既定値（すべて選択・サービス別・月次・4 月始まり・積み上げ棒・上位のみ表示オフ）と同じ項目は URL を短くするため省略する。
+// グループの分類は、グループを絞り込んでいるかグループ別に集計しているときだけ含める
+export const toSharedViewState = (
+  current: CurrentViewState,
+  available: ViewStateAvailability,
+): ViewState => {
+  const state: ViewState = {};
+  for (const key of LIST_KEYS) {
+    const selected = new Set(current[key]);
+    const isAll =
+      selected.size === available[key].length &&
+      available[key].every((value) => selected.has(value));
+    if (!isAll) state[key] = current[key];
+  }
+  if (current.groupDimension && (state.groups || current.groupBy === "group"))
+    state.groupDimension = current.groupDimension;
+  if (current.groupBy !== "service") state.groupBy = current.groupBy;
+  if (current.timeUnit !== "month") state.timeUnit = current.timeUnit;
+  if (current.fiscalStartMonth !== DEFAULT_FISCAL_START_MONTH)
+    state.fiscalStartMonth = current.fiscalStartMonth;
+  if (current.chartType !== "stacked") state.chartType = current.chartType;
+  if (current.topN.enabled) state.topN = current.topN;
+  return state;
+};